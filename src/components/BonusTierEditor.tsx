@@ -0,0 +1,286 @@
+import { useState, useMemo } from 'react';
+import { Zap, Settings2, Plus, Trash2, Check, History } from 'lucide-react';
+import { BonusTierRule, DriverType, DEFAULT_BONUS_THRESHOLDS, getBonusThresholds } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import { getTierRulesForDate, getTierVersionForDate, getWeekKey } from '@/lib/payroll';
+
+interface BonusTierEditorProps {
+  driverType: DriverType;
+  title: string;
+  accent: 'primary' | 'warning';
+  rules: BonusTierRule[];
+  onAddRules: (rules: Omit<BonusTierRule, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>[]) => Promise<void>;
+  onUpdateRule: (id: string, updates: Partial<BonusTierRule>) => Promise<void>;
+  onDeleteRule: (id: string) => Promise<void>;
+  // Hides editing for roles that cannot change pay rules
+  readOnly?: boolean;
+}
+
+const formatVersion = (version: string) => format(parseLocalDate(version), 'MMM d, yyyy');
+
+// Editable row for an existing tier
+const TierRow = ({
+  rule,
+  onUpdate,
+  onDelete,
+}: {
+  rule: BonusTierRule;
+  onUpdate: (id: string, updates: Partial<BonusTierRule>) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}) => {
+  const [minGross, setMinGross] = useState(String(rule.min_gross));
+  const [amount, setAmount] = useState(String(rule.amount));
+  const isDirty = Number(minGross) !== Number(rule.min_gross) || Number(amount) !== Number(rule.amount);
+
+  return (
+    <div className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-center">
+      <Input
+        type="number"
+        value={minGross}
+        onChange={(e) => setMinGross(e.target.value)}
+        min="0"
+        step="0.01"
+        className="input-dark"
+      />
+      <Input
+        type="number"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        min="0"
+        step="0.01"
+        className="input-dark"
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={!isDirty || minGross === '' || amount === ''}
+        onClick={() => onUpdate(rule.id, { min_gross: parseFloat(minGross), amount: parseFloat(amount) })}
+        className="h-8 w-8"
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onDelete(rule.id)}
+        className="h-8 w-8 text-destructive hover:text-destructive"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export const BonusTierEditor = ({
+  driverType,
+  title,
+  accent,
+  rules,
+  onAddRules,
+  onUpdateRule,
+  onDeleteRule,
+  readOnly = false,
+}: BonusTierEditorProps) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
+  const [newVersionDate, setNewVersionDate] = useState(getWeekKey(today));
+  const [newTier, setNewTier] = useState({ min_gross: '', amount: '' });
+
+  // Versions for this driver type, newest first
+  const versions = useMemo(() => {
+    const dates = new Set(rules.filter(r => r.driver_type === driverType).map(r => r.effective_from));
+    return [...dates].sort((a, b) => b.localeCompare(a));
+  }, [rules, driverType]);
+
+  const currentVersion = getTierVersionForDate(rules, driverType, today);
+  const thresholds = getBonusThresholds(driverType, getTierRulesForDate(rules, driverType, today));
+  const versionRules = rules.filter(r => r.driver_type === driverType && r.effective_from === selectedVersion);
+  const newVersionKey = newVersionDate ? getWeekKey(newVersionDate) : '';
+  const accentClass = accent === 'primary' ? 'text-primary' : 'text-warning';
+
+  const handleOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (open) {
+      setSelectedVersion(currentVersion ?? versions[0] ?? null);
+      setNewVersionDate(getWeekKey(today));
+    }
+  };
+
+  // Start a new version from the tiers in force on its effective week (or the defaults)
+  const handleCreateVersion = async () => {
+    const inForce = getTierRulesForDate(rules, driverType, newVersionKey);
+    const source = inForce.length > 0
+      ? inForce.map(r => [Number(r.min_gross), Number(r.amount)] as const)
+      : Object.entries(DEFAULT_BONUS_THRESHOLDS[driverType]).map(([minGross, amount]) => [Number(minGross), amount] as const);
+
+    await onAddRules(
+      source.map(([minGross, amount]) => ({
+        driver_type: driverType,
+        min_gross: minGross,
+        amount,
+        effective_from: newVersionKey,
+      }))
+    );
+    setSelectedVersion(newVersionKey);
+  };
+
+  const handleAddTier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedVersion) return;
+    await onAddRules([{
+      driver_type: driverType,
+      min_gross: parseFloat(newTier.min_gross),
+      amount: parseFloat(newTier.amount),
+      effective_from: selectedVersion,
+    }]);
+    setNewTier({ min_gross: '', amount: '' });
+  };
+
+  return (
+    <div className="glass-card p-4 sm:p-6">
+      <div className="flex items-start justify-between mb-3 sm:mb-4">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2">
+            <Zap className={`h-4 w-4 sm:h-5 sm:w-5 ${accentClass}`} />
+            {title}
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            {currentVersion ? `Effective since ${formatVersion(currentVersion)}` : 'Default tiers'}
+          </p>
+        </div>
+
+        {!readOnly && (
+          <Dialog open={isDialogOpen} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-2">
+                <Settings2 className="h-4 w-4" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-card border-border">
+              <DialogHeader>
+                <DialogTitle>{title}</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {versions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    These drivers use the default bonus tiers. Create a version to customize them from a given week.
+                  </p>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium flex items-center gap-2">
+                        <History className="h-4 w-4" />
+                        Version
+                      </label>
+                      <Select value={selectedVersion ?? undefined} onValueChange={setSelectedVersion}>
+                        <SelectTrigger className="input-dark">
+                          <SelectValue placeholder="Select a version" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-card border-border">
+                          {versions.map(version => (
+                            <SelectItem key={version} value={version}>
+                              From {formatVersion(version)}{version === currentVersion ? ' (current)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {selectedVersion && (
+                      <div className="space-y-2">
+                        <p className="text-xs text-muted-foreground">
+                          Changes apply to every week from {formatVersion(selectedVersion)} until the next version.
+                        </p>
+                        <div className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 text-xs text-muted-foreground">
+                          <span>Weekly gross ≥ ($)</span>
+                          <span>Bonus ($)</span>
+                        </div>
+                        {versionRules.map(rule => (
+                          <TierRow
+                            key={`${rule.id}-${rule.min_gross}-${rule.amount}`}
+                            rule={rule}
+                            onUpdate={onUpdateRule}
+                            onDelete={onDeleteRule}
+                          />
+                        ))}
+
+                        <form onSubmit={handleAddTier} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center pt-2">
+                          <Input
+                            type="number"
+                            value={newTier.min_gross}
+                            onChange={(e) => setNewTier({ ...newTier, min_gross: e.target.value })}
+                            placeholder="Threshold"
+                            min="0"
+                            step="0.01"
+                            className="input-dark"
+                            required
+                          />
+                          <Input
+                            type="number"
+                            value={newTier.amount}
+                            onChange={(e) => setNewTier({ ...newTier, amount: e.target.value })}
+                            placeholder="Bonus"
+                            min="0"
+                            step="0.01"
+                            className="input-dark"
+                            required
+                          />
+                          <Button type="submit" size="sm" className="btn-primary gap-1">
+                            <Plus className="h-4 w-4" />
+                            Add
+                          </Button>
+                        </form>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div className="space-y-2 pt-4 border-t border-border/50">
+                  <label className="text-sm font-medium">New Version Effective From</label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="date"
+                      value={newVersionDate}
+                      onChange={(e) => setNewVersionDate(e.target.value)}
+                      className="input-dark"
+                    />
+                    <Button
+                      type="button"
+                      onClick={handleCreateVersion}
+                      disabled={!newVersionKey || versions.includes(newVersionKey)}
+                      className="btn-primary"
+                    >
+                      Create Version
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {newVersionKey && versions.includes(newVersionKey)
+                      ? `A version already starts on ${formatVersion(newVersionKey)}.`
+                      : 'Starts on the Monday of the chosen week with a copy of the tiers in force at that date.'}
+                  </p>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 sm:gap-3">
+        {Object.entries(thresholds).map(([threshold, bonus]) => (
+          <div key={threshold} className="bg-muted/50 rounded-lg p-2 sm:p-3 text-center">
+            <p className="text-[10px] sm:text-xs text-muted-foreground mb-1">≥ ${Number(threshold).toLocaleString()}</p>
+            <p className={`${accentClass} font-bold text-sm sm:text-base`}>${Number(bonus).toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,77 @@
 import { useState, useMemo } from 'react';
-import { Plus, Gift, Zap, FileText, Trash2 } from 'lucide-react';
-import { Driver, Bonus, getBonusThresholds, COMPANY_DRIVER_BONUS_THRESHOLDS, OWNER_OPERATOR_BONUS_THRESHOLDS } from '@/types';
+import { Plus, Gift, Zap, FileText, Trash2, Scale, Lock } from 'lucide-react';
+import { Driver, Bonus, BonusTierRule, BonusType, CommissionPlan, LoadChargeFlags, LoadChargeRule, LoadChargeType, PayrollPeriod } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { format, parseISO, startOfWeek } from 'date-fns';
+import { BonusTierEditor } from './BonusTierEditor';
+import { CommissionPlanEditor, DispatcherOption } from './CommissionPlanEditor';
+import { ChargeRulesEditor } from './ChargeRulesEditor';
+import { isDateLocked } from '@/lib/payroll';
+import { ExportSheet } from '@/lib/export';
+import { ExportMenu } from './ExportMenu';
+import { useOrganization } from '@/hooks/useOrganization';
 
 interface BonusesManagerProps {
   drivers: Driver[];
   bonuses: Bonus[];
-  onAddBonus: (bonus: Omit<Bonus, 'id' | 'user_id' | 'bonus_type' | 'created_at'>) => Promise<Bonus | null>;
+  bonusTierRules: BonusTierRule[];
+  commissionPlans: CommissionPlan[];
+  dispatchers: DispatcherOption[];
+  payrollPeriods: PayrollPeriod[];
+  // Bonuses are listed a month at a time (YYYY-MM)
+  selectedMonth: string;
+  onMonthChange: (month: string) => void;
+  onAddBonus: (bonus: Omit<Bonus, 'id' | 'organization_id' | 'user_id' | 'bonus_type' | 'created_at'>) => Promise<Bonus | null>;
   onDeleteBonus: (id: string) => Promise<void>;
+  onAddBonusTierRules: (rules: Omit<BonusTierRule, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>[]) => Promise<void>;
+  onUpdateBonusTierRule: (id: string, updates: Partial<BonusTierRule>) => Promise<void>;
+  onDeleteBonusTierRule: (id: string) => Promise<void>;
+  onAddCommissionPlan: (plan: Omit<CommissionPlan, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<CommissionPlan | null>;
+  onUpdateCommissionPlan: (id: string, updates: Partial<CommissionPlan>) => Promise<void>;
+  onDeleteCommissionPlan: (id: string) => Promise<void>;
+  chargeRules: LoadChargeRule[];
+  onSaveChargeRule: (chargeType: LoadChargeType, flags: LoadChargeFlags) => Promise<boolean>;
+  onDeleteChargeRule: (id: string) => Promise<void>;
 }
 
-export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }: BonusesManagerProps) => {
+const BONUS_TYPE_BADGES: Record<BonusType, string> = {
+  automatic: 'status-full',
+  manual: 'status-partial',
+  adjustment: 'bg-muted text-muted-foreground',
+};
+
+const BonusTypeIcon = ({ type }: { type: BonusType }) => {
+  if (type === 'automatic') return <Zap className="h-4 w-4 text-primary" />;
+  if (type === 'adjustment') return <Scale className="h-4 w-4 text-muted-foreground" />;
+  return <FileText className="h-4 w-4 text-warning" />;
+};
+
+export const BonusesManager = ({
+  drivers,
+  bonuses,
+  bonusTierRules,
+  commissionPlans,
+  dispatchers,
+  payrollPeriods,
+  selectedMonth,
+  onMonthChange,
+  onAddBonus,
+  onDeleteBonus,
+  onAddBonusTierRules,
+  onUpdateBonusTierRule,
+  onDeleteBonusTierRule,
+  onAddCommissionPlan,
+  onUpdateCommissionPlan,
+  onDeleteCommissionPlan,
+  chargeRules,
+  onSaveChargeRule,
+  onDeleteChargeRule,
+}: BonusesManagerProps) => {
+  const { permissions } = useOrganization();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
     amount: '',
@@ -31,6 +87,12 @@ export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }:
     });
   };
 
+  const isSelectedDateLocked = isDateLocked(payrollPeriods, formData.date);
+
+  // Adjustments are payroll corrections; every other bonus belongs to dispatching
+  const canDeleteBonus = (bonus: Bonus) =>
+    bonus.bonus_type === 'adjustment' ? permissions.canManagePayroll : permissions.canEditBonuses;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const weekStart = format(startOfWeek(parseISO(formData.date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
@@ -52,10 +114,10 @@ export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }:
   };
 
   const sortedBonuses = useMemo(() => {
-    return [...bonuses].sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-  }, [bonuses]);
+    return bonuses
+      .filter(b => b.date.startsWith(selectedMonth))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [bonuses, selectedMonth]);
 
   const automaticBonuses = sortedBonuses.filter(b => b.bonus_type === 'automatic');
   const manualBonuses = sortedBonuses.filter(b => b.bonus_type === 'manual');
@@ -63,6 +125,26 @@ export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }:
   const totalAutomatic = automaticBonuses.reduce((sum, b) => sum + Number(b.amount), 0);
   const totalManual = manualBonuses.reduce((sum, b) => sum + Number(b.amount), 0);
 
+  const buildExportSheet = (): ExportSheet => ({
+    name: 'Bonuses',
+    columns: [
+      { header: 'Type' },
+      { header: 'Driver', width: 20 },
+      { header: 'Date' },
+      { header: 'Week Start' },
+      { header: 'Note', width: 40 },
+      { header: 'Amount', type: 'currency' },
+    ],
+    rows: sortedBonuses.map(bonus => [
+      bonus.bonus_type,
+      getDriverName(bonus.driver_id),
+      bonus.date,
+      bonus.week_start,
+      bonus.note,
+      Number(bonus.amount),
+    ]),
+  });
+
   return (
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
       {/* Header */}
@@ -72,110 +154,145 @@ export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }:
           <p className="text-sm text-muted-foreground">Automatic and manual bonus management</p>
         </div>
 
-        <Dialog open={isDialogOpen} onOpenChange={(open) => {
-          setIsDialogOpen(open);
-          if (!open) resetForm();
-        }}>
-          <DialogTrigger asChild>
-            <Button className="btn-primary gap-2 w-full sm:w-auto">
-              <Plus className="h-4 w-4" />
-              Add Manual Bonus
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="bg-card border-border">
-            <DialogHeader>
-              <DialogTitle>Add Manual Bonus</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Amount ($)</label>
-                  <Input
-                    type="number"
-                    value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                    placeholder="0.00"
-                    min="0"
-                    step="0.01"
-                    className="input-dark"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Date</label>
-                  <Input
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                    className="input-dark"
-                    required
-                  />
-                </div>
-              </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="month"
+            value={selectedMonth}
+            onChange={(e) => e.target.value && onMonthChange(e.target.value)}
+            className="h-10 rounded-lg border border-border bg-card px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Note / Reason</label>
-                <Textarea
-                  value={formData.note}
-                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
-                  placeholder="Reason for this bonus..."
-                  className="input-dark"
-                  rows={3}
-                  maxLength={500}
-                />
-              </div>
+          {permissions.canExport && (
+            <ExportMenu
+              fileName={`bonuses-${selectedMonth}`}
+              getSheet={buildExportSheet}
+              disabled={sortedBonuses.length === 0}
+            />
+          )}
 
-              <div className="flex justify-end gap-3 pt-4">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
+          {permissions.canEditBonuses && (
+            <Dialog open={isDialogOpen} onOpenChange={(open) => {
+              setIsDialogOpen(open);
+              if (!open) resetForm();
+            }}>
+              <DialogTrigger asChild>
+                <Button className="btn-primary gap-2 w-full sm:w-auto">
+                  <Plus className="h-4 w-4" />
+                  Add Manual Bonus
                 </Button>
-                <Button type="submit" className="btn-primary">
-                  Add Bonus
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
-      </div>
+              </DialogTrigger>
+              <DialogContent className="bg-card border-border">
+                <DialogHeader>
+                  <DialogTitle>Add Manual Bonus</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Amount ($)</label>
+                      <Input
+                        type="number"
+                        value={formData.amount}
+                        onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                        placeholder="0.00"
+                        min="0"
+                        step="0.01"
+                        className="input-dark"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Date</label>
+                      <Input
+                        type="date"
+                        value={formData.date}
+                        onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                        className="input-dark"
+                        required
+                      />
+                    </div>
+                  </div>
 
-      {/* Bonus Threshold Reference */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
-        <div className="glass-card p-4 sm:p-6">
-          <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 flex items-center gap-2">
-            <Zap className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
-            Company Driver Thresholds
-          </h3>
-          <div className="grid grid-cols-3 gap-2 sm:gap-3">
-            {Object.entries(COMPANY_DRIVER_BONUS_THRESHOLDS).map(([threshold, bonus]) => (
-              <div key={threshold} className="bg-muted/50 rounded-lg p-2 sm:p-3 text-center">
-                <p className="text-[10px] sm:text-xs text-muted-foreground mb-1">≥ ${parseInt(threshold).toLocaleString()}</p>
-                <p className="text-primary font-bold text-sm sm:text-base">${bonus}</p>
-              </div>
-            ))}
-          </div>
-        </div>
+                  {isSelectedDateLocked && (
+                    <p className="text-xs text-destructive">
+                      This date is in a closed payroll period. Record an adjustment from the dashboard instead.
+                    </p>
+                  )}
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Note / Reason</label>
+                    <Textarea
+                      value={formData.note}
+                      onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                      placeholder="Reason for this bonus..."
+                      className="input-dark"
+                      rows={3}
+                      maxLength={500}
+                    />
+                  </div>
 
-        <div className="glass-card p-4 sm:p-6">
-          <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 flex items-center gap-2">
-            <Zap className="h-4 w-4 sm:h-5 sm:w-5 text-warning" />
-            Owner Operator Thresholds
-          </h3>
-          <div className="grid grid-cols-3 gap-2 sm:gap-3">
-            {Object.entries(OWNER_OPERATOR_BONUS_THRESHOLDS).map(([threshold, bonus]) => (
-              <div key={threshold} className="bg-muted/50 rounded-lg p-2 sm:p-3 text-center">
-                <p className="text-[10px] sm:text-xs text-muted-foreground mb-1">≥ ${parseInt(threshold).toLocaleString()}</p>
-                <p className="text-warning font-bold text-sm sm:text-base">${bonus}</p>
-              </div>
-            ))}
-          </div>
+                  <div className="flex justify-end gap-3 pt-4">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" className="btn-primary" disabled={isSelectedDateLocked}>
+                      Add Bonus
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </div>
 
+      {/* Commission Plan */}
+      <CommissionPlanEditor
+        plans={commissionPlans}
+        dispatchers={dispatchers}
+        onAddPlan={onAddCommissionPlan}
+        onUpdatePlan={onUpdateCommissionPlan}
+        onDeletePlan={onDeleteCommissionPlan}
+        readOnly={!permissions.canManageRules}
+      />
+
+      {/* Bonus Tiers */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+        <BonusTierEditor
+          driverType="company_driver"
+          title="Company Driver Thresholds"
+          accent="primary"
+          rules={bonusTierRules}
+          onAddRules={onAddBonusTierRules}
+          onUpdateRule={onUpdateBonusTierRule}
+          onDeleteRule={onDeleteBonusTierRule}
+          readOnly={!permissions.canManageRules}
+        />
+        <BonusTierEditor
+          driverType="owner_operator"
+          title="Owner Operator Thresholds"
+          accent="warning"
+          rules={bonusTierRules}
+          onAddRules={onAddBonusTierRules}
+          onUpdateRule={onUpdateBonusTierRule}
+          onDeleteRule={onDeleteBonusTierRule}
+          readOnly={!permissions.canManageRules}
+        />
+      </div>
+
+      {/* Load Charges */}
+      <ChargeRulesEditor
+        rules={chargeRules}
+        onSaveRule={onSaveChargeRule}
+        onDeleteRule={onDeleteChargeRule}
+        readOnly={!permissions.canManageRules}
+        canReset={permissions.canResetChargeRules}
+      />
+
       {/* Stats */}
       <div className="grid grid-cols-3 gap-2 sm:gap-4">
         <div className="glass-card p-3 sm:p-4">
           <p className="text-xs sm:text-sm text-muted-foreground">Total Bonuses</p>
-          <p className="text-xl sm:text-2xl font-bold font-mono">{bonuses.length}</p>
+          <p className="text-xl sm:text-2xl font-bold font-mono">{sortedBonuses.length}</p>
         </div>
         <div className="glass-card p-3 sm:p-4">
           <p className="text-xs sm:text-sm text-muted-foreground">Automatic</p>
@@ -210,7 +327,7 @@ export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }:
                 <tr>
                   <td colSpan={6} className="px-4 py-12 text-center text-muted-foreground">
                     <Gift className="h-12 w-12 mx-auto mb-3 opacity-30" />
-                    <p>No bonuses yet. Add loads to trigger automatic bonuses.</p>
+                    <p>No bonuses this month. Add loads to trigger automatic bonuses.</p>
                   </td>
                 </tr>
               ) : (
@@ -218,14 +335,8 @@ export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }:
                   <tr key={bonus.id} className="table-row-hover">
                     <td className="px-4 py-4">
                       <div className="flex items-center gap-2">
-                        {bonus.bonus_type === 'automatic' ? (
-                          <Zap className="h-4 w-4 text-primary" />
-                        ) : (
-                          <FileText className="h-4 w-4 text-warning" />
-                        )}
-                        <span className={`status-badge ${
-                          bonus.bonus_type === 'automatic' ? 'status-full' : 'status-partial'
-                        }`}>
+                        <BonusTypeIcon type={bonus.bonus_type} />
+                        <span className={`status-badge ${BONUS_TYPE_BADGES[bonus.bonus_type]}`}>
                           {bonus.bonus_type}
                         </span>
                       </div>
@@ -245,14 +356,20 @@ export const BonusesManager = ({ drivers, bonuses, onAddBonus, onDeleteBonus }:
                       </span>
                     </td>
                     <td className="px-4 py-4 text-right">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => onDeleteBonus(bonus.id)}
-                        className="h-8 w-8 text-destructive hover:text-destructive"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {isDateLocked(payrollPeriods, bonus.date) ? (
+                        <span className="inline-flex h-8 w-8 items-center justify-center text-muted-foreground" title="Dated in a closed payroll period">
+                          <Lock className="h-4 w-4" />
+                        </span>
+                      ) : canDeleteBonus(bonus) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onDeleteBonus(bonus.id)}
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </td>
                   </tr>
                 ))
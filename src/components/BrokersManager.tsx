@@ -0,0 +1,389 @@
+import { useMemo, useState } from 'react';
+import { Plus, Pencil, Trash2, Building2, Search, Phone, Mail } from 'lucide-react';
+import { Broker } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import { ExportSheet, toCents } from '@/lib/export';
+import { formatRpm, getMileageRpm } from '@/lib/mileage';
+import type { BrokerInput } from '@/hooks/useBrokers';
+import { useBrokerStats } from '@/hooks/useMetrics';
+import { useOrganization } from '@/hooks/useOrganization';
+import { ExportMenu } from './ExportMenu';
+
+interface BrokersManagerProps {
+  brokers: Broker[];
+  selectedMonth: string;
+  onMonthChange: (month: string) => void;
+  onAddBroker: (broker: BrokerInput) => Promise<Broker | null>;
+  onUpdateBroker: (id: string, updates: Partial<BrokerInput>) => Promise<boolean>;
+  onDeleteBroker: (id: string) => Promise<void>;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  mc_number: '',
+  contact_name: '',
+  contact_email: '',
+  contact_phone: '',
+  payment_terms_days: '',
+  credit_notes: '',
+};
+
+const formatTerms = (days: number | null) => (days === null ? '-' : days === 0 ? 'Due on receipt' : `Net ${days}`);
+
+export const BrokersManager = ({
+  brokers,
+  selectedMonth,
+  onMonthChange,
+  onAddBroker,
+  onUpdateBroker,
+  onDeleteBroker,
+}: BrokersManagerProps) => {
+  const { permissions } = useOrganization();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBroker, setEditingBroker] = useState<Broker | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const monthStart = startOfMonth(parseLocalDate(`${selectedMonth}-01`));
+  const { data: brokerStats } = useBrokerStats(
+    format(monthStart, 'yyyy-MM-dd'),
+    format(endOfMonth(monthStart), 'yyyy-MM-dd')
+  );
+
+  // Brokers matching the search, busiest first for the month
+  const rows = useMemo(() => {
+    const statsById = new Map(brokerStats?.map(row => [row.broker_id, row]));
+    const query = searchQuery.trim().toLowerCase();
+    return brokers
+      .filter(broker => !query
+        || broker.name.toLowerCase().includes(query)
+        || broker.mc_number?.toLowerCase().includes(query)
+        || broker.contact_name?.toLowerCase().includes(query))
+      .map(broker => {
+        const stats = statsById.get(broker.id);
+        return {
+          broker,
+          loadCount: stats?.load_count ?? 0,
+          gross: stats?.gross ?? 0,
+          averageRate: stats?.average_rate ?? 0,
+          rpm: stats ? getMileageRpm(stats).rpm : null,
+        };
+      })
+      .sort((a, b) => b.gross - a.gross || a.broker.name.localeCompare(b.broker.name));
+  }, [brokers, brokerStats, searchQuery]);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingBroker(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const brokerData: BrokerInput = {
+      name: formData.name.trim(),
+      mc_number: formData.mc_number.trim() || null,
+      contact_name: formData.contact_name.trim() || null,
+      contact_email: formData.contact_email.trim() || null,
+      contact_phone: formData.contact_phone.trim() || null,
+      payment_terms_days: formData.payment_terms_days ? parseInt(formData.payment_terms_days, 10) : null,
+      credit_notes: formData.credit_notes.trim() || null,
+    };
+    const saved = editingBroker
+      ? await onUpdateBroker(editingBroker.id, brokerData)
+      : await onAddBroker(brokerData);
+    // Keep the form open so a duplicate MC number can be corrected
+    if (!saved) return;
+    setIsDialogOpen(false);
+    resetForm();
+  };
+
+  const handleEdit = (broker: Broker) => {
+    setEditingBroker(broker);
+    setFormData({
+      name: broker.name,
+      mc_number: broker.mc_number ?? '',
+      contact_name: broker.contact_name ?? '',
+      contact_email: broker.contact_email ?? '',
+      contact_phone: broker.contact_phone ?? '',
+      payment_terms_days: broker.payment_terms_days?.toString() ?? '',
+      credit_notes: broker.credit_notes ?? '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  // The directory with the selected month's figures
+  const buildExportSheet = (): ExportSheet => ({
+    name: 'Brokers',
+    columns: [
+      { header: 'Broker', width: 28 },
+      { header: 'MC Number' },
+      { header: 'Contact', width: 20 },
+      { header: 'Email', width: 24 },
+      { header: 'Phone' },
+      { header: 'Payment Terms (days)', type: 'number' },
+      { header: 'Loads', type: 'number' },
+      { header: 'Gross', type: 'currency' },
+      { header: 'Average Rate', type: 'currency' },
+      { header: 'Average RPM', type: 'currency' },
+      { header: 'Credit Notes', width: 36 },
+    ],
+    rows: rows.map(({ broker, loadCount, gross, averageRate, rpm }) => [
+      broker.name,
+      broker.mc_number,
+      broker.contact_name,
+      broker.contact_email,
+      broker.contact_phone,
+      broker.payment_terms_days,
+      loadCount,
+      gross,
+      toCents(averageRate),
+      rpm === null ? null : toCents(rpm),
+      broker.credit_notes,
+    ]),
+  });
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold">Brokers</h2>
+          <p className="text-sm text-muted-foreground">Who the freight comes from and how it pays</p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="month"
+            value={selectedMonth}
+            onChange={(e) => e.target.value && onMonthChange(e.target.value)}
+            className="h-10 rounded-lg border border-border bg-card px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+
+          {permissions.canExport && (
+            <ExportMenu
+              fileName={`brokers-${selectedMonth}`}
+              getSheet={buildExportSheet}
+              disabled={rows.length === 0}
+            />
+          )}
+
+          {permissions.canManageBrokers && (
+            <Dialog open={isDialogOpen} onOpenChange={(open) => {
+              setIsDialogOpen(open);
+              if (!open) resetForm();
+            }}>
+              <DialogTrigger asChild>
+                <Button className="btn-primary gap-2 w-full sm:w-auto">
+                  <Plus className="h-4 w-4" />
+                  Add Broker
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="bg-card border-border">
+                <DialogHeader>
+                  <DialogTitle>{editingBroker ? 'Edit Broker' : 'Add New Broker'}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2 col-span-2">
+                      <label className="text-sm font-medium">Name</label>
+                      <Input
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        placeholder="e.g., Acme Logistics"
+                        className="input-dark"
+                        required
+                        maxLength={100}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">MC Number</label>
+                      <Input
+                        value={formData.mc_number}
+                        onChange={(e) => setFormData({ ...formData, mc_number: e.target.value })}
+                        placeholder="e.g., 123456"
+                        className="input-dark"
+                        maxLength={20}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Contact Name</label>
+                      <Input
+                        value={formData.contact_name}
+                        onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                        className="input-dark"
+                        maxLength={100}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Phone</label>
+                      <Input
+                        type="tel"
+                        value={formData.contact_phone}
+                        onChange={(e) => setFormData({ ...formData, contact_phone: e.target.value })}
+                        className="input-dark"
+                        maxLength={30}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2 col-span-2">
+                      <label className="text-sm font-medium">Email</label>
+                      <Input
+                        type="email"
+                        value={formData.contact_email}
+                        onChange={(e) => setFormData({ ...formData, contact_email: e.target.value })}
+                        className="input-dark"
+                        maxLength={255}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Terms (days)</label>
+                      <Input
+                        type="number"
+                        value={formData.payment_terms_days}
+                        onChange={(e) => setFormData({ ...formData, payment_terms_days: e.target.value })}
+                        placeholder="30"
+                        min="0"
+                        step="1"
+                        className="input-dark"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Credit Notes</label>
+                    <Textarea
+                      value={formData.credit_notes}
+                      onChange={(e) => setFormData({ ...formData, credit_notes: e.target.value })}
+                      placeholder="Credit score, quick pay, factoring..."
+                      className="input-dark"
+                      rows={3}
+                      maxLength={1000}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-3 pt-4">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" className="btn-primary">
+                      {editingBroker ? 'Update Broker' : 'Add Broker'}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search by name, MC number, or contact..."
+          className="pl-10 input-dark"
+        />
+      </div>
+
+      {/* Brokers Table */}
+      <div className="glass-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Broker</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Contact</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Terms</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Loads</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Gross</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Avg Rate</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Avg RPM</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/30">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-12 text-center text-muted-foreground">
+                    <Building2 className="h-12 w-12 mx-auto mb-3 opacity-30" />
+                    <p>{searchQuery ? 'No brokers match your search.' : 'No brokers yet. Add the brokers you book loads with.'}</p>
+                  </td>
+                </tr>
+              ) : (
+                rows.map(({ broker, loadCount, gross, averageRate, rpm }) => (
+                  <tr key={broker.id} className="table-row-hover">
+                    <td className="px-4 py-4">
+                      <span className="font-medium">{broker.name}</span>
+                      {broker.mc_number && (
+                        <p className="text-xs font-mono text-muted-foreground">MC {broker.mc_number}</p>
+                      )}
+                      {broker.credit_notes && (
+                        <p className="text-xs text-muted-foreground mt-1 max-w-xs truncate" title={broker.credit_notes}>
+                          {broker.credit_notes}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 text-sm">
+                      {broker.contact_name && <p>{broker.contact_name}</p>}
+                      {broker.contact_email && (
+                        <a href={`mailto:${broker.contact_email}`} className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                          <Mail className="h-3 w-3" />
+                          {broker.contact_email}
+                        </a>
+                      )}
+                      {broker.contact_phone && (
+                        <a href={`tel:${broker.contact_phone}`} className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                          <Phone className="h-3 w-3" />
+                          {broker.contact_phone}
+                        </a>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 text-sm">{formatTerms(broker.payment_terms_days)}</td>
+                    <td className="px-4 py-4 text-right font-mono">{loadCount}</td>
+                    <td className="px-4 py-4 text-right font-mono font-semibold">${gross.toLocaleString()}</td>
+                    <td className="px-4 py-4 text-right font-mono">
+                      {loadCount > 0 ? `$${Math.round(averageRate).toLocaleString()}` : '-'}
+                    </td>
+                    <td className="px-4 py-4 text-right font-mono">{formatRpm(rpm)}</td>
+                    <td className="px-4 py-4 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {permissions.canManageBrokers && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(broker)}
+                            className="h-8 w-8"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {permissions.canDeleteBrokers && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onDeleteBroker(broker.id)}
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { Receipt, RotateCcw } from 'lucide-react';
+import { LoadChargeFlags, LoadChargeRule, LoadChargeType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { LOAD_CHARGE_LABELS, LOAD_CHARGE_TYPES, getChargeFlags } from '@/lib/loadCharges';
+
+interface ChargeRulesEditorProps {
+  rules: LoadChargeRule[];
+  onSaveRule: (chargeType: LoadChargeType, flags: LoadChargeFlags) => Promise<boolean>;
+  onDeleteRule: (id: string) => Promise<void>;
+  // Hides editing for roles that cannot change pay rules
+  readOnly?: boolean;
+  // Lets the role put a charge type back on the default flags
+  canReset?: boolean;
+}
+
+const FLAG_COLUMNS: { key: keyof LoadChargeFlags; label: string }[] = [
+  { key: 'counts_toward_driver_gross', label: 'Driver gross' },
+  { key: 'counts_toward_commission', label: 'Commission' },
+  { key: 'reimbursement_only', label: 'Reimbursement' },
+];
+
+/** What each type of accessorial charge counts toward. */
+export const ChargeRulesEditor = ({ rules, onSaveRule, onDeleteRule, readOnly = false, canReset = false }: ChargeRulesEditorProps) => {
+  // A reimbursement is passed through to the driver and counts toward nothing else
+  const toggle = (chargeType: LoadChargeType, key: keyof LoadChargeFlags, checked: boolean) => {
+    const flags = { ...getChargeFlags(rules, chargeType), [key]: checked };
+    if (key === 'reimbursement_only' && checked) {
+      flags.counts_toward_driver_gross = false;
+      flags.counts_toward_commission = false;
+    }
+    onSaveRule(chargeType, flags);
+  };
+
+  return (
+    <div className="glass-card p-4 sm:p-6">
+      <div className="mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2">
+          <Receipt className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+          Load Charges
+        </h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          Changes apply to charges saved from now on
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1.4fr_1fr_1fr_1fr_2rem] gap-2 text-xs text-muted-foreground">
+          <span>Charge</span>
+          {FLAG_COLUMNS.map(column => (
+            <span key={column.key} className="text-center">{column.label}</span>
+          ))}
+          <span />
+        </div>
+        {LOAD_CHARGE_TYPES.map(chargeType => {
+          const flags = getChargeFlags(rules, chargeType);
+          const rule = rules.find(r => r.charge_type === chargeType);
+          return (
+            <div key={chargeType} className="grid grid-cols-[1.4fr_1fr_1fr_1fr_2rem] gap-2 items-center">
+              <span className="text-sm font-medium">{LOAD_CHARGE_LABELS[chargeType]}</span>
+              {FLAG_COLUMNS.map(column => (
+                <div key={column.key} className="flex justify-center">
+                  <Switch
+                    checked={flags[column.key]}
+                    onCheckedChange={(checked) => toggle(chargeType, column.key, checked)}
+                    disabled={readOnly || (column.key !== 'reimbursement_only' && flags.reimbursement_only)}
+                    aria-label={`${LOAD_CHARGE_LABELS[chargeType]}: ${column.label}`}
+                  />
+                </div>
+              ))}
+              {rule && canReset ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDeleteRule(rule.id)}
+                  className="h-8 w-8"
+                  aria-label={`Reset ${LOAD_CHARGE_LABELS[chargeType]} to the default`}
+                  title="Reset to the default"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              ) : (
+                <span />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
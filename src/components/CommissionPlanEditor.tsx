@@ -0,0 +1,339 @@
+import { useState, useMemo } from 'react';
+import { Percent, Settings2, Plus, Trash2, Check, Users } from 'lucide-react';
+import { CommissionPlan, LoadType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import { formatCommissionPercent, getCommissionPlanForDate, getPlanPercent, getPlanTonuPercent } from '@/lib/payroll';
+
+export interface DispatcherOption {
+  id: string;
+  name: string;
+}
+
+interface CommissionPlanEditorProps {
+  plans: CommissionPlan[];
+  dispatchers: DispatcherOption[];
+  onAddPlan: (plan: Omit<CommissionPlan, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<CommissionPlan | null>;
+  onUpdatePlan: (id: string, updates: Partial<CommissionPlan>) => Promise<void>;
+  onDeletePlan: (id: string) => Promise<void>;
+  // Hides editing for roles that cannot change pay rules
+  readOnly?: boolean;
+}
+
+// Select value standing for the default plan (no dispatcher)
+const DEFAULT_SCOPE = 'default';
+const LOAD_TYPES: LoadType[] = ['FULL', 'PARTIAL'];
+
+const formatVersion = (version: string) => format(parseLocalDate(version), 'MMM d, yyyy');
+
+// Editable row for an existing plan version
+const PlanRow = ({
+  plan,
+  isCurrent,
+  onUpdate,
+  onDelete,
+}: {
+  plan: CommissionPlan;
+  isCurrent: boolean;
+  onUpdate: (id: string, updates: Partial<CommissionPlan>) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}) => {
+  const [fullPercent, setFullPercent] = useState(String(plan.full_percent));
+  const [partialPercent, setPartialPercent] = useState(String(plan.partial_percent));
+  const [tonuPercent, setTonuPercent] = useState(String(plan.tonu_percent));
+  const isDirty = Number(fullPercent) !== Number(plan.full_percent) ||
+    Number(partialPercent) !== Number(plan.partial_percent) ||
+    Number(tonuPercent) !== Number(plan.tonu_percent);
+
+  return (
+    <div className="grid grid-cols-[1.4fr_1fr_1fr_1fr_auto_auto] gap-2 items-center">
+      <div className="text-sm">
+        <p className="font-medium truncate">{plan.name}</p>
+        <p className="text-xs text-muted-foreground">
+          From {formatVersion(plan.effective_from)}{isCurrent ? ' (current)' : ''}
+        </p>
+      </div>
+      <Input
+        type="number"
+        value={fullPercent}
+        onChange={(e) => setFullPercent(e.target.value)}
+        min="0"
+        max="100"
+        step="0.01"
+        className="input-dark"
+      />
+      <Input
+        type="number"
+        value={partialPercent}
+        onChange={(e) => setPartialPercent(e.target.value)}
+        min="0"
+        max="100"
+        step="0.01"
+        className="input-dark"
+      />
+      <Input
+        type="number"
+        value={tonuPercent}
+        onChange={(e) => setTonuPercent(e.target.value)}
+        min="0"
+        max="100"
+        step="0.01"
+        className="input-dark"
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={!isDirty || fullPercent === '' || partialPercent === '' || tonuPercent === ''}
+        onClick={() => onUpdate(plan.id, {
+          full_percent: parseFloat(fullPercent),
+          partial_percent: parseFloat(partialPercent),
+          tonu_percent: parseFloat(tonuPercent),
+        })}
+        className="h-8 w-8"
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onDelete(plan.id)}
+        className="h-8 w-8 text-destructive hover:text-destructive"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export const CommissionPlanEditor = ({
+  plans,
+  dispatchers,
+  onAddPlan,
+  onUpdatePlan,
+  onDeletePlan,
+  readOnly = false,
+}: CommissionPlanEditorProps) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [scope, setScope] = useState(DEFAULT_SCOPE);
+  const [newPlan, setNewPlan] = useState({ name: '', effective_from: today, full_percent: '', partial_percent: '', tonu_percent: '' });
+
+  const dispatcherId = scope === DEFAULT_SCOPE ? null : scope;
+  const currentDefault = getCommissionPlanForDate(plans, null, today);
+  const overrideCount = new Set(plans.filter(p => p.dispatcher_id !== null).map(p => p.dispatcher_id)).size;
+
+  // Versions for the selected scope, newest first
+  const scopePlans = useMemo(() => {
+    return plans
+      .filter(p => p.dispatcher_id === dispatcherId)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+  }, [plans, dispatcherId]);
+
+  const currentScopePlan = scopePlans.find(p => p.effective_from <= today);
+  const isDuplicateDate = scopePlans.some(p => p.effective_from === newPlan.effective_from);
+
+  // Prefill a new version with the rates that apply to the scope today
+  const resetNewPlan = (nextScope: string) => {
+    const inForce = getCommissionPlanForDate(plans, nextScope === DEFAULT_SCOPE ? null : nextScope, today);
+    setNewPlan({
+      name: inForce?.name ?? 'Standard',
+      effective_from: today,
+      full_percent: String(getPlanPercent(inForce, 'FULL')),
+      partial_percent: String(getPlanPercent(inForce, 'PARTIAL')),
+      tonu_percent: String(getPlanTonuPercent(inForce)),
+    });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (open) {
+      setScope(DEFAULT_SCOPE);
+      resetNewPlan(DEFAULT_SCOPE);
+    }
+  };
+
+  const handleScopeChange = (value: string) => {
+    setScope(value);
+    resetNewPlan(value);
+  };
+
+  const handleAddPlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await onAddPlan({
+      dispatcher_id: dispatcherId,
+      name: newPlan.name.trim() || 'Standard',
+      effective_from: newPlan.effective_from,
+      full_percent: parseFloat(newPlan.full_percent),
+      partial_percent: parseFloat(newPlan.partial_percent),
+      tonu_percent: parseFloat(newPlan.tonu_percent),
+    });
+    if (result) resetNewPlan(scope);
+  };
+
+  return (
+    <div className="glass-card p-4 sm:p-6">
+      <div className="flex items-start justify-between mb-3 sm:mb-4">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2">
+            <Percent className="h-4 w-4 sm:h-5 sm:w-5 text-success" />
+            Commission Plan
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            {currentDefault
+              ? `${currentDefault.name}, effective since ${formatVersion(currentDefault.effective_from)}`
+              : 'Default rates'}
+            {overrideCount > 0 && ` · ${overrideCount} dispatcher override${overrideCount === 1 ? '' : 's'}`}
+          </p>
+        </div>
+
+        {!readOnly && (
+          <Dialog open={isDialogOpen} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-2">
+                <Settings2 className="h-4 w-4" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-card border-border max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Commission Plans</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium flex items-center gap-2">
+                    <Users className="h-4 w-4" />
+                    Applies To
+                  </label>
+                  <Select value={scope} onValueChange={handleScopeChange}>
+                    <SelectTrigger className="input-dark">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border">
+                      <SelectItem value={DEFAULT_SCOPE}>All dispatchers (default)</SelectItem>
+                      {dispatchers.map(dispatcher => (
+                        <SelectItem key={dispatcher.id} value={dispatcher.id}>
+                          {dispatcher.name} (override)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {scopePlans.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {dispatcherId
+                      ? 'This dispatcher follows the default plan. Add a version to give them their own rates.'
+                      : `No plan yet, so the default rates apply (FULL ${formatCommissionPercent(getPlanPercent(null, 'FULL'))}, PARTIAL ${formatCommissionPercent(getPlanPercent(null, 'PARTIAL'))}, TONU ${formatCommissionPercent(getPlanTonuPercent(null))}).`}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-[1.4fr_1fr_1fr_1fr_auto_auto] gap-2 text-xs text-muted-foreground">
+                      <span>Version</span>
+                      {LOAD_TYPES.map(type => <span key={type}>{type} (%)</span>)}
+                      <span>TONU (%)</span>
+                    </div>
+                    {scopePlans.map(plan => (
+                      <PlanRow
+                        key={`${plan.id}-${plan.full_percent}-${plan.partial_percent}-${plan.tonu_percent}`}
+                        plan={plan}
+                        isCurrent={plan.id === currentScopePlan?.id}
+                        onUpdate={onUpdatePlan}
+                        onDelete={onDeletePlan}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <form onSubmit={handleAddPlan} className="space-y-3 pt-4 border-t border-border/50">
+                  <h4 className="text-sm font-medium">New Version</h4>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={newPlan.name}
+                      onChange={(e) => setNewPlan({ ...newPlan, name: e.target.value })}
+                      placeholder="Agreement name"
+                      className="input-dark"
+                      maxLength={100}
+                    />
+                    <Input
+                      type="date"
+                      value={newPlan.effective_from}
+                      onChange={(e) => setNewPlan({ ...newPlan, effective_from: e.target.value })}
+                      className="input-dark"
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                    <Input
+                      type="number"
+                      value={newPlan.full_percent}
+                      onChange={(e) => setNewPlan({ ...newPlan, full_percent: e.target.value })}
+                      placeholder="FULL %"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      className="input-dark"
+                      required
+                    />
+                    <Input
+                      type="number"
+                      value={newPlan.partial_percent}
+                      onChange={(e) => setNewPlan({ ...newPlan, partial_percent: e.target.value })}
+                      placeholder="PARTIAL %"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      className="input-dark"
+                      required
+                    />
+                    <Input
+                      type="number"
+                      value={newPlan.tonu_percent}
+                      onChange={(e) => setNewPlan({ ...newPlan, tonu_percent: e.target.value })}
+                      placeholder="TONU %"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      className="input-dark"
+                      required
+                    />
+                    <Button type="submit" size="sm" className="btn-primary gap-1" disabled={isDuplicateDate}>
+                      <Plus className="h-4 w-4" />
+                      Add
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {isDuplicateDate
+                      ? `A version already starts on ${formatVersion(newPlan.effective_from)}.`
+                      : 'Applies to loads delivered from this date until the next version.'}
+                  </p>
+                </form>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 sm:gap-3">
+        {LOAD_TYPES.map(type => (
+          <div key={type} className="bg-muted/50 rounded-lg p-2 sm:p-3 text-center">
+            <p className="text-[10px] sm:text-xs text-muted-foreground mb-1">{type} loads</p>
+            <p className="text-success font-bold text-sm sm:text-base">
+              {formatCommissionPercent(getPlanPercent(currentDefault, type))}
+            </p>
+          </div>
+        ))}
+        <div className="bg-muted/50 rounded-lg p-2 sm:p-3 text-center">
+          <p className="text-[10px] sm:text-xs text-muted-foreground mb-1">TONU fees</p>
+          <p className="text-success font-bold text-sm sm:text-base">
+            {formatCommissionPercent(getPlanTonuPercent(currentDefault))}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
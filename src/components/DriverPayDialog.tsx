@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { Plus, Trash2, Wallet, MinusCircle, Banknote, CalendarX } from 'lucide-react';
+import { Driver, DriverAdvance, DriverDeduction, DriverPayBasis, DriverPayPlan, DriverType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import { DRIVER_PAY_BASIS_LABELS, formatPayPlan, getDriverPayPlanForDate } from '@/lib/driverSettlement';
+import type { DriverAdvanceInput, DriverDeductionInput, DriverPayPlanInput } from '@/hooks/useDriverPay';
+
+interface DriverPayDialogProps {
+  driver: Driver | null;
+  // Driver type in force for the settlement week
+  driverType: DriverType;
+  weekStart: string;
+  weekEnd: string;
+  payPlans: DriverPayPlan[];
+  deductions: DriverDeduction[];
+  // Advances paid in the settlement week
+  advances: DriverAdvance[];
+  onClose: () => void;
+  onAddPayPlan: (plan: DriverPayPlanInput) => Promise<DriverPayPlan | null>;
+  onDeletePayPlan: (id: string) => Promise<void>;
+  onAddDeduction: (deduction: DriverDeductionInput) => Promise<DriverDeduction | null>;
+  onEndDeduction: (id: string, endsOn: string) => Promise<void>;
+  onDeleteDeduction: (id: string) => Promise<void>;
+  onAddAdvance: (advance: DriverAdvanceInput) => Promise<DriverAdvance | null>;
+  onDeleteAdvance: (id: string) => Promise<void>;
+}
+
+const PAY_BASES: DriverPayBasis[] = ['percent_of_gross', 'per_mile', 'flat_per_load'];
+
+// Unit the rate is entered in, by basis
+const RATE_LABELS: Record<DriverPayBasis, string> = {
+  percent_of_gross: 'Percent (%)',
+  per_mile: 'Per loaded mile ($)',
+  flat_per_load: 'Per load ($)',
+};
+
+const formatDate = (dateString: string) => format(parseLocalDate(dateString), 'MMM d, yyyy');
+
+/** A driver's pay plan versions, recurring deductions and the advances of the settlement week. */
+export const DriverPayDialog = ({
+  driver,
+  driverType,
+  weekStart,
+  weekEnd,
+  payPlans,
+  deductions,
+  advances,
+  onClose,
+  onAddPayPlan,
+  onDeletePayPlan,
+  onAddDeduction,
+  onEndDeduction,
+  onDeleteDeduction,
+  onAddAdvance,
+  onDeleteAdvance,
+}: DriverPayDialogProps) => {
+  const [plan, setPlan] = useState({ pay_basis: 'percent_of_gross' as DriverPayBasis, rate: '', effective_from: weekStart });
+  const [deduction, setDeduction] = useState({ description: '', amount: '', starts_on: weekStart });
+  const [advance, setAdvance] = useState({ amount: '', advanced_on: weekStart, note: '' });
+
+  const driverId = driver?.id ?? '';
+  const driverPlans = payPlans.filter(p => p.driver_id === driverId);
+  const currentPlan = getDriverPayPlanForDate(payPlans, driverId, weekEnd);
+  const driverDeductions = deductions.filter(d => d.driver_id === driverId);
+  const driverAdvances = advances.filter(a => a.driver_id === driverId);
+  // Recurring deductions are an owner operator arrangement; drivers who have some keep seeing them
+  const showDeductions = driverType === 'owner_operator' || driverDeductions.length > 0;
+
+  const handleAddPlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!driver) return;
+    const added = await onAddPayPlan({
+      driver_id: driver.id,
+      pay_basis: plan.pay_basis,
+      rate: parseFloat(plan.rate),
+      effective_from: plan.effective_from,
+    });
+    if (added) setPlan({ ...plan, rate: '' });
+  };
+
+  const handleAddDeduction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!driver) return;
+    const added = await onAddDeduction({
+      driver_id: driver.id,
+      description: deduction.description.trim(),
+      amount: parseFloat(deduction.amount),
+      starts_on: deduction.starts_on,
+      ends_on: null,
+    });
+    if (added) setDeduction({ description: '', amount: '', starts_on: weekStart });
+  };
+
+  const handleAddAdvance = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!driver) return;
+    const added = await onAddAdvance({
+      driver_id: driver.id,
+      amount: parseFloat(advance.amount),
+      advanced_on: advance.advanced_on,
+      note: advance.note.trim() || null,
+    });
+    if (added) setAdvance({ amount: '', advanced_on: weekStart, note: '' });
+  };
+
+  return (
+    <Dialog open={!!driver} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pay for {driver?.driver_name}</DialogTitle>
+        </DialogHeader>
+
+        {/* Pay plan */}
+        <section className="space-y-3">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <Wallet className="h-4 w-4 text-primary" />
+            Pay Plan
+            <span className="text-xs font-normal text-muted-foreground">
+              {currentPlan ? `${formatPayPlan(currentPlan)} this week` : 'None this week'}
+            </span>
+          </h4>
+          {driverPlans.length > 0 && (
+            <ul className="space-y-1">
+              {driverPlans.map(p => (
+                <li key={p.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    <span className="font-mono">{formatPayPlan(p)}</span>
+                    <span className="text-muted-foreground"> from {formatDate(p.effective_from)}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => onDeletePayPlan(p.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddPlan} className="grid grid-cols-[1.4fr_1fr_1fr_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Basis</label>
+              <Select value={plan.pay_basis} onValueChange={(value: DriverPayBasis) => setPlan({ ...plan, pay_basis: value })}>
+                <SelectTrigger className="input-dark">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {PAY_BASES.map(basis => (
+                    <SelectItem key={basis} value={basis}>{DRIVER_PAY_BASIS_LABELS[basis]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">{RATE_LABELS[plan.pay_basis]}</label>
+              <Input
+                type="number"
+                value={plan.rate}
+                onChange={(e) => setPlan({ ...plan, rate: e.target.value })}
+                min="0"
+                max={plan.pay_basis === 'percent_of_gross' ? '100' : undefined}
+                step={plan.pay_basis === 'per_mile' ? '0.0001' : '0.01'}
+                className="input-dark"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Effective from</label>
+              <Input
+                type="date"
+                value={plan.effective_from}
+                onChange={(e) => setPlan({ ...plan, effective_from: e.target.value })}
+                className="input-dark"
+                required
+              />
+            </div>
+            <Button type="submit" size="icon" className="btn-primary">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </section>
+
+        {/* Recurring deductions */}
+        {showDeductions && (
+          <section className="space-y-3 pt-4 border-t border-border/50">
+            <h4 className="text-sm font-semibold flex items-center gap-2">
+              <MinusCircle className="h-4 w-4 text-warning" />
+              Weekly Deductions
+            </h4>
+            {driverDeductions.length > 0 && (
+              <ul className="space-y-1">
+                {driverDeductions.map(d => (
+                  <li key={d.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {d.description} <span className="font-mono">${Number(d.amount).toLocaleString()}/wk</span>
+                      <span className="text-muted-foreground">
+                        {' '}from {formatDate(d.starts_on)}{d.ends_on ? ` until ${formatDate(d.ends_on)}` : ''}
+                      </span>
+                    </span>
+                    <span className="flex items-center">
+                      {(d.ends_on === null || d.ends_on > weekEnd) && d.starts_on <= weekEnd && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 gap-1 text-xs"
+                          title="Take it this week for the last time"
+                          onClick={() => onEndDeduction(d.id, weekEnd)}
+                        >
+                          <CalendarX className="h-3.5 w-3.5" />
+                          End
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => onDeleteDeduction(d.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleAddDeduction} className="grid grid-cols-[1.4fr_1fr_1fr_auto] gap-2 items-end">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Description</label>
+                <Input
+                  value={deduction.description}
+                  onChange={(e) => setDeduction({ ...deduction, description: e.target.value })}
+                  placeholder="e.g., Insurance, ELD"
+                  className="input-dark"
+                  required
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Per week ($)</label>
+                <Input
+                  type="number"
+                  value={deduction.amount}
+                  onChange={(e) => setDeduction({ ...deduction, amount: e.target.value })}
+                  min="0.01"
+                  step="0.01"
+                  className="input-dark"
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Starts</label>
+                <Input
+                  type="date"
+                  value={deduction.starts_on}
+                  onChange={(e) => setDeduction({ ...deduction, starts_on: e.target.value })}
+                  className="input-dark"
+                  required
+                />
+              </div>
+              <Button type="submit" size="icon" className="btn-primary">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          </section>
+        )}
+
+        {/* Advances */}
+        <section className="space-y-3 pt-4 border-t border-border/50">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <Banknote className="h-4 w-4 text-success" />
+            Advances This Week
+          </h4>
+          {driverAdvances.length > 0 && (
+            <ul className="space-y-1">
+              {driverAdvances.map(a => (
+                <li key={a.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    <span className="font-mono">${Number(a.amount).toLocaleString()}</span>
+                    <span className="text-muted-foreground"> on {formatDate(a.advanced_on)}</span>
+                    {a.note && <span className="text-muted-foreground"> · {a.note}</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => onDeleteAdvance(a.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddAdvance} className="grid grid-cols-[1fr_1fr_1.4fr_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Amount ($)</label>
+              <Input
+                type="number"
+                value={advance.amount}
+                onChange={(e) => setAdvance({ ...advance, amount: e.target.value })}
+                min="0.01"
+                step="0.01"
+                className="input-dark"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Paid on</label>
+              <Input
+                type="date"
+                value={advance.advanced_on}
+                onChange={(e) => setAdvance({ ...advance, advanced_on: e.target.value })}
+                min={weekStart}
+                max={weekEnd}
+                className="input-dark"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Note</label>
+              <Input
+                value={advance.note}
+                onChange={(e) => setAdvance({ ...advance, note: e.target.value })}
+                placeholder="Optional"
+                className="input-dark"
+                maxLength={200}
+              />
+            </div>
+            <Button type="submit" size="icon" className="btn-primary">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+};
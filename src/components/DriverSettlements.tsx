@@ -0,0 +1,378 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileText, Settings2, Wallet, AlertTriangle } from 'lucide-react';
+import { Driver, DriverAdvance, DriverDeduction, DriverPayPlan, DriverTypeChange, Load } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { format, startOfWeek, addWeeks, subWeeks, endOfWeek } from 'date-fns';
+import { toast } from 'sonner';
+import { parseLocalDate } from '@/lib/utils';
+import { ExportSheet } from '@/lib/export';
+import { buildDriverSettlement, downloadDriverSettlement, DriverSettlement, formatPayPlan, getDriverPayPlanForDate } from '@/lib/driverSettlement';
+import { ExportMenu } from './ExportMenu';
+import { DriverPayDialog } from './DriverPayDialog';
+import { useOrganization } from '@/hooks/useOrganization';
+import type { DriverAdvanceInput, DriverDeductionInput, DriverPayPlanInput } from '@/hooks/useDriverPay';
+
+interface DriverSettlementsProps {
+  drivers: Driver[];
+  // Loads of the data window, which always covers the selected week
+  loads: Load[];
+  driverTypeHistory: DriverTypeChange[];
+  payPlans: DriverPayPlan[];
+  deductions: DriverDeduction[];
+  advances: DriverAdvance[];
+  selectedWeek: string;
+  onWeekChange: (week: string) => void;
+  onAddPayPlan: (plan: DriverPayPlanInput) => Promise<DriverPayPlan | null>;
+  onDeletePayPlan: (id: string) => Promise<void>;
+  onAddDeduction: (deduction: DriverDeductionInput) => Promise<DriverDeduction | null>;
+  onEndDeduction: (id: string, endsOn: string) => Promise<void>;
+  onDeleteDeduction: (id: string) => Promise<void>;
+  onAddAdvance: (advance: DriverAdvanceInput) => Promise<DriverAdvance | null>;
+  onDeleteAdvance: (id: string) => Promise<void>;
+}
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const DRIVER_TYPE_LABELS = {
+  owner_operator: { label: 'Owner Operator', className: 'text-warning' },
+  company_driver: { label: 'Company Driver', className: 'text-primary' },
+};
+
+export const DriverSettlements = ({
+  drivers,
+  loads,
+  driverTypeHistory,
+  payPlans,
+  deductions,
+  advances,
+  selectedWeek,
+  onWeekChange,
+  onAddPayPlan,
+  onDeletePayPlan,
+  onAddDeduction,
+  onEndDeduction,
+  onDeleteDeduction,
+  onAddAdvance,
+  onDeleteAdvance,
+}: DriverSettlementsProps) => {
+  const { organization, permissions } = useOrganization();
+  const [editingDriverId, setEditingDriverId] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const weekStart = parseLocalDate(selectedWeek);
+  const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
+  const weekEndString = format(weekEnd, 'yyyy-MM-dd');
+
+  // Active drivers, plus inactive ones who still delivered loads this week
+  const settlements = useMemo(() => {
+    return drivers
+      .map(driver => buildDriverSettlement({
+        driver,
+        weekStart: selectedWeek,
+        loads,
+        plans: payPlans,
+        deductions,
+        advances,
+        driverTypeHistory,
+      }))
+      .filter(s => s.driver.status === 'active' || s.loadLines.length > 0)
+      .sort((a, b) => (a.driver.truck_number || '').localeCompare(b.driver.truck_number || ''));
+  }, [drivers, loads, payPlans, deductions, advances, driverTypeHistory, selectedWeek]);
+
+  const editingSettlement = settlements.find(s => s.driver.id === editingDriverId) ?? null;
+
+  const navigateWeek = (direction: 'prev' | 'next') => {
+    const newWeek = direction === 'prev'
+      ? subWeeks(weekStart, 1)
+      : addWeeks(weekStart, 1);
+    onWeekChange(format(startOfWeek(newWeek, { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+  };
+
+  const handleDownload = async (settlement: DriverSettlement) => {
+    setDownloadingId(settlement.driver.id);
+    try {
+      await downloadDriverSettlement(settlement, organization?.name ?? '');
+    } catch (error) {
+      console.error('Error generating settlement:', error);
+      toast.error('Failed to generate settlement statement');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  // Plan shown for the week: the one in force on Sunday, or several if it changed mid-week
+  const describePlans = (settlement: DriverSettlement) => {
+    const plans = new Map(settlement.loadLines.filter(l => l.plan).map(l => [l.plan.id, l.plan]));
+    if (plans.size === 0) {
+      const current = getDriverPayPlanForDate(payPlans, settlement.driver.id, weekEndString);
+      if (current) plans.set(current.id, current);
+    }
+    return [...plans.values()].map(formatPayPlan).join(', ');
+  };
+
+  const isUnpaid = (settlement: DriverSettlement) => settlement.loadLines.some(l => !l.plan);
+  const isMissingMiles = (settlement: DriverSettlement) => settlement.loadLines.some(l => l.missingMiles);
+
+  // One row per driver with the week's totals, amounts as plain numbers
+  const buildExportSheet = (): ExportSheet => ({
+    name: `Week of ${selectedWeek}`,
+    columns: [
+      { header: 'Truck №' },
+      { header: 'Driver', width: 24 },
+      { header: 'Type', width: 16 },
+      { header: 'Pay Plan', width: 20 },
+      { header: 'Loads', type: 'number' },
+      { header: 'Gross', type: 'currency' },
+      { header: 'Load Pay', type: 'currency' },
+      { header: 'Reimbursements', type: 'currency' },
+      { header: 'Deductions', type: 'currency' },
+      { header: 'Advances', type: 'currency' },
+      { header: 'Net Pay', type: 'currency' },
+    ],
+    rows: settlements.map(s => [
+      s.driver.truck_number,
+      s.driver.driver_name,
+      DRIVER_TYPE_LABELS[s.driverType].label,
+      describePlans(s),
+      s.loadLines.length,
+      s.gross,
+      s.loadPay,
+      s.reimbursements,
+      s.totalDeductions,
+      s.totalAdvances,
+      s.netPay,
+    ]),
+  });
+
+  const totals = settlements.reduce(
+    (sum, s) => ({ gross: sum.gross + s.gross, netPay: sum.netPay + s.netPay }),
+    { gross: 0, netPay: 0 }
+  );
+
+  const renderWarnings = (settlement: DriverSettlement) => {
+    if (!isUnpaid(settlement) && !isMissingMiles(settlement)) return null;
+    const message = isUnpaid(settlement)
+      ? 'Some loads have no pay plan in force'
+      : 'Some loads are missing loaded miles';
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-warning" title={message}>
+        <AlertTriangle className="h-3 w-3" />
+        {isUnpaid(settlement) ? 'No pay plan' : 'Miles missing'}
+      </span>
+    );
+  };
+
+  const renderActions = (settlement: DriverSettlement) => (
+    <div className="flex items-center justify-end gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title="Pay settings"
+        onClick={() => setEditingDriverId(settlement.driver.id)}
+      >
+        <Settings2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title="Download statement"
+        disabled={downloadingId === settlement.driver.id}
+        onClick={() => handleDownload(settlement)}
+      >
+        <FileText className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {/* Header with Week Navigation */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Wallet className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Driver Settlements</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigateWeek('prev')}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium min-w-[180px] text-center">
+            {format(weekStart, 'MM-dd-yyyy')} - {format(weekEnd, 'MM-dd-yyyy')}
+          </span>
+          <Button variant="ghost" size="icon" onClick={() => navigateWeek('next')}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {permissions.canExport && (
+            <ExportMenu
+              fileName={`settlements-${selectedWeek}`}
+              getSheet={buildExportSheet}
+              disabled={settlements.length === 0}
+              size="sm"
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:gap-4">
+        <div className="glass-card p-4">
+          <p className="text-xs sm:text-sm text-muted-foreground">Gross this week</p>
+          <p className="text-xl sm:text-2xl font-bold font-mono">{formatMoney(totals.gross)}</p>
+        </div>
+        <div className="glass-card p-4">
+          <p className="text-xs sm:text-sm text-muted-foreground">Net pay this week</p>
+          <p className="text-xl sm:text-2xl font-bold font-mono text-success">{formatMoney(totals.netPay)}</p>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="glass-card overflow-hidden hidden lg:block">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-primary/10 hover:bg-primary/10">
+                <TableHead className="font-semibold text-foreground whitespace-nowrap">Truck №</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap min-w-[150px]">Driver</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap">Pay plan</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap text-right">Loads</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap text-right">Gross</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap text-right">Load pay</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap text-right">Reimb.</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap text-right">Deductions</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap text-right">Advances</TableHead>
+                <TableHead className="font-semibold text-foreground whitespace-nowrap text-right">Net pay</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {settlements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={11} className="text-center py-8 text-muted-foreground">
+                    No active drivers found. Add drivers to settle their pay.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                settlements.map((settlement, index) => {
+                  const typeLabel = DRIVER_TYPE_LABELS[settlement.driverType];
+                  return (
+                    <TableRow
+                      key={settlement.driver.id}
+                      className={index % 2 === 0 ? 'bg-muted/30' : 'bg-background'}
+                    >
+                      <TableCell className="font-mono font-medium">
+                        {settlement.driver.truck_number || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-semibold uppercase">{settlement.driver.driver_name}</p>
+                        <p className={`text-xs ${typeLabel.className}`}>{typeLabel.label}</p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <p>{describePlans(settlement) || <span className="text-muted-foreground">None</span>}</p>
+                        {renderWarnings(settlement)}
+                      </TableCell>
+                      <TableCell className="font-mono text-right">{settlement.loadLines.length}</TableCell>
+                      <TableCell className="font-mono text-right">{formatMoney(settlement.gross)}</TableCell>
+                      <TableCell className="font-mono text-right">{formatMoney(settlement.loadPay)}</TableCell>
+                      <TableCell className="font-mono text-right">{formatMoney(settlement.reimbursements)}</TableCell>
+                      <TableCell className="font-mono text-right text-destructive">
+                        {settlement.totalDeductions > 0 ? `-${formatMoney(settlement.totalDeductions)}` : formatMoney(0)}
+                      </TableCell>
+                      <TableCell className="font-mono text-right text-destructive">
+                        {settlement.totalAdvances > 0 ? `-${formatMoney(settlement.totalAdvances)}` : formatMoney(0)}
+                      </TableCell>
+                      <TableCell className={`font-mono font-bold text-right ${settlement.netPay < 0 ? 'text-destructive' : ''}`}>
+                        {formatMoney(settlement.netPay)}
+                      </TableCell>
+                      <TableCell>{renderActions(settlement)}</TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Mobile Card View */}
+      <div className="lg:hidden space-y-3">
+        {settlements.length === 0 && (
+          <div className="glass-card p-8 text-center text-muted-foreground">
+            No active drivers found. Add drivers to settle their pay.
+          </div>
+        )}
+        {settlements.map(settlement => {
+          const typeLabel = DRIVER_TYPE_LABELS[settlement.driverType];
+          return (
+            <div key={settlement.driver.id} className="glass-card p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-semibold uppercase">{settlement.driver.driver_name}</p>
+                  <p className="text-xs">
+                    <span className="text-muted-foreground">Truck № </span>
+                    <span className="font-mono">{settlement.driver.truck_number || '-'}</span>
+                    <span className={`ml-2 ${typeLabel.className}`}>{typeLabel.label}</span>
+                  </p>
+                </div>
+                {renderActions(settlement)}
+              </div>
+              <div className="text-sm">
+                <span className="text-muted-foreground">Plan: </span>
+                {describePlans(settlement) || 'None'}
+                <div>{renderWarnings(settlement)}</div>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                  <span className="text-muted-foreground">Gross</span>
+                  <p className="font-mono">{formatMoney(settlement.gross)}</p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Load pay</span>
+                  <p className="font-mono">{formatMoney(settlement.loadPay)}</p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Reimb.</span>
+                  <p className="font-mono">{formatMoney(settlement.reimbursements)}</p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Deductions</span>
+                  <p className="font-mono text-destructive">{formatMoney(settlement.totalDeductions)}</p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Advances</span>
+                  <p className="font-mono text-destructive">{formatMoney(settlement.totalAdvances)}</p>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Net pay</span>
+                  <p className={`font-mono font-bold ${settlement.netPay < 0 ? 'text-destructive' : ''}`}>
+                    {formatMoney(settlement.netPay)}
+                  </p>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <DriverPayDialog
+        key={editingDriverId ?? 'none'}
+        driver={editingSettlement?.driver ?? null}
+        driverType={editingSettlement?.driverType ?? 'company_driver'}
+        weekStart={selectedWeek}
+        weekEnd={weekEndString}
+        payPlans={payPlans}
+        deductions={deductions}
+        advances={advances}
+        onClose={() => setEditingDriverId(null)}
+        onAddPayPlan={onAddPayPlan}
+        onDeletePayPlan={onDeletePayPlan}
+        onAddDeduction={onAddDeduction}
+        onEndDeduction={onEndDeduction}
+        onDeleteDeduction={onDeleteDeduction}
+        onAddAdvance={onAddAdvance}
+        onDeleteAdvance={onDeleteAdvance}
+      />
+    </div>
+  );
+};
@@ -1,33 +1,46 @@
 import { useState, useMemo } from 'react';
 import { Plus, User, TrendingUp, Calendar, Pencil, Trash2, Truck, Building2 } from 'lucide-react';
-import { Driver, Load, SystemState, getBonusThresholds } from '@/types';
+import { Driver, BonusTierRule, DriverTypeChange, SystemState } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { format, startOfWeek, addWeeks, subWeeks, endOfWeek, isWithinInterval } from 'date-fns';
+import { format, startOfWeek, addWeeks, subWeeks } from 'date-fns';
 import { WeeklyGrossTable } from './WeeklyGrossTable';
 import { parseLocalDate } from '@/lib/utils';
+import {
+  calculateAutomaticBonus,
+  getFirstBonusThreshold,
+  getDriverTypeForDate,
+  getTierRulesForDate,
+  getWeekKey,
+} from '@/lib/payroll';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useWeeklyGross } from '@/hooks/useMetrics';
+import { formatRpm, getMileageRpm } from '@/lib/mileage';
 
 interface DriversManagerProps {
   drivers: Driver[];
-  loads: Load[];
+  bonusTierRules: BonusTierRule[];
+  driverTypeHistory: DriverTypeChange[];
   systemState: SystemState;
-  onAddDriver: (driver: Omit<Driver, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Driver | null>;
-  onUpdateDriver: (id: string, updates: Partial<Driver>) => Promise<void>;
+  onAddDriver: (driver: Omit<Driver, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Driver | null>;
+  onUpdateDriver: (id: string, updates: Partial<Driver>, typeEffectiveFrom?: string) => Promise<void>;
   onDeleteDriver: (id: string) => Promise<void>;
   onWeekChange: (week: string) => void;
 }
 
 export const DriversManager = ({
   drivers,
-  loads,
+  bonusTierRules,
+  driverTypeHistory,
   systemState,
   onAddDriver,
   onUpdateDriver,
   onDeleteDriver,
   onWeekChange,
 }: DriversManagerProps) => {
+  const { permissions } = useOrganization();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingDriver, setEditingDriver] = useState<Driver | null>(null);
   const [formData, setFormData] = useState({
@@ -35,12 +48,19 @@ export const DriversManager = ({
     driver_type: 'company_driver' as 'owner_operator' | 'company_driver',
     status: 'active' as 'active' | 'inactive',
     truck_number: '',
+    type_effective_from: getWeekKey(format(new Date(), 'yyyy-MM-dd')),
   });
 
   const selectedWeek = parseLocalDate(systemState.selectedWeek);
 
   const resetForm = () => {
-    setFormData({ driver_name: '', driver_type: 'company_driver', status: 'active', truck_number: '' });
+    setFormData({
+      driver_name: '',
+      driver_type: 'company_driver',
+      status: 'active',
+      truck_number: '',
+      type_effective_from: getWeekKey(format(new Date(), 'yyyy-MM-dd')),
+    });
     setEditingDriver(null);
   };
 
@@ -53,7 +73,7 @@ export const DriversManager = ({
       truck_number: formData.truck_number || null,
     };
     if (editingDriver) {
-      await onUpdateDriver(editingDriver.id, driverData);
+      await onUpdateDriver(editingDriver.id, driverData, formData.type_effective_from);
     } else {
       await onAddDriver(driverData);
     }
@@ -68,59 +88,30 @@ export const DriversManager = ({
       driver_type: driver.driver_type,
       status: driver.status,
       truck_number: driver.truck_number || '',
+      type_effective_from: getWeekKey(format(new Date(), 'yyyy-MM-dd')),
     });
     setIsDialogOpen(true);
   };
 
-  const calculateWeeklyGross = (driverId: string, weekStart: Date): number => {
-    const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-    
-    return loads
-      .filter(load => {
-        const deliveryDate = parseLocalDate(load.delivery_date);
-        return (
-          load.driver_id === driverId &&
-          isWithinInterval(deliveryDate, { start: weekStart, end: weekEnd })
-        );
-      })
-      .reduce((sum, load) => sum + Number(load.rate), 0);
-  };
-
-  const calculateAutomaticBonus = (weeklyGross: number, driverType: 'owner_operator' | 'company_driver'): number => {
-    const thresholds = getBonusThresholds(driverType);
-    let bonus = 0;
-    const sortedThresholds = Object.keys(thresholds)
-      .map(Number)
-      .sort((a, b) => b - a);
-    
-    for (const threshold of sortedThresholds) {
-      if (weeklyGross >= threshold) {
-        bonus = thresholds[threshold];
-        break;
-      }
-    }
-    
-    return bonus;
-  };
-
-  const getFirstBonusThreshold = (driverType: 'owner_operator' | 'company_driver'): number => {
-    const thresholds = getBonusThresholds(driverType);
-    return Math.min(...Object.keys(thresholds).map(Number));
-  };
+  const { data: weeklyGrossByDriver } = useWeeklyGross(systemState.selectedWeek);
 
   const driverStats = useMemo(() => {
     return drivers.map(driver => {
-      const weeklyGross = calculateWeeklyGross(driver.id, selectedWeek);
-      const bonusAmount = calculateAutomaticBonus(weeklyGross, driver.driver_type);
-      const firstThreshold = getFirstBonusThreshold(driver.driver_type);
+      const week = weeklyGrossByDriver?.get(driver.id);
+      const weeklyGross = week?.gross ?? 0;
+      const driverType = getDriverTypeForDate(driver, driverTypeHistory, systemState.selectedWeek);
+      const weekRules = getTierRulesForDate(bonusTierRules, driverType, systemState.selectedWeek);
+      const bonusAmount = calculateAutomaticBonus(weeklyGross, driverType, weekRules);
+      const firstThreshold = getFirstBonusThreshold(driverType, weekRules);
       return {
         driver,
         weeklyGross,
+        ...(week ? getMileageRpm(week) : { rpm: null, allInRpm: null }),
         bonusAmount,
         firstThreshold,
       };
     });
-  }, [drivers, loads, selectedWeek]);
+  }, [drivers, weeklyGrossByDriver, bonusTierRules, driverTypeHistory, systemState.selectedWeek]);
 
   const navigateWeek = (direction: 'prev' | 'next') => {
     const newWeek = direction === 'prev' 
@@ -138,101 +129,119 @@ export const DriversManager = ({
           <p className="text-sm text-muted-foreground">Driver performance and weekly stats</p>
         </div>
 
-        <Dialog open={isDialogOpen} onOpenChange={(open) => {
-          setIsDialogOpen(open);
-          if (!open) resetForm();
-        }}>
-          <DialogTrigger asChild>
-            <Button className="btn-primary gap-2 w-full sm:w-auto">
-              <Plus className="h-4 w-4" />
-              Add Driver
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="bg-card border-border">
-            <DialogHeader>
-              <DialogTitle>{editingDriver ? 'Edit Driver' : 'Add New Driver'}</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Truck №</label>
-                  <Input
-                    value={formData.truck_number}
-                    onChange={(e) => setFormData({ ...formData, truck_number: e.target.value })}
-                    placeholder="e.g., 0101"
-                    className="input-dark"
-                    maxLength={20}
-                  />
+        {permissions.canManageDrivers && (
+          <Dialog open={isDialogOpen} onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button className="btn-primary gap-2 w-full sm:w-auto">
+                <Plus className="h-4 w-4" />
+                Add Driver
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-card border-border">
+              <DialogHeader>
+                <DialogTitle>{editingDriver ? 'Edit Driver' : 'Add New Driver'}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Truck №</label>
+                    <Input
+                      value={formData.truck_number}
+                      onChange={(e) => setFormData({ ...formData, truck_number: e.target.value })}
+                      placeholder="e.g., 0101"
+                      className="input-dark"
+                      maxLength={20}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Driver Name</label>
+                    <Input
+                      value={formData.driver_name}
+                      onChange={(e) => setFormData({ ...formData, driver_name: e.target.value })}
+                      placeholder="e.g., John Smith"
+                      className="input-dark"
+                      required
+                      maxLength={100}
+                    />
+                  </div>
                 </div>
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Driver Name</label>
-                  <Input
-                    value={formData.driver_name}
-                    onChange={(e) => setFormData({ ...formData, driver_name: e.target.value })}
-                    placeholder="e.g., John Smith"
-                    className="input-dark"
-                    required
-                    maxLength={100}
-                  />
+                  <label className="text-sm font-medium">Driver Type</label>
+                  <Select
+                    value={formData.driver_type}
+                    onValueChange={(value: 'owner_operator' | 'company_driver') => 
+                      setFormData({ ...formData, driver_type: value })
+                    }
+                  >
+                    <SelectTrigger className="input-dark">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border">
+                      <SelectItem value="company_driver">
+                        <div className="flex items-center gap-2">
+                          <Building2 className="h-4 w-4" />
+                          Company Driver
+                        </div>
+                      </SelectItem>
+                      <SelectItem value="owner_operator">
+                        <div className="flex items-center gap-2">
+                          <Truck className="h-4 w-4" />
+                          Owner Operator
+                        </div>
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Driver Type</label>
-                <Select
-                  value={formData.driver_type}
-                  onValueChange={(value: 'owner_operator' | 'company_driver') => 
-                    setFormData({ ...formData, driver_type: value })
-                  }
-                >
-                  <SelectTrigger className="input-dark">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="bg-card border-border">
-                    <SelectItem value="company_driver">
-                      <div className="flex items-center gap-2">
-                        <Building2 className="h-4 w-4" />
-                        Company Driver
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="owner_operator">
-                      <div className="flex items-center gap-2">
-                        <Truck className="h-4 w-4" />
-                        Owner Operator
-                      </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Status</label>
-                <Select
-                  value={formData.status}
-                  onValueChange={(value: 'active' | 'inactive') => 
-                    setFormData({ ...formData, status: value })
-                  }
-                >
-                  <SelectTrigger className="input-dark">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="bg-card border-border">
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="inactive">Inactive</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                {editingDriver && formData.driver_type !== editingDriver.driver_type && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Type Effective From</label>
+                    <Input
+                      type="date"
+                      value={formData.type_effective_from}
+                      onChange={(e) => setFormData({ ...formData, type_effective_from: e.target.value })}
+                      className="input-dark"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Bonuses for weeks starting before this date keep the previous driver type.
+                    </p>
+                  </div>
+                )}
 
-              <div className="flex justify-end gap-3 pt-4">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" className="btn-primary">
-                  {editingDriver ? 'Update Driver' : 'Add Driver'}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Status</label>
+                  <Select
+                    value={formData.status}
+                    onValueChange={(value: 'active' | 'inactive') => 
+                      setFormData({ ...formData, status: value })
+                    }
+                  >
+                    <SelectTrigger className="input-dark">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border">
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="inactive">Inactive</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex justify-end gap-3 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="btn-primary">
+                    {editingDriver ? 'Update Driver' : 'Add Driver'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       {/* Week Picker */}
@@ -268,7 +277,7 @@ export const DriversManager = ({
 
       {/* Driver Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {driverStats.map(({ driver, weeklyGross, bonusAmount, firstThreshold }) => (
+        {driverStats.map(({ driver, weeklyGross, rpm, allInRpm, bonusAmount, firstThreshold }) => (
           <div
             key={driver.id}
             className="glass-card p-6 hover:border-primary/30 transition-all"
@@ -306,22 +315,26 @@ export const DriversManager = ({
                 </div>
               </div>
               <div className="flex gap-1">
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => handleEdit(driver)}
-                  className="h-8 w-8"
-                >
-                  <Pencil className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => onDeleteDriver(driver.id)}
-                  className="h-8 w-8 text-destructive hover:text-destructive"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+                {permissions.canManageDrivers && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(driver)}
+                    className="h-8 w-8"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                {permissions.canDeleteDrivers && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDeleteDriver(driver.id)}
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -336,6 +349,13 @@ export const DriversManager = ({
                 </span>
               </div>
 
+              <div className="flex items-center justify-between py-3 border-t border-border/50">
+                <span className="text-sm text-muted-foreground">RPM / All-in RPM</span>
+                <span className="font-mono font-semibold">
+                  {formatRpm(rpm)} <span className="text-muted-foreground">/ {formatRpm(allInRpm)}</span>
+                </span>
+              </div>
+
               <div className="flex items-center justify-between py-3 border-t border-border/50">
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-muted-foreground">Weekly Bonus</span>
@@ -378,7 +398,6 @@ export const DriversManager = ({
       {drivers.length > 0 && (
         <WeeklyGrossTable 
           drivers={drivers}
-          loads={loads}
           selectedWeek={systemState.selectedWeek}
           onWeekChange={onWeekChange}
         />
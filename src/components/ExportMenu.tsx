@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Download, FileText, FileSpreadsheet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ExportFormat, ExportSheet, downloadSheet } from '@/lib/export';
+import { toast } from 'sonner';
+
+interface ExportMenuProps {
+  fileName: string;
+  // Built on click so the export reflects what is on screen at that moment; may fetch
+  // rows that are not on screen, such as every page of a list
+  getSheet: () => ExportSheet | Promise<ExportSheet>;
+  disabled?: boolean;
+  size?: 'default' | 'sm';
+}
+
+export const ExportMenu = ({ fileName, getSheet, disabled, size = 'default' }: ExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await downloadSheet(await getSheet(), fileName, format);
+    } catch (error) {
+      console.error('Error exporting:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} className="gap-2 w-full sm:w-auto" disabled={disabled || isExporting}>
+          <Download className="h-4 w-4" />
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-card border-border">
+        <DropdownMenuItem onClick={() => handleExport('csv')} className="gap-2 cursor-pointer">
+          <FileText className="h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')} className="gap-2 cursor-pointer">
+          <FileSpreadsheet className="h-4 w-4" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,793 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, Trash2, Receipt, Search, FileDown, Ban, DollarSign, X } from 'lucide-react';
+import { Broker, Invoice, InvoicePayment } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { ExportSheet } from '@/lib/export';
+import { queryKeys } from '@/lib/queryKeys';
+import { fetchInvoiceableLoads } from '@/lib/queries';
+import { downloadInvoicePdf } from '@/lib/invoicePdf';
+import {
+  AGING_BUCKETS,
+  AccessorialInput,
+  INVOICE_STATUS_BADGES,
+  INVOICE_STATUS_LABELS,
+  InvoiceWithDetails,
+  formatInvoiceNumber,
+  getDueDate,
+  getInvoiceBalance,
+  getInvoicePaid,
+  getInvoiceStatus,
+  getInvoiceTotal,
+  toAccessorialLines,
+  validateAccessorials,
+} from '@/lib/invoices';
+import type { NewInvoice } from '@/hooks/useInvoices';
+import { useReceivablesAging } from '@/hooks/useMetrics';
+import { useOrganization } from '@/hooks/useOrganization';
+import { ExportMenu } from './ExportMenu';
+import { toast } from 'sonner';
+
+interface InvoicesManagerProps {
+  brokers: Broker[];
+  invoices: InvoiceWithDetails[];
+  onCreateInvoice: (invoice: NewInvoice) => Promise<Invoice | null>;
+  onVoidInvoice: (invoice: Invoice) => Promise<boolean>;
+  onRecordPayment: (invoice: Invoice, amount: number, paidOn: string, reference: string) => Promise<boolean>;
+  onDeletePayment: (payment: InvoicePayment) => Promise<void>;
+}
+
+const money = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatDate = (dateString: string) => format(parseISO(dateString), 'MMM d, yyyy');
+
+const EMPTY_ACCESSORIAL: AccessorialInput = { description: '', amount: '' };
+
+interface NewInvoiceDialogProps {
+  brokers: Broker[];
+  today: string;
+  onCreateInvoice: (invoice: NewInvoice) => Promise<Invoice | null>;
+}
+
+/** Bill a broker for delivered loads, with accessorials such as detention or lumper fees. */
+const NewInvoiceDialog = ({ brokers, today, onCreateInvoice }: NewInvoiceDialogProps) => {
+  const { organization } = useOrganization();
+  const [isOpen, setIsOpen] = useState(false);
+  const [brokerId, setBrokerId] = useState<string | undefined>();
+  const [issueDate, setIssueDate] = useState(today);
+  const [dueDate, setDueDate] = useState(today);
+  const [selectedLoadIds, setSelectedLoadIds] = useState<string[]>([]);
+  const [accessorials, setAccessorials] = useState<AccessorialInput[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const broker = brokers.find(b => b.id === brokerId);
+
+  // Always fresh so loads invoiced by another member since don't show up
+  const { data: loads, isPending: loadsPending } = useQuery({
+    queryKey: queryKeys.invoiceableLoads(organization?.id, brokerId),
+    queryFn: () => fetchInvoiceableLoads(organization.id, brokerId),
+    enabled: isOpen && !!organization && !!brokerId,
+    staleTime: 0,
+  });
+
+  // Selections that dropped off the list after a refetch are left out
+  const selectedLoads = (loads ?? []).filter(load => selectedLoadIds.includes(load.id));
+  const accessorialLines = toAccessorialLines(accessorials);
+  // The load's own charges are billed on lines of their own after it
+  const total = selectedLoads.reduce((sum, load) => sum + Number(load.rate) + Number(load.charges_total), 0)
+    + accessorialLines.reduce((sum, line) => sum + line.amount, 0);
+
+  const reset = () => {
+    setBrokerId(undefined);
+    setIssueDate(today);
+    setDueDate(today);
+    setSelectedLoadIds([]);
+    setAccessorials([]);
+    setNotes('');
+  };
+
+  // The due date follows the broker's payment terms and can still be changed by hand
+  const handleBrokerChange = (id: string) => {
+    setBrokerId(id);
+    setSelectedLoadIds([]);
+    setDueDate(getDueDate(issueDate, brokers.find(b => b.id === id)?.payment_terms_days ?? null));
+  };
+
+  const handleIssueDateChange = (date: string) => {
+    setIssueDate(date);
+    if (date) setDueDate(getDueDate(date, broker?.payment_terms_days ?? null));
+  };
+
+  const toggleLoad = (id: string, checked: boolean) => {
+    setSelectedLoadIds(ids => (checked ? [...ids, id] : ids.filter(loadId => loadId !== id)));
+  };
+
+  const updateAccessorial = (index: number, updates: Partial<AccessorialInput>) => {
+    setAccessorials(rows => rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!brokerId) return;
+    if (dueDate < issueDate) {
+      toast.error('The due date cannot be before the issue date.');
+      return;
+    }
+    const accessorialError = validateAccessorials(accessorials);
+    if (accessorialError) {
+      toast.error(accessorialError);
+      return;
+    }
+    if (selectedLoads.length === 0) {
+      toast.error('Select at least one delivered load to invoice.');
+      return;
+    }
+
+    setIsSaving(true);
+    const created = await onCreateInvoice({
+      broker_id: brokerId,
+      issue_date: issueDate,
+      due_date: dueDate,
+      notes: notes.trim(),
+      load_ids: selectedLoads.map(load => load.id),
+      accessorials: accessorialLines,
+    });
+    setIsSaving(false);
+    // Keep the form open so a conflicting selection can be corrected
+    if (!created) return;
+    setIsOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (!open) reset();
+    }}>
+      <DialogTrigger asChild>
+        <Button className="btn-primary gap-2 w-full sm:w-auto">
+          <Plus className="h-4 w-4" />
+          New Invoice
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Invoice</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Broker</label>
+              <Select value={brokerId} onValueChange={handleBrokerChange}>
+                <SelectTrigger className="input-dark">
+                  <SelectValue placeholder="Select a broker" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {brokers.map(b => (
+                    <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Issue Date</label>
+              <Input
+                type="date"
+                value={issueDate}
+                onChange={(e) => handleIssueDateChange(e.target.value)}
+                className="input-dark"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Due Date</label>
+              <Input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                min={issueDate}
+                className="input-dark"
+                required
+              />
+            </div>
+          </div>
+
+          {brokerId && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Delivered Loads</label>
+              <div className="rounded-lg border border-border divide-y divide-border/30 max-h-60 overflow-y-auto">
+                {loadsPending ? (
+                  <p className="px-3 py-4 text-sm text-muted-foreground text-center">Loading loads...</p>
+                ) : !loads?.length ? (
+                  <p className="px-3 py-4 text-sm text-muted-foreground text-center">
+                    No delivered loads from {broker?.name} are waiting to be invoiced.
+                  </p>
+                ) : (
+                  loads.map(load => (
+                    <label key={load.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-secondary/30">
+                      <Checkbox
+                        checked={selectedLoadIds.includes(load.id)}
+                        onCheckedChange={(checked) => toggleLoad(load.id, checked === true)}
+                      />
+                      <span className="font-mono font-medium">{load.load_id}</span>
+                      <span className="flex-1 truncate text-muted-foreground">
+                        {load.origin} - {load.destination}, {format(parseISO(load.delivery_date), 'MMM d')}
+                      </span>
+                      <span className="font-mono">{money(Number(load.rate))}</span>
+                      {Number(load.charges_total) > 0 && (
+                        <span className="font-mono text-xs text-muted-foreground">+ {money(Number(load.charges_total))}</span>
+                      )}
+                    </label>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Accessorials</label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="gap-1"
+                onClick={() => setAccessorials(rows => [...rows, EMPTY_ACCESSORIAL])}
+              >
+                <Plus className="h-3 w-3" />
+                Add Line
+              </Button>
+            </div>
+            {accessorials.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={row.description}
+                  onChange={(e) => updateAccessorial(index, { description: e.target.value })}
+                  placeholder="e.g., Detention 3 hrs"
+                  className="input-dark flex-1"
+                  maxLength={200}
+                />
+                <Input
+                  type="number"
+                  value={row.amount}
+                  onChange={(e) => updateAccessorial(index, { amount: e.target.value })}
+                  placeholder="0.00"
+                  min="0"
+                  step="0.01"
+                  className="input-dark w-32"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setAccessorials(rows => rows.filter((_, i) => i !== index))}
+                  className="h-10 w-10 shrink-0"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Notes</label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Remit-to address, factoring instructions..."
+              className="input-dark"
+              rows={2}
+              maxLength={1000}
+            />
+          </div>
+
+          <div className="flex items-center justify-between pt-4">
+            <span className="text-sm text-muted-foreground">
+              Total <span className="font-mono font-semibold text-foreground">{money(total)}</span>
+            </span>
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="btn-primary" disabled={!brokerId || isSaving}>
+                {isSaving ? 'Creating...' : 'Create Invoice'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface PaymentsDialogProps {
+  invoice: InvoiceWithDetails | null;
+  today: string;
+  canManage: boolean;
+  onClose: () => void;
+  onRecordPayment: (invoice: Invoice, amount: number, paidOn: string, reference: string) => Promise<boolean>;
+  onDeletePayment: (payment: InvoicePayment) => Promise<void>;
+}
+
+/** Payments received on an invoice, and a form for the next one. */
+const PaymentsDialog = ({ invoice, today, canManage, onClose, onRecordPayment, onDeletePayment }: PaymentsDialogProps) => {
+  const [amount, setAmount] = useState('');
+  const [paidOn, setPaidOn] = useState(today);
+  const [reference, setReference] = useState('');
+
+  const balance = invoice ? getInvoiceBalance(invoice) : 0;
+
+  // The form starts at the remaining balance, the usual full payment, and again after each payment
+  const formKey = invoice ? `${invoice.id}:${balance}` : null;
+  const [shownFormKey, setShownFormKey] = useState<string | null>(null);
+  if (formKey !== shownFormKey) {
+    setShownFormKey(formKey);
+    setAmount(balance > 0 ? balance.toFixed(2) : '');
+    setPaidOn(today);
+    setReference('');
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoice) return;
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      toast.error('Enter the amount received.');
+      return;
+    }
+    if (value > balance) {
+      toast.error(`The payment is more than the ${money(balance)} balance due.`);
+      return;
+    }
+    await onRecordPayment(invoice, value, paidOn, reference.trim());
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Payments on {invoice && formatInvoiceNumber(invoice.invoice_number)}</DialogTitle>
+        </DialogHeader>
+        {invoice && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="text-xs text-muted-foreground">Total</p>
+                <p className="font-mono font-semibold">{money(getInvoiceTotal(invoice))}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Paid</p>
+                <p className="font-mono font-semibold">{money(getInvoicePaid(invoice))}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Balance</p>
+                <p className="font-mono font-semibold">{money(balance)}</p>
+              </div>
+            </div>
+
+            {invoice.payments.length > 0 ? (
+              <div className="rounded-lg border border-border divide-y divide-border/30">
+                {invoice.payments.map(payment => (
+                  <div key={payment.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <span>{formatDate(payment.paid_on)}</span>
+                    <span className="flex-1 truncate text-muted-foreground">{payment.reference}</span>
+                    <span className="font-mono">{money(Number(payment.amount))}</span>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDeletePayment(payment)}
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">No payments received yet.</p>
+            )}
+
+            {canManage && !invoice.voided_at && balance > 0 && (
+              <form onSubmit={handleSubmit} className="space-y-4 border-t border-border/50 pt-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Amount</label>
+                    <Input
+                      type="number"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      min="0.01"
+                      max={balance}
+                      step="0.01"
+                      className="input-dark"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Received</label>
+                    <Input
+                      type="date"
+                      value={paidOn}
+                      onChange={(e) => setPaidOn(e.target.value)}
+                      className="input-dark"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Reference</label>
+                  <Input
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="Check number, ACH trace..."
+                    className="input-dark"
+                    maxLength={100}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" className="btn-primary">Record Payment</Button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export const InvoicesManager = ({
+  brokers,
+  invoices,
+  onCreateInvoice,
+  onVoidInvoice,
+  onRecordPayment,
+  onDeletePayment,
+}: InvoicesManagerProps) => {
+  const { organization, permissions } = useOrganization();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [paymentsInvoiceId, setPaymentsInvoiceId] = useState<string | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const { data: aging } = useReceivablesAging(today);
+
+  const getBrokerName = (brokerId: string) => brokers.find(b => b.id === brokerId)?.name ?? 'Unknown broker';
+
+  // Invoices matching the search, newest number first
+  const rows = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return invoices
+      .filter(invoice => !query
+        || formatInvoiceNumber(invoice.invoice_number).toLowerCase().includes(query)
+        || brokers.find(b => b.id === invoice.broker_id)?.name.toLowerCase().includes(query))
+      .map(invoice => ({
+        invoice,
+        total: getInvoiceTotal(invoice),
+        paid: getInvoicePaid(invoice),
+        balance: invoice.voided_at ? 0 : getInvoiceBalance(invoice),
+        status: getInvoiceStatus(invoice, today),
+      }));
+  }, [invoices, brokers, searchQuery, today]);
+
+  // Brokers with money outstanding, largest balance first
+  const agingRows = useMemo(() =>
+    (aging ?? [])
+      .filter(row => row.total_balance > 0)
+      .sort((a, b) => b.total_balance - a.total_balance),
+  [aging]);
+
+  const agingTotals = AGING_BUCKETS.map(bucket => agingRows.reduce((sum, row) => sum + row[bucket.key], 0));
+  const totalReceivable = agingRows.reduce((sum, row) => sum + row.total_balance, 0);
+
+  // Looked up by id so the dialog shows payments as they are recorded
+  const paymentsInvoice = invoices.find(invoice => invoice.id === paymentsInvoiceId) ?? null;
+
+  const handleDownload = async (invoice: InvoiceWithDetails) => {
+    try {
+      await downloadInvoicePdf({
+        invoice,
+        broker: brokers.find(b => b.id === invoice.broker_id),
+        organizationName: organization?.name ?? '',
+      });
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      toast.error('Failed to generate invoice PDF');
+    }
+  };
+
+  const buildExportSheet = (): ExportSheet => ({
+    name: 'Invoices',
+    columns: [
+      { header: 'Invoice', width: 12 },
+      { header: 'Broker', width: 28 },
+      { header: 'Issued' },
+      { header: 'Due' },
+      { header: 'Status' },
+      { header: 'Total', type: 'currency' },
+      { header: 'Paid', type: 'currency' },
+      { header: 'Balance', type: 'currency' },
+      { header: 'Notes', width: 36 },
+    ],
+    rows: rows.map(({ invoice, total, paid, balance, status }) => [
+      formatInvoiceNumber(invoice.invoice_number),
+      getBrokerName(invoice.broker_id),
+      invoice.issue_date,
+      invoice.due_date,
+      INVOICE_STATUS_LABELS[status],
+      total,
+      paid,
+      balance,
+      invoice.notes,
+    ]),
+  });
+
+  const buildAgingSheet = (): ExportSheet => ({
+    name: `Receivables ${today}`,
+    columns: [
+      { header: 'Broker', width: 28 },
+      ...AGING_BUCKETS.map(bucket => ({ header: bucket.label, type: 'currency' as const })),
+      { header: 'Total', type: 'currency' },
+      { header: 'Open Invoices', type: 'number' },
+      { header: 'Avg Days to Pay', type: 'number' },
+    ],
+    rows: agingRows.map(row => [
+      getBrokerName(row.broker_id),
+      ...AGING_BUCKETS.map(bucket => row[bucket.key]),
+      row.total_balance,
+      row.open_invoices,
+      row.average_days_to_pay === null ? null : Math.round(row.average_days_to_pay),
+    ]),
+  });
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold">Invoices</h2>
+          <p className="text-sm text-muted-foreground">Bill brokers for delivered loads and track what they owe</p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          {permissions.canExport && (
+            <ExportMenu
+              fileName={`invoices-${today}`}
+              getSheet={buildExportSheet}
+              disabled={rows.length === 0}
+            />
+          )}
+
+          {permissions.canManageInvoices && (
+            <NewInvoiceDialog brokers={brokers} today={today} onCreateInvoice={onCreateInvoice} />
+          )}
+        </div>
+      </div>
+
+      {/* Receivables Aging */}
+      <div className="glass-card overflow-hidden">
+        <div className="flex items-center justify-between gap-2 px-4 pt-4">
+          <div>
+            <h3 className="font-semibold">Receivables Aging</h3>
+            <p className="text-xs text-muted-foreground">Open balances by days past due, as of today</p>
+          </div>
+          {permissions.canExport && (
+            <ExportMenu
+              fileName={`receivables-aging-${today}`}
+              getSheet={buildAgingSheet}
+              disabled={agingRows.length === 0}
+              size="sm"
+            />
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Broker</th>
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket.key} className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    {bucket.label}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Avg Days to Pay</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/30">
+              {agingRows.length === 0 ? (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 3} className="px-4 py-8 text-center text-sm text-muted-foreground">
+                    Nothing outstanding. Every invoice is paid.
+                  </td>
+                </tr>
+              ) : (
+                agingRows.map(row => (
+                  <tr key={row.broker_id} className="table-row-hover">
+                    <td className="px-4 py-3">
+                      <span className="font-medium">{getBrokerName(row.broker_id)}</span>
+                      <p className="text-xs text-muted-foreground">
+                        {row.open_invoices} open {row.open_invoices === 1 ? 'invoice' : 'invoices'}
+                      </p>
+                    </td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td
+                        key={bucket.key}
+                        className={cn(
+                          'px-4 py-3 text-right font-mono text-sm',
+                          row[bucket.key] === 0 && 'text-muted-foreground',
+                          row[bucket.key] > 0 && bucket.key !== 'current_balance' && 'text-destructive'
+                        )}
+                      >
+                        {row[bucket.key] === 0 ? '-' : money(row[bucket.key])}
+                      </td>
+                    ))}
+                    <td className="px-4 py-3 text-right font-mono font-semibold">{money(row.total_balance)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-sm">
+                      {row.average_days_to_pay === null ? '-' : Math.round(row.average_days_to_pay)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+            {agingRows.length > 0 && (
+              <tfoot>
+                <tr className="border-t border-border/50 font-semibold">
+                  <td className="px-4 py-3">Total</td>
+                  {agingTotals.map((amount, index) => (
+                    <td key={AGING_BUCKETS[index].key} className="px-4 py-3 text-right font-mono text-sm">{money(amount)}</td>
+                  ))}
+                  <td className="px-4 py-3 text-right font-mono">{money(totalReceivable)}</td>
+                  <td />
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search by invoice number or broker..."
+          className="pl-10 input-dark"
+        />
+      </div>
+
+      {/* Invoices Table */}
+      <div className="glass-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Invoice</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Broker</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Issued</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Due</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Balance</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/30">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-12 text-center text-muted-foreground">
+                    <Receipt className="h-12 w-12 mx-auto mb-3 opacity-30" />
+                    <p>{searchQuery ? 'No invoices match your search.' : 'No invoices yet. Invoice a broker once their loads are delivered.'}</p>
+                  </td>
+                </tr>
+              ) : (
+                rows.map(({ invoice, total, balance, status }) => (
+                  <tr key={invoice.id} className="table-row-hover">
+                    <td className="px-4 py-4">
+                      <span className="font-mono font-medium">{formatInvoiceNumber(invoice.invoice_number)}</span>
+                      <p className="text-xs text-muted-foreground">
+                        {invoice.lines.length} {invoice.lines.length === 1 ? 'line' : 'lines'}
+                      </p>
+                    </td>
+                    <td className="px-4 py-4 text-sm">{getBrokerName(invoice.broker_id)}</td>
+                    <td className="px-4 py-4 text-sm">{formatDate(invoice.issue_date)}</td>
+                    <td className="px-4 py-4 text-sm">{formatDate(invoice.due_date)}</td>
+                    <td className="px-4 py-4 text-right font-mono">{money(total)}</td>
+                    <td className="px-4 py-4 text-right font-mono font-semibold">{money(balance)}</td>
+                    <td className="px-4 py-4">
+                      <span className={cn('status-badge', INVOICE_STATUS_BADGES[status])}>
+                        {INVOICE_STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDownload(invoice)}
+                          className="h-8 w-8"
+                          title="Download PDF"
+                        >
+                          <FileDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setPaymentsInvoiceId(invoice.id)}
+                          className="h-8 w-8"
+                          title="Payments"
+                        >
+                          <DollarSign className="h-4 w-4" />
+                        </Button>
+                        {permissions.canManageInvoices && !invoice.voided_at && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-destructive hover:text-destructive"
+                                title="Void invoice"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent className="bg-card border-border">
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Void {formatInvoiceNumber(invoice.invoice_number)}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The invoice keeps its number but no longer counts toward receivables, and its
+                                  loads go back to delivered so they can be invoiced again.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => onVoidInvoice(invoice)}>
+                                  Void Invoice
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <PaymentsDialog
+        invoice={paymentsInvoice}
+        today={today}
+        canManage={permissions.canManageInvoices}
+        onClose={() => setPaymentsInvoiceId(null)}
+        onRecordPayment={onRecordPayment}
+        onDeletePayment={onDeletePayment}
+      />
+    </div>
+  );
+};
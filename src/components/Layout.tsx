@@ -1,28 +1,59 @@
 import { ReactNode, useState } from 'react';
-import { Truck, LayoutDashboard, Package, Gift, Users, Sun, Moon, LogOut, CalendarDays, Menu, X } from 'lucide-react';
+import { Truck, LayoutDashboard, Package, Gift, Users, Sun, Moon, LogOut, CalendarDays, Menu, X, UserCog, Building2, Receipt, Wallet } from 'lucide-react';
 import { useTheme } from '@/hooks/useTheme';
 import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
 import { Button } from '@/components/ui/button';
 import { ChangePasswordDialog } from './ChangePasswordDialog';
+import { TwoFactorDialog } from './TwoFactorDialog';
+import { OrganizationSwitcher } from './OrganizationSwitcher';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
+import type { ConnectionStatus } from '@/lib/realtime';
 
 interface LayoutProps {
   children: ReactNode;
   activeTab: string;
   onTabChange: (tab: string) => void;
+  // Realtime sync state; hidden while there is nothing to sync
+  connection?: ConnectionStatus;
 }
 
-const tabs = [
+const allTabs = [
   { id: 'team', label: 'Team', icon: LayoutDashboard },
   { id: 'loads', label: 'Loads', icon: Package },
   { id: 'bonuses', label: 'Bonuses', icon: Gift },
   { id: 'drivers', label: 'Drivers', icon: Users },
+  { id: 'settlements', label: 'Settlements', icon: Wallet },
+  { id: 'brokers', label: 'Brokers', icon: Building2 },
+  { id: 'invoices', label: 'Invoices', icon: Receipt },
   { id: 'prebooks', label: 'Prebooks', icon: CalendarDays },
+  { id: 'members', label: 'Members', icon: UserCog },
 ];
 
-export const Layout = ({ children, activeTab, onTabChange }: LayoutProps) => {
+// Bottom navigation columns by number of visible tabs
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+  6: 'grid-cols-6',
+  7: 'grid-cols-7',
+  8: 'grid-cols-8',
+  9: 'grid-cols-9',
+};
+
+const CONNECTION_INDICATOR: Record<ConnectionStatus, { label: string; dot: string }> = {
+  live: { label: 'Live', dot: 'bg-primary animate-pulse' },
+  connecting: { label: 'Connecting', dot: 'bg-warning animate-pulse' },
+  offline: { label: 'Offline', dot: 'bg-destructive' },
+};
+
+export const Layout = ({ children, activeTab, onTabChange, connection }: LayoutProps) => {
   const { theme, toggleTheme } = useTheme();
   const { signOut } = useAuth();
+  const { organization, permissions } = useOrganization();
+  const tabs = allTabs.filter(tab => permissions.tabs.includes(tab.id));
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const handleTabChange = (tabId: string) => {
@@ -43,7 +74,7 @@ export const Layout = ({ children, activeTab, onTabChange }: LayoutProps) => {
               </div>
               <div>
                 <h1 className="text-sm sm:text-lg font-bold tracking-tight">UG Transportation</h1>
-                <p className="text-[10px] sm:text-xs text-muted-foreground hidden sm:block">Dispatcher Platform</p>
+                <p className="text-[10px] sm:text-xs text-muted-foreground hidden sm:block">{organization?.name ?? 'Dispatcher Platform'}</p>
               </div>
             </div>
 
@@ -74,11 +105,22 @@ export const Layout = ({ children, activeTab, onTabChange }: LayoutProps) => {
 
             {/* Actions */}
             <div className="flex items-center gap-1 sm:gap-2">
-              <span className="hidden sm:flex h-2 w-2 rounded-full bg-primary animate-pulse" />
-              <span className="hidden sm:inline text-xs text-muted-foreground mr-2">Live</span>
+              <OrganizationSwitcher className="hidden sm:flex w-48 mr-2" />
+              {connection && (
+                <>
+                  <span className={`hidden sm:flex h-2 w-2 rounded-full ${CONNECTION_INDICATOR[connection].dot}`} />
+                  <span
+                    className="hidden sm:inline text-xs text-muted-foreground mr-2"
+                    title={connection === 'offline' ? 'Realtime updates unavailable; refreshing periodically' : undefined}
+                  >
+                    {CONNECTION_INDICATOR[connection].label}
+                  </span>
+                </>
+              )}
               
-              <div className="hidden sm:block">
+              <div className="hidden sm:flex gap-2">
                 <ChangePasswordDialog />
+                <TwoFactorDialog />
               </div>
               
               <Button
@@ -136,7 +178,9 @@ export const Layout = ({ children, activeTab, onTabChange }: LayoutProps) => {
                       })}
                     </nav>
                     <div className="p-4 border-t border-border space-y-2">
+                      <OrganizationSwitcher className="w-full" />
                       <ChangePasswordDialog />
+                      <TwoFactorDialog />
                       <Button
                         variant="outline"
                         onClick={signOut}
@@ -156,7 +200,7 @@ export const Layout = ({ children, activeTab, onTabChange }: LayoutProps) => {
 
       {/* Mobile Bottom Navigation */}
       <nav className="lg:hidden fixed bottom-0 left-0 right-0 z-50 bg-background/95 backdrop-blur-xl border-t border-border safe-area-bottom">
-        <div className="grid grid-cols-5 h-16">
+        <div className={`grid ${GRID_COLUMNS[tabs.length]} h-16`}>
           {tabs.map(tab => {
             const Icon = tab.icon;
             const isActive = activeTab === tab.id;
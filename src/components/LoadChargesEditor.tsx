@@ -0,0 +1,91 @@
+import { Plus, Receipt, Trash2 } from 'lucide-react';
+import { LoadChargeRule, LoadChargeType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  LOAD_CHARGE_LABELS,
+  LOAD_CHARGE_TYPES,
+  LoadChargeInput,
+  describeChargeFlags,
+  getChargeFlags,
+  newLoadCharge,
+} from '@/lib/loadCharges';
+
+interface LoadChargesEditorProps {
+  charges: LoadChargeInput[];
+  rules: LoadChargeRule[];
+  onChange: (charges: LoadChargeInput[]) => void;
+}
+
+/** Accessorial charges billed on top of a load's rate, each labelled with what it counts toward. */
+export const LoadChargesEditor = ({ charges, rules, onChange }: LoadChargesEditorProps) => {
+  const updateCharge = (index: number, updates: Partial<LoadChargeInput>) => {
+    onChange(charges.map((charge, i) => i === index ? { ...charge, ...updates } : charge));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium flex items-center gap-2">
+        <Receipt className="h-4 w-4" />
+        Charges
+      </label>
+      {charges.length > 0 && (
+        <ol className="space-y-2">
+          {charges.map((charge, index) => (
+            <li key={index} className="rounded-lg border border-border/50 p-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={charge.charge_type}
+                  onValueChange={(value: LoadChargeType) => updateCharge(index, { charge_type: value })}
+                >
+                  <SelectTrigger className="input-dark w-36 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {LOAD_CHARGE_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{LOAD_CHARGE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={charge.description}
+                  onChange={(e) => updateCharge(index, { description: e.target.value })}
+                  placeholder="Note"
+                  className="input-dark h-9 flex-1"
+                  maxLength={200}
+                />
+                <Input
+                  type="number"
+                  value={charge.amount}
+                  onChange={(e) => updateCharge(index, { amount: e.target.value })}
+                  placeholder="0.00"
+                  min="0.01"
+                  step="0.01"
+                  className="input-dark h-9 w-28"
+                  aria-label="Amount"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => onChange(charges.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {describeChargeFlags(getChargeFlags(rules, charge.charge_type))}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+      <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => onChange([...charges, newLoadCharge()])}>
+        <Plus className="h-4 w-4" />
+        Charge
+      </Button>
+    </div>
+  );
+};
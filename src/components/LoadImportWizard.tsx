@@ -0,0 +1,324 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Driver, PayrollPeriod } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import { detectDelimiter, parseCsv } from '@/lib/csv';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportedLoad,
+  autoMapColumns,
+  validateImportRows,
+} from '@/lib/loadImport';
+import { fetchLoadsByLoadIds } from '@/lib/queries';
+import { queryKeys } from '@/lib/queryKeys';
+import { useOrganization } from '@/hooks/useOrganization';
+
+interface LoadImportWizardProps {
+  drivers: Driver[];
+  payrollPeriods: PayrollPeriod[];
+  onImportLoads: (loads: ImportedLoad[]) => Promise<number>;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+// Select value for a field left unmapped
+const UNMAPPED = 'none';
+
+export const LoadImportWizard = ({ drivers, payrollPeriods, onImportLoads }: LoadImportWizardProps) => {
+  const { organization } = useOrganization();
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setFileError('');
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setShowErrorsOnly(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError('');
+
+    const text = await file.text();
+    const [headerRow, ...dataRows] = parseCsv(text, detectDelimiter(text));
+    if (!headerRow || dataRows.length === 0) {
+      setFileError('The file needs a header row and at least one load.');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow.map(h => h.trim()));
+    setRows(dataRows);
+    setMapping(autoMapColumns(headerRow));
+    setStep('map');
+  };
+
+  const missingFields = mapping
+    ? IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null)
+    : [];
+
+  // Load IDs in the file, as new loads or as the FULL loads partials link to
+  const fileLoadIds = useMemo(() => {
+    if (!mapping || step !== 'preview') return [];
+    const columns = [mapping.load_id, mapping.connected_full_load_id].filter((index): index is number => index !== null);
+    const ids = rows.flatMap(row => columns.map(index => (row[index] ?? '').trim())).filter(Boolean);
+    return [...new Set(ids)].sort();
+  }, [rows, mapping, step]);
+
+  // Only the existing loads the file refers to are fetched; always fresh so a repeat
+  // import sees the loads the last one added
+  const { data: existingLoads } = useQuery({
+    queryKey: queryKeys.importMatches(organization?.id, fileLoadIds),
+    queryFn: () => fetchLoadsByLoadIds(organization.id, fileLoadIds),
+    enabled: !!organization && fileLoadIds.length > 0,
+    staleTime: 0,
+  });
+
+  const previewRows = useMemo(() => {
+    if (!mapping || step !== 'preview' || (fileLoadIds.length > 0 && !existingLoads)) return [];
+    return validateImportRows(rows, mapping, { drivers, loads: existingLoads ?? [], payrollPeriods });
+  }, [rows, mapping, step, fileLoadIds, existingLoads, drivers, payrollPeriods]);
+
+  const validLoads = previewRows.filter(r => r.load).map(r => r.load!);
+  const errorCount = previewRows.length - validLoads.length;
+  const visibleRows = showErrorsOnly ? previewRows.filter(r => r.errors.length > 0) : previewRows;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const imported = await onImportLoads(validLoads);
+    setIsImporting(false);
+    if (imported > 0) {
+      setIsOpen(false);
+      reset();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (!open) reset();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2 w-full sm:w-auto">
+          <Upload className="h-4 w-4" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            Import Loads
+            {fileName && <span className="ml-2 text-sm font-normal text-muted-foreground">{fileName}</span>}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center gap-3 p-10 rounded-lg border-2 border-dashed border-border hover:border-primary/50 cursor-pointer transition-colors">
+              <FileSpreadsheet className="h-10 w-10 text-muted-foreground" />
+              <span className="text-sm font-medium">Choose a CSV export from your TMS or broker portal</span>
+              <span className="text-xs text-muted-foreground">The first row must contain column headers</span>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            {fileError && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                <p className="text-sm text-destructive">{fileError}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Match the columns of your file to load fields. {rows.length} row{rows.length === 1 ? '' : 's'} found.
+            </p>
+            <div className="space-y-3 max-h-[55vh] overflow-y-auto pr-1">
+              {IMPORT_FIELDS.map(({ field, label, required, hint }) => {
+                const columnIndex = mapping[field];
+                const sample = columnIndex !== null ? rows[0]?.[columnIndex]?.trim() : '';
+                return (
+                  <div key={field} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr] gap-2 items-center">
+                    <div>
+                      <p className="text-sm font-medium">
+                        {label}{required && <span className="text-destructive"> *</span>}
+                      </p>
+                      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+                    </div>
+                    <Select
+                      value={columnIndex === null ? UNMAPPED : String(columnIndex)}
+                      onValueChange={(value) => setMapping({
+                        ...mapping,
+                        [field]: value === UNMAPPED ? null : Number(value),
+                      })}
+                    >
+                      <SelectTrigger className="input-dark">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-card border-border">
+                        <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-xs text-muted-foreground truncate font-mono">
+                      {sample ? `e.g. ${sample}` : ''}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-xs text-destructive">
+                Map the required fields: {missingFields.map(f => f.label).join(', ')}.
+              </p>
+            )}
+            <div className="flex justify-between gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={reset} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Choose Another File
+              </Button>
+              <Button
+                type="button"
+                className="btn-primary gap-2"
+                disabled={missingFields.length > 0}
+                onClick={() => setStep('preview')}
+              >
+                Preview
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-4 text-sm">
+                <span className="flex items-center gap-1.5 text-success">
+                  <CheckCircle2 className="h-4 w-4" />
+                  {validLoads.length} ready
+                </span>
+                <span className={`flex items-center gap-1.5 ${errorCount > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  <AlertCircle className="h-4 w-4" />
+                  {errorCount} with errors
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={errorCount === 0}
+                onClick={() => setShowErrorsOnly(!showErrorsOnly)}
+              >
+                {showErrorsOnly ? 'Show All Rows' : 'Show Errors Only'}
+              </Button>
+            </div>
+
+            <div className="max-h-[50vh] overflow-auto rounded-lg border border-border/50">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-card">
+                  <tr className="border-b border-border/50">
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Load</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Driver</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Delivery</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Rate</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/30">
+                  {visibleRows.map(row => (
+                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-destructive/5' : ''}>
+                      <td className="px-3 py-2 font-mono text-muted-foreground">{row.rowNumber}</td>
+                      <td className="px-3 py-2">
+                        {row.load ? (
+                          <>
+                            <span className="font-mono font-medium">{row.load.load_id}</span>
+                            <span className={`ml-2 status-badge ${row.load.load_type === 'FULL' ? 'status-full' : 'status-partial'}`}>
+                              {row.load.load_type}
+                            </span>
+                            <p className="text-xs text-muted-foreground">{row.load.origin} → {row.load.destination}</p>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">{row.driverName ?? '-'}</td>
+                      <td className="px-3 py-2">
+                        {row.load ? format(parseLocalDate(row.load.delivery_date), 'MMM d, yyyy') : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">
+                        {row.load ? `$${row.load.rate.toLocaleString()}` : '-'}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-success">
+                            <CheckCircle2 className="h-4 w-4" />
+                            Ready
+                          </span>
+                        ) : (
+                          <ul className="space-y-0.5 text-xs text-destructive">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {errorCount > 0 && validLoads.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Rows with errors are skipped. Fix them in the file and import it again to add them later.
+              </p>
+            )}
+
+            <div className="flex justify-between gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setStep('map')} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Mapping
+              </Button>
+              <Button
+                type="button"
+                className="btn-primary gap-2"
+                disabled={validLoads.length === 0 || isImporting}
+                onClick={handleImport}
+              >
+                <Upload className="h-4 w-4" />
+                {isImporting ? 'Importing...' : `Import ${validLoads.length} Load${validLoads.length === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
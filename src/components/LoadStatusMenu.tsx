@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Load, LoadStatus } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import {
+  LOAD_STATUS_BADGES,
+  LOAD_STATUS_LABELS,
+  LOAD_STATUS_TRANSITIONS,
+  countsTowardGross,
+} from '@/lib/loadStatus';
+
+interface LoadStatusMenuProps {
+  load: Load;
+  // Delivered in a closed payroll period: only changes that leave gross as is are offered
+  locked: boolean;
+  onChangeStatus: (
+    load: Load,
+    status: LoadStatus,
+    cancellation?: Pick<Load, 'cancellation_reason' | 'tonu_amount'>
+  ) => Promise<boolean>;
+  // Shows the badge without the menu
+  readOnly?: boolean;
+}
+
+export const LoadStatusBadge = ({ status, className }: { status: LoadStatus; className?: string }) => (
+  <span className={cn('status-badge', LOAD_STATUS_BADGES[status], className)}>
+    {LOAD_STATUS_LABELS[status]}
+  </span>
+);
+
+/** Status badge that opens the statuses the load can move to next. */
+export const LoadStatusMenu = ({ load, locked, onChangeStatus, readOnly = false }: LoadStatusMenuProps) => {
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [tonuAmount, setTonuAmount] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const nextStatuses = LOAD_STATUS_TRANSITIONS[load.status].filter(status =>
+    !locked || countsTowardGross(status) === countsTowardGross(load.status)
+  );
+
+  if (readOnly || nextStatuses.length === 0) {
+    return <LoadStatusBadge status={load.status} />;
+  }
+
+  const openCancel = () => {
+    setReason('');
+    setTonuAmount('');
+    setIsCancelOpen(true);
+  };
+
+  const handleCancel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const cancelled = await onChangeStatus(load, 'cancelled', {
+      cancellation_reason: reason.trim() || null,
+      tonu_amount: tonuAmount ? parseFloat(tonuAmount) : null,
+    });
+    setSaving(false);
+    if (cancelled) setIsCancelOpen(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger className="focus:outline-none">
+          <span className={cn('status-badge gap-1 cursor-pointer', LOAD_STATUS_BADGES[load.status])}>
+            {LOAD_STATUS_LABELS[load.status]}
+            <ChevronDown className="h-3 w-3" />
+          </span>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="bg-card border-border">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Move to</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {nextStatuses.map(status => (
+            <DropdownMenuItem
+              key={status}
+              onClick={() => status === 'cancelled' ? openCancel() : onChangeStatus(load, status)}
+              className={cn('cursor-pointer', status === 'cancelled' && 'text-destructive focus:text-destructive')}
+            >
+              {status === 'cancelled' ? 'Cancel load…' : LOAD_STATUS_LABELS[status]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Rendered beside the menu so it stays open once the menu closes */}
+      <Dialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
+        <DialogContent className="bg-card border-border max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel Load {load.load_id}</DialogTitle>
+            <DialogDescription>
+              The ${Number(load.rate).toLocaleString()} rate stops counting toward gross. If the broker pays
+              a TONU fee, it counts instead at the TONU commission rate.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCancel} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Reason</label>
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Shipper cancelled, freight not ready"
+                className="input-dark"
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">TONU Amount ($)</label>
+              <Input
+                type="number"
+                value={tonuAmount}
+                onChange={(e) => setTonuAmount(e.target.value)}
+                placeholder="No TONU"
+                min="0"
+                step="0.01"
+                className="input-dark"
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsCancelOpen(false)}>
+                Keep Load
+              </Button>
+              <Button type="submit" variant="destructive" disabled={saving}>
+                Cancel Load
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
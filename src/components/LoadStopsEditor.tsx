@@ -0,0 +1,146 @@
+import { ArrowDown, ArrowUp, MapPin, Plus, Trash2 } from 'lucide-react';
+import { LoadStopType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LOAD_STOP_LABELS, LoadStopInput, newLoadStop } from '@/lib/loadStops';
+
+interface LoadStopsEditorProps {
+  stops: LoadStopInput[];
+  onChange: (stops: LoadStopInput[]) => void;
+}
+
+const STOP_TYPES: LoadStopType[] = ['pickup', 'delivery'];
+
+/** Ordered pickups and deliveries of a load, each with a location and appointment window. */
+export const LoadStopsEditor = ({ stops, onChange }: LoadStopsEditorProps) => {
+  const updateStop = (index: number, updates: Partial<LoadStopInput>) => {
+    onChange(stops.map((stop, i) => i === index ? { ...stop, ...updates } : stop));
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    const next = [...stops];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  // New pickups go after the last pickup, new deliveries at the end
+  const addStop = (stopType: LoadStopType) => {
+    const lastPickup = stops.map(s => s.stop_type).lastIndexOf('pickup');
+    const index = stopType === 'pickup' ? lastPickup + 1 : stops.length;
+    const neighbour = stops[Math.max(index - 1, 0)];
+    const next = [...stops];
+    next.splice(index, 0, newLoadStop(stopType, neighbour?.appointment_date ?? ''));
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium flex items-center gap-2">
+        <MapPin className="h-4 w-4" />
+        Stops
+      </label>
+      <ol className="space-y-2">
+        {stops.map((stop, index) => (
+          <li key={index} className="rounded-lg border border-border/50 p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-xs font-mono text-muted-foreground">{index + 1}</span>
+              <Select
+                value={stop.stop_type}
+                onValueChange={(value: LoadStopType) => updateStop(index, { stop_type: value })}
+              >
+                <SelectTrigger className="input-dark w-32 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {STOP_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{LOAD_STOP_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={stop.city}
+                onChange={(e) => updateStop(index, { city: e.target.value })}
+                placeholder="City or ZIP"
+                className="input-dark h-9 flex-1"
+                required
+                maxLength={100}
+              />
+              <Input
+                value={stop.state ?? ''}
+                onChange={(e) => updateStop(index, { state: e.target.value.toUpperCase() || null })}
+                placeholder="ST"
+                className="input-dark h-9 w-16"
+                maxLength={2}
+              />
+            </div>
+            <div className="flex items-center gap-2 pl-7">
+              <Input
+                type="date"
+                value={stop.appointment_date}
+                onChange={(e) => updateStop(index, { appointment_date: e.target.value })}
+                className="input-dark h-9 flex-1"
+                required
+              />
+              <Input
+                type="time"
+                value={stop.window_start?.slice(0, 5) ?? ''}
+                onChange={(e) => updateStop(index, { window_start: e.target.value || null })}
+                className="input-dark h-9 w-28"
+                aria-label="Window start"
+              />
+              <span className="text-muted-foreground text-xs">to</span>
+              <Input
+                type="time"
+                value={stop.window_end?.slice(0, 5) ?? ''}
+                onChange={(e) => updateStop(index, { window_end: e.target.value || null })}
+                className="input-dark h-9 w-28"
+                aria-label="Window end"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={index === 0}
+                onClick={() => moveStop(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={index === stops.length - 1}
+                onClick={() => moveStop(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                disabled={stops.length <= 2}
+                onClick={() => onChange(stops.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => addStop('pickup')}>
+          <Plus className="h-4 w-4" />
+          Pickup
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => addStop('delivery')}>
+          <Plus className="h-4 w-4" />
+          Delivery
+        </Button>
+      </div>
+    </div>
+  );
+};
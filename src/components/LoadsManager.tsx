@@ -1,6 +1,6 @@
-import { useState, useMemo } from 'react';
-import { Plus, Pencil, Trash2, Package, MapPin, Calendar, DollarSign, User, Search, Link2, AlertCircle, Check, ChevronsUpDown } from 'lucide-react';
-import { Driver, Load } from '@/types';
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Package, MapPin, Calendar, DollarSign, User, Search, Link2, AlertCircle, Check, ChevronsUpDown, Lock, ChevronLeft, ChevronRight, Route, Building2 } from 'lucide-react';
+import { Broker, CommissionPlan, Driver, Load, LoadChargeRule, LoadChargeTotalField, LoadStatus, LoadType, PayrollPeriod } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -9,6 +9,39 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import {
+  formatCommissionPercent,
+  getCommissionPlanForDate,
+  getLoadCommissionPercent,
+  getPlanPercent,
+  isDateLocked,
+} from '@/lib/payroll';
+import { ExportSheet, toCents } from '@/lib/export';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { LINK_WINDOW_DAYS, LOADS_PAGE_SIZE, useFullLoadsNear, useLoadStatusHistory, useLoadsPage } from '@/hooks/useLoadsPage';
+import { fetchLoadIds, fetchMatchingLoads } from '@/lib/queries';
+import type { ImportedLoad } from '@/lib/loadImport';
+import { LoadImportWizard } from './LoadImportWizard';
+import { ExportMenu } from './ExportMenu';
+import { LoadStatusBadge, LoadStatusMenu } from './LoadStatusMenu';
+import { LoadStopsEditor } from './LoadStopsEditor';
+import { LoadChargesEditor } from './LoadChargesEditor';
+import { LOAD_STATUSES, LOAD_STATUS_LABELS, getLoadCommissionGross } from '@/lib/loadStatus';
+import {
+  LOAD_STOP_LABELS,
+  LoadStopInput,
+  formatCompactRoute,
+  formatStopLocation,
+  formatStopWindow,
+  newLoadStop,
+  stopsFromLoad,
+  summarizeStops,
+  validateStops,
+} from '@/lib/loadStops';
+import { LoadChargeInput, chargeInputsFromCharges, formatCharge, validateCharges } from '@/lib/loadCharges';
+import { estimateRouteMiles, formatRpm, getLoadAllInRpm, getLoadRpm } from '@/lib/mileage';
 
 // Searchable Full Load Selector Component
 interface FullLoadSearchProps {
@@ -37,7 +70,7 @@ const FullLoadSearch = ({ fullLoads, selectedLoadId, onSelect }: FullLoadSearchP
           >
             {selectedLoad 
               ? `${selectedLoad.load_id} - ${selectedLoad.origin} → ${selectedLoad.destination}`
-              : "Search for a FULL load..."}
+              : selectedLoadId || "Search for a FULL load..."}
             <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
           </Button>
         </PopoverTrigger>
@@ -47,7 +80,7 @@ const FullLoadSearch = ({ fullLoads, selectedLoadId, onSelect }: FullLoadSearchP
             <CommandList>
               <CommandEmpty>
                 {fullLoads.length === 0 
-                  ? "No FULL loads available. Create a FULL load first."
+                  ? `No FULL loads delivered within ${LINK_WINDOW_DAYS} days of this date.`
                   : "No matching loads found."}
               </CommandEmpty>
               <CommandGroup>
@@ -81,50 +114,241 @@ const FullLoadSearch = ({ fullLoads, selectedLoadId, onSelect }: FullLoadSearchP
         </PopoverContent>
       </Popover>
       {fullLoads.length === 0 && (
-        <p className="text-xs text-destructive">You must create a FULL load before creating a PARTIAL load.</p>
+        <p className="text-xs text-destructive">A PARTIAL load must ride with a FULL load delivered within {LINK_WINDOW_DAYS} days of it.</p>
       )}
     </div>
   );
 };
 
+interface BrokerSearchProps {
+  brokers: Broker[];
+  selectedBrokerId: string;
+  onSelect: (brokerId: string) => void;
+}
+
+const BrokerSearch = ({ brokers, selectedBrokerId, onSelect }: BrokerSearchProps) => {
+  const [open, setOpen] = useState(false);
+  const selectedBroker = brokers.find(b => b.id === selectedBrokerId);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium flex items-center gap-2">
+        <Building2 className="h-4 w-4" />
+        Broker
+      </label>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between input-dark"
+          >
+            {selectedBroker
+              ? `${selectedBroker.name}${selectedBroker.mc_number ? ` (MC ${selectedBroker.mc_number})` : ''}`
+              : "Search for a broker..."}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-full p-0 bg-card border-border" align="start">
+          <Command className="bg-card">
+            <CommandInput placeholder="Search by name or MC number..." className="h-9" />
+            <CommandList>
+              <CommandEmpty>
+                {brokers.length === 0
+                  ? "No brokers yet. Add them on the Brokers tab."
+                  : "No matching brokers found."}
+              </CommandEmpty>
+              <CommandGroup>
+                {selectedBrokerId && (
+                  <CommandItem
+                    value="no broker"
+                    onSelect={() => {
+                      onSelect('');
+                      setOpen(false);
+                    }}
+                    className="cursor-pointer text-muted-foreground"
+                  >
+                    <Check className="mr-2 h-4 w-4 opacity-0" />
+                    No broker
+                  </CommandItem>
+                )}
+                {brokers.map(broker => (
+                  <CommandItem
+                    key={broker.id}
+                    value={`${broker.name} ${broker.mc_number ?? ''} ${broker.id}`}
+                    onSelect={() => {
+                      onSelect(broker.id);
+                      setOpen(false);
+                    }}
+                    className="cursor-pointer"
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        selectedBrokerId === broker.id ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <div className="flex flex-col">
+                      <span className="font-medium">{broker.name}</span>
+                      {broker.mc_number && (
+                        <span className="text-xs text-muted-foreground font-mono">MC {broker.mc_number}</span>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
 interface LoadsManagerProps {
   drivers: Driver[];
-  loads: Load[];
-  onAddLoad: (load: Omit<Load, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Load | null>;
-  onUpdateLoad: (id: string, updates: Partial<Load>) => Promise<void>;
+  brokers: Broker[];
+  commissionPlans: CommissionPlan[];
+  chargeRules: LoadChargeRule[];
+  payrollPeriods: PayrollPeriod[];
+  onAddLoad: (
+    load: Omit<Load, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at' | 'updated_by' | 'status' | 'cancellation_reason' | 'tonu_amount' | LoadChargeTotalField>,
+    stops?: LoadStopInput[],
+    charges?: LoadChargeInput[]
+  ) => Promise<Load | null>;
+  onUpdateLoad: (
+    id: string,
+    updates: Partial<Load>,
+    expectedUpdatedAt?: string,
+    stops?: LoadStopInput[],
+    charges?: LoadChargeInput[]
+  ) => Promise<boolean>;
+  onUpdateLoadStatus: (
+    load: Load,
+    status: LoadStatus,
+    cancellation?: Pick<Load, 'cancellation_reason' | 'tonu_amount'>
+  ) => Promise<boolean>;
+  onImportLoads: (loads: ImportedLoad[]) => Promise<number>;
   onDeleteLoad: (id: string) => Promise<void>;
 }
 
-export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDeleteLoad }: LoadsManagerProps) => {
+// Until the first page arrives
+const NO_LOADS: Load[] = [];
+
+// Status filter value listing loads in every status
+const ALL_STATUSES = 'all';
+
+// A new load starts as one pickup and one delivery today
+const defaultStops = (): LoadStopInput[] => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return [newLoadStop('pickup', today), newLoadStop('delivery', today)];
+};
+
+export const LoadsManager = ({
+  drivers,
+  brokers,
+  commissionPlans,
+  chargeRules,
+  payrollPeriods,
+  onAddLoad,
+  onUpdateLoad,
+  onUpdateLoadStatus,
+  onImportLoads,
+  onDeleteLoad,
+}: LoadsManagerProps) => {
+  const { user } = useAuth();
+  const { organization, members, permissions, getMemberName } = useOrganization();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingLoad, setEditingLoad] = useState<Load | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<LoadStatus | null>(null);
+  const [page, setPage] = useState(0);
   const [validationError, setValidationError] = useState('');
+  const [stops, setStops] = useState<LoadStopInput[]>(defaultStops);
+  const [charges, setCharges] = useState<LoadChargeInput[]>([]);
   const [formData, setFormData] = useState({
     load_id: '',
-    pickup_date: format(new Date(), 'yyyy-MM-dd'),
-    delivery_date: format(new Date(), 'yyyy-MM-dd'),
-    origin: '',
-    destination: '',
     rate: '',
     load_type: 'FULL' as 'FULL' | 'PARTIAL',
     driver_id: '',
     connected_full_load_id: '',
+    broker_id: '',
+    cancellation_reason: '',
+    tonu_amount: '',
+    loaded_miles: '',
+    deadhead_miles: '',
   });
+  const [isEstimating, setIsEstimating] = useState(false);
 
-  const fullLoads = useMemo(() => loads.filter(l => l.load_type === 'FULL'), [loads]);
+  // The list is fetched a page at a time, newest delivery first
+  const { data: loadPage } = useLoadsPage(searchQuery, statusFilter, page);
+  const pageLoads = loadPage?.loads ?? NO_LOADS;
+  const totalLoads = loadPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(totalLoads / LOADS_PAGE_SIZE));
+  // Deleting the last load on the last page leaves nothing to show there
+  if (loadPage && page >= pageCount) {
+    setPage(pageCount - 1);
+  }
+
+  const connectedLoadId = (load: Load) =>
+    load.connected_full_load_id ? loadPage?.loadIdsById.get(load.connected_full_load_id) : undefined;
+
+  // Saved stops of a listed load; loads saved before stops existed have none
+  const loadStops = (load: Load) => loadPage?.stopsByLoadId.get(load.id);
+  const routeLabel = (load: Load) => {
+    const saved = loadStops(load);
+    return saved && saved.length > 2 ? formatCompactRoute(saved) : `${load.origin} → ${load.destination}`;
+  };
+  const routeTitle = (load: Load) =>
+    loadStops(load)
+      ?.map(stop => [
+        `${stop.sequence}. ${LOAD_STOP_LABELS[stop.stop_type]} ${formatStopLocation(stop)}`,
+        format(parseISO(stop.appointment_date), 'MMM d'),
+        formatStopWindow(stop),
+      ].filter(Boolean).join(' '))
+      .join('\n');
+
+  // Charges listed one per line, for the tooltip on the charges total
+  const chargesTitle = (load: Load) =>
+    loadPage?.chargesByLoadId.get(load.id)
+      ?.map(charge => `${formatCharge(charge)} $${Number(charge.amount).toLocaleString()}`)
+      .join('\n');
+
+  // Origin, destination and dates the load is saved with
+  const route = summarizeStops(stops);
+
+  const { data: nearbyFullLoads } = useFullLoadsNear(route.delivery_date);
+  const fullLoads = nearbyFullLoads ?? NO_LOADS;
+
+  // The load as it is now; differs from editingLoad when someone saved it while the dialog is open
+  const liveLoad = editingLoad ? pageLoads.find(l => l.id === editingLoad.id) : undefined;
+  const hasEditConflict = !!liveLoad && liveLoad.updated_at !== editingLoad.updated_at;
+  const { data: statusHistory } = useLoadStatusHistory(editingLoad?.id);
+
+  // Commission the booking dispatcher earns on the load, per the plan in force at delivery
+  const commissionPlan = getCommissionPlanForDate(
+    commissionPlans,
+    editingLoad?.user_id ?? user?.id ?? null,
+    route.delivery_date
+  );
+  const commissionLabel = (loadType: LoadType) =>
+    `${formatCommissionPercent(getPlanPercent(commissionPlan, loadType))} commission`;
 
   const resetForm = () => {
+    setStops(defaultStops());
+    setCharges([]);
     setFormData({
       load_id: '',
-      pickup_date: format(new Date(), 'yyyy-MM-dd'),
-      delivery_date: format(new Date(), 'yyyy-MM-dd'),
-      origin: '',
-      destination: '',
       rate: '',
       load_type: 'FULL',
       driver_id: '',
       connected_full_load_id: '',
+      broker_id: '',
+      cancellation_reason: '',
+      tonu_amount: '',
+      loaded_miles: '',
+      deadhead_miles: '',
     });
     setEditingLoad(null);
     setValidationError('');
@@ -134,6 +358,24 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
     e.preventDefault();
     setValidationError('');
 
+    const stopsError = validateStops(stops);
+    if (stopsError) {
+      setValidationError(stopsError);
+      return;
+    }
+
+    const chargesError = validateCharges(charges);
+    if (chargesError) {
+      setValidationError(chargesError);
+      return;
+    }
+
+    // Closed payroll periods are frozen; corrections go through adjustments
+    if (isDateLocked(payrollPeriods, route.delivery_date)) {
+      setValidationError('This delivery date is in a closed payroll period. Record an adjustment instead.');
+      return;
+    }
+
     // Validate PARTIAL load requires a connected FULL load
     if (formData.load_type === 'PARTIAL' && !formData.connected_full_load_id) {
       setValidationError('PARTIAL loads must be linked to an existing FULL load.');
@@ -143,7 +385,11 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
     // Find the connected full load to get its UUID
     let connectedLoadUuid: string | null = null;
     if (formData.connected_full_load_id) {
-      const connectedLoad = fullLoads.find(l => l.load_id === formData.connected_full_load_id);
+      // An edited load keeps its link even when the FULL load is outside the picker's date range
+      const keptLink = editingLoad && connectedLoadId(editingLoad) === formData.connected_full_load_id
+        ? { id: editingLoad.connected_full_load_id }
+        : undefined;
+      const connectedLoad = fullLoads.find(l => l.load_id === formData.connected_full_load_id) ?? keptLink;
       if (!connectedLoad) {
         setValidationError('The selected FULL load does not exist.');
         return;
@@ -153,20 +399,30 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
 
     const loadData = {
       load_id: formData.load_id,
-      pickup_date: formData.pickup_date,
-      delivery_date: formData.delivery_date,
-      origin: formData.origin,
-      destination: formData.destination,
+      ...route,
       rate: parseFloat(formData.rate),
       load_type: formData.load_type,
       driver_id: formData.driver_id,
       connected_full_load_id: connectedLoadUuid,
+      broker_id: formData.broker_id || null,
+      loaded_miles: formData.loaded_miles ? parseInt(formData.loaded_miles, 10) : null,
+      deadhead_miles: formData.deadhead_miles ? parseInt(formData.deadhead_miles, 10) : null,
     };
 
     if (editingLoad) {
-      await onUpdateLoad(editingLoad.id, loadData);
+      // The reason and TONU fee can be corrected while the load stays cancelled
+      const updates = editingLoad.status === 'cancelled'
+        ? {
+            ...loadData,
+            cancellation_reason: formData.cancellation_reason.trim() || null,
+            tonu_amount: formData.tonu_amount ? parseFloat(formData.tonu_amount) : null,
+          }
+        : loadData;
+      const saved = await onUpdateLoad(editingLoad.id, updates, editingLoad.updated_at, stops, charges);
+      // Keep the form so the edit can be redone on top of the latest version
+      if (!saved) return;
     } else {
-      await onAddLoad(loadData);
+      await onAddLoad(loadData, stops, charges);
     }
 
     setIsDialogOpen(false);
@@ -175,41 +431,124 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
 
   const handleEdit = (load: Load) => {
     setEditingLoad(load);
-    const connectedLoad = load.connected_full_load_id 
-      ? loads.find(l => l.id === load.connected_full_load_id)?.load_id || ''
-      : '';
+    const connectedLoad = connectedLoadId(load) ?? '';
+    const saved = loadStops(load);
+    setStops(saved
+      ? saved.map(({ stop_type, city, state, appointment_date, window_start, window_end }) =>
+          ({ stop_type, city, state, appointment_date, window_start, window_end }))
+      : stopsFromLoad(load));
+    setCharges(chargeInputsFromCharges(loadPage?.chargesByLoadId.get(load.id) ?? []));
     setFormData({
       load_id: load.load_id,
-      pickup_date: load.pickup_date,
-      delivery_date: load.delivery_date,
-      origin: load.origin,
-      destination: load.destination,
       rate: load.rate.toString(),
       load_type: load.load_type,
       driver_id: load.driver_id,
       connected_full_load_id: connectedLoad,
+      broker_id: load.broker_id ?? '',
+      cancellation_reason: load.cancellation_reason ?? '',
+      tonu_amount: load.tonu_amount?.toString() ?? '',
+      loaded_miles: load.loaded_miles?.toString() ?? '',
+      deadhead_miles: load.deadhead_miles?.toString() ?? '',
     });
     setIsDialogOpen(true);
   };
 
+  // Fills loaded miles with a straight-line estimate along the stops; deadhead stays manual
+  const handleEstimateMiles = async () => {
+    setIsEstimating(true);
+    try {
+      const miles = await estimateRouteMiles(stops);
+      if (miles === null) {
+        toast.error("Couldn't estimate miles: a stop's ZIP or city isn't in the offline list. Enter the miles instead.");
+        return;
+      }
+      setFormData(current => ({ ...current, loaded_miles: miles.toString() }));
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
   const getDriverName = (driverId: string) => {
     return drivers.find(d => d.id === driverId)?.driver_name || 'Unknown';
   };
 
-  const filteredLoads = useMemo(() => {
-    const sorted = [...loads].sort((a, b) => 
-      new Date(b.delivery_date).getTime() - new Date(a.delivery_date).getTime()
-    );
-    
-    if (!searchQuery.trim()) return sorted;
-    
-    const query = searchQuery.toLowerCase();
-    return sorted.filter(load => 
-      load.load_id.toLowerCase().includes(query) ||
-      load.origin.toLowerCase().includes(query) ||
-      load.destination.toLowerCase().includes(query)
-    );
-  }, [loads, searchQuery]);
+  const getBrokerName = (brokerId: string | null) =>
+    brokerId ? brokers.find(b => b.id === brokerId)?.name ?? null : null;
+
+  // Every page of loads as listed, with the current search and status filter applied
+  const buildExportSheet = async (): Promise<ExportSheet> => {
+    const loads = await fetchMatchingLoads(organization.id, searchQuery, statusFilter);
+    const loadIdsById = new Map(loads.map(l => [l.id, l.load_id]));
+    const missingIds = loads
+      .map(l => l.connected_full_load_id)
+      .filter((id): id is string => !!id && !loadIdsById.has(id));
+    for (const [id, loadId] of await fetchLoadIds([...new Set(missingIds)])) {
+      loadIdsById.set(id, loadId);
+    }
+
+    return {
+      name: 'Loads',
+      columns: [
+        { header: 'Load ID' },
+        { header: 'Type' },
+        { header: 'Status' },
+        { header: 'Pickup Date' },
+        { header: 'Delivery Date' },
+        { header: 'Origin', width: 24 },
+        { header: 'Destination', width: 24 },
+        { header: 'Truck №' },
+        { header: 'Driver', width: 20 },
+        { header: 'Booked By', width: 20 },
+        { header: 'Connected FULL Load' },
+        { header: 'Broker', width: 24 },
+        { header: 'Broker MC' },
+        { header: 'Rate', type: 'currency' },
+        { header: 'Charges', type: 'currency' },
+        { header: 'Reimbursements', type: 'currency' },
+        { header: 'Loaded Miles', type: 'number' },
+        { header: 'Deadhead Miles', type: 'number' },
+        { header: 'RPM', type: 'currency' },
+        { header: 'All-in RPM', type: 'currency' },
+        { header: 'Cancellation Reason', width: 24 },
+        { header: 'TONU', type: 'currency' },
+        { header: 'Commission %', type: 'number' },
+        { header: 'Commission', type: 'currency' },
+      ],
+      rows: loads.map(load => {
+        const driver = drivers.find(d => d.id === load.driver_id);
+        const percent = getLoadCommissionPercent(load, commissionPlans);
+        const broker = brokers.find(b => b.id === load.broker_id);
+        return [
+          load.load_id,
+          load.load_type,
+          LOAD_STATUS_LABELS[load.status],
+          load.pickup_date,
+          load.delivery_date,
+          load.origin,
+          load.destination,
+          driver?.truck_number ?? null,
+          driver?.driver_name ?? 'Unknown',
+          getMemberName(load.user_id),
+          load.connected_full_load_id
+            ? loadIdsById.get(load.connected_full_load_id) ?? null
+            : null,
+          broker?.name ?? null,
+          broker?.mc_number ?? null,
+          Number(load.rate),
+          Number(load.charges_total ?? 0),
+          Number(load.reimbursement_charges ?? 0),
+          load.loaded_miles,
+          load.deadhead_miles,
+          getLoadRpm(load),
+          getLoadAllInRpm(load),
+          load.cancellation_reason,
+          load.tonu_amount === null ? null : Number(load.tonu_amount),
+          percent,
+          toCents(getLoadCommissionGross(load) * percent / 100),
+        ];
+      }),
+    };
+  };
 
   return (
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
@@ -220,250 +559,359 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
           <p className="text-sm text-muted-foreground">Create and manage shipment loads</p>
         </div>
 
-        <Dialog open={isDialogOpen} onOpenChange={(open) => {
-          setIsDialogOpen(open);
-          if (!open) resetForm();
-        }}>
-          <DialogTrigger asChild>
-            <Button className="btn-primary gap-2 w-full sm:w-auto">
-              <Plus className="h-4 w-4" />
-              New Load
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="bg-card border-border max-w-lg">
-            <DialogHeader>
-              <DialogTitle>{editingLoad ? 'Edit Load' : 'Create New Load'}</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {validationError && (
-                <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
-                  <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
-                  <p className="text-sm text-destructive">{validationError}</p>
-                </div>
-              )}
+        <div className="flex flex-col sm:flex-row gap-2">
+          {permissions.canExport && (
+            <ExportMenu
+              fileName={`loads-${format(new Date(), 'yyyy-MM-dd')}`}
+              getSheet={buildExportSheet}
+              disabled={totalLoads === 0}
+            />
+          )}
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Load ID</label>
-                <Input
-                  value={formData.load_id}
-                  onChange={(e) => setFormData({ ...formData, load_id: e.target.value })}
-                  placeholder="e.g., LD-2024-001"
-                  className="input-dark"
-                  required
-                  maxLength={50}
-                />
-              </div>
+          {permissions.canEditLoads && (
+            <LoadImportWizard
+              drivers={drivers}
+              payrollPeriods={payrollPeriods}
+              onImportLoads={onImportLoads}
+            />
+          )}
 
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Pickup Date</label>
-                  <Input
-                    type="date"
-                    value={formData.pickup_date}
-                    onChange={(e) => setFormData({ ...formData, pickup_date: e.target.value })}
-                    className="input-dark"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Delivery Date</label>
-                  <Input
-                    type="date"
-                    value={formData.delivery_date}
-                    onChange={(e) => setFormData({ ...formData, delivery_date: e.target.value })}
-                    className="input-dark"
-                    required
-                  />
-                </div>
-              </div>
+          <Dialog open={isDialogOpen} onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            {permissions.canEditLoads && (
+              <DialogTrigger asChild>
+                <Button className="btn-primary gap-2 w-full sm:w-auto">
+                  <Plus className="h-4 w-4" />
+                  New Load
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="bg-card border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingLoad ? 'Edit Load' : 'Create New Load'}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {validationError && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                    <p className="text-sm text-destructive">{validationError}</p>
+                  </div>
+                )}
+                {hasEditConflict && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-warning/10 border border-warning/20">
+                    <AlertCircle className="h-4 w-4 text-warning flex-shrink-0" />
+                    <p className="text-sm flex-1">
+                      {getMemberName(liveLoad.updated_by)} changed this load while you were editing.
+                    </p>
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleEdit(liveLoad)}>
+                      Load Latest
+                    </Button>
+                  </div>
+                )}
 
-              <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Origin</label>
+                  <label className="text-sm font-medium">Load ID</label>
                   <Input
-                    value={formData.origin}
-                    onChange={(e) => setFormData({ ...formData, origin: e.target.value })}
-                    placeholder="e.g., Chicago, IL"
+                    value={formData.load_id}
+                    onChange={(e) => setFormData({ ...formData, load_id: e.target.value })}
+                    placeholder="e.g., LD-2024-001"
                     className="input-dark"
                     required
-                    maxLength={100}
+                    maxLength={50}
                   />
                 </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Destination</label>
-                  <Input
-                    value={formData.destination}
-                    onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
-                    placeholder="e.g., Los Angeles, CA"
-                    className="input-dark"
-                    required
-                    maxLength={100}
-                  />
-                </div>
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Rate ($)</label>
-                  <Input
-                    type="number"
-                    value={formData.rate}
-                    onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
-                    placeholder="0.00"
-                    min="0"
-                    step="0.01"
-                    className="input-dark"
-                    required
-                  />
+                <LoadStopsEditor
+                  stops={stops}
+                  onChange={(next) => {
+                    setStops(next);
+                    setValidationError('');
+                  }}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Loaded Miles</label>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 gap-1 px-2 text-xs"
+                        disabled={isEstimating}
+                        onClick={handleEstimateMiles}
+                      >
+                        <Route className="h-3.5 w-3.5" />
+                        {isEstimating ? 'Estimating...' : 'Estimate'}
+                      </Button>
+                    </div>
+                    <Input
+                      type="number"
+                      value={formData.loaded_miles}
+                      onChange={(e) => setFormData({ ...formData, loaded_miles: e.target.value })}
+                      placeholder="0"
+                      min="0"
+                      step="1"
+                      className="input-dark"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium flex h-6 items-center">Deadhead Miles</label>
+                    <Input
+                      type="number"
+                      value={formData.deadhead_miles}
+                      onChange={(e) => setFormData({ ...formData, deadhead_miles: e.target.value })}
+                      placeholder="0"
+                      min="0"
+                      step="1"
+                      className="input-dark"
+                    />
+                  </div>
                 </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Load Type</label>
-                  <Select
-                    value={formData.load_type}
-                    onValueChange={(value: 'FULL' | 'PARTIAL') => {
-                      setFormData({ ...formData, load_type: value, connected_full_load_id: value === 'FULL' ? '' : formData.connected_full_load_id });
-                      setValidationError('');
-                    }}
-                  >
-                    <SelectTrigger className="input-dark">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent className="bg-card border-border">
-                      <SelectItem value="FULL">FULL (1% commission)</SelectItem>
-                      <SelectItem value="PARTIAL">PARTIAL (2% commission)</SelectItem>
-                    </SelectContent>
-                  </Select>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Rate ($)</label>
+                    <Input
+                      type="number"
+                      value={formData.rate}
+                      onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                      placeholder="0.00"
+                      min="0"
+                      step="0.01"
+                      className="input-dark"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Load Type</label>
+                    <Select
+                      value={formData.load_type}
+                      onValueChange={(value: 'FULL' | 'PARTIAL') => {
+                        setFormData({ ...formData, load_type: value, connected_full_load_id: value === 'FULL' ? '' : formData.connected_full_load_id });
+                        setValidationError('');
+                      }}
+                    >
+                      <SelectTrigger className="input-dark">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-card border-border">
+                        <SelectItem value="FULL">FULL ({commissionLabel('FULL')})</SelectItem>
+                        <SelectItem value="PARTIAL">PARTIAL ({commissionLabel('PARTIAL')})</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
 
-              {formData.load_type === 'PARTIAL' && (
-                <FullLoadSearch
-                  fullLoads={fullLoads}
-                  selectedLoadId={formData.connected_full_load_id}
-                  onSelect={(value) => {
-                    setFormData({ ...formData, connected_full_load_id: value });
+                <LoadChargesEditor
+                  charges={charges}
+                  rules={chargeRules}
+                  onChange={(next) => {
+                    setCharges(next);
                     setValidationError('');
                   }}
                 />
-              )}
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Assigned Driver (by Name or Truck №)</label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      role="combobox"
-                      className="w-full justify-between input-dark"
-                    >
-                      {formData.driver_id 
-                        ? (() => {
-                            const driver = drivers.find(d => d.id === formData.driver_id);
-                            return driver 
-                              ? `${driver.truck_number ? `[${driver.truck_number}] ` : ''}${driver.driver_name}`
-                              : "Select a driver...";
-                          })()
-                        : "Select a driver..."}
-                      <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-full p-0 bg-card border-border" align="start">
-                    <Command className="bg-card">
-                      <CommandInput placeholder="Search by name or truck №..." className="h-9" />
-                      <CommandList>
-                        <CommandEmpty>No drivers found.</CommandEmpty>
-                        <CommandGroup>
-                          {drivers.filter(d => d.status === 'active').map(driver => (
-                            <CommandItem
-                              key={driver.id}
-                              value={`${driver.truck_number || ''} ${driver.driver_name}`}
-                              onSelect={() => {
-                                setFormData({ ...formData, driver_id: driver.id });
-                              }}
-                              className="cursor-pointer"
-                            >
-                              <Check
-                                className={cn(
-                                  "mr-2 h-4 w-4",
-                                  formData.driver_id === driver.id ? "opacity-100" : "opacity-0"
-                                )}
-                              />
-                              <div className="flex flex-col">
-                                <span className="font-medium">
-                                  {driver.truck_number && <span className="font-mono">[{driver.truck_number}] </span>}
-                                  {driver.driver_name}
-                                </span>
-                                <span className="text-xs text-muted-foreground">
-                                  {driver.driver_type === 'owner_operator' ? 'Owner Operator' : 'Company Driver'}
-                                </span>
-                              </div>
-                            </CommandItem>
-                          ))}
-                        </CommandGroup>
-                      </CommandList>
-                    </Command>
-                  </PopoverContent>
-                </Popover>
-              </div>
+                {formData.load_type === 'PARTIAL' && (
+                  <FullLoadSearch
+                    fullLoads={fullLoads}
+                    selectedLoadId={formData.connected_full_load_id}
+                    onSelect={(value) => {
+                      setFormData({ ...formData, connected_full_load_id: value });
+                      setValidationError('');
+                    }}
+                  />
+                )}
 
-              <div className="flex justify-end gap-3 pt-4">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button 
-                  type="submit" 
-                  className="btn-primary"
-                  disabled={formData.load_type === 'PARTIAL' && fullLoads.length === 0}
-                >
-                  {editingLoad ? 'Update Load' : 'Create Load'}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <BrokerSearch
+                  brokers={brokers}
+                  selectedBrokerId={formData.broker_id}
+                  onSelect={(value) => setFormData({ ...formData, broker_id: value })}
+                />
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Assigned Driver (by Name or Truck №)</label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        role="combobox"
+                        className="w-full justify-between input-dark"
+                      >
+                        {formData.driver_id 
+                          ? (() => {
+                              const driver = drivers.find(d => d.id === formData.driver_id);
+                              return driver 
+                                ? `${driver.truck_number ? `[${driver.truck_number}] ` : ''}${driver.driver_name}`
+                                : "Select a driver...";
+                            })()
+                          : "Select a driver..."}
+                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-full p-0 bg-card border-border" align="start">
+                      <Command className="bg-card">
+                        <CommandInput placeholder="Search by name or truck №..." className="h-9" />
+                        <CommandList>
+                          <CommandEmpty>No drivers found.</CommandEmpty>
+                          <CommandGroup>
+                            {drivers.filter(d => d.status === 'active').map(driver => (
+                              <CommandItem
+                                key={driver.id}
+                                value={`${driver.truck_number || ''} ${driver.driver_name}`}
+                                onSelect={() => {
+                                  setFormData({ ...formData, driver_id: driver.id });
+                                }}
+                                className="cursor-pointer"
+                              >
+                                <Check
+                                  className={cn(
+                                    "mr-2 h-4 w-4",
+                                    formData.driver_id === driver.id ? "opacity-100" : "opacity-0"
+                                  )}
+                                />
+                                <div className="flex flex-col">
+                                  <span className="font-medium">
+                                    {driver.truck_number && <span className="font-mono">[{driver.truck_number}] </span>}
+                                    {driver.driver_name}
+                                  </span>
+                                  <span className="text-xs text-muted-foreground">
+                                    {driver.driver_type === 'owner_operator' ? 'Owner Operator' : 'Company Driver'}
+                                  </span>
+                                </div>
+                              </CommandItem>
+                            ))}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
+                {editingLoad?.status === 'cancelled' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Cancellation Reason</label>
+                      <Input
+                        value={formData.cancellation_reason}
+                        onChange={(e) => setFormData({ ...formData, cancellation_reason: e.target.value })}
+                        className="input-dark"
+                        maxLength={200}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">TONU Amount ($)</label>
+                      <Input
+                        type="number"
+                        value={formData.tonu_amount}
+                        onChange={(e) => setFormData({ ...formData, tonu_amount: e.target.value })}
+                        placeholder="No TONU"
+                        min="0"
+                        step="0.01"
+                        className="input-dark"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {editingLoad && statusHistory && statusHistory.length > 0 && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Status History</label>
+                    <ol className="space-y-1.5">
+                      {statusHistory.map(change => (
+                        <li key={change.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <LoadStatusBadge status={change.to_status} />
+                          <span>{format(parseISO(change.changed_at), 'MMM d, yyyy h:mm a')}</span>
+                          {change.changed_by && <span>by {getMemberName(change.changed_by)}</span>}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-3 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button 
+                    type="submit" 
+                    className="btn-primary"
+                    disabled={formData.load_type === 'PARTIAL' && fullLoads.length === 0}
+                  >
+                    {editingLoad ? 'Update Load' : 'Create Load'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      {/* Search */}
-      <div className="relative max-w-md">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          placeholder="Search by Load ID, origin, or destination..."
-          className="pl-10 input-dark"
-        />
+      {/* Search and status filter */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setPage(0);
+            }}
+            placeholder="Search by Load ID, origin, or destination..."
+            className="pl-10 input-dark"
+          />
+        </div>
+        <Select
+          value={statusFilter ?? ALL_STATUSES}
+          onValueChange={(value) => {
+            setStatusFilter(value === ALL_STATUSES ? null : value as LoadStatus);
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="input-dark sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+            {LOAD_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>{LOAD_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Stats */}
       <div className="grid grid-cols-3 gap-2 sm:gap-4">
         <div className="glass-card p-3 sm:p-4">
           <p className="text-xs sm:text-sm text-muted-foreground">Total Loads</p>
-          <p className="text-xl sm:text-2xl font-bold font-mono">{loads.length}</p>
+          <p className="text-xl sm:text-2xl font-bold font-mono">{(loadPage?.fullCount ?? 0) + (loadPage?.partialCount ?? 0)}</p>
         </div>
         <div className="glass-card p-3 sm:p-4">
           <p className="text-xs sm:text-sm text-muted-foreground">Full Loads</p>
           <p className="text-xl sm:text-2xl font-bold font-mono text-primary">
-            {loads.filter(l => l.load_type === 'FULL').length}
+            {loadPage?.fullCount ?? 0}
           </p>
         </div>
         <div className="glass-card p-3 sm:p-4">
           <p className="text-xs sm:text-sm text-muted-foreground">Partial Loads</p>
           <p className="text-xl sm:text-2xl font-bold font-mono text-warning">
-            {loads.filter(l => l.load_type === 'PARTIAL').length}
+            {loadPage?.partialCount ?? 0}
           </p>
         </div>
       </div>
 
       {/* Mobile Card View */}
       <div className="lg:hidden space-y-3">
-        {filteredLoads.length === 0 ? (
+        {pageLoads.length === 0 ? (
           <div className="glass-card p-8 text-center text-muted-foreground">
             <Package className="h-12 w-12 mx-auto mb-3 opacity-30" />
-            <p>{searchQuery ? 'No loads match your search.' : 'No loads yet. Create your first load to get started.'}</p>
+            <p>{searchQuery || statusFilter ? 'No loads match your search.' : 'No loads yet. Create your first load to get started.'}</p>
           </div>
         ) : (
-          filteredLoads.map((load) => (
-            <div key={load.id} className="glass-card p-4 space-y-3">
+          pageLoads.map((load) => (
+            <div key={load.id} className={cn('glass-card p-4 space-y-3', load.status === 'cancelled' && 'opacity-60')}>
               <div className="flex items-start justify-between">
                 <div>
                   <span className="font-mono font-medium text-sm">{load.load_id}</span>
@@ -472,22 +920,54 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
                   }`}>
                     {load.load_type}
                   </span>
+                  <span className="ml-2">
+                    <LoadStatusMenu
+                      load={load}
+                      locked={isDateLocked(payrollPeriods, load.delivery_date)}
+                      onChangeStatus={onUpdateLoadStatus}
+                      readOnly={!permissions.canEditLoads}
+                    />
+                  </span>
                   {load.connected_full_load_id && (
                     <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
                       <Link2 className="h-3 w-3" />
-                      <span>{loads.find(l => l.id === load.connected_full_load_id)?.load_id || 'Linked'}</span>
+                      <span>{connectedLoadId(load) || 'Linked'}</span>
+                    </div>
+                  )}
+                  {getBrokerName(load.broker_id) && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                      <Building2 className="h-3 w-3" />
+                      <span>{getBrokerName(load.broker_id)}</span>
                     </div>
                   )}
                 </div>
-                <span className="font-mono font-semibold text-lg text-primary">
-                  ${Number(load.rate).toLocaleString()}
-                </span>
+                <div className="text-right">
+                  <span className={cn('font-mono font-semibold text-lg text-primary', load.status === 'cancelled' && 'line-through')}>
+                    ${Number(load.rate).toLocaleString()}
+                  </span>
+                  {load.tonu_amount !== null && (
+                    <p className="font-mono text-sm">TONU ${Number(load.tonu_amount).toLocaleString()}</p>
+                  )}
+                  {Number(load.charges_total) > 0 && (
+                    <p className="font-mono text-xs text-muted-foreground" title={chargesTitle(load)}>
+                      + ${Number(load.charges_total).toLocaleString()} charges
+                    </p>
+                  )}
+                  {getLoadRpm(load) !== null && (
+                    <p className="font-mono text-xs text-muted-foreground">
+                      {formatRpm(getLoadRpm(load))}/mi · {formatRpm(getLoadAllInRpm(load))} all-in
+                    </p>
+                  )}
+                </div>
               </div>
               
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <MapPin className="h-4 w-4 flex-shrink-0" />
-                <span className="truncate">{load.origin} → {load.destination}</span>
+                <span className="truncate" title={routeTitle(load)}>{routeLabel(load)}</span>
               </div>
+              {load.cancellation_reason && (
+                <p className="text-xs text-muted-foreground">Cancelled: {load.cancellation_reason}</p>
+              )}
               
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center gap-2 text-muted-foreground">
@@ -499,15 +979,28 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
                   <span className="text-sm">{getDriverName(load.driver_id)}</span>
                 </div>
               </div>
+              {members.length > 1 && (
+                <p className="text-xs text-muted-foreground">Booked by {getMemberName(load.user_id)}</p>
+              )}
               
-              <div className="flex justify-end gap-2 pt-2 border-t border-border/30">
-                <Button variant="ghost" size="sm" onClick={() => handleEdit(load)}>
-                  <Pencil className="h-4 w-4 mr-1" /> Edit
-                </Button>
-                <Button variant="ghost" size="sm" onClick={() => onDeleteLoad(load.id)} className="text-destructive hover:text-destructive">
-                  <Trash2 className="h-4 w-4 mr-1" /> Delete
-                </Button>
-              </div>
+              {permissions.canEditLoads && (
+                <div className="flex justify-end gap-2 pt-2 border-t border-border/30">
+                  {isDateLocked(payrollPeriods, load.delivery_date) ? (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground py-2">
+                      <Lock className="h-3.5 w-3.5" /> Closed period
+                    </span>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(load)}>
+                        <Pencil className="h-4 w-4 mr-1" /> Edit
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => onDeleteLoad(load.id)} className="text-destructive hover:text-destructive">
+                        <Trash2 className="h-4 w-4 mr-1" /> Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           ))
         )}
@@ -521,34 +1014,42 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
               <tr className="border-b border-border/50">
                 <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Load ID</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Route</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Dates</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Driver</th>
                 <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Rate</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">RPM</th>
                 <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-border/30">
-              {filteredLoads.length === 0 ? (
+              {pageLoads.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-4 py-12 text-center text-muted-foreground">
+                  <td colSpan={9} className="px-4 py-12 text-center text-muted-foreground">
                     <Package className="h-12 w-12 mx-auto mb-3 opacity-30" />
-                    <p>{searchQuery ? 'No loads match your search.' : 'No loads yet. Create your first load to get started.'}</p>
+                    <p>{searchQuery || statusFilter ? 'No loads match your search.' : 'No loads yet. Create your first load to get started.'}</p>
                   </td>
                 </tr>
               ) : (
-                filteredLoads.map((load) => (
-                  <tr key={load.id} className="table-row-hover">
+                pageLoads.map((load) => (
+                  <tr key={load.id} className={cn('table-row-hover', load.status === 'cancelled' && 'opacity-60')}>
                     <td className="px-4 py-4">
                       <span className="font-mono font-medium">{load.load_id}</span>
                       {load.connected_full_load_id && (
                         <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
                           <Link2 className="h-3 w-3" />
                           <span>
-                            {loads.find(l => l.id === load.connected_full_load_id)?.load_id || 'Linked'}
+                            {connectedLoadId(load) || 'Linked'}
                           </span>
                         </div>
                       )}
+                      {getBrokerName(load.broker_id) && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                          <Building2 className="h-3 w-3" />
+                          <span>{getBrokerName(load.broker_id)}</span>
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-4">
                       <span className={`status-badge ${
@@ -558,12 +1059,21 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
                       </span>
                     </td>
                     <td className="px-4 py-4">
-                      <div className="flex items-center gap-2">
+                      <LoadStatusMenu
+                        load={load}
+                        locked={isDateLocked(payrollPeriods, load.delivery_date)}
+                        onChangeStatus={onUpdateLoadStatus}
+                        readOnly={!permissions.canEditLoads}
+                      />
+                    </td>
+                    <td className="px-4 py-4">
+                      <div className="flex items-center gap-2" title={routeTitle(load)}>
                         <MapPin className="h-4 w-4 text-muted-foreground" />
-                        <span>{load.origin}</span>
-                        <span className="text-muted-foreground">→</span>
-                        <span>{load.destination}</span>
+                        <span>{routeLabel(load)}</span>
                       </div>
+                      {load.cancellation_reason && (
+                        <p className="text-xs text-muted-foreground mt-1">Cancelled: {load.cancellation_reason}</p>
+                      )}
                     </td>
                     <td className="px-4 py-4">
                       <div className="text-sm">
@@ -580,31 +1090,55 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
                         <User className="h-4 w-4 text-muted-foreground" />
                         <span>{getDriverName(load.driver_id)}</span>
                       </div>
+                      {members.length > 1 && (
+                        <p className="text-xs text-muted-foreground mt-1">Booked by {getMemberName(load.user_id)}</p>
+                      )}
                     </td>
                     <td className="px-4 py-4 text-right">
-                      <span className="font-mono font-semibold text-lg">
+                      <span className={cn('font-mono font-semibold text-lg', load.status === 'cancelled' && 'line-through')}>
                         ${Number(load.rate).toLocaleString()}
                       </span>
+                      {load.tonu_amount !== null && (
+                        <p className="font-mono text-sm">TONU ${Number(load.tonu_amount).toLocaleString()}</p>
+                      )}
+                      {Number(load.charges_total) > 0 && (
+                        <p className="font-mono text-xs text-muted-foreground" title={chargesTitle(load)}>
+                          + ${Number(load.charges_total).toLocaleString()} charges
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 text-right" title={load.loaded_miles === null ? undefined : `${load.loaded_miles} loaded, ${load.deadhead_miles ?? 0} deadhead miles`}>
+                      <span className="font-mono">{formatRpm(getLoadRpm(load))}</span>
+                      {getLoadAllInRpm(load) !== null && (
+                        <p className="font-mono text-xs text-muted-foreground">{formatRpm(getLoadAllInRpm(load))} all-in</p>
+                      )}
                     </td>
                     <td className="px-4 py-4 text-right">
-                      <div className="flex items-center justify-end gap-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleEdit(load)}
-                          className="h-8 w-8"
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => onDeleteLoad(load.id)}
-                          className="h-8 w-8 text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                      {isDateLocked(payrollPeriods, load.delivery_date) ? (
+                        <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground" title="Delivered in a closed payroll period">
+                          <Lock className="h-4 w-4" />
+                          Closed
+                        </div>
+                      ) : permissions.canEditLoads && (
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(load)}
+                            className="h-8 w-8"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onDeleteLoad(load.id)}
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))
@@ -613,6 +1147,24 @@ export const LoadsManager = ({ drivers, loads, onAddLoad, onUpdateLoad, onDelete
           </table>
         </div>
       </div>
+
+      {/* Pagination */}
+      {totalLoads > LOADS_PAGE_SIZE && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {page * LOADS_PAGE_SIZE + 1}-{Math.min((page + 1) * LOADS_PAGE_SIZE, totalLoads)} of {totalLoads}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
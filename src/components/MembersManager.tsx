@@ -0,0 +1,329 @@
+import { useState } from 'react';
+import { UserPlus, UserCog, Mail, RefreshCw, X, Link2, ShieldCheck } from 'lucide-react';
+import { OrganizationRole } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useInvitations } from '@/hooks/useInvitations';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { toast } from 'sonner';
+
+const ROLE_BADGES: Record<OrganizationRole, string> = {
+  owner: 'status-full',
+  dispatcher: 'status-partial',
+  accountant: 'bg-accent text-accent-foreground',
+  viewer: 'bg-muted text-muted-foreground',
+};
+
+const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Everything, including bonus rules, commission plans and team members',
+  dispatcher: 'Books loads and manages drivers, manual bonuses and prebooks',
+  accountant: 'Views and exports, closes payroll periods and records adjustments',
+  viewer: 'Sees the dashboard only',
+};
+
+const INVITABLE_ROLES: OrganizationRole[] = ['dispatcher', 'accountant', 'viewer', 'owner'];
+
+const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export const MembersManager = () => {
+  const { user, assurance } = useAuth();
+  const { organization, members, setMemberActive, updateOrganization } = useOrganization();
+  const { invitations, inviteMember, resendInvitation, revokeInvitation } = useInvitations();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<{ email: string; role: OrganizationRole }>({
+    email: '',
+    role: 'dispatcher',
+  });
+  const [submitting, setSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setFormData({ email: '', role: 'dispatcher' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    const invited = await inviteMember(formData.email, formData.role);
+    setSubmitting(false);
+    if (invited) {
+      setIsDialogOpen(false);
+      resetForm();
+    }
+  };
+
+  const handleCopyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(token));
+      toast.success('Invite link copied');
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      toast.error('Failed to copy invite link');
+    }
+  };
+
+  // Active members first, then by name
+  const sortedMembers = [...members].sort((a, b) => {
+    if (!a.deactivated_at !== !b.deactivated_at) return a.deactivated_at ? 1 : -1;
+    return (a.full_name || a.email || '').localeCompare(b.full_name || b.email || '');
+  });
+
+  const now = new Date();
+
+  // Requiring 2FA without it would lock the owner out of their own organization
+  const canRequireMfa = assurance?.currentLevel === 'aal2';
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold">Members</h2>
+          <p className="text-sm text-muted-foreground">Who can access {organization?.name ?? 'this organization'}</p>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) resetForm();
+        }}>
+          <DialogTrigger asChild>
+            <Button className="btn-primary gap-2 w-full sm:w-auto">
+              <UserPlus className="h-4 w-4" />
+              Invite Member
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-card border-border">
+            <DialogHeader>
+              <DialogTitle>Invite Member</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Email</label>
+                <Input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  placeholder="dispatcher@example.com"
+                  className="input-dark"
+                  required
+                  maxLength={255}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Role</label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value) => setFormData({ ...formData, role: value as OrganizationRole })}
+                >
+                  <SelectTrigger className="input-dark">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {INVITABLE_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[formData.role]}</p>
+              </div>
+              <div className="flex justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="btn-primary" disabled={submitting}>
+                  {submitting ? 'Sending...' : 'Send Invitation'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Security */}
+      <div className="glass-card p-4 sm:p-6 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+            Require Two-Factor Authentication
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            {organization?.require_mfa
+              ? 'Members must sign in with an authenticator app. Members without one are asked to set it up.'
+              : canRequireMfa
+                ? 'Members will have to sign in with an authenticator app to see any data.'
+                : 'Turn on two-factor for your own account first, from the Two-Factor menu.'}
+          </p>
+        </div>
+        <Switch
+          checked={organization?.require_mfa ?? false}
+          onCheckedChange={(checked) => updateOrganization({ require_mfa: checked })}
+          disabled={!organization?.require_mfa && !canRequireMfa}
+        />
+      </div>
+
+      {/* Pending Invitations */}
+      {invitations.length > 0 && (
+        <div className="glass-card p-4 sm:p-6">
+          <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2 mb-4">
+            <Mail className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+            Pending Invitations
+          </h3>
+          <div className="divide-y divide-border/30">
+            {invitations.map(invitation => {
+              const isExpired = parseISO(invitation.expires_at) <= now;
+              return (
+                <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{invitation.email}</p>
+                      <span className={`status-badge ${ROLE_BADGES[invitation.role]}`}>{ROLE_LABELS[invitation.role]}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Sent {format(parseISO(invitation.sent_at), 'MMM d, yyyy')}
+                      {' · '}
+                      {isExpired ? (
+                        <span className="text-destructive">Expired</span>
+                      ) : (
+                        `Expires ${format(parseISO(invitation.expires_at), 'MMM d, yyyy')}`
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 sm:justify-end">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => handleCopyLink(invitation.token)}
+                    >
+                      <Link2 className="h-4 w-4" />
+                      Copy Link
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => resendInvitation(invitation.id)}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      Resend
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2 text-destructive hover:text-destructive"
+                      onClick={() => revokeInvitation(invitation.id)}
+                    >
+                      <X className="h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Members List */}
+      <div className="glass-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Member</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Joined</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/30">
+              {sortedMembers.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-12 text-center text-muted-foreground">
+                    <UserCog className="h-12 w-12 mx-auto mb-3 opacity-30" />
+                    <p>No members yet.</p>
+                  </td>
+                </tr>
+              ) : (
+                sortedMembers.map(member => {
+                  const isSelf = member.user_id === user?.id;
+                  const name = member.full_name || member.email || 'Member';
+                  return (
+                    <tr key={member.user_id} className={`table-row-hover ${member.deactivated_at ? 'opacity-60' : ''}`}>
+                      <td className="px-4 py-4">
+                        <p className="font-medium">
+                          {name}
+                          {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                        </p>
+                        {member.full_name && member.email && (
+                          <p className="text-xs text-muted-foreground">{member.email}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-4">
+                        <div className="flex items-center gap-2">
+                          <span className={`status-badge ${ROLE_BADGES[member.role]}`}>{ROLE_LABELS[member.role]}</span>
+                          {member.deactivated_at && (
+                            <span className="status-badge bg-muted text-muted-foreground">Deactivated</span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-4 text-sm text-muted-foreground">
+                        {format(parseISO(member.joined_at), 'MMM d, yyyy')}
+                      </td>
+                      <td className="px-4 py-4 text-right">
+                        {isSelf ? null : member.deactivated_at ? (
+                          <Button variant="ghost" size="sm" onClick={() => setMemberActive(member.user_id, true)}>
+                            Reactivate
+                          </Button>
+                        ) : (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                                Deactivate
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent className="bg-card border-border">
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Deactivate {name}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  They will lose access to {organization?.name ?? 'this organization'} right away. Loads and
+                                  bonuses they booked stay on record under their name, and you can reactivate them later.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => setMemberActive(member.user_id, false)}>
+                                  Deactivate
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Truck, AlertCircle, KeyRound } from 'lucide-react';
+import { OtpCodeInput } from './TwoFactorSetup';
+import { toast } from 'sonner';
+
+/** Second sign-in step for users with an authenticator. */
+export const MfaChallenge = () => {
+  const { signOut, refreshAssurance } = useAuth();
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleVerify = async (value: string) => {
+    if (value.length !== 6) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      const factor = factors.totp[0];
+      if (!factor) {
+        await refreshAssurance();
+        return;
+      }
+
+      const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code: value });
+      if (verifyError) {
+        setError('Invalid code. Check the time on your device and try again.');
+        setCode('');
+      } else {
+        await refreshAssurance();
+      }
+    } catch (err) {
+      console.error('Error verifying two-factor code:', err);
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRecovery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('redeem-recovery-code', {
+        body: { code: recoveryCode },
+      });
+      if (invokeError || data?.error) {
+        setError(data?.error ?? 'Invalid or already used recovery code');
+        return;
+      }
+
+      // The authenticator is gone; a fresh token no longer asks for it
+      await supabase.auth.refreshSession();
+      await refreshAssurance();
+      toast.success('Signed in with a recovery code. Set up two-factor again from the menu.');
+    } catch (err) {
+      console.error('Error redeeming recovery code:', err);
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMethod = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <div className="flex h-14 w-14 items-center justify-center rounded-xl bg-primary/10">
+              <Truck className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold">UG Transportation</h1>
+          <p className="text-muted-foreground">Dispatcher Platform</p>
+        </div>
+
+        <Card className="glass-card">
+          <CardHeader className="text-center">
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when you set up two-factor'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                <p className="text-sm text-destructive">{error}</p>
+              </div>
+            )}
+
+            {useRecoveryCode ? (
+              <form onSubmit={handleRecovery} className="space-y-4">
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    placeholder="XXXX-XXXX"
+                    className="pl-10 input-dark font-mono uppercase"
+                    required
+                    maxLength={20}
+                    autoFocus
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Using a recovery code removes your authenticator. You'll need to set it up again.
+                </p>
+                <Button type="submit" className="w-full btn-primary" disabled={loading}>
+                  {loading ? 'Please wait...' : 'Use Recovery Code'}
+                </Button>
+              </form>
+            ) : (
+              <>
+                <OtpCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={loading} />
+                <Button
+                  className="w-full btn-primary"
+                  onClick={() => handleVerify(code)}
+                  disabled={loading || code.length !== 6}
+                >
+                  {loading ? 'Verifying...' : 'Verify'}
+                </Button>
+              </>
+            )}
+
+            <div className="flex justify-between text-sm">
+              <button type="button" onClick={switchMethod} className="text-primary hover:underline">
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+              <button type="button" onClick={signOut} className="text-muted-foreground hover:text-foreground">
+                Sign out
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { Building2 } from 'lucide-react';
+import { useOrganization } from '@/hooks/useOrganization';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface OrganizationSwitcherProps {
+  className?: string;
+}
+
+// Only shown to dispatchers who belong to more than one organization
+export const OrganizationSwitcher = ({ className }: OrganizationSwitcherProps) => {
+  const { organizations, organization, switchOrganization } = useOrganization();
+
+  if (organizations.length < 2 || !organization) return null;
+
+  return (
+    <Select value={organization.id} onValueChange={switchOrganization}>
+      <SelectTrigger className={`h-9 gap-2 bg-card border-border ${className ?? ''}`}>
+        <Building2 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-card border-border">
+        {organizations.map(o => (
+          <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
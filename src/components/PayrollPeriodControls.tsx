@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Lock, Plus } from 'lucide-react';
+import { Bonus, PayrollPeriod } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { format, parseISO } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+
+interface PayrollPeriodControlsProps {
+  startDate: string;
+  endDate: string;
+  closedPeriod: PayrollPeriod | undefined;
+  overlapsClosedPeriod: boolean;
+  onClosePeriod: (startDate: string, endDate: string) => Promise<PayrollPeriod | null>;
+  onAddAdjustment: (amount: number, note: string) => Promise<Bonus | null>;
+  // Shows the period state without close or adjustment actions
+  readOnly?: boolean;
+}
+
+const formatRange = (startDate: string, endDate: string) =>
+  `${format(parseLocalDate(startDate), 'MMM d')} - ${format(parseLocalDate(endDate), 'MMM d, yyyy')}`;
+
+export const PayrollPeriodControls = ({
+  startDate,
+  endDate,
+  closedPeriod,
+  overlapsClosedPeriod,
+  onClosePeriod,
+  onAddAdjustment,
+  readOnly = false,
+}: PayrollPeriodControlsProps) => {
+  const [isAdjustmentOpen, setIsAdjustmentOpen] = useState(false);
+  const [adjustment, setAdjustment] = useState({ amount: '', note: '' });
+
+  const handleAddAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closedPeriod) return;
+
+    const periodLabel = formatRange(closedPeriod.start_date, closedPeriod.end_date);
+    const result = await onAddAdjustment(
+      parseFloat(adjustment.amount),
+      `Adjustment for ${periodLabel}: ${adjustment.note}`
+    );
+    if (result) {
+      setIsAdjustmentOpen(false);
+      setAdjustment({ amount: '', note: '' });
+    }
+  };
+
+  if (closedPeriod) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-muted text-muted-foreground">
+          <Lock className="h-3 w-3" />
+          Closed {format(parseISO(closedPeriod.closed_at), 'MMM d, yyyy')}
+        </span>
+
+        {!readOnly && (
+          <Dialog open={isAdjustmentOpen} onOpenChange={setIsAdjustmentOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Plus className="h-4 w-4" />
+                Adjustment
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-card border-border">
+              <DialogHeader>
+                <DialogTitle>Add Adjustment</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleAddAdjustment} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {formatRange(closedPeriod.start_date, closedPeriod.end_date)} is closed. The correction is booked
+                  today and counts toward the current period. Use a negative amount to deduct.
+                </p>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Amount ($)</label>
+                  <Input
+                    type="number"
+                    value={adjustment.amount}
+                    onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+                    placeholder="0.00"
+                    step="0.01"
+                    className="input-dark"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Reason</label>
+                  <Textarea
+                    value={adjustment.note}
+                    onChange={(e) => setAdjustment({ ...adjustment, note: e.target.value })}
+                    placeholder="What is being corrected..."
+                    className="input-dark"
+                    rows={3}
+                    required
+                    maxLength={400}
+                  />
+                </div>
+                <div className="flex justify-end gap-3 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsAdjustmentOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="btn-primary">
+                    Add Adjustment
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+    );
+  }
+
+  if (overlapsClosedPeriod) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+        <Lock className="h-3 w-3" />
+        Overlaps a closed period
+      </span>
+    );
+  }
+
+  if (readOnly) return null;
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Lock className="h-4 w-4" />
+          Close Period
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent className="bg-card border-border">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Close {formatRange(startDate, endDate)}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The loads, bonuses and commission for this range will be frozen. Loads and bonuses dated in it
+            can no longer be added, edited or deleted, and later corrections must be entered as adjustments.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onClosePeriod(startDate, endDate)}>
+            Close Period
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -1,62 +1,48 @@
 import { useState, useMemo } from 'react';
-import { Calendar, DollarSign, TrendingUp, Package, Gift, Wallet } from 'lucide-react';
+import { Calendar, DollarSign, TrendingUp, Package, Gift, Wallet, FileDown } from 'lucide-react';
 import { MetricCard } from './MetricCard';
-import { Driver, Load, Bonus, SystemState } from '@/types';
-import { format, parseISO, startOfMonth, endOfMonth, startOfDay, endOfDay, isWithinInterval, startOfWeek, endOfWeek, addWeeks, isBefore, isAfter } from 'date-fns';
+import { Driver, Bonus, SystemState, PayrollPeriod, CommissionPlan, LoadType } from '@/types';
+import { format, parseISO, startOfMonth, endOfMonth, startOfDay, endOfDay, startOfWeek, endOfWeek, addWeeks, isBefore, isAfter } from 'date-fns';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { DateRange } from 'react-day-picker';
+import {
+  calculateSalary,
+  filterLoadsByDelivery,
+  formatCommissionPercent,
+  getAppliedCommissionPercents,
+  getCommissionPlanForDate,
+  getOverlappingPeriods,
+  getPeriodSalary,
+  getPlanPercent,
+} from '@/lib/payroll';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { EMPTY_SALARY, useGrossByDriver, useSalaryTotals } from '@/hooks/useMetrics';
+import { fetchBonusesInRange, fetchLoadsInRange } from '@/lib/queries';
+import { ExportSheet, toCents } from '@/lib/export';
+import { ExportMenu } from './ExportMenu';
+import { downloadPayrollStatement } from '@/lib/payrollStatement';
+import { toast } from 'sonner';
+import { formatRpm, getMileageRpm } from '@/lib/mileage';
+import { PayrollPeriodControls } from './PayrollPeriodControls';
 
 interface TeamDashboardProps {
   drivers: Driver[];
-  loads: Load[];
-  bonuses: Bonus[];
+  commissionPlans: CommissionPlan[];
+  payrollPeriods: PayrollPeriod[];
   systemState: SystemState;
   onDateChange: (date: Date) => void;
   onMonthChange: (month: string) => void;
+  onClosePeriod: (startDate: string, endDate: string) => Promise<PayrollPeriod | null>;
+  onAddAdjustment: (amount: number, note: string) => Promise<Bonus | null>;
 }
 
-const calculateSalary = (
-  loads: Load[],
-  bonuses: Bonus[],
-  startDate: Date,
-  endDate: Date
-) => {
-  const filteredLoads = loads.filter(load => {
-    const deliveryDate = parseISO(load.delivery_date);
-    return isWithinInterval(deliveryDate, { start: startDate, end: endDate });
-  });
-
-  const fullLoads = filteredLoads.filter(l => l.load_type === 'FULL');
-  const partialLoads = filteredLoads.filter(l => l.load_type === 'PARTIAL');
-
-  const fullGross = fullLoads.reduce((sum, l) => sum + Number(l.rate), 0);
-  const partialGross = partialLoads.reduce((sum, l) => sum + Number(l.rate), 0);
-  const totalGross = fullGross + partialGross;
-
-  const fullLoadCommission = fullGross * 0.01;
-  const partialLoadCommission = partialGross * 0.02;
-
-  const filteredBonuses = bonuses.filter(bonus => {
-    const bonusDate = parseISO(bonus.date);
-    return isWithinInterval(bonusDate, { start: startDate, end: endDate });
-  });
-
-  const totalBonuses = filteredBonuses.reduce((sum, b) => sum + Number(b.amount), 0);
-  const totalSalary = fullLoadCommission + partialLoadCommission + totalBonuses;
-
-  return {
-    fullLoadCommission,
-    partialLoadCommission,
-    totalBonuses,
-    totalSalary,
-    fullGross,
-    partialGross,
-    totalGross,
-  };
-};
+// Salary select value covering every dispatcher of the organization
+const ALL_DISPATCHERS = 'all';
 
 // Get weeks (Monday-Sunday) for a given month
 const getWeeksInMonth = (monthStr: string) => {
@@ -89,12 +75,16 @@ const getWeeksInMonth = (monthStr: string) => {
 
 export const TeamDashboard = ({ 
   drivers, 
-  loads, 
-  bonuses, 
+  commissionPlans,
+  payrollPeriods,
   systemState, 
   onDateChange, 
-  onMonthChange 
+  onMonthChange,
+  onClosePeriod,
+  onAddAdjustment,
 }: TeamDashboardProps) => {
+  const { user } = useAuth();
+  const { organization, members, permissions, getMemberName } = useOrganization();
   const selectedDate = parseISO(systemState.selectedDay);
   const selectedMonth = systemState.selectedMonth;
   
@@ -104,60 +94,135 @@ export const TeamDashboard = ({
   // Get weeks for current month
   const weeksInMonth = useMemo(() => getWeeksInMonth(selectedMonth), [selectedMonth]);
 
-  // Calculate metrics based on selected range or full month
-  const periodMetrics = useMemo(() => {
-    let startDate: Date;
-    let endDate: Date;
-    
-    if (dateRange?.from && dateRange?.to) {
-      startDate = startOfDay(dateRange.from);
-      endDate = endOfDay(dateRange.to);
-    } else {
-      startDate = startOfMonth(parseISO(`${selectedMonth}-01`));
-      endDate = endOfMonth(startDate);
+  // Selected range, or the full month
+  const periodStart = dateRange?.from && dateRange?.to
+    ? startOfDay(dateRange.from)
+    : startOfMonth(parseISO(`${selectedMonth}-01`));
+  const periodEnd = dateRange?.from && dateRange?.to
+    ? endOfDay(dateRange.to)
+    : endOfMonth(periodStart);
+  const periodStartKey = format(periodStart, 'yyyy-MM-dd');
+  const periodEndKey = format(periodEnd, 'yyyy-MM-dd');
+
+  // Totals are summed by the database rather than from every load on the client
+  const { data: periodMetrics = EMPTY_SALARY } = useSalaryTotals(periodStartKey, periodEndKey, null);
+
+  // Salary is attributed to the dispatcher who booked each load or recorded each bonus
+  const [dispatcherId, setDispatcherId] = useState(user?.id ?? ALL_DISPATCHERS);
+  const isAllDispatchers = dispatcherId === ALL_DISPATCHERS;
+  const dispatcherName = isAllDispatchers ? organization?.name ?? 'All dispatchers' : getMemberName(dispatcherId);
+  const ownedByDispatcher = <T extends { user_id: string }>(rows: T[]) =>
+    isAllDispatchers ? rows : rows.filter(row => row.user_id === dispatcherId);
+  const { data: liveSalary = EMPTY_SALARY } = useSalaryTotals(periodStartKey, periodEndKey, isAllDispatchers ? null : dispatcherId);
+
+  // A closed period shows the totals frozen when it was paid. One dispatcher's share is
+  // worked out from the snapshot with the percents frozen with it; viewers don't get the
+  // snapshot rows, so theirs comes from the live totals, which a closed period no longer changes.
+  const overlappingPeriods = getOverlappingPeriods(payrollPeriods, periodStartKey, periodEndKey);
+  const closedPeriod = overlappingPeriods.find(p => p.start_date === periodStartKey && p.end_date === periodEndKey);
+  const hasSnapshot = !!closedPeriod && permissions.canViewRecords;
+  const snapshotLoads = ownedByDispatcher(closedPeriod?.snapshot.loads ?? []);
+  const snapshotBonuses = ownedByDispatcher(closedPeriod?.snapshot.bonuses ?? []);
+  const frozenPercents = closedPeriod?.snapshot.commission_percents;
+  const salary = !closedPeriod
+    ? liveSalary
+    : isAllDispatchers
+      ? getPeriodSalary(closedPeriod)
+      : hasSnapshot
+        ? calculateSalary(snapshotLoads, snapshotBonuses, periodStart, periodEnd, commissionPlans, frozenPercents)
+        : liveSalary;
+
+  // Commission rates behind the breakdown; several are listed when plans changed within the period
+  const commissionLabel = (loadType: LoadType) => {
+    const percents = hasSnapshot
+      ? getAppliedCommissionPercents(filterLoadsByDelivery(snapshotLoads, periodStart, periodEnd), loadType, commissionPlans, frozenPercents)
+      : loadType === 'FULL' ? liveSalary.fullPercents : liveSalary.partialPercents;
+    if (percents.length === 0) {
+      const plan = getCommissionPlanForDate(commissionPlans, isAllDispatchers ? null : dispatcherId, periodEndKey);
+      return formatCommissionPercent(getPlanPercent(plan, loadType));
     }
-    
-    return {
-      ...calculateSalary(loads, bonuses, startDate, endDate),
-      startDate,
-      endDate,
-    };
-  }, [loads, bonuses, selectedMonth, dateRange]);
+    return percents.map(formatCommissionPercent).join(' / ');
+  };
+
+  // Metrics for the selected day
+  const { data: dayMetrics = EMPTY_SALARY } = useSalaryTotals(systemState.selectedDay, systemState.selectedDay, null);
 
-  // Chart data for gross per driver (single bar)
+  // Chart data for gross per driver (single bar), with rate per mile where miles were entered
+  const { data: grossByDriver } = useGrossByDriver(periodStartKey, periodEndKey);
   const chartData = useMemo(() => {
-    let startDate: Date;
-    let endDate: Date;
-    
-    if (dateRange?.from && dateRange?.to) {
-      startDate = startOfDay(dateRange.from);
-      endDate = endOfDay(dateRange.to);
-    } else {
-      startDate = startOfMonth(parseISO(`${selectedMonth}-01`));
-      endDate = endOfMonth(startDate);
-    }
-    
+    const grossById = new Map(grossByDriver?.map(row => [row.driver_id, row]));
     return drivers.map(driver => {
-      const driverLoads = loads.filter(load => {
-        const deliveryDate = parseISO(load.delivery_date);
-        return load.driver_id === driver.id && isWithinInterval(deliveryDate, { start: startDate, end: endDate });
-      });
-      
-      const totalGross = driverLoads.reduce((sum, l) => sum + Number(l.rate), 0);
-      
+      const row = grossById.get(driver.id);
       return {
         name: driver.driver_name.split(' ')[0],
         fullName: driver.driver_name,
         type: driver.driver_type === 'owner_operator' ? 'OO' : 'CD',
-        gross: totalGross,
+        gross: row?.total_gross ?? 0,
+        ...(row ? getMileageRpm(row) : { rpm: null, allInRpm: null }),
       };
     }).sort((a, b) => b.gross - a.gross);
-  }, [drivers, loads, selectedMonth, dateRange]);
+  }, [drivers, grossByDriver]);
 
   const periodLabel = dateRange?.from && dateRange?.to
     ? `${format(dateRange.from, 'MMM d')} - ${format(dateRange.to, 'MMM d, yyyy')}`
     : format(parseISO(`${selectedMonth}-01`), 'MMMM yyyy');
 
+  const [isGeneratingStatement, setIsGeneratingStatement] = useState(false);
+
+  // PDF statement of every load and bonus behind the period salary
+  const handleDownloadStatement = async () => {
+    if (!organization) return;
+    setIsGeneratingStatement(true);
+    try {
+      // Open periods list every row in the range, fetched only when a statement is asked for
+      const [loads, bonuses] = closedPeriod
+        ? [snapshotLoads, snapshotBonuses]
+        : await Promise.all([
+            fetchLoadsInRange(organization.id, periodStartKey, periodEndKey).then(ownedByDispatcher),
+            fetchBonusesInRange(organization.id, periodStartKey, periodEndKey).then(ownedByDispatcher),
+          ]);
+      await downloadPayrollStatement({
+        dispatcherName,
+        startDate: periodStartKey,
+        endDate: periodEndKey,
+        loads,
+        bonuses,
+        drivers,
+        plans: commissionPlans,
+        // A closed period's statement shows what was paid rather than the current plans
+        frozenPercents,
+        salary: closedPeriod ? salary : undefined,
+        closedAt: closedPeriod?.closed_at,
+      });
+    } catch (error) {
+      console.error('Error generating statement:', error);
+      toast.error('Failed to generate statement');
+    } finally {
+      setIsGeneratingStatement(false);
+    }
+  };
+
+  // Salary breakdown and per-driver gross for the selected period
+  const buildExportSheet = (): ExportSheet => ({
+    name: 'Salary',
+    columns: [
+      { header: 'Item', width: 36 },
+      { header: 'Gross', type: 'currency', width: 16 },
+      { header: 'Amount', type: 'currency', width: 16 },
+    ],
+    rows: [
+      [`Period ${periodStartKey} to ${periodEndKey}${closedPeriod ? ' (closed)' : ''}`, null, null],
+      [`Dispatcher: ${dispatcherName}`, null, null],
+      [`Full Load Commission (${commissionLabel('FULL')})`, salary.fullGross, toCents(salary.fullLoadCommission)],
+      [`Partial Load Commission (${commissionLabel('PARTIAL')})`, salary.partialGross, toCents(salary.partialLoadCommission)],
+      ['Total Bonuses', null, toCents(salary.totalBonuses)],
+      ['Adjustments', null, toCents(salary.totalAdjustments)],
+      ['Total Salary', salary.totalGross, toCents(salary.totalSalary)],
+      [null, null, null],
+      ...chartData.map(driver => [`Gross - ${driver.fullName} (${driver.type})`, driver.gross, null]),
+    ],
+  });
+
   return (
     <div className="space-y-6 sm:space-y-8 animate-fade-in">
       {/* Header with Date Picker */}
@@ -275,7 +340,7 @@ export const TeamDashboard = ({
           </h3>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis 
                   dataKey="name" 
@@ -283,10 +348,18 @@ export const TeamDashboard = ({
                   tick={{ fill: 'hsl(var(--muted-foreground))' }}
                 />
                 <YAxis 
+                  yAxisId="gross"
                   stroke="hsl(var(--muted-foreground))"
                   tick={{ fill: 'hsl(var(--muted-foreground))' }}
                   tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
                 />
+                <YAxis
+                  yAxisId="rpm"
+                  orientation="right"
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: 'hsl(var(--muted-foreground))' }}
+                  tickFormatter={(value) => `$${Number(value).toFixed(2)}`}
+                />
                 <Tooltip 
                   contentStyle={{ 
                     backgroundColor: 'hsl(var(--card))', 
@@ -294,14 +367,19 @@ export const TeamDashboard = ({
                     borderRadius: '8px',
                   }}
                   labelStyle={{ color: 'hsl(var(--foreground))' }}
-                  formatter={(value: number) => [`$${value.toLocaleString()}`, 'Total Gross']}
+                  formatter={(value: number, name: string) =>
+                    name === 'Total Gross' ? [`$${value.toLocaleString()}`, name] : [formatRpm(value), name]
+                  }
                   labelFormatter={(label, payload) => {
                     const item = payload?.[0]?.payload;
                     return item ? `${item.fullName} (${item.type})` : label;
                   }}
                 />
-                <Bar dataKey="gross" name="Total Gross" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
-              </BarChart>
+                <Legend />
+                <Bar yAxisId="gross" dataKey="gross" name="Total Gross" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                <Line yAxisId="rpm" dataKey="rpm" name="RPM" stroke="hsl(var(--warning))" strokeWidth={2} connectNulls />
+                <Line yAxisId="rpm" dataKey="allInRpm" name="All-in RPM" stroke="hsl(var(--muted-foreground))" strokeWidth={2} strokeDasharray="4 4" connectNulls />
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
@@ -309,26 +387,73 @@ export const TeamDashboard = ({
 
       {/* Salary Breakdown */}
       <div className="glass-card p-6">
-        <h3 className="text-lg font-semibold mb-6 flex items-center gap-2">
-          <Wallet className="h-5 w-5 text-primary" />
-          Salary Calculation
-        </h3>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            Salary Calculation
+          </h3>
+          <div className="flex flex-wrap items-center gap-2">
+            {members.length > 1 && (
+              <Select value={dispatcherId} onValueChange={setDispatcherId}>
+                <SelectTrigger className="h-9 w-44 bg-card border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={ALL_DISPATCHERS}>All dispatchers</SelectItem>
+                  {members.map(member => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {getMemberName(member.user_id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {permissions.canExport && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={handleDownloadStatement}
+                disabled={isGeneratingStatement}
+              >
+                <FileDown className="h-4 w-4" />
+                {isGeneratingStatement ? 'Generating...' : 'Statement'}
+              </Button>
+            )}
+            {permissions.canExport && (
+              <ExportMenu
+                fileName={`salary-${periodStartKey}-to-${periodEndKey}`}
+                getSheet={buildExportSheet}
+                size="sm"
+              />
+            )}
+            <PayrollPeriodControls
+              startDate={periodStartKey}
+              endDate={periodEndKey}
+              closedPeriod={closedPeriod}
+              overlapsClosedPeriod={overlappingPeriods.length > 0}
+              onClosePeriod={onClosePeriod}
+              onAddAdjustment={onAddAdjustment}
+              readOnly={!permissions.canManagePayroll}
+            />
+          </div>
+        </div>
 
         <div className="space-y-4">
           <div className="flex items-center justify-between py-3 border-b border-border/50">
             <div>
-              <p className="font-medium">Full Load Commission (1%)</p>
-              <p className="text-sm text-muted-foreground">Based on ${periodMetrics.fullGross.toLocaleString()} gross</p>
+              <p className="font-medium">Full Load Commission ({commissionLabel('FULL')})</p>
+              <p className="text-sm text-muted-foreground">Based on ${salary.fullGross.toLocaleString()} gross</p>
             </div>
-            <span className="font-mono text-lg">${periodMetrics.fullLoadCommission.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+            <span className="font-mono text-lg">${salary.fullLoadCommission.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
           </div>
 
           <div className="flex items-center justify-between py-3 border-b border-border/50">
             <div>
-              <p className="font-medium">Partial Load Commission (2%)</p>
-              <p className="text-sm text-muted-foreground">Based on ${periodMetrics.partialGross.toLocaleString()} gross</p>
+              <p className="font-medium">Partial Load Commission ({commissionLabel('PARTIAL')})</p>
+              <p className="text-sm text-muted-foreground">Based on ${salary.partialGross.toLocaleString()} gross</p>
             </div>
-            <span className="font-mono text-lg">${periodMetrics.partialLoadCommission.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+            <span className="font-mono text-lg">${salary.partialLoadCommission.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
           </div>
 
           <div className="flex items-center justify-between py-3 border-b border-border/50">
@@ -336,16 +461,26 @@ export const TeamDashboard = ({
               <p className="font-medium">Total Bonuses</p>
               <p className="text-sm text-muted-foreground">Automatic + Manual bonuses</p>
             </div>
-            <span className="font-mono text-lg">${periodMetrics.totalBonuses.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+            <span className="font-mono text-lg">${salary.totalBonuses.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
           </div>
 
+          {salary.totalAdjustments !== 0 && (
+            <div className="flex items-center justify-between py-3 border-b border-border/50">
+              <div>
+                <p className="font-medium">Adjustments</p>
+                <p className="text-sm text-muted-foreground">Corrections to closed periods</p>
+              </div>
+              <span className="font-mono text-lg">${salary.totalAdjustments.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+            </div>
+          )}
+
           <div className="flex items-center justify-between py-4 bg-primary/10 rounded-lg px-4 -mx-4">
             <div>
               <p className="font-bold text-lg">Total Salary</p>
               <p className="text-sm text-muted-foreground">Commission + Bonuses</p>
             </div>
             <span className="font-mono text-2xl font-bold text-primary">
-              ${periodMetrics.totalSalary.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              ${salary.totalSalary.toLocaleString(undefined, { minimumFractionDigits: 2 })}
             </span>
           </div>
         </div>
@@ -376,18 +511,17 @@ export const TeamDashboard = ({
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <MetricCard
             label="Day's Revenue"
-            value={calculateSalary(loads, bonuses, startOfDay(selectedDate), endOfDay(selectedDate)).totalGross}
+            value={dayMetrics.totalGross}
             icon={<DollarSign className="h-5 w-5" />}
           />
           <MetricCard
             label="Day's Commission"
-            value={calculateSalary(loads, bonuses, startOfDay(selectedDate), endOfDay(selectedDate)).fullLoadCommission + 
-                   calculateSalary(loads, bonuses, startOfDay(selectedDate), endOfDay(selectedDate)).partialLoadCommission}
+            value={dayMetrics.fullLoadCommission + dayMetrics.partialLoadCommission}
             icon={<TrendingUp className="h-5 w-5" />}
           />
           <MetricCard
             label="Day's Bonuses"
-            value={calculateSalary(loads, bonuses, startOfDay(selectedDate), endOfDay(selectedDate)).totalBonuses}
+            value={dayMetrics.totalBonuses}
             icon={<Gift className="h-5 w-5" />}
           />
         </div>
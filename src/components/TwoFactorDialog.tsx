@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useTwoFactor } from '@/hooks/useTwoFactor';
+import { useOrganization } from '@/hooks/useOrganization';
+import { RecoveryCodesPanel, TwoFactorSetup } from './TwoFactorSetup';
+
+type View = 'status' | 'setup' | 'codes';
+
+// Mounted only while the dialog is open, so the status is fresh each time
+const TwoFactorSettings = ({ onClose }: { onClose: () => void }) => {
+  const [view, setView] = useState<View>('status');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const { factorId, remainingRecoveryCodes, loading, regenerateRecoveryCodes, disable } = useTwoFactor();
+  const { organizations } = useOrganization();
+
+  // Turning 2FA off would lock the user out of these organizations
+  const requiringOrganizations = organizations.filter(o => o.require_mfa);
+
+  const handleRegenerate = async () => {
+    setBusy(true);
+    const codes = await regenerateRecoveryCodes();
+    setBusy(false);
+    if (codes) {
+      setRecoveryCodes(codes);
+      setView('codes');
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    await disable();
+    setBusy(false);
+  };
+
+  const renderContent = () => {
+    if (view === 'setup') {
+      return <TwoFactorSetup onComplete={onClose} />;
+    }
+
+    if (view === 'codes') {
+      return <RecoveryCodesPanel codes={recoveryCodes} onDone={() => setView('status')} />;
+    }
+
+    if (loading) {
+      return <p className="text-sm text-muted-foreground">Loading...</p>;
+    }
+
+    if (!factorId) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Two-factor authentication is off. Add an authenticator app so a stolen password alone can't open your account.
+          </p>
+          <Button className="w-full btn-primary" onClick={() => setView('setup')}>
+            Turn On Two-Factor
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-success/10 border border-success/20">
+          <ShieldCheck className="h-4 w-4 text-success flex-shrink-0" />
+          <p className="text-sm text-success">Two-factor authentication is on</p>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {remainingRecoveryCodes} unused recovery code{remainingRecoveryCodes === 1 ? '' : 's'} left.
+        </p>
+        <Button variant="outline" className="w-full" onClick={handleRegenerate} disabled={busy}>
+          Generate New Recovery Codes
+        </Button>
+        {requiringOrganizations.length > 0 ? (
+          <p className="text-xs text-muted-foreground">
+            {requiringOrganizations.map(o => o.name).join(', ')} require{requiringOrganizations.length === 1 ? 's' : ''}{' '}
+            two-factor authentication, so it can't be turned off.
+          </p>
+        ) : (
+          <Button
+            variant="outline"
+            className="w-full text-destructive hover:text-destructive"
+            onClick={handleDisable}
+            disabled={busy}
+          >
+            Turn Off Two-Factor
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return renderContent();
+};
+
+export const TwoFactorDialog = () => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Two-Factor
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Two-Factor Authentication
+          </DialogTitle>
+        </DialogHeader>
+        <TwoFactorSettings onClose={() => setIsOpen(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Copy, Download, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+import { useTwoFactor, TotpEnrollment } from '@/hooks/useTwoFactor';
+import { toast } from 'sonner';
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+/** Six-digit authenticator code. */
+export const OtpCodeInput = ({ value, onChange, onComplete, disabled }: OtpCodeInputProps) => (
+  <InputOTP
+    maxLength={6}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    inputMode="numeric"
+    pattern="^[0-9]*$"
+    autoComplete="one-time-code"
+    autoFocus
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      <InputOTPSlot index={0} />
+      <InputOTPSlot index={1} />
+      <InputOTPSlot index={2} />
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      <InputOTPSlot index={3} />
+      <InputOTPSlot index={4} />
+      <InputOTPSlot index={5} />
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+interface RecoveryCodesPanelProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+/** Shows freshly generated recovery codes; they cannot be displayed again. */
+export const RecoveryCodesPanel = ({ codes, onDone }: RecoveryCodesPanelProps) => {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      console.error('Error copying recovery codes:', error);
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`UG Transportation recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ug-transportation-recovery-codes.txt';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Each code signs you in once if you lose your authenticator. Store them somewhere safe — they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-muted/50 font-mono text-sm text-center">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1 gap-2" onClick={handleCopy}>
+          <Copy className="h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" className="flex-1 gap-2" onClick={handleDownload}>
+          <Download className="h-4 w-4" />
+          Download
+        </Button>
+      </div>
+      <Button type="button" className="w-full btn-primary" onClick={onDone}>
+        I've Saved My Codes
+      </Button>
+    </div>
+  );
+};
+
+interface TwoFactorSetupProps {
+  onComplete: () => void;
+}
+
+/** Enrolls a TOTP authenticator: scan, confirm a code, save recovery codes. */
+export const TwoFactorSetup = ({ onComplete }: TwoFactorSetupProps) => {
+  const { startEnrollment, verifyEnrollment } = useTwoFactor();
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleStart = async () => {
+    setBusy(true);
+    setEnrollment(await startEnrollment());
+    setBusy(false);
+  };
+
+  const handleVerify = async (value: string) => {
+    if (!enrollment || value.length !== 6) return;
+
+    setBusy(true);
+    const codes = await verifyEnrollment(enrollment.factorId, value);
+    setBusy(false);
+
+    if (codes === null) {
+      setCode('');
+    } else if (codes.length === 0) {
+      onComplete();
+    } else {
+      setRecoveryCodes(codes);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodesPanel codes={recoveryCodes} onDone={onComplete} />;
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          After your password you'll enter a six-digit code from an authenticator app such as Google Authenticator,
+          1Password or Authy.
+        </p>
+        <Button className="w-full btn-primary gap-2" onClick={handleStart} disabled={busy}>
+          <ShieldCheck className="h-4 w-4" />
+          {busy ? 'Please wait...' : 'Set Up Authenticator'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Scan this QR code with your authenticator app.</p>
+      <div className="flex justify-center">
+        <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-lg bg-white p-2" />
+      </div>
+      <div className="space-y-1 text-center">
+        <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <p className="font-mono text-sm break-all select-all">{enrollment.secret}</p>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium block text-center">Enter the 6-digit code from the app</label>
+        <OtpCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={busy} />
+      </div>
+      <Button className="w-full btn-primary" onClick={() => handleVerify(code)} disabled={busy || code.length !== 6}>
+        {busy ? 'Verifying...' : 'Verify and Turn On'}
+      </Button>
+    </div>
+  );
+};
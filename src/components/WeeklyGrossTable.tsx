@@ -1,44 +1,37 @@
 import { useMemo } from 'react';
 import { ChevronLeft, ChevronRight, Truck } from 'lucide-react';
-import { Driver, Load } from '@/types';
+import { Driver } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { format, startOfWeek, addWeeks, subWeeks, endOfWeek, addDays, isSameDay } from 'date-fns';
+import { format, startOfWeek, addWeeks, subWeeks, endOfWeek, addDays } from 'date-fns';
 import { parseLocalDate } from '@/lib/utils';
+import { ExportSheet } from '@/lib/export';
+import { ExportMenu } from './ExportMenu';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useDailyGross } from '@/hooks/useMetrics';
 
 interface WeeklyGrossTableProps {
   drivers: Driver[];
-  loads: Load[];
   selectedWeek: string;
   onWeekChange: (week: string) => void;
 }
 
-export const WeeklyGrossTable = ({ drivers, loads, selectedWeek, onWeekChange }: WeeklyGrossTableProps) => {
+export const WeeklyGrossTable = ({ drivers, selectedWeek, onWeekChange }: WeeklyGrossTableProps) => {
+  const { permissions } = useOrganization();
   const weekStart = parseLocalDate(selectedWeek);
   const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
+  const { data: dailyRows } = useDailyGross(selectedWeek, format(weekEnd, 'yyyy-MM-dd'));
 
   const daysOfWeek = useMemo(() => {
     return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
   }, [weekStart]);
 
-  const calculateDailyGross = (driverId: string, date: Date): number => {
-    return loads
-      .filter(load => {
-        const deliveryDate = parseLocalDate(load.delivery_date);
-        return load.driver_id === driverId && isSameDay(deliveryDate, date);
-      })
-      .reduce((sum, load) => sum + Number(load.rate), 0);
-  };
-
-  const calculateWeeklyTotal = (driverId: string): number => {
-    return daysOfWeek.reduce((sum, day) => sum + calculateDailyGross(driverId, day), 0);
-  };
-
   const driverData = useMemo(() => {
+    const grossByDriverDay = new Map(dailyRows?.map(row => [`${row.driver_id}|${row.delivery_date}`, row.gross]));
     return drivers
       .filter(d => d.status === 'active')
       .map(driver => {
-        const dailyGross = daysOfWeek.map(day => calculateDailyGross(driver.id, day));
+        const dailyGross = daysOfWeek.map(day => grossByDriverDay.get(`${driver.id}|${format(day, 'yyyy-MM-dd')}`) ?? 0);
         const weeklyTotal = dailyGross.reduce((a, b) => a + b, 0);
         return {
           driver,
@@ -47,7 +40,7 @@ export const WeeklyGrossTable = ({ drivers, loads, selectedWeek, onWeekChange }:
         };
       })
       .sort((a, b) => (a.driver.truck_number || '').localeCompare(b.driver.truck_number || ''));
-  }, [drivers, loads, daysOfWeek]);
+  }, [drivers, dailyRows, daysOfWeek]);
 
   const navigateWeek = (direction: 'prev' | 'next') => {
     const newWeek = direction === 'prev' 
@@ -56,6 +49,23 @@ export const WeeklyGrossTable = ({ drivers, loads, selectedWeek, onWeekChange }:
     onWeekChange(format(startOfWeek(newWeek, { weekStartsOn: 1 }), 'yyyy-MM-dd'));
   };
 
+  // Driver x day grid for the selected week, amounts as plain numbers
+  const buildExportSheet = (): ExportSheet => ({
+    name: `Week of ${selectedWeek}`,
+    columns: [
+      { header: 'Truck №' },
+      { header: 'Driver', width: 24 },
+      { header: 'Weekly Total', type: 'currency' },
+      ...daysOfWeek.map(day => ({ header: format(day, 'EEEE MM-dd-yyyy'), type: 'currency' as const, width: 20 })),
+    ],
+    rows: driverData.map(({ driver, dailyGross, weeklyTotal }) => [
+      driver.truck_number,
+      driver.driver_name,
+      weeklyTotal,
+      ...dailyGross,
+    ]),
+  });
+
   const formatCurrency = (amount: number) => {
     if (amount === 0) return '0$';
     return `${amount.toLocaleString()}$`;
@@ -79,6 +89,14 @@ export const WeeklyGrossTable = ({ drivers, loads, selectedWeek, onWeekChange }:
           <Button variant="ghost" size="icon" onClick={() => navigateWeek('next')}>
             <ChevronRight className="h-4 w-4" />
           </Button>
+          {permissions.canExport && (
+            <ExportMenu
+              fileName={`weekly-gross-${selectedWeek}`}
+              getSheet={buildExportSheet}
+              disabled={driverData.length === 0}
+              size="sm"
+            />
+          )}
         </div>
       </div>
 
@@ -1,15 +1,28 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
-import { User, Session } from '@supabase/supabase-js';
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
+import { User, Session, AuthenticatorAssuranceLevels } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 
+interface AssuranceLevel {
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  // aal2 when the user has a verified second factor
+  nextLevel: AuthenticatorAssuranceLevels | null;
+}
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  // True after the user arrives from a password reset link, until they set a new password
+  passwordRecovery: boolean;
+  // How the current session was authenticated; null until known or when signed out
+  assurance: AssuranceLevel | null;
+  refreshAssurance: () => Promise<void>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
   changePassword: (newPassword: string) => Promise<{ error: Error | null }>;
+  requestPasswordReset: (email: string) => Promise<{ error: Error | null }>;
+  resendVerification: (email: string) => Promise<{ error: Error | null }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -18,11 +31,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const [assurance, setAssurance] = useState<AssuranceLevel | null>(null);
 
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        if (event === 'PASSWORD_RECOVERY') {
+          setPasswordRecovery(true);
+        } else if (event === 'SIGNED_OUT') {
+          setPasswordRecovery(false);
+        }
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
@@ -39,6 +59,25 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  const refreshAssurance = useCallback(async () => {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (error) {
+      console.error('Error checking authenticator assurance level:', error);
+      setAssurance({ currentLevel: null, nextLevel: null });
+      return;
+    }
+    setAssurance({ currentLevel: data.currentLevel, nextLevel: data.nextLevel });
+  }, []);
+
+  // Supabase calls must not run inside the auth listener, so follow the session instead
+  useEffect(() => {
+    if (session) {
+      refreshAssurance();
+    } else {
+      setAssurance(null);
+    }
+  }, [session, refreshAssurance]);
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -71,11 +110,45 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     const { error } = await supabase.auth.updateUser({
       password: newPassword,
     });
+    if (!error) setPasswordRecovery(false);
+    return { error };
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`,
+    });
+    return { error };
+  };
+
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/`,
+      },
+    });
     return { error };
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signIn, signUp, signOut, changePassword }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        loading,
+        passwordRecovery,
+        assurance,
+        refreshAssurance,
+        signIn,
+        signUp,
+        signOut,
+        changePassword,
+        requestPasswordReset,
+        resendVerification,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
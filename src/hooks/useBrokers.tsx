@@ -0,0 +1,164 @@
+import { useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useOrganization } from './useOrganization';
+import { useRealtimeSync } from './useRealtimeSync';
+import { Broker } from '@/types';
+import { ConnectionStatus, applyChange, upsertRows } from '@/lib/realtime';
+import { queryKeys } from '@/lib/queryKeys';
+import { updateCacheOptimistically } from '@/lib/queryCache';
+import { toast } from 'sonner';
+
+export type BrokerInput = Omit<Broker, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+interface UseBrokersReturn {
+  brokers: Broker[];
+  loading: boolean;
+  connection: ConnectionStatus;
+  addBroker: (broker: BrokerInput) => Promise<Broker | null>;
+  updateBroker: (id: string, updates: Partial<BrokerInput>) => Promise<boolean>;
+  deleteBroker: (id: string) => Promise<void>;
+}
+
+const NO_BROKERS: Broker[] = [];
+
+const sortByName = (rows: Broker[]) => [...rows].sort((a, b) => a.name.localeCompare(b.name));
+
+// Postgres unique_violation on the organization's MC numbers
+const isDuplicateMcNumber = (error: unknown) => (error as { code?: string }).code === '23505';
+
+export const useBrokers = (): UseBrokersReturn => {
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+  const queryClient = useQueryClient();
+  const brokersKey = queryKeys.brokers(organizationId);
+
+  const brokersQuery = useQuery({
+    queryKey: brokersKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('brokers')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as Broker[];
+    },
+    enabled: !!user && !!organizationId,
+  });
+
+  const brokers = brokersQuery.data ?? NO_BROKERS;
+  const loading = brokersQuery.isPending;
+
+  const loadError = brokersQuery.isLoadingError ? brokersQuery.error : null;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching brokers:', loadError);
+    toast.error('Failed to load brokers');
+  }, [loadError]);
+
+  // Deletes can't be filtered by organization; removing an id we don't have is a no-op
+  const listen = useCallback((channel: RealtimeChannel) => {
+    const filter = `organization_id=eq.${organizationId}`;
+    const key = queryKeys.brokers(organizationId);
+    const merge = (payload: RealtimePostgresChangesPayload<Broker>) => {
+      queryClient.setQueryData<Broker[]>(key, rows => rows && sortByName(applyChange(rows, payload)));
+    };
+    return channel
+      .on<Broker>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'brokers', filter }, merge)
+      .on<Broker>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'brokers', filter }, merge)
+      .on<Broker>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'brokers' }, merge);
+  }, [organizationId, queryClient]);
+
+  const refetchBrokers = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.brokers(organizationId) });
+  }, [organizationId, queryClient]);
+
+  const connection = useRealtimeSync(
+    user && organizationId ? `brokers:${organizationId}` : null,
+    listen,
+    refetchBrokers
+  );
+
+  const addBroker = async (broker: BrokerInput) => {
+    if (!user || !organizationId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('brokers')
+        .insert({ ...broker, organization_id: organizationId, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      queryClient.setQueryData<Broker[]>(brokersKey, rows => rows && sortByName(upsertRows(rows, [data as Broker])));
+      toast.success('Broker added');
+      return data as Broker;
+    } catch (error) {
+      console.error('Error adding broker:', error);
+      toast.error(isDuplicateMcNumber(error) ? 'A broker with this MC number already exists' : 'Failed to add broker');
+      return null;
+    }
+  };
+
+  const updateBroker = async (id: string, updates: Partial<BrokerInput>) => {
+    const rollback = await updateCacheOptimistically<Broker>(queryClient, brokersKey, rows =>
+      sortByName(rows.map(b => b.id === id ? { ...b, ...updates } : b))
+    );
+
+    try {
+      const { error } = await supabase
+        .from('brokers')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Broker updated');
+      return true;
+    } catch (error) {
+      rollback();
+      console.error('Error updating broker:', error);
+      toast.error(isDuplicateMcNumber(error) ? 'A broker with this MC number already exists' : 'Failed to update broker');
+      return false;
+    }
+  };
+
+  // Loads booked with the broker are kept and just lose the link; invoiced brokers can't be deleted
+  const deleteBroker = async (id: string) => {
+    const rollback = await updateCacheOptimistically<Broker>(queryClient, brokersKey, rows =>
+      rows.filter(b => b.id !== id)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('brokers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: queryKeys.loadPages(organizationId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.metrics(organizationId) });
+      toast.success('Broker deleted');
+    } catch (error) {
+      rollback();
+      console.error('Error deleting broker:', error);
+      // Postgres foreign_key_violation; invoices keep their broker
+      toast.error((error as { code?: string }).code === '23503'
+        ? "This broker has invoices and can't be deleted"
+        : 'Failed to delete broker');
+    }
+  };
+
+  return {
+    brokers,
+    loading,
+    connection,
+    addBroker,
+    updateBroker,
+    deleteBroker,
+  };
+};
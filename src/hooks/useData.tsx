@@ -1,203 +1,346 @@
 import { useState, useEffect, useCallback } from 'react';
+import { keepPreviousData, useQuery, useQueryClient, type QueryKey } from '@tanstack/react-query';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
-import { Driver, Load, Bonus, SystemState, getBonusThresholds, DriverType } from '@/types';
-import { format, startOfWeek, parseISO, endOfWeek, isWithinInterval } from 'date-fns';
+import { useOrganization } from './useOrganization';
+import { useRealtimeSync } from './useRealtimeSync';
+import type { LoadPage } from './useLoadsPage';
+import { Driver, Load, LoadChargeTotalField, LoadStatus, Bonus, BonusTierRule, CommissionPlan, DriverTypeChange, PayrollPeriod, SystemState } from '@/types';
+import { format, startOfWeek } from 'date-fns';
+import { getWeekKey, isDateLocked } from '@/lib/payroll';
+import { LOAD_STATUS_LABELS, countsTowardGross } from '@/lib/loadStatus';
+import type { ImportedLoad } from '@/lib/loadImport';
+import type { LoadStopInput } from '@/lib/loadStops';
+import { LoadChargeInput, toChargeLines } from '@/lib/loadCharges';
+import { ConnectionStatus, applyChange, upsertRows } from '@/lib/realtime';
+import { queryKeys } from '@/lib/queryKeys';
+import { updateCacheOptimistically, updateWindowedCaches } from '@/lib/queryCache';
+import { getDataWindow } from '@/lib/dataWindow';
+import { fetchBonusesInRange, fetchLoadsInRange } from '@/lib/queries';
 import { toast } from 'sonner';
 
 interface UseDataReturn {
   drivers: Driver[];
   loads: Load[];
   bonuses: Bonus[];
+  bonusTierRules: BonusTierRule[];
+  driverTypeHistory: DriverTypeChange[];
+  commissionPlans: CommissionPlan[];
+  payrollPeriods: PayrollPeriod[];
   systemState: SystemState;
   loading: boolean;
+  // Realtime connection for drivers, loads and bonuses
+  connection: ConnectionStatus;
   updateSystemState: (updates: Partial<SystemState>) => void;
-  addDriver: (driver: Omit<Driver, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Driver | null>;
-  updateDriver: (id: string, updates: Partial<Driver>) => Promise<void>;
+  addDriver: (driver: Omit<Driver, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Driver | null>;
+  updateDriver: (id: string, updates: Partial<Driver>, typeEffectiveFrom?: string) => Promise<void>;
   deleteDriver: (id: string) => Promise<void>;
-  addLoad: (load: Omit<Load, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Load | null>;
-  updateLoad: (id: string, updates: Partial<Load>) => Promise<void>;
+  // Stops and charges are saved in order after the load; its origin, destination and dates
+  // should summarize the stops
+  addLoad: (
+    load: Omit<Load, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at' | 'updated_by' | 'status' | 'cancellation_reason' | 'tonu_amount' | LoadChargeTotalField>,
+    stops?: LoadStopInput[],
+    charges?: LoadChargeInput[]
+  ) => Promise<Load | null>;
+  // Pass the updated_at the edit started from to reject it if someone saved in between.
+  // Resolves false when the load was not saved.
+  updateLoad: (
+    id: string,
+    updates: Partial<Load>,
+    expectedUpdatedAt?: string,
+    stops?: LoadStopInput[],
+    charges?: LoadChargeInput[]
+  ) => Promise<boolean>;
+  // Resolves false when the status was not changed. Cancelling records the reason and TONU fee.
+  updateLoadStatus: (
+    load: Load,
+    status: LoadStatus,
+    cancellation?: Pick<Load, 'cancellation_reason' | 'tonu_amount'>
+  ) => Promise<boolean>;
+  importLoads: (loads: ImportedLoad[]) => Promise<number>;
   deleteLoad: (id: string) => Promise<void>;
-  addManualBonus: (bonus: Omit<Bonus, 'id' | 'user_id' | 'bonus_type' | 'created_at'>) => Promise<Bonus | null>;
+  addManualBonus: (bonus: Omit<Bonus, 'id' | 'organization_id' | 'user_id' | 'bonus_type' | 'created_at'>) => Promise<Bonus | null>;
   deleteBonus: (id: string) => Promise<void>;
+  addBonusTierRules: (rules: Omit<BonusTierRule, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>[]) => Promise<void>;
+  updateBonusTierRule: (id: string, updates: Partial<BonusTierRule>) => Promise<void>;
+  deleteBonusTierRule: (id: string) => Promise<void>;
+  addCommissionPlan: (plan: Omit<CommissionPlan, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<CommissionPlan | null>;
+  updateCommissionPlan: (id: string, updates: Partial<CommissionPlan>) => Promise<void>;
+  deleteCommissionPlan: (id: string) => Promise<void>;
   recalculateAutomaticBonuses: () => Promise<void>;
+  closePayrollPeriod: (startDate: string, endDate: string) => Promise<PayrollPeriod | null>;
+  addAdjustment: (amount: number, note: string) => Promise<Bonus | null>;
 }
 
+// Empty lists until the first fetch resolves
+const NO_ROWS: never[] = [];
+
 export const useData = (): UseDataReturn => {
   const { user } = useAuth();
-  const [drivers, setDrivers] = useState<Driver[]>([]);
-  const [loads, setLoads] = useState<Load[]>([]);
-  const [bonuses, setBonuses] = useState<Bonus[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { organization, permissions, getMemberName } = useOrganization();
+  const organizationId = organization?.id;
+  const queryClient = useQueryClient();
+  const enabled = !!user && !!organizationId;
   const [systemState, setSystemState] = useState<SystemState>({
     selectedDay: format(new Date(), 'yyyy-MM-dd'),
     selectedWeek: format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
     selectedMonth: format(new Date(), 'yyyy-MM'),
   });
 
-  // Fetch all data
-  const fetchData = useCallback(async () => {
-    if (!user) return;
-    
-    setLoading(true);
-    try {
-      const [driversRes, loadsRes, bonusesRes] = await Promise.all([
-        supabase.from('drivers').select('*').order('created_at', { ascending: false }),
-        supabase.from('loads').select('*').order('delivery_date', { ascending: false }),
-        supabase.from('bonuses').select('*').order('date', { ascending: false }),
-      ]);
+  // One query per entity, so a change only refetches what it touched
+  const driversQuery = useQuery({
+    queryKey: queryKeys.drivers(organizationId),
+    queryFn: async () => {
+      const { data, error } = await supabase.from('drivers').select('*').eq('organization_id', organizationId).order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as Driver[];
+    },
+    enabled,
+  });
 
-      if (driversRes.error) throw driversRes.error;
-      if (loadsRes.error) throw loadsRes.error;
-      if (bonusesRes.error) throw bonusesRes.error;
+  // Loads and bonuses grow without bound, so only the dates on screen are fetched
+  const dataWindow = getDataWindow(systemState);
+  const loadsKey = queryKeys.loadsInWindow(organizationId, dataWindow.from, dataWindow.to);
+  const bonusesKey = queryKeys.bonusesInWindow(organizationId, dataWindow.from, dataWindow.to);
 
-      setDrivers(driversRes.data as Driver[]);
-      setLoads(loadsRes.data as Load[]);
-      setBonuses(bonusesRes.data as Bonus[]);
-    } catch (error) {
-      console.error('Error fetching data:', error);
-      toast.error('Failed to load data');
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+  const loadsQuery = useQuery({
+    queryKey: loadsKey,
+    queryFn: () => fetchLoadsInRange(organizationId, dataWindow.from, dataWindow.to),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const bonusesQuery = useQuery({
+    queryKey: bonusesKey,
+    queryFn: () => fetchBonusesInRange(organizationId, dataWindow.from, dataWindow.to),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const bonusTierRulesQuery = useQuery({
+    queryKey: queryKeys.bonusTierRules(organizationId),
+    queryFn: async () => {
+      const { data, error } = await supabase.from('bonus_tier_rules').select('*').eq('organization_id', organizationId).order('min_gross', { ascending: true });
+      if (error) throw error;
+      return data as BonusTierRule[];
+    },
+    enabled,
+  });
+
+  const driverTypeHistoryQuery = useQuery({
+    queryKey: queryKeys.driverTypeHistory(organizationId),
+    queryFn: async () => {
+      const { data, error } = await supabase.from('driver_type_history').select('*').eq('organization_id', organizationId).order('effective_from', { ascending: true });
+      if (error) throw error;
+      return data as DriverTypeChange[];
+    },
+    enabled,
+  });
+
+  const commissionPlansQuery = useQuery({
+    queryKey: queryKeys.commissionPlans(organizationId),
+    queryFn: async () => {
+      const { data, error } = await supabase.from('commission_plans').select('*').eq('organization_id', organizationId).order('effective_from', { ascending: true });
+      if (error) throw error;
+      return data as CommissionPlan[];
+    },
+    enabled,
+  });
+
+  const payrollPeriodsQuery = useQuery({
+    queryKey: queryKeys.payrollPeriods(organizationId),
+    queryFn: async () => {
+      // Viewers get the totals of closed periods without the loads and bonuses behind them
+      const { data, error } = permissions.canViewRecords
+        ? await supabase.from('payroll_periods').select('*').eq('organization_id', organizationId).order('start_date', { ascending: false })
+        : await supabase.rpc('get_payroll_period_totals', { p_organization_id: organizationId });
+      if (error) throw error;
+      return data as PayrollPeriod[];
+    },
+    enabled,
+  });
 
+  const drivers = driversQuery.data ?? NO_ROWS;
+  const loads = loadsQuery.data ?? NO_ROWS;
+  const bonuses = bonusesQuery.data ?? NO_ROWS;
+  const bonusTierRules = bonusTierRulesQuery.data ?? NO_ROWS;
+  const driverTypeHistory = driverTypeHistoryQuery.data ?? NO_ROWS;
+  const commissionPlans = commissionPlansQuery.data ?? NO_ROWS;
+  const payrollPeriods = payrollPeriodsQuery.data ?? NO_ROWS;
+
+  const queries = [driversQuery, loadsQuery, bonusesQuery, bonusTierRulesQuery, driverTypeHistoryQuery, commissionPlansQuery, payrollPeriodsQuery];
+  const loading = queries.some(q => q.isPending);
+
+  // Background refetches that fail keep the rows we have; only a failed first load is reported
+  const loadError = queries.find(q => q.isLoadingError)?.error;
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+    if (!loadError) return;
+    console.error('Error fetching data:', loadError);
+    toast.error('Failed to load data');
+  }, [loadError]);
+
+  // Aggregates and the paged loads list depend on every load and bonus; they are
+  // refetched rather than patched row by row
+  const invalidateLoadViews = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.metrics(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.loadPages(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.fullLoads(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.loadStatusHistories(organizationId) });
+  }, [organizationId, queryClient]);
+
+  // Merge changes made in other tabs and by other members. Deletes can't be filtered
+  // by organization; removing an id we don't have is a no-op.
+  const listen = useCallback((channel: RealtimeChannel) => {
+    const filter = `organization_id=eq.${organizationId}`;
+    const driversKey = queryKeys.drivers(organizationId);
+    const mergeDriver = (payload: RealtimePostgresChangesPayload<Driver>) => {
+      queryClient.setQueryData<Driver[]>(driversKey, rows => rows && applyChange(rows, payload));
+    };
+
+    // An import or a bonus recalculation arrives as a burst of events; refetch the
+    // aggregates once it settles
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleInvalidate = () => {
+      clearTimeout(refetchTimer);
+      refetchTimer = setTimeout(invalidateLoadViews, 500);
+    };
+    const mergeWindowed = <T extends { id: string }>(prefix: QueryKey, dateOf: (row: T) => string) =>
+      (payload: RealtimePostgresChangesPayload<T>) => {
+        updateWindowedCaches<T>(queryClient, prefix, dateOf, rows => applyChange(rows, payload));
+        scheduleInvalidate();
+      };
+    const mergeLoad = mergeWindowed<Load>(queryKeys.loads(organizationId), l => l.delivery_date);
+    const mergeBonus = mergeWindowed<Bonus>(queryKeys.bonuses(organizationId), b => b.date);
+
+    return channel
+      .on<Driver>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'drivers', filter }, mergeDriver)
+      .on<Driver>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'drivers', filter }, mergeDriver)
+      .on<Driver>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'drivers' }, mergeDriver)
+      .on<Load>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'loads', filter }, mergeLoad)
+      .on<Load>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'loads', filter }, mergeLoad)
+      .on<Load>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'loads' }, mergeLoad)
+      .on<Bonus>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'bonuses', filter }, mergeBonus)
+      .on<Bonus>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'bonuses', filter }, mergeBonus)
+      .on<Bonus>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'bonuses' }, mergeBonus)
+      // Stops and charges only show on the loads list, which is refetched; charge totals
+      // arrive with the load
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'load_stops', filter }, scheduleInvalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'load_charges', filter }, scheduleInvalidate);
+  }, [organizationId, queryClient, invalidateLoadViews]);
+
+  const refetchAll = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.organizationData(organizationId) });
+  }, [organizationId, queryClient]);
+
+  const connection = useRealtimeSync(
+    user && organizationId ? `organization-data:${organizationId}` : null,
+    listen,
+    refetchAll
+  );
 
   const updateSystemState = useCallback((updates: Partial<SystemState>) => {
     setSystemState(prev => ({ ...prev, ...updates }));
   }, []);
 
-  // Calculate automatic bonus for a driver
-  const calculateAutomaticBonus = (weeklyGross: number, driverType: DriverType): number => {
-    const thresholds = getBonusThresholds(driverType);
-    let bonus = 0;
-    const sortedThresholds = Object.keys(thresholds)
-      .map(Number)
-      .sort((a, b) => b - a);
-    
-    for (const threshold of sortedThresholds) {
-      if (weeklyGross >= threshold) {
-        bonus = thresholds[threshold];
-        break;
-      }
-    }
-    
-    return bonus;
-  };
+  // Cached loads and bonuses live in date windows; these apply a change to all of them
+  const mergeLoads = (update: (rows: Load[]) => Load[]) =>
+    updateWindowedCaches<Load>(queryClient, queryKeys.loads(organizationId), l => l.delivery_date, update);
+  const mergeBonuses = (update: (rows: Bonus[]) => Bonus[]) =>
+    updateWindowedCaches<Bonus>(queryClient, queryKeys.bonuses(organizationId), b => b.date, update);
 
-  // Calculate weekly gross for a driver
-  const calculateWeeklyGross = (driverId: string, weekStart: Date): number => {
-    const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-    
-    return loads
-      .filter(load => {
-        const deliveryDate = parseISO(load.delivery_date);
-        return (
-          load.driver_id === driverId &&
-          isWithinInterval(deliveryDate, { start: weekStart, end: weekEnd })
-        );
-      })
-      .reduce((sum, load) => sum + Number(load.rate), 0);
+  // The load as last fetched, from a date window or a page of the loads list
+  const findCachedLoad = (id: string): Load | undefined => {
+    const windows = queryClient.getQueriesData<Load[]>({ queryKey: queryKeys.loads(organizationId) });
+    const pages = queryClient.getQueriesData<LoadPage>({ queryKey: queryKeys.loadPages(organizationId) });
+    return [
+      ...windows.flatMap(([, rows]) => rows ?? []),
+      ...pages.flatMap(([, page]) => page?.loads ?? []),
+    ].find(l => l.id === id);
   };
 
-  // Helper to calculate weekly gross with custom loads array
-  const calculateWeeklyGrossWithLoads = (driverId: string, weekStart: Date, loadsList: Load[]): number => {
-    const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-    
-    return loadsList
-      .filter(load => {
-        const deliveryDate = parseISO(load.delivery_date);
-        return (
-          load.driver_id === driverId &&
-          isWithinInterval(deliveryDate, { start: weekStart, end: weekEnd })
-        );
-      })
-      .reduce((sum, load) => sum + Number(load.rate), 0);
+  // Refetch every bonus. Automatic bonuses are recalculated by the database whenever
+  // loads, bonus tier rules or driver type history change.
+  const refreshBonuses = async () => {
+    invalidateLoadViews();
+    await queryClient.invalidateQueries({ queryKey: queryKeys.bonuses(organizationId) });
   };
 
-  // Recalculate automatic bonuses with specific loads
-  const recalculateBonusesWithLoads = useCallback(async (loadsList: Load[]) => {
-    if (!user) return;
+  // A load change only recalculates the automatic bonus of the driver-weeks it touched,
+  // so refetch just those. A week split by a closed period gets its correction as a
+  // driver adjustment instead.
+  const refreshDriverWeekBonuses = async (...touched: Pick<Load, 'driver_id' | 'delivery_date'>[]) => {
+    const weeks = new Map(
+      touched.map(l => [`${l.driver_id}|${getWeekKey(l.delivery_date)}`, { driverId: l.driver_id, weekStart: getWeekKey(l.delivery_date) }])
+    );
 
     try {
-      // Delete existing automatic bonuses
-      await supabase
-        .from('bonuses')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('bonus_type', 'automatic');
-
-      // Get all unique weeks from loads
-      const weeks = new Set<string>();
-      loadsList.forEach(load => {
-        const weekStart = startOfWeek(parseISO(load.delivery_date), { weekStartsOn: 1 });
-        weeks.add(format(weekStart, 'yyyy-MM-dd'));
-      });
-
-      // Calculate new automatic bonuses
-      const newBonuses: Omit<Bonus, 'id' | 'created_at'>[] = [];
-      
-      weeks.forEach(weekString => {
-        const weekStart = parseISO(weekString);
-        
-        drivers.forEach(driver => {
-          const weeklyGross = calculateWeeklyGrossWithLoads(driver.id, weekStart, loadsList);
-          const bonusAmount = calculateAutomaticBonus(weeklyGross, driver.driver_type);
-          
-          if (bonusAmount > 0) {
-            newBonuses.push({
-              user_id: user.id,
-              driver_id: driver.id,
-              bonus_type: 'automatic',
-              amount: bonusAmount,
-              week_start: weekString,
-              date: weekString,
-              note: `Auto bonus for $${weeklyGross.toLocaleString()} weekly gross`,
-            });
-          }
-        });
-      });
+      const results = await Promise.all([...weeks.values()].map(({ driverId, weekStart }) =>
+        supabase
+          .from('bonuses')
+          .select('*')
+          .eq('driver_id', driverId)
+          .eq('week_start', weekStart)
+          .in('bonus_type', ['automatic', 'adjustment'])
+      ));
 
-      // Insert new automatic bonuses
-      if (newBonuses.length > 0) {
-        const { error } = await supabase.from('bonuses').insert(newBonuses);
+      const fresh: Bonus[] = [];
+      for (const { data, error } of results) {
         if (error) throw error;
+        fresh.push(...(data as Bonus[]));
       }
 
-      // Refresh bonuses
-      const { data, error } = await supabase
-        .from('bonuses')
-        .select('*')
-        .order('date', { ascending: false });
-      
+      mergeBonuses(rows => [
+        ...fresh,
+        ...rows.filter(b => !(b.bonus_type !== 'manual' && weeks.has(`${b.driver_id}|${b.week_start}`))),
+      ]);
+      invalidateLoadViews();
+    } catch (error) {
+      console.error('Error refreshing bonuses:', error);
+      await refreshBonuses();
+    }
+  };
+
+  // Force a full server-side recalculation of automatic bonuses
+  const recalculateAutomaticBonuses = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      const { error } = await supabase.rpc('recalculate_automatic_bonuses', { p_organization_id: organizationId });
       if (error) throw error;
-      setBonuses(data as Bonus[]);
+      invalidateLoadViews();
+      await queryClient.invalidateQueries({ queryKey: queryKeys.bonuses(organizationId) });
     } catch (error) {
       console.error('Error recalculating bonuses:', error);
+      toast.error('Failed to recalculate bonuses');
     }
-  }, [user, drivers]);
+  }, [organizationId, queryClient, invalidateLoadViews]);
 
-  // Recalculate automatic bonuses using current loads state
-  const recalculateAutomaticBonuses = useCallback(async () => {
-    await recalculateBonusesWithLoads(loads);
-  }, [loads, recalculateBonusesWithLoads]);
+  // Reject changes that touch a closed payroll period
+  const rejectIfLocked = (...dates: (string | undefined)[]): boolean => {
+    if (dates.some(date => date && isDateLocked(payrollPeriods, date))) {
+      toast.error('This date is in a closed payroll period. Record an adjustment instead.');
+      return true;
+    }
+    return false;
+  };
+
+  // Updates and deletes show right away and roll back on error. Inserts wait for the
+  // database, which assigns ids and defaults.
 
   // Driver operations
-  const addDriver = async (driver: Omit<Driver, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
-    if (!user) return null;
+  const addDriver = async (driver: Omit<Driver, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+    if (!user || !organizationId) return null;
     
     try {
       const { data, error } = await supabase
         .from('drivers')
-        .insert({ ...driver, user_id: user.id })
+        .insert({ ...driver, organization_id: organizationId, user_id: user.id })
         .select()
         .single();
       
       if (error) throw error;
-      setDrivers(prev => [data as Driver, ...prev]);
+      queryClient.setQueryData<Driver[]>(queryKeys.drivers(organizationId), rows => rows && upsertRows(rows, [data as Driver]));
       toast.success('Driver added successfully');
       return data as Driver;
     } catch (error) {
@@ -207,28 +350,60 @@ export const useData = (): UseDataReturn => {
     }
   };
 
-  const updateDriver = async (id: string, updates: Partial<Driver>) => {
+  const updateDriver = async (id: string, updates: Partial<Driver>, typeEffectiveFrom?: string) => {
+    const previous = drivers.find(d => d.id === id);
+    const rollback = await updateCacheOptimistically<Driver>(queryClient, queryKeys.drivers(organizationId), rows =>
+      rows.map(d => d.id === id ? { ...d, ...updates } as Driver : d)
+    );
+
+    // A type change goes through change_driver_type, which records it in the type
+    // history in the same transaction
+    const { driver_type: driverType, ...fields } = updates;
+    const changesType = !!driverType && !!previous && driverType !== previous.driver_type;
+    const fieldUpdates = changesType ? fields : updates;
+
     try {
-      const { error } = await supabase
-        .from('drivers')
-        .update(updates)
-        .eq('id', id);
-      
-      if (error) throw error;
-      setDrivers(prev => prev.map(d => d.id === id ? { ...d, ...updates } as Driver : d));
+      if (Object.keys(fieldUpdates).length > 0) {
+        const { error } = await supabase
+          .from('drivers')
+          .update(fieldUpdates)
+          .eq('id', id);
+
+        if (error) throw error;
+      }
+
+      // Recorded from its effective week; the database recalculates bonuses
+      if (changesType) {
+        const effectiveFrom = getWeekKey(typeEffectiveFrom ?? format(new Date(), 'yyyy-MM-dd'));
+        const { data, error: typeError } = await supabase.rpc('change_driver_type', {
+          p_driver_id: id,
+          p_driver_type: driverType,
+          p_effective_from: effectiveFrom,
+        });
+
+        if (typeError) throw typeError;
+        queryClient.setQueryData<DriverTypeChange[]>(queryKeys.driverTypeHistory(organizationId), rows => rows && [
+          ...rows.filter(h => !(h.driver_id === id && h.effective_from === effectiveFrom)),
+          data as DriverTypeChange,
+        ]);
+      }
       toast.success('Driver updated successfully');
-      
-      // Recalculate bonuses if driver type changed
-      if (updates.driver_type) {
-        await recalculateAutomaticBonuses();
+
+      if (changesType) {
+        await refreshBonuses();
       }
     } catch (error) {
+      rollback();
       console.error('Error updating driver:', error);
       toast.error('Failed to update driver');
     }
   };
 
   const deleteDriver = async (id: string) => {
+    const rollback = await updateCacheOptimistically<Driver>(queryClient, queryKeys.drivers(organizationId), rows =>
+      rows.filter(d => d.id !== id)
+    );
+
     try {
       const { error } = await supabase
         .from('drivers')
@@ -236,34 +411,46 @@ export const useData = (): UseDataReturn => {
         .eq('id', id);
       
       if (error) throw error;
-      setDrivers(prev => prev.filter(d => d.id !== id));
       toast.success('Driver deleted successfully');
+
+      // Their loads, bonuses and type history are deleted with them
+      queryClient.invalidateQueries({ queryKey: queryKeys.loads(organizationId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.bonuses(organizationId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.driverTypeHistory(organizationId) });
+      invalidateLoadViews();
     } catch (error) {
+      rollback();
       console.error('Error deleting driver:', error);
       toast.error('Failed to delete driver');
     }
   };
 
   // Load operations
-  const addLoad = async (load: Omit<Load, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
-    if (!user) return null;
+
+  const addLoad = async (
+    load: Omit<Load, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at' | 'updated_by' | 'status' | 'cancellation_reason' | 'tonu_amount' | LoadChargeTotalField>,
+    stops?: LoadStopInput[],
+    charges?: LoadChargeInput[]
+  ) => {
+    if (!user || !organizationId) return null;
+    if (rejectIfLocked(load.delivery_date)) return null;
     
     try {
-      const { data, error } = await supabase
-        .from('loads')
-        .insert({ ...load, user_id: user.id })
-        .select()
-        .single();
+      // The load, its stops and its charges are saved together; its route columns come
+      // from the stops and its charge totals from the charges
+      const { data, error } = await supabase.rpc('save_load', {
+        p_load: { ...load, organization_id: organizationId },
+        p_stops: stops,
+        p_charges: charges && toChargeLines(charges),
+      });
       
       if (error) throw error;
-      const newLoad = data as Load;
-      
-      // Update loads state immediately
-      const updatedLoads = [newLoad, ...loads];
-      setLoads(updatedLoads);
+      const newLoad = (data as Load[])[0];
+      mergeLoads(rows => upsertRows(rows, [newLoad]));
+      invalidateLoadViews();
       
-      // Immediately recalculate bonuses with the new load included
-      await recalculateBonusesWithLoads(updatedLoads);
+      // Pick up the automatic bonus recalculated by the database
+      await refreshDriverWeekBonuses(newLoad);
       
       toast.success('Load added successfully');
       return newLoad;
@@ -278,31 +465,168 @@ export const useData = (): UseDataReturn => {
     }
   };
 
-  const updateLoad = async (id: string, updates: Partial<Load>) => {
+  // Insert imported loads in a single statement so the database recalculates
+  // automatic bonuses once for the whole batch
+  const importLoads = async (newLoads: ImportedLoad[]) => {
+    if (!user || !organizationId || newLoads.length === 0) return 0;
+    if (rejectIfLocked(...newLoads.map(l => l.delivery_date))) return 0;
+
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('loads')
-        .update(updates)
-        .eq('id', id);
+        .insert(newLoads.map(load => ({ ...load, organization_id: organizationId, user_id: user.id })))
+        .select();
+
+      if (error) throw error;
+      const inserted = data as Load[];
+      mergeLoads(rows => upsertRows(rows, inserted));
+
+      await refreshBonuses();
+
+      toast.success(`Imported ${inserted.length} load${inserted.length === 1 ? '' : 's'}`);
+      return inserted.length;
+    } catch (error) {
+      console.error('Error importing loads:', error);
+      if ((error as Error).message?.includes('unique')) {
+        toast.error('Some Load IDs already exist. Nothing was imported.');
+      } else {
+        toast.error('Failed to import loads. Nothing was imported.');
+      }
+      return 0;
+    }
+  };
+
+  // An update matched no row. Usually someone else saved the load first: show their
+  // version and say who it was.
+  const reportLoadConflict = async (id: string, expectedUpdatedAt?: string) => {
+    const { data, error } = await supabase.from('loads').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+
+    if (!data) {
+      mergeLoads(rows => rows.filter(l => l.id !== id));
+      invalidateLoadViews();
+      toast.error('This load was deleted by another member.');
+      return;
+    }
+
+    const latest = data as Load;
+    mergeLoads(rows => upsertRows(rows, [latest]));
+    invalidateLoadViews();
+    if (!expectedUpdatedAt || latest.updated_at === expectedUpdatedAt) {
+      toast.error('Failed to update load');
+      return;
+    }
+    toast.error(`${getMemberName(latest.updated_by)} changed this load while you were editing. Review their changes and save again.`);
+  };
+
+  const updateLoad = async (
+    id: string,
+    updates: Partial<Load>,
+    expectedUpdatedAt?: string,
+    stops?: LoadStopInput[],
+    charges?: LoadChargeInput[]
+  ) => {
+    const previous = findCachedLoad(id);
+    if (rejectIfLocked(previous?.delivery_date, updates.delivery_date)) return false;
+
+    const rollback = await updateCacheOptimistically<Load>(queryClient, loadsKey, rows =>
+      rows.map(l => l.id === id ? { ...l, ...updates } as Load : l)
+    );
+
+    try {
+      const { data, error } = await supabase.rpc('save_load', {
+        p_load_id: id,
+        p_load: updates,
+        p_expected_updated_at: expectedUpdatedAt,
+        p_stops: stops,
+        p_charges: charges && toChargeLines(charges),
+      });
       
       if (error) throw error;
-      const updatedLoads = loads.map(l => l.id === id ? { ...l, ...updates } as Load : l);
-      setLoads(updatedLoads);
+      if (data.length === 0) {
+        await reportLoadConflict(id, expectedUpdatedAt);
+        return false;
+      }
+      const updated = (data as Load[])[0];
+      mergeLoads(rows => upsertRows(rows, [updated]));
+      invalidateLoadViews();
       
-      // Immediately recalculate bonuses
-      await recalculateBonusesWithLoads(updatedLoads);
+      // The load may have moved to another driver or week; both are recalculated
+      await refreshDriverWeekBonuses(...(previous ? [previous, updated] : [updated]));
       toast.success('Load updated successfully');
+      return true;
     } catch (error: any) {
+      rollback();
       console.error('Error updating load:', error);
       if (error.message?.includes('unique')) {
         toast.error('Load ID already exists. Please use a unique Load ID.');
       } else {
         toast.error('Failed to update load');
       }
+      return false;
+    }
+  };
+
+  // Moves a load along its lifecycle. Invoicing and payment can still be recorded in a
+  // closed period; cancelling or reinstating, which changes gross, can't.
+  const updateLoadStatus = async (
+    load: Load,
+    status: LoadStatus,
+    cancellation?: Pick<Load, 'cancellation_reason' | 'tonu_amount'>
+  ) => {
+    const changesGross = countsTowardGross(load.status) !== countsTowardGross(status);
+    if (changesGross && rejectIfLocked(load.delivery_date)) return false;
+
+    // Only cancelled loads carry a reason and TONU fee; reinstating clears them
+    const updates: Partial<Load> = status === 'cancelled'
+      ? { status, cancellation_reason: cancellation?.cancellation_reason ?? null, tonu_amount: cancellation?.tonu_amount ?? null }
+      : { status, cancellation_reason: null, tonu_amount: null };
+
+    const rollback = await updateCacheOptimistically<Load>(queryClient, loadsKey, rows =>
+      rows.map(l => l.id === load.id ? { ...l, ...updates } : l)
+    );
+
+    try {
+      // Matching the status it was moved from rejects a change someone else made first.
+      // The RPC reaches loads in a closed period, which the loads policy hides.
+      const { data, error } = await supabase.rpc('set_load_status', {
+        p_load_id: load.id,
+        p_from: load.status,
+        p_to: status,
+        p_cancellation_reason: updates.cancellation_reason ?? undefined,
+        p_tonu_amount: updates.tonu_amount ?? undefined,
+      });
+
+      if (error) throw error;
+      if (data.length === 0) {
+        await reportLoadConflict(load.id, load.updated_at);
+        return false;
+      }
+      const updated = (data as Load[])[0];
+      mergeLoads(rows => upsertRows(rows, [updated]));
+      invalidateLoadViews();
+
+      if (changesGross) {
+        await refreshDriverWeekBonuses(updated);
+      }
+      toast.success(`Load marked ${LOAD_STATUS_LABELS[status].toLowerCase()}`);
+      return true;
+    } catch (error) {
+      rollback();
+      console.error('Error updating load status:', error);
+      toast.error('Failed to update load status');
+      return false;
     }
   };
 
   const deleteLoad = async (id: string) => {
+    const previous = findCachedLoad(id);
+    if (rejectIfLocked(previous?.delivery_date)) return;
+
+    const rollback = await updateCacheOptimistically<Load>(queryClient, loadsKey, rows =>
+      rows.filter(l => l.id !== id)
+    );
+
     try {
       const { error } = await supabase
         .from('loads')
@@ -310,31 +634,36 @@ export const useData = (): UseDataReturn => {
         .eq('id', id);
       
       if (error) throw error;
-      const updatedLoads = loads.filter(l => l.id !== id);
-      setLoads(updatedLoads);
+      mergeLoads(rows => rows.filter(l => l.id !== id));
+      invalidateLoadViews();
       
-      // Immediately recalculate bonuses
-      await recalculateBonusesWithLoads(updatedLoads);
+      // Pick up the automatic bonus recalculated by the database
+      if (previous) {
+        await refreshDriverWeekBonuses(previous);
+      }
       toast.success('Load deleted successfully');
     } catch (error) {
+      rollback();
       console.error('Error deleting load:', error);
       toast.error('Failed to delete load');
     }
   };
 
   // Bonus operations
-  const addManualBonus = async (bonus: Omit<Bonus, 'id' | 'user_id' | 'bonus_type' | 'created_at'>) => {
-    if (!user) return null;
+  const addManualBonus = async (bonus: Omit<Bonus, 'id' | 'organization_id' | 'user_id' | 'bonus_type' | 'created_at'>) => {
+    if (!user || !organizationId) return null;
+    if (rejectIfLocked(bonus.date)) return null;
     
     try {
       const { data, error } = await supabase
         .from('bonuses')
-        .insert({ ...bonus, user_id: user.id, bonus_type: 'manual' })
+        .insert({ ...bonus, organization_id: organizationId, user_id: user.id, bonus_type: 'manual' })
         .select()
         .single();
       
       if (error) throw error;
-      setBonuses(prev => [data as Bonus, ...prev]);
+      mergeBonuses(rows => upsertRows(rows, [data as Bonus]));
+      invalidateLoadViews();
       toast.success('Bonus added successfully');
       return data as Bonus;
     } catch (error) {
@@ -345,6 +674,12 @@ export const useData = (): UseDataReturn => {
   };
 
   const deleteBonus = async (id: string) => {
+    if (rejectIfLocked(bonuses.find(b => b.id === id)?.date)) return;
+
+    const rollback = await updateCacheOptimistically<Bonus>(queryClient, bonusesKey, rows =>
+      rows.filter(b => b.id !== id)
+    );
+
     try {
       const { error } = await supabase
         .from('bonuses')
@@ -352,29 +687,261 @@ export const useData = (): UseDataReturn => {
         .eq('id', id);
       
       if (error) throw error;
-      setBonuses(prev => prev.filter(b => b.id !== id));
+      mergeBonuses(rows => rows.filter(b => b.id !== id));
+      invalidateLoadViews();
       toast.success('Bonus deleted successfully');
     } catch (error) {
+      rollback();
       console.error('Error deleting bonus:', error);
       toast.error('Failed to delete bonus');
     }
   };
 
+  // Bonus tier rule operations
+  const sortTierRules = (rules: BonusTierRule[]) =>
+    [...rules].sort((a, b) => Number(a.min_gross) - Number(b.min_gross));
+
+  const addBonusTierRules = async (rules: Omit<BonusTierRule, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>[]) => {
+    if (!user || !organizationId || rules.length === 0) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bonus_tier_rules')
+        .insert(rules.map(rule => ({ ...rule, organization_id: organizationId, user_id: user.id })))
+        .select();
+
+      if (error) throw error;
+      queryClient.setQueryData<BonusTierRule[]>(queryKeys.bonusTierRules(organizationId), rows =>
+        rows && sortTierRules(upsertRows(rows, data as BonusTierRule[]))
+      );
+
+      await refreshBonuses();
+      toast.success(rules.length === 1 ? 'Bonus tier added' : 'Bonus tiers added');
+    } catch (error) {
+      console.error('Error adding bonus tier:', error);
+      if ((error as Error).message?.includes('unique')) {
+        toast.error('A tier with this threshold already exists.');
+      } else {
+        toast.error('Failed to add bonus tier');
+      }
+    }
+  };
+
+  const updateBonusTierRule = async (id: string, updates: Partial<BonusTierRule>) => {
+    const rollback = await updateCacheOptimistically<BonusTierRule>(queryClient, queryKeys.bonusTierRules(organizationId), rows =>
+      sortTierRules(rows.map(r => r.id === id ? { ...r, ...updates } as BonusTierRule : r))
+    );
+
+    try {
+      const { error } = await supabase
+        .from('bonus_tier_rules')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await refreshBonuses();
+      toast.success('Bonus tier updated');
+    } catch (error) {
+      rollback();
+      console.error('Error updating bonus tier:', error);
+      if ((error as Error).message?.includes('unique')) {
+        toast.error('A tier with this threshold already exists.');
+      } else {
+        toast.error('Failed to update bonus tier');
+      }
+    }
+  };
+
+  const deleteBonusTierRule = async (id: string) => {
+    const rollback = await updateCacheOptimistically<BonusTierRule>(queryClient, queryKeys.bonusTierRules(organizationId), rows =>
+      rows.filter(r => r.id !== id)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('bonus_tier_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await refreshBonuses();
+      toast.success('Bonus tier deleted');
+    } catch (error) {
+      rollback();
+      console.error('Error deleting bonus tier:', error);
+      toast.error('Failed to delete bonus tier');
+    }
+  };
+
+  // Commission plan operations
+  const sortCommissionPlans = (plans: CommissionPlan[]) =>
+    [...plans].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+  const addCommissionPlan = async (plan: Omit<CommissionPlan, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+    if (!user || !organizationId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('commission_plans')
+        .insert({ ...plan, organization_id: organizationId, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      queryClient.setQueryData<CommissionPlan[]>(queryKeys.commissionPlans(organizationId), rows =>
+        rows && sortCommissionPlans(upsertRows(rows, [data as CommissionPlan]))
+      );
+      toast.success('Commission plan added');
+      return data as CommissionPlan;
+    } catch (error) {
+      console.error('Error adding commission plan:', error);
+      if ((error as Error).message?.includes('commission_plans_version_key')) {
+        toast.error('A plan already starts on this date.');
+      } else {
+        toast.error('Failed to add commission plan');
+      }
+      return null;
+    }
+  };
+
+  const updateCommissionPlan = async (id: string, updates: Partial<CommissionPlan>) => {
+    const rollback = await updateCacheOptimistically<CommissionPlan>(queryClient, queryKeys.commissionPlans(organizationId), rows =>
+      sortCommissionPlans(rows.map(p => p.id === id ? { ...p, ...updates } as CommissionPlan : p))
+    );
+
+    try {
+      const { error } = await supabase
+        .from('commission_plans')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Commission plan updated');
+    } catch (error) {
+      rollback();
+      console.error('Error updating commission plan:', error);
+      if ((error as Error).message?.includes('commission_plans_version_key')) {
+        toast.error('A plan already starts on this date.');
+      } else {
+        toast.error('Failed to update commission plan');
+      }
+    }
+  };
+
+  const deleteCommissionPlan = async (id: string) => {
+    const rollback = await updateCacheOptimistically<CommissionPlan>(queryClient, queryKeys.commissionPlans(organizationId), rows =>
+      rows.filter(p => p.id !== id)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('commission_plans')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Commission plan deleted');
+    } catch (error) {
+      rollback();
+      console.error('Error deleting commission plan:', error);
+      toast.error('Failed to delete commission plan');
+    }
+  };
+
+  // Payroll period operations
+  const closePayrollPeriod = async (startDate: string, endDate: string) => {
+    if (!user || !organizationId) return null;
+
+    try {
+      // Totals and the snapshot are taken by the database in the same transaction as the close
+      const { data, error } = await supabase.rpc('close_payroll_period', {
+        p_organization_id: organizationId,
+        p_start: startDate,
+        p_end: endDate,
+      });
+
+      if (error) throw error;
+      queryClient.setQueryData<PayrollPeriod[]>(queryKeys.payrollPeriods(organizationId), rows => rows && upsertRows(rows, [data as PayrollPeriod]));
+      toast.success('Payroll period closed');
+      return data as PayrollPeriod;
+    } catch (error) {
+      console.error('Error closing payroll period:', error);
+      if ((error as { code?: string }).code === '23P01') {
+        toast.error('This range overlaps a period that is already closed.');
+      } else {
+        toast.error('Failed to close payroll period');
+      }
+      return null;
+    }
+  };
+
+  // Corrections to closed periods are booked today as adjustment entries
+  const addAdjustment = async (amount: number, note: string) => {
+    if (!user || !organizationId) return null;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    if (rejectIfLocked(today)) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('bonuses')
+        .insert({
+          organization_id: organizationId,
+          user_id: user.id,
+          driver_id: null,
+          bonus_type: 'adjustment',
+          amount,
+          date: today,
+          week_start: getWeekKey(today),
+          note,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      mergeBonuses(rows => upsertRows(rows, [data as Bonus]));
+      invalidateLoadViews();
+      toast.success('Adjustment recorded');
+      return data as Bonus;
+    } catch (error) {
+      console.error('Error adding adjustment:', error);
+      toast.error('Failed to record adjustment');
+      return null;
+    }
+  };
+
   return {
     drivers,
     loads,
     bonuses,
+    bonusTierRules,
+    driverTypeHistory,
+    commissionPlans,
+    payrollPeriods,
     systemState,
     loading,
+    connection,
     updateSystemState,
     addDriver,
     updateDriver,
     deleteDriver,
     addLoad,
     updateLoad,
+    updateLoadStatus,
+    importLoads,
     deleteLoad,
     addManualBonus,
     deleteBonus,
+    addBonusTierRules,
+    updateBonusTierRule,
+    deleteBonusTierRule,
+    addCommissionPlan,
+    updateCommissionPlan,
+    deleteCommissionPlan,
     recalculateAutomaticBonuses,
+    closePayrollPeriod,
+    addAdjustment,
   };
 };
@@ -0,0 +1,328 @@
+import { useEffect, useCallback } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useOrganization } from './useOrganization';
+import { useRealtimeSync } from './useRealtimeSync';
+import { DriverAdvance, DriverDeduction, DriverPayPlan } from '@/types';
+import { ConnectionStatus, applyChange, upsertRows } from '@/lib/realtime';
+import { queryKeys } from '@/lib/queryKeys';
+import { updateCacheOptimistically, updateWindowedCaches } from '@/lib/queryCache';
+import { getWeekEnd } from '@/lib/payroll';
+import { parseLocalDate } from '@/lib/utils';
+import { toast } from 'sonner';
+
+export type DriverPayPlanInput = Omit<DriverPayPlan, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type DriverDeductionInput = Omit<DriverDeduction, 'id' | 'organization_id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type DriverAdvanceInput = Omit<DriverAdvance, 'id' | 'organization_id' | 'user_id' | 'created_at'>;
+
+interface UseDriverPayReturn {
+  payPlans: DriverPayPlan[];
+  deductions: DriverDeduction[];
+  // Advances paid in the selected week
+  advances: DriverAdvance[];
+  loading: boolean;
+  connection: ConnectionStatus;
+  addPayPlan: (plan: DriverPayPlanInput) => Promise<DriverPayPlan | null>;
+  deletePayPlan: (id: string) => Promise<void>;
+  addDeduction: (deduction: DriverDeductionInput) => Promise<DriverDeduction | null>;
+  // Stops a recurring deduction after the given date (YYYY-MM-DD)
+  endDeduction: (id: string, endsOn: string) => Promise<void>;
+  deleteDeduction: (id: string) => Promise<void>;
+  addAdvance: (advance: DriverAdvanceInput) => Promise<DriverAdvance | null>;
+  deleteAdvance: (id: string) => Promise<void>;
+}
+
+const NO_PLANS: DriverPayPlan[] = [];
+const NO_DEDUCTIONS: DriverDeduction[] = [];
+const NO_ADVANCES: DriverAdvance[] = [];
+
+const sortPlans = (rows: DriverPayPlan[]) => [...rows].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+/**
+ * Driver pay plans, recurring deductions and the advances of one settlement week.
+ * Only owners and accountants can see driver pay, so nothing is fetched for other roles.
+ */
+export const useDriverPay = (weekStart: string): UseDriverPayReturn => {
+  const { user } = useAuth();
+  const { organization, permissions } = useOrganization();
+  const organizationId = organization?.id;
+  const queryClient = useQueryClient();
+  const enabled = !!user && !!organizationId && permissions.canManageDriverPay;
+
+  const weekEnd = format(getWeekEnd(parseLocalDate(weekStart)), 'yyyy-MM-dd');
+  const plansKey = queryKeys.driverPayPlans(organizationId);
+  const deductionsKey = queryKeys.driverDeductions(organizationId);
+  const advancesKey = queryKeys.driverAdvancesInWindow(organizationId, weekStart, weekEnd);
+
+  const plansQuery = useQuery({
+    queryKey: plansKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('driver_pay_plans')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('effective_from', { ascending: true });
+
+      if (error) throw error;
+      return data as DriverPayPlan[];
+    },
+    enabled,
+  });
+
+  const deductionsQuery = useQuery({
+    queryKey: deductionsKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('driver_deductions')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('starts_on', { ascending: true });
+
+      if (error) throw error;
+      return data as DriverDeduction[];
+    },
+    enabled,
+  });
+
+  // Advances grow without bound, so only the selected week is fetched
+  const advancesQuery = useQuery({
+    queryKey: advancesKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('driver_advances')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .gte('advanced_on', weekStart)
+        .lte('advanced_on', weekEnd)
+        .order('advanced_on', { ascending: true });
+
+      if (error) throw error;
+      return data as DriverAdvance[];
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const payPlans = plansQuery.data ?? NO_PLANS;
+  const deductions = deductionsQuery.data ?? NO_DEDUCTIONS;
+  const advances = advancesQuery.data ?? NO_ADVANCES;
+  const loading = enabled && (plansQuery.isPending || deductionsQuery.isPending || advancesQuery.isPending);
+
+  const loadError = [plansQuery, deductionsQuery, advancesQuery].find(q => q.isLoadingError)?.error ?? null;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching driver pay:', loadError);
+    toast.error('Failed to load driver pay');
+  }, [loadError]);
+
+  // Deletes can't be filtered by organization; removing an id we don't have is a no-op
+  const listen = useCallback((channel: RealtimeChannel) => {
+    const filter = `organization_id=eq.${organizationId}`;
+    const mergePlan = (payload: RealtimePostgresChangesPayload<DriverPayPlan>) => {
+      queryClient.setQueryData<DriverPayPlan[]>(queryKeys.driverPayPlans(organizationId), rows =>
+        rows && sortPlans(applyChange(rows, payload))
+      );
+    };
+    const mergeDeduction = (payload: RealtimePostgresChangesPayload<DriverDeduction>) => {
+      queryClient.setQueryData<DriverDeduction[]>(queryKeys.driverDeductions(organizationId), rows =>
+        rows && applyChange(rows, payload)
+      );
+    };
+    const mergeAdvance = (payload: RealtimePostgresChangesPayload<DriverAdvance>) => {
+      updateWindowedCaches<DriverAdvance>(queryClient, queryKeys.driverAdvances(organizationId), a => a.advanced_on, rows =>
+        applyChange(rows, payload)
+      );
+    };
+    return channel
+      .on<DriverPayPlan>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'driver_pay_plans', filter }, mergePlan)
+      .on<DriverPayPlan>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'driver_pay_plans', filter }, mergePlan)
+      .on<DriverPayPlan>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'driver_pay_plans' }, mergePlan)
+      .on<DriverDeduction>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'driver_deductions', filter }, mergeDeduction)
+      .on<DriverDeduction>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'driver_deductions', filter }, mergeDeduction)
+      .on<DriverDeduction>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'driver_deductions' }, mergeDeduction)
+      .on<DriverAdvance>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'driver_advances', filter }, mergeAdvance)
+      .on<DriverAdvance>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'driver_advances' }, mergeAdvance);
+  }, [organizationId, queryClient]);
+
+  const refetchDriverPay = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.driverPayPlans(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.driverDeductions(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.driverAdvances(organizationId) });
+  }, [organizationId, queryClient]);
+
+  const connection = useRealtimeSync(
+    enabled ? `driver-pay:${organizationId}` : null,
+    listen,
+    refetchDriverPay
+  );
+
+  const addPayPlan = async (plan: DriverPayPlanInput) => {
+    if (!user || !organizationId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('driver_pay_plans')
+        .insert({ ...plan, organization_id: organizationId, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      queryClient.setQueryData<DriverPayPlan[]>(plansKey, rows => rows && sortPlans(upsertRows(rows, [data as DriverPayPlan])));
+      toast.success('Pay plan saved');
+      return data as DriverPayPlan;
+    } catch (error) {
+      console.error('Error adding pay plan:', error);
+      // Postgres unique_violation on the driver's plan versions
+      toast.error((error as { code?: string }).code === '23505'
+        ? 'A pay plan already starts on this date for this driver.'
+        : 'Failed to save pay plan');
+      return null;
+    }
+  };
+
+  const deletePayPlan = async (id: string) => {
+    const rollback = await updateCacheOptimistically<DriverPayPlan>(queryClient, plansKey, rows =>
+      rows.filter(p => p.id !== id)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('driver_pay_plans')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Pay plan deleted');
+    } catch (error) {
+      rollback();
+      console.error('Error deleting pay plan:', error);
+      toast.error('Failed to delete pay plan');
+    }
+  };
+
+  const addDeduction = async (deduction: DriverDeductionInput) => {
+    if (!user || !organizationId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('driver_deductions')
+        .insert({ ...deduction, organization_id: organizationId, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      queryClient.setQueryData<DriverDeduction[]>(deductionsKey, rows => rows && upsertRows(rows, [data as DriverDeduction]));
+      toast.success('Deduction added');
+      return data as DriverDeduction;
+    } catch (error) {
+      console.error('Error adding deduction:', error);
+      toast.error('Failed to add deduction');
+      return null;
+    }
+  };
+
+  const endDeduction = async (id: string, endsOn: string) => {
+    const rollback = await updateCacheOptimistically<DriverDeduction>(queryClient, deductionsKey, rows =>
+      rows.map(d => d.id === id ? { ...d, ends_on: endsOn } : d)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('driver_deductions')
+        .update({ ends_on: endsOn })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Deduction ended');
+    } catch (error) {
+      rollback();
+      console.error('Error ending deduction:', error);
+      // Postgres check_violation: the end date is before the start
+      toast.error((error as { code?: string }).code === '23514'
+        ? "A deduction can't end before it starts. Delete it instead."
+        : 'Failed to end deduction');
+    }
+  };
+
+  const deleteDeduction = async (id: string) => {
+    const rollback = await updateCacheOptimistically<DriverDeduction>(queryClient, deductionsKey, rows =>
+      rows.filter(d => d.id !== id)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('driver_deductions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Deduction deleted');
+    } catch (error) {
+      rollback();
+      console.error('Error deleting deduction:', error);
+      toast.error('Failed to delete deduction');
+    }
+  };
+
+  const addAdvance = async (advance: DriverAdvanceInput) => {
+    if (!user || !organizationId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('driver_advances')
+        .insert({ ...advance, organization_id: organizationId, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      updateWindowedCaches<DriverAdvance>(queryClient, queryKeys.driverAdvances(organizationId), a => a.advanced_on, rows =>
+        upsertRows(rows, [data as DriverAdvance])
+      );
+      toast.success('Advance recorded');
+      return data as DriverAdvance;
+    } catch (error) {
+      console.error('Error adding advance:', error);
+      toast.error('Failed to record advance');
+      return null;
+    }
+  };
+
+  const deleteAdvance = async (id: string) => {
+    const rollback = await updateCacheOptimistically<DriverAdvance>(queryClient, advancesKey, rows =>
+      rows.filter(a => a.id !== id)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('driver_advances')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Advance deleted');
+    } catch (error) {
+      rollback();
+      console.error('Error deleting advance:', error);
+      toast.error('Failed to delete advance');
+    }
+  };
+
+  return {
+    payPlans,
+    deductions,
+    advances,
+    loading,
+    // Roles without driver pay have nothing to keep in sync
+    connection: enabled ? connection : 'live',
+    addPayPlan,
+    deletePayPlan,
+    addDeduction,
+    endDeduction,
+    deleteDeduction,
+    addAdvance,
+    deleteAdvance,
+  };
+};
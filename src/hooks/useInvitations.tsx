@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useOrganization } from './useOrganization';
+import { OrganizationInvitation, OrganizationRole } from '@/types';
+import { toast } from 'sonner';
+
+interface UseInvitationsReturn {
+  invitations: OrganizationInvitation[];
+  loading: boolean;
+  inviteMember: (email: string, role: OrganizationRole) => Promise<boolean>;
+  resendInvitation: (id: string) => Promise<void>;
+  revokeInvitation: (id: string) => Promise<void>;
+}
+
+// Matches the expires_at default in the database
+const INVITATION_TTL_DAYS = 7;
+
+const nextExpiry = () => new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+// The edge function emails the invite link; new addresses get an account invite,
+// existing accounts a sign-in link to the same page
+const sendInvitationEmail = async (invitationId: string) => {
+  const { data, error } = await supabase.functions.invoke('send-invitation', {
+    body: { invitationId, origin: window.location.origin },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+};
+
+/** Open (not yet accepted or revoked) invitations to the active organization. */
+export const useInvitations = (): UseInvitationsReturn => {
+  const { user } = useAuth();
+  const { organization, members } = useOrganization();
+  const organizationId = organization?.id;
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInvitations = useCallback(async () => {
+    if (!user || !organizationId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data as OrganizationInvitation[]);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      toast.error('Failed to load invitations');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, organizationId]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const inviteMember = async (email: string, role: OrganizationRole) => {
+    if (!user || !organizationId) return false;
+
+    const normalizedEmail = email.trim().toLowerCase();
+    if (members.some(m => m.email?.toLowerCase() === normalizedEmail && !m.deactivated_at)) {
+      toast.error(`${normalizedEmail} is already a member`);
+      return false;
+    }
+
+    let invitation: OrganizationInvitation;
+    try {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .insert({ organization_id: organizationId, email: normalizedEmail, role, invited_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      invitation = data as OrganizationInvitation;
+      setInvitations(prev => [invitation, ...prev]);
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      if ((error as { code?: string }).code === '23505') {
+        toast.error(`${normalizedEmail} already has a pending invitation. Resend it instead.`);
+      } else {
+        toast.error('Failed to create invitation');
+      }
+      return false;
+    }
+
+    try {
+      await sendInvitationEmail(invitation.id);
+      toast.success(`Invitation sent to ${normalizedEmail}`);
+    } catch (error) {
+      console.error('Error sending invitation:', error);
+      toast.error('Invitation saved, but the email could not be sent. Try resending it.');
+    }
+    return true;
+  };
+
+  const resendInvitation = async (id: string) => {
+    const updates = { sent_at: new Date().toISOString(), expires_at: nextExpiry() };
+    try {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      await sendInvitationEmail(id);
+      setInvitations(prev => prev.map(i => i.id === id ? { ...i, ...updates } : i));
+      toast.success('Invitation resent');
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      toast.error('Failed to resend invitation');
+    }
+  };
+
+  const revokeInvitation = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      setInvitations(prev => prev.filter(i => i.id !== id));
+      toast.success('Invitation revoked');
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast.error('Failed to revoke invitation');
+    }
+  };
+
+  return {
+    invitations,
+    loading,
+    inviteMember,
+    resendInvitation,
+    revokeInvitation,
+  };
+};
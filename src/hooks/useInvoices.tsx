@@ -0,0 +1,194 @@
+import { useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useOrganization } from './useOrganization';
+import { useRealtimeSync } from './useRealtimeSync';
+import { Invoice, InvoiceLine, InvoicePayment } from '@/types';
+import { ConnectionStatus } from '@/lib/realtime';
+import { queryKeys } from '@/lib/queryKeys';
+import { InvoiceWithDetails, formatInvoiceNumber } from '@/lib/invoices';
+import { toast } from 'sonner';
+
+export interface NewInvoice {
+  broker_id: string;
+  issue_date: string;
+  due_date: string;
+  notes: string;
+  load_ids: string[];
+  accessorials: { description: string; amount: number }[];
+}
+
+interface UseInvoicesReturn {
+  invoices: InvoiceWithDetails[];
+  loading: boolean;
+  connection: ConnectionStatus;
+  createInvoice: (invoice: NewInvoice) => Promise<Invoice | null>;
+  voidInvoice: (invoice: Invoice) => Promise<boolean>;
+  recordPayment: (invoice: Invoice, amount: number, paidOn: string, reference: string) => Promise<boolean>;
+  deletePayment: (payment: InvoicePayment) => Promise<void>;
+}
+
+const NO_INVOICES: InvoiceWithDetails[] = [];
+
+type InvoiceRow = Invoice & { invoice_lines: InvoiceLine[]; invoice_payments: InvoicePayment[] };
+
+export const useInvoices = (): UseInvoicesReturn => {
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+  const queryClient = useQueryClient();
+
+  const invoicesQuery = useQuery({
+    queryKey: queryKeys.invoices(organizationId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, invoice_lines(*), invoice_payments(*)')
+        .eq('organization_id', organizationId)
+        .order('invoice_number', { ascending: false });
+
+      if (error) throw error;
+      return (data as InvoiceRow[]).map(({ invoice_lines, invoice_payments, ...invoice }) => ({
+        ...invoice,
+        lines: [...invoice_lines].sort((a, b) => a.sequence - b.sequence),
+        payments: [...invoice_payments].sort((a, b) => a.paid_on.localeCompare(b.paid_on) || a.created_at.localeCompare(b.created_at)),
+      })) as InvoiceWithDetails[];
+    },
+    enabled: !!user && !!organizationId,
+  });
+
+  const invoices = invoicesQuery.data ?? NO_INVOICES;
+  const loading = invoicesQuery.isPending;
+
+  const loadError = invoicesQuery.isLoadingError ? invoicesQuery.error : null;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching invoices:', loadError);
+    toast.error('Failed to load invoices');
+  }, [loadError]);
+
+  // Billing moves loads between delivered, invoiced and paid, and changes receivables
+  const invalidateBilling = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.invoices(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.loads(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.loadPages(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.loadStatusHistories(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.metrics(organizationId) });
+  }, [organizationId, queryClient]);
+
+  // Load status changes reach the loads views through their own realtime channel
+  const refetchInvoices = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.invoices(organizationId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.metrics(organizationId) });
+  }, [organizationId, queryClient]);
+
+  // Lines and payments arrive nested in their invoice, so any change refetches the list
+  const listen = useCallback((channel: RealtimeChannel) => {
+    const filter = `organization_id=eq.${organizationId}`;
+    return channel
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'invoices', filter }, refetchInvoices)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'invoice_payments', filter }, refetchInvoices);
+  }, [organizationId, refetchInvoices]);
+
+  const connection = useRealtimeSync(
+    user && organizationId ? `invoices:${organizationId}` : null,
+    listen,
+    refetchInvoices
+  );
+
+  const createInvoice = async (invoice: NewInvoice) => {
+    if (!organizationId) return null;
+
+    try {
+      const { data, error } = await supabase.rpc('create_invoice', {
+        p_organization_id: organizationId,
+        p_broker_id: invoice.broker_id,
+        p_issue_date: invoice.issue_date,
+        p_due_date: invoice.due_date,
+        p_notes: invoice.notes,
+        p_load_ids: invoice.load_ids,
+        p_accessorials: invoice.accessorials,
+      });
+
+      if (error) throw error;
+      invalidateBilling();
+      const created = data as Invoice;
+      toast.success(`Invoice ${formatInvoiceNumber(created.invoice_number)} created`);
+      return created;
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      // Another member invoiced or moved one of the loads first
+      if ((error as { code?: string }).code === '23514') {
+        invalidateBilling();
+        toast.error('Some of these loads were invoiced or changed meanwhile. Review the list and try again.');
+      } else {
+        toast.error('Failed to create invoice');
+      }
+      return null;
+    }
+  };
+
+  const voidInvoice = async (invoice: Invoice) => {
+    try {
+      const { error } = await supabase.rpc('void_invoice', { p_invoice_id: invoice.id });
+
+      if (error) throw error;
+      invalidateBilling();
+      toast.success(`Invoice ${formatInvoiceNumber(invoice.invoice_number)} voided`);
+      return true;
+    } catch (error) {
+      console.error('Error voiding invoice:', error);
+      toast.error((error as { code?: string }).code === '23514'
+        ? 'Remove the payments on this invoice before voiding it'
+        : 'Failed to void invoice');
+      return false;
+    }
+  };
+
+  const recordPayment = async (invoice: Invoice, amount: number, paidOn: string, reference: string) => {
+    try {
+      const { error } = await supabase.rpc('record_invoice_payment', {
+        p_invoice_id: invoice.id,
+        p_amount: amount,
+        p_paid_on: paidOn,
+        p_reference: reference,
+      });
+
+      if (error) throw error;
+      invalidateBilling();
+      toast.success('Payment recorded');
+      return true;
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error((error as { code?: string }).code === '23514'
+        ? 'The payment is more than the balance due'
+        : 'Failed to record payment');
+      return false;
+    }
+  };
+
+  const deletePayment = async (payment: InvoicePayment) => {
+    try {
+      const { error } = await supabase.rpc('delete_invoice_payment', { p_payment_id: payment.id });
+
+      if (error) throw error;
+      invalidateBilling();
+      toast.success('Payment removed');
+    } catch (error) {
+      console.error('Error removing payment:', error);
+      toast.error('Failed to remove payment');
+    }
+  };
+
+  return {
+    invoices,
+    loading,
+    connection,
+    createInvoice,
+    voidInvoice,
+    recordPayment,
+    deletePayment,
+  };
+};
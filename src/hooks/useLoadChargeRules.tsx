@@ -0,0 +1,132 @@
+import { useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useOrganization } from './useOrganization';
+import { useRealtimeSync } from './useRealtimeSync';
+import { LoadChargeFlags, LoadChargeRule, LoadChargeType } from '@/types';
+import { ConnectionStatus, applyChange, upsertRows } from '@/lib/realtime';
+import { queryKeys } from '@/lib/queryKeys';
+import { updateCacheOptimistically } from '@/lib/queryCache';
+import { LOAD_CHARGE_LABELS } from '@/lib/loadCharges';
+import { toast } from 'sonner';
+
+interface UseLoadChargeRulesReturn {
+  chargeRules: LoadChargeRule[];
+  loading: boolean;
+  connection: ConnectionStatus;
+  // Charges keep the flags they were saved with; a new rule applies from the next save of a load
+  saveChargeRule: (chargeType: LoadChargeType, flags: LoadChargeFlags) => Promise<boolean>;
+  // Puts a charge type back on the default flags
+  deleteChargeRule: (id: string) => Promise<void>;
+}
+
+const NO_RULES: LoadChargeRule[] = [];
+
+export const useLoadChargeRules = (): UseLoadChargeRulesReturn => {
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+  const queryClient = useQueryClient();
+  const rulesKey = queryKeys.loadChargeRules(organizationId);
+
+  const rulesQuery = useQuery({
+    queryKey: rulesKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('load_charge_rules')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+      return data as LoadChargeRule[];
+    },
+    enabled: !!user && !!organizationId,
+  });
+
+  const chargeRules = rulesQuery.data ?? NO_RULES;
+  const loading = rulesQuery.isPending;
+
+  const loadError = rulesQuery.isLoadingError ? rulesQuery.error : null;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching charge rules:', loadError);
+    toast.error('Failed to load charge rules');
+  }, [loadError]);
+
+  const listen = useCallback((channel: RealtimeChannel) => {
+    const filter = `organization_id=eq.${organizationId}`;
+    const key = queryKeys.loadChargeRules(organizationId);
+    const merge = (payload: RealtimePostgresChangesPayload<LoadChargeRule>) => {
+      queryClient.setQueryData<LoadChargeRule[]>(key, rows => rows && applyChange(rows, payload));
+    };
+    return channel
+      .on<LoadChargeRule>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'load_charge_rules', filter }, merge)
+      .on<LoadChargeRule>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'load_charge_rules', filter }, merge)
+      .on<LoadChargeRule>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'load_charge_rules' }, merge);
+  }, [organizationId, queryClient]);
+
+  const refetchRules = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.loadChargeRules(organizationId) });
+  }, [organizationId, queryClient]);
+
+  const connection = useRealtimeSync(
+    user && organizationId ? `load-charge-rules:${organizationId}` : null,
+    listen,
+    refetchRules
+  );
+
+  const saveChargeRule = async (chargeType: LoadChargeType, flags: LoadChargeFlags) => {
+    if (!user || !organizationId) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('load_charge_rules')
+        .upsert(
+          { ...flags, charge_type: chargeType, organization_id: organizationId, user_id: user.id },
+          { onConflict: 'organization_id,charge_type' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      queryClient.setQueryData<LoadChargeRule[]>(rulesKey, rows => rows && upsertRows(rows, [data as LoadChargeRule]));
+      toast.success(`${LOAD_CHARGE_LABELS[chargeType]} rule saved`);
+      return true;
+    } catch (error) {
+      console.error('Error saving charge rule:', error);
+      toast.error('Failed to save charge rule');
+      return false;
+    }
+  };
+
+  const deleteChargeRule = async (id: string) => {
+    const rule = chargeRules.find(r => r.id === id);
+    const rollback = await updateCacheOptimistically<LoadChargeRule>(queryClient, rulesKey, rows =>
+      rows.filter(r => r.id !== id)
+    );
+
+    try {
+      const { error } = await supabase
+        .from('load_charge_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success(rule ? `${LOAD_CHARGE_LABELS[rule.charge_type]} rule reset to the default` : 'Charge rule reset to the default');
+    } catch (error) {
+      rollback();
+      console.error('Error deleting charge rule:', error);
+      toast.error('Failed to reset charge rule');
+    }
+  };
+
+  return {
+    chargeRules,
+    loading,
+    connection,
+    saveChargeRule,
+    deleteChargeRule,
+  };
+};
@@ -0,0 +1,152 @@
+import { useEffect } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { addDays, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrganization } from './useOrganization';
+import { Load, LoadCharge, LoadStatus, LoadStatusChange, LoadStop } from '@/types';
+import { parseLocalDate } from '@/lib/utils';
+import { fetchLoadCharges, fetchLoadIds, fetchLoadStops, loadSearchFilter } from '@/lib/queries';
+import { queryKeys } from '@/lib/queryKeys';
+import { toast } from 'sonner';
+
+export const LOADS_PAGE_SIZE = 50;
+
+// A PARTIAL load rides along with a FULL load on the same trip, so link candidates
+// are FULL loads delivered within this many days either side
+export const LINK_WINDOW_DAYS = 30;
+
+export interface LoadPage {
+  loads: Load[];
+  // Loads matching the search and status across all pages
+  total: number;
+  // Every load of the organization, by type
+  fullCount: number;
+  partialCount: number;
+  // Load ID of the loads on the page and the FULL loads they are connected to, by database id
+  loadIdsById: Map<string, string>;
+  // Stops of the loads on the page in route order, by database id
+  stopsByLoadId: Map<string, LoadStop[]>;
+  // Charges of the loads on the page in entry order, by database id
+  chargesByLoadId: Map<string, LoadCharge[]>;
+}
+
+/** One page of the loads list, newest delivery first, optionally filtered by a search and a status. */
+export const useLoadsPage = (search: string, status: LoadStatus | null, page: number) => {
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+  const trimmedSearch = search.trim();
+
+  const query = useQuery({
+    queryKey: queryKeys.loadPage(organizationId, trimmedSearch, status, page),
+    queryFn: async (): Promise<LoadPage> => {
+      let pageQuery = supabase
+        .from('loads')
+        .select('*', { count: 'exact' })
+        .eq('organization_id', organizationId);
+      if (trimmedSearch) {
+        pageQuery = pageQuery.or(loadSearchFilter(trimmedSearch));
+      }
+      if (status) {
+        pageQuery = pageQuery.eq('status', status);
+      }
+
+      const [pageRes, fullRes, partialRes] = await Promise.all([
+        pageQuery
+          .order('delivery_date', { ascending: false })
+          .order('id')
+          .range(page * LOADS_PAGE_SIZE, (page + 1) * LOADS_PAGE_SIZE - 1),
+        supabase.from('loads').select('id', { count: 'exact', head: true }).eq('organization_id', organizationId).eq('load_type', 'FULL'),
+        supabase.from('loads').select('id', { count: 'exact', head: true }).eq('organization_id', organizationId).eq('load_type', 'PARTIAL'),
+      ]);
+
+      if (pageRes.error) throw pageRes.error;
+      if (fullRes.error) throw fullRes.error;
+      if (partialRes.error) throw partialRes.error;
+
+      const loads = pageRes.data as Load[];
+      const loadIdsById = new Map(loads.map(l => [l.id, l.load_id]));
+      const connectedIds = loads
+        .map(l => l.connected_full_load_id)
+        .filter((id): id is string => !!id && !loadIdsById.has(id));
+      const [connectedLoadIds, stopsByLoadId, chargesByLoadId] = await Promise.all([
+        fetchLoadIds([...new Set(connectedIds)]),
+        fetchLoadStops(loads.map(l => l.id)),
+        fetchLoadCharges(loads.map(l => l.id)),
+      ]);
+      for (const [id, loadId] of connectedLoadIds) {
+        loadIdsById.set(id, loadId);
+      }
+
+      return {
+        loads,
+        total: pageRes.count ?? loads.length,
+        fullCount: fullRes.count ?? 0,
+        partialCount: partialRes.count ?? 0,
+        loadIdsById,
+        stopsByLoadId,
+        chargesByLoadId,
+      };
+    },
+    enabled: !!organizationId,
+    placeholderData: keepPreviousData,
+  });
+
+  const loadError = query.isLoadingError ? query.error : null;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching loads:', loadError);
+    toast.error('Failed to load loads');
+  }, [loadError]);
+
+  return query;
+};
+
+/** FULL loads a PARTIAL load delivered on the given date (YYYY-MM-DD) can be connected to; cancelled ones are left out. */
+export const useFullLoadsNear = (deliveryDate: string) => {
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+  const date = parseLocalDate(deliveryDate);
+  const from = format(addDays(date, -LINK_WINDOW_DAYS), 'yyyy-MM-dd');
+  const to = format(addDays(date, LINK_WINDOW_DAYS), 'yyyy-MM-dd');
+
+  return useQuery({
+    queryKey: queryKeys.fullLoadsNear(organizationId, from, to),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('loads')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('load_type', 'FULL')
+        .neq('status', 'cancelled')
+        .gte('delivery_date', from)
+        .lte('delivery_date', to)
+        .order('delivery_date', { ascending: false });
+
+      if (error) throw error;
+      return data as Load[];
+    },
+    enabled: !!organizationId && !isNaN(date.getTime()),
+    placeholderData: keepPreviousData,
+  });
+};
+
+/** Every status a load has been in, oldest first. */
+export const useLoadStatusHistory = (loadId: string | undefined) => {
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+
+  return useQuery({
+    queryKey: queryKeys.loadStatusHistory(organizationId, loadId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('load_status_history')
+        .select('*')
+        .eq('load_id', loadId)
+        .order('changed_at', { ascending: true });
+
+      if (error) throw error;
+      return data as LoadStatusChange[];
+    },
+    enabled: !!organizationId && !!loadId,
+  });
+};
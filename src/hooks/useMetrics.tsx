@@ -0,0 +1,235 @@
+import { useEffect } from 'react';
+import { keepPreviousData, useQuery, type QueryKey } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrganization } from './useOrganization';
+import type { SalaryBreakdown } from '@/lib/payroll';
+import type { MileageTotals } from '@/lib/mileage';
+import { queryKeys } from '@/lib/queryKeys';
+import { toast } from 'sonner';
+
+export interface DailyGross {
+  driver_id: string;
+  delivery_date: string;
+  gross: number;
+}
+
+export interface DriverGross extends MileageTotals {
+  driver_id: string;
+  full_gross: number;
+  partial_gross: number;
+  total_gross: number;
+  load_count: number;
+}
+
+export interface DriverWeekGross extends MileageTotals {
+  gross: number;
+}
+
+export interface BrokerStats extends MileageTotals {
+  broker_id: string;
+  load_count: number;
+  gross: number;
+  // Average booked rate of loads that weren't cancelled
+  average_rate: number;
+}
+
+// Open invoice balances of a broker by days past due
+export interface BrokerAging {
+  broker_id: string;
+  current_balance: number;
+  days_1_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+  total_balance: number;
+  open_invoices: number;
+  // Over paid invoices; null until the broker has paid one
+  average_days_to_pay: number | null;
+}
+
+export interface SalaryTotals extends SalaryBreakdown {
+  // Distinct commission percentages applied, lowest first
+  fullPercents: number[];
+  partialPercents: number[];
+}
+
+// Shared by the aggregate queries: organization-scoped, previous numbers stay on screen
+// while the next range loads, and only a failed first load is reported
+const useMetricQuery = <T,>(
+  queryKey: (organizationId: string) => QueryKey,
+  queryFn: (organizationId: string) => Promise<T>
+) => {
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+
+  const query = useQuery({
+    queryKey: queryKey(organizationId),
+    queryFn: () => queryFn(organizationId),
+    enabled: !!organizationId,
+    placeholderData: keepPreviousData,
+  });
+
+  const loadError = query.isLoadingError ? query.error : null;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching metrics:', loadError);
+    toast.error('Failed to load metrics');
+  }, [loadError]);
+
+  return query;
+};
+
+/** Gross per driver per delivery day within a range. */
+export const useDailyGross = (from: string, to: string) =>
+  useMetricQuery(
+    organizationId => queryKeys.dailyGross(organizationId, from, to),
+    async organizationId => {
+      const { data, error } = await supabase
+        .from('driver_daily_gross')
+        .select('driver_id, delivery_date, gross')
+        .eq('organization_id', organizationId)
+        .gte('delivery_date', from)
+        .lte('delivery_date', to);
+
+      if (error) throw error;
+      return data.map(row => ({ ...row, gross: Number(row.gross) })) as DailyGross[];
+    }
+  );
+
+/** Gross and miles per driver for the Monday-Sunday week starting at weekStart (YYYY-MM-DD). */
+export const useWeeklyGross = (weekStart: string) =>
+  useMetricQuery(
+    organizationId => queryKeys.weeklyGross(organizationId, weekStart),
+    async organizationId => {
+      const { data, error } = await supabase
+        .from('driver_weekly_gross')
+        .select('driver_id, gross, mileage_gross, loaded_miles, deadhead_miles')
+        .eq('organization_id', organizationId)
+        .eq('week_start', weekStart);
+
+      if (error) throw error;
+      return new Map<string, DriverWeekGross>(data.map(row => [row.driver_id as string, {
+        gross: Number(row.gross),
+        mileage_gross: Number(row.mileage_gross),
+        loaded_miles: Number(row.loaded_miles),
+        deadhead_miles: Number(row.deadhead_miles),
+      }]));
+    }
+  );
+
+/** Gross and miles per driver delivered within a range. */
+export const useGrossByDriver = (from: string, to: string) =>
+  useMetricQuery(
+    organizationId => queryKeys.grossByDriver(organizationId, from, to),
+    async organizationId => {
+      const { data, error } = await supabase.rpc('get_gross_by_driver', {
+        p_organization_id: organizationId,
+        p_start: from,
+        p_end: to,
+      });
+
+      if (error) throw error;
+      return data.map(row => ({
+        driver_id: row.driver_id,
+        full_gross: Number(row.full_gross),
+        partial_gross: Number(row.partial_gross),
+        total_gross: Number(row.total_gross),
+        load_count: Number(row.load_count),
+        mileage_gross: Number(row.mileage_gross),
+        loaded_miles: Number(row.loaded_miles),
+        deadhead_miles: Number(row.deadhead_miles),
+      })) as DriverGross[];
+    }
+  );
+
+/** Load count, gross, average rate and miles per broker delivered within a range. */
+export const useBrokerStats = (from: string, to: string) =>
+  useMetricQuery(
+    organizationId => queryKeys.brokerStats(organizationId, from, to),
+    async organizationId => {
+      const { data, error } = await supabase.rpc('get_broker_stats', {
+        p_organization_id: organizationId,
+        p_start: from,
+        p_end: to,
+      });
+
+      if (error) throw error;
+      return data.map(row => ({
+        broker_id: row.broker_id,
+        load_count: Number(row.load_count),
+        gross: Number(row.gross),
+        average_rate: Number(row.average_rate),
+        mileage_gross: Number(row.mileage_gross),
+        loaded_miles: Number(row.loaded_miles),
+        deadhead_miles: Number(row.deadhead_miles),
+      })) as BrokerStats[];
+    }
+  );
+
+/** Receivables aging per broker as of a date (YYYY-MM-DD). */
+export const useReceivablesAging = (asOf: string) =>
+  useMetricQuery(
+    organizationId => queryKeys.receivablesAging(organizationId, asOf),
+    async organizationId => {
+      const { data, error } = await supabase.rpc('get_receivables_aging', {
+        p_organization_id: organizationId,
+        p_as_of: asOf,
+      });
+
+      if (error) throw error;
+      return data.map(row => ({
+        broker_id: row.broker_id,
+        current_balance: Number(row.current_balance),
+        days_1_30: Number(row.days_1_30),
+        days_31_60: Number(row.days_31_60),
+        days_61_90: Number(row.days_61_90),
+        days_over_90: Number(row.days_over_90),
+        total_balance: Number(row.total_balance),
+        open_invoices: Number(row.open_invoices),
+        average_days_to_pay: row.average_days_to_pay === null ? null : Number(row.average_days_to_pay),
+      })) as BrokerAging[];
+    }
+  );
+
+/** Salary for a range, for one dispatcher or (null) the whole organization. */
+export const useSalaryTotals = (from: string, to: string, dispatcherId: string | null) =>
+  useMetricQuery(
+    organizationId => queryKeys.salaryTotals(organizationId, from, to, dispatcherId),
+    async (organizationId): Promise<SalaryTotals> => {
+      const { data, error } = await supabase.rpc('get_salary_totals', {
+        p_organization_id: organizationId,
+        p_start: from,
+        p_end: to,
+        p_dispatcher_id: dispatcherId ?? undefined,
+      });
+
+      if (error) throw error;
+      const row = data[0];
+      return {
+        fullGross: Number(row.full_gross),
+        partialGross: Number(row.partial_gross),
+        totalGross: Number(row.total_gross),
+        fullLoadCommission: Number(row.full_load_commission),
+        partialLoadCommission: Number(row.partial_load_commission),
+        totalBonuses: Number(row.total_bonuses),
+        totalAdjustments: Number(row.total_adjustments),
+        totalSalary: Number(row.total_salary),
+        fullPercents: row.full_percents.map(Number),
+        partialPercents: row.partial_percents.map(Number),
+      };
+    }
+  );
+
+/** Salary with every figure zero, shown until the totals arrive. */
+export const EMPTY_SALARY: SalaryTotals = {
+  fullGross: 0,
+  partialGross: 0,
+  totalGross: 0,
+  fullLoadCommission: 0,
+  partialLoadCommission: 0,
+  totalBonuses: 0,
+  totalAdjustments: 0,
+  totalSalary: 0,
+  fullPercents: [],
+  partialPercents: [],
+};
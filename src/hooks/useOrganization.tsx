@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { Organization, OrganizationMember, OrganizationRole } from '@/types';
+import { ROLE_PERMISSIONS, RolePermissions } from '@/lib/permissions';
+import { toast } from 'sonner';
+
+interface OrganizationContextType {
+  organizations: Organization[];
+  organization: Organization | null;
+  members: OrganizationMember[];
+  // The signed-in user's role in the active organization
+  role: OrganizationRole | null;
+  permissions: RolePermissions;
+  loading: boolean;
+  switchOrganization: (id: string) => void;
+  refreshOrganizations: () => Promise<void>;
+  updateOrganization: (updates: Partial<Pick<Organization, 'name' | 'require_mfa'>>) => Promise<void>;
+  setMemberActive: (userId: string, active: boolean) => Promise<void>;
+  getMemberName: (userId: string | null) => string;
+}
+
+interface Membership {
+  organization: Organization;
+  role: OrganizationRole;
+}
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+// Remembers the organization last worked in on this browser
+const ACTIVE_ORGANIZATION_KEY = 'activeOrganizationId';
+
+export const OrganizationProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_ORGANIZATION_KEY));
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!user) {
+      setMemberships([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, organization:organizations(*)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setMemberships(
+        (data as unknown as Membership[])
+          .filter(m => m.organization)
+          .sort((a, b) => a.organization.created_at.localeCompare(b.organization.created_at))
+      );
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+      toast.error('Failed to load organizations');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  // Fall back to the first organization when the remembered one is gone
+  const membership = memberships.find(m => m.organization.id === activeId) ?? memberships[0] ?? null;
+  const organization = membership?.organization ?? null;
+  const organizations = memberships.map(m => m.organization);
+  const role = membership?.role ?? null;
+
+  const fetchMembers = useCallback(async (organizationId: string) => {
+    try {
+      const { data: memberRows, error } = await supabase
+        .from('organization_members')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .in('id', memberRows.map(m => m.user_id));
+
+      if (profilesError) throw profilesError;
+
+      setMembers(memberRows.map(m => {
+        const profile = profiles.find(p => p.id === m.user_id);
+        return {
+          user_id: m.user_id,
+          role: m.role,
+          email: profile?.email ?? null,
+          full_name: profile?.full_name ?? null,
+          joined_at: m.created_at,
+          deactivated_at: m.deactivated_at,
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching organization members:', error);
+    }
+  }, []);
+
+  const organizationId = organization?.id;
+
+  // Also refetched when the session changes: verifying 2FA can reveal members hidden before
+  useEffect(() => {
+    if (organizationId) {
+      fetchMembers(organizationId);
+    } else {
+      setMembers([]);
+    }
+  }, [organizationId, user, fetchMembers]);
+
+  const switchOrganization = useCallback((id: string) => {
+    localStorage.setItem(ACTIVE_ORGANIZATION_KEY, id);
+    setActiveId(id);
+  }, []);
+
+  const updateOrganization = useCallback(async (updates: Partial<Pick<Organization, 'name' | 'require_mfa'>>) => {
+    if (!organizationId) return;
+
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update(updates)
+        .eq('id', organizationId);
+
+      if (error) throw error;
+      setMemberships(prev => prev.map(m =>
+        m.organization.id === organizationId ? { ...m, organization: { ...m.organization, ...updates } } : m
+      ));
+      toast.success('Organization updated');
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      toast.error('Failed to update organization');
+    }
+  }, [organizationId]);
+
+  const setMemberActive = useCallback(async (userId: string, active: boolean) => {
+    if (!organizationId) return;
+
+    const deactivatedAt = active ? null : new Date().toISOString();
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ deactivated_at: deactivatedAt })
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      setMembers(prev => prev.map(m => m.user_id === userId ? { ...m, deactivated_at: deactivatedAt } : m));
+      toast.success(active ? 'Member reactivated' : 'Member deactivated');
+    } catch (error) {
+      console.error('Error updating member:', error);
+      toast.error(active ? 'Failed to reactivate member' : 'Failed to deactivate member');
+    }
+  }, [organizationId]);
+
+  const getMemberName = useCallback((userId: string | null) => {
+    const member = members.find(m => m.user_id === userId);
+    return member?.full_name || member?.email || 'Former member';
+  }, [members]);
+
+  return (
+    <OrganizationContext.Provider
+      value={{
+        organizations,
+        organization,
+        members,
+        role,
+        // Without a membership nothing beyond read access is allowed
+        permissions: ROLE_PERMISSIONS[role ?? 'viewer'],
+        loading,
+        switchOrganization,
+        refreshOrganizations: fetchOrganizations,
+        updateOrganization,
+        setMemberActive,
+        getMemberName,
+      }}
+    >
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
+
+export const useOrganization = () => {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+};
@@ -1,10 +1,18 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { useOrganization } from './useOrganization';
+import { useRealtimeSync } from './useRealtimeSync';
+import { ConnectionStatus, applyChange, upsertRows } from '@/lib/realtime';
+import { queryKeys } from '@/lib/queryKeys';
+import { updateCacheOptimistically } from '@/lib/queryCache';
 import { toast } from 'sonner';
 
 export interface PrebookNote {
   id: string;
+  organization_id: string;
   user_id: string;
   date: string;
   note: string;
@@ -15,52 +23,81 @@ export interface PrebookNote {
 interface UsePrebooksReturn {
   notes: PrebookNote[];
   loading: boolean;
+  connection: ConnectionStatus;
   addNote: (date: string, note: string) => Promise<void>;
   updateNote: (id: string, note: string) => Promise<void>;
   deleteNote: (id: string) => Promise<void>;
 }
 
+const NO_NOTES: PrebookNote[] = [];
+
 export const usePrebooks = (): UsePrebooksReturn => {
   const { user } = useAuth();
-  const [notes, setNotes] = useState<PrebookNote[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { organization } = useOrganization();
+  const organizationId = organization?.id;
+  const queryClient = useQueryClient();
+  const notesKey = queryKeys.prebookNotes(organizationId);
 
-  const fetchNotes = useCallback(async () => {
-    if (!user) return;
-    
-    setLoading(true);
-    try {
+  const notesQuery = useQuery({
+    queryKey: notesKey,
+    queryFn: async () => {
       const { data, error } = await supabase
         .from('prebook_notes')
         .select('*')
+        .eq('organization_id', organizationId)
         .order('date', { ascending: true });
 
       if (error) throw error;
-      setNotes(data as PrebookNote[]);
-    } catch (error) {
-      console.error('Error fetching prebook notes:', error);
-      toast.error('Failed to load prebook notes');
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+      return data as PrebookNote[];
+    },
+    enabled: !!user && !!organizationId,
+  });
+
+  const notes = notesQuery.data ?? NO_NOTES;
+  const loading = notesQuery.isPending;
 
+  const loadError = notesQuery.isLoadingError ? notesQuery.error : null;
   useEffect(() => {
-    fetchNotes();
-  }, [fetchNotes]);
+    if (!loadError) return;
+    console.error('Error fetching prebook notes:', loadError);
+    toast.error('Failed to load prebook notes');
+  }, [loadError]);
+
+  // Deletes can't be filtered by organization; removing an id we don't have is a no-op
+  const listen = useCallback((channel: RealtimeChannel) => {
+    const filter = `organization_id=eq.${organizationId}`;
+    const key = queryKeys.prebookNotes(organizationId);
+    const merge = (payload: RealtimePostgresChangesPayload<PrebookNote>) => {
+      queryClient.setQueryData<PrebookNote[]>(key, rows => rows && applyChange(rows, payload));
+    };
+    return channel
+      .on<PrebookNote>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'prebook_notes', filter }, merge)
+      .on<PrebookNote>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'prebook_notes', filter }, merge)
+      .on<PrebookNote>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'prebook_notes' }, merge);
+  }, [organizationId, queryClient]);
+
+  const refetchNotes = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.prebookNotes(organizationId) });
+  }, [organizationId, queryClient]);
+
+  const connection = useRealtimeSync(
+    user && organizationId ? `prebook-notes:${organizationId}` : null,
+    listen,
+    refetchNotes
+  );
 
   const addNote = async (date: string, note: string) => {
-    if (!user) return;
+    if (!user || !organizationId) return;
     
     try {
       const { data, error } = await supabase
         .from('prebook_notes')
-        .insert({ user_id: user.id, date, note })
+        .insert({ organization_id: organizationId, user_id: user.id, date, note })
         .select()
         .single();
       
       if (error) throw error;
-      setNotes(prev => [...prev, data as PrebookNote]);
+      queryClient.setQueryData<PrebookNote[]>(notesKey, rows => rows && upsertRows(rows, [data as PrebookNote]));
       toast.success('Note added');
     } catch (error: any) {
       console.error('Error adding note:', error);
@@ -77,6 +114,10 @@ export const usePrebooks = (): UsePrebooksReturn => {
   };
 
   const updateNote = async (id: string, note: string) => {
+    const rollback = await updateCacheOptimistically<PrebookNote>(queryClient, notesKey, rows =>
+      rows.map(n => n.id === id ? { ...n, note } : n)
+    );
+
     try {
       const { error } = await supabase
         .from('prebook_notes')
@@ -84,15 +125,19 @@ export const usePrebooks = (): UsePrebooksReturn => {
         .eq('id', id);
       
       if (error) throw error;
-      setNotes(prev => prev.map(n => n.id === id ? { ...n, note } : n));
       toast.success('Note updated');
     } catch (error) {
+      rollback();
       console.error('Error updating note:', error);
       toast.error('Failed to update note');
     }
   };
 
   const deleteNote = async (id: string) => {
+    const rollback = await updateCacheOptimistically<PrebookNote>(queryClient, notesKey, rows =>
+      rows.filter(n => n.id !== id)
+    );
+
     try {
       const { error } = await supabase
         .from('prebook_notes')
@@ -100,9 +145,9 @@ export const usePrebooks = (): UsePrebooksReturn => {
         .eq('id', id);
       
       if (error) throw error;
-      setNotes(prev => prev.filter(n => n.id !== id));
       toast.success('Note deleted');
     } catch (error) {
+      rollback();
       console.error('Error deleting note:', error);
       toast.error('Failed to delete note');
     }
@@ -111,6 +156,7 @@ export const usePrebooks = (): UsePrebooksReturn => {
   return {
     notes,
     loading,
+    connection,
     addNote,
     updateNote,
     deleteNote,
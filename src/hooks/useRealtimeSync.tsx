@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { ConnectionStatus, POLL_INTERVAL_MS, toConnectionStatus } from '@/lib/realtime';
+
+/**
+ * Keeps a realtime channel open while `channelName` is set. `listen` registers the
+ * postgres_changes handlers; `refetch` catches up after a reconnect and polls while
+ * the connection is down. Both must be stable (useCallback).
+ */
+export const useRealtimeSync = (
+  channelName: string | null,
+  listen: (channel: RealtimeChannel) => RealtimeChannel,
+  refetch: () => void
+): ConnectionStatus => {
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+
+  useEffect(() => {
+    if (!channelName) return;
+
+    let wasOffline = false;
+    setStatus('connecting');
+
+    const channel = listen(supabase.channel(channelName)).subscribe(state => {
+      const next = toConnectionStatus(state);
+      setStatus(next);
+      // Changes made while we were disconnected never arrive as events
+      if (next === 'live' && wasOffline) refetch();
+      wasOffline = next === 'offline';
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [channelName, listen, refetch]);
+
+  useEffect(() => {
+    if (!channelName || status !== 'offline') return;
+
+    const interval = setInterval(refetch, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [channelName, status, refetch]);
+
+  return status;
+};
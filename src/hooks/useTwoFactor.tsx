@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { generateRecoveryCodes, hashRecoveryCode } from '@/lib/recoveryCodes';
+import { toast } from 'sonner';
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+interface UseTwoFactorReturn {
+  // Verified authenticator, if any
+  factorId: string | null;
+  remainingRecoveryCodes: number;
+  loading: boolean;
+  startEnrollment: () => Promise<TotpEnrollment | null>;
+  // Returns the new recovery codes once the authenticator is verified
+  verifyEnrollment: (factorId: string, code: string) => Promise<string[] | null>;
+  regenerateRecoveryCodes: () => Promise<string[] | null>;
+  disable: () => Promise<boolean>;
+}
+
+// Supabase documents the QR code as raw SVG; older servers already send a data URL
+const toQrCodeUrl = (qrCode: string) =>
+  qrCode.startsWith('data:') ? qrCode : `data:image/svg+xml;utf-8,${encodeURIComponent(qrCode)}`;
+
+/** TOTP factor and recovery codes of the signed-in user. */
+export const useTwoFactor = (): UseTwoFactorReturn => {
+  const { user, refreshAssurance } = useAuth();
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [remainingRecoveryCodes, setRemainingRecoveryCodes] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStatus = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const [factorsRes, codesRes] = await Promise.all([
+        supabase.auth.mfa.listFactors(),
+        supabase.from('mfa_recovery_codes').select('id', { count: 'exact', head: true }).is('used_at', null),
+      ]);
+
+      if (factorsRes.error) throw factorsRes.error;
+      if (codesRes.error) throw codesRes.error;
+
+      setFactorId(factorsRes.data.totp[0]?.id ?? null);
+      setRemainingRecoveryCodes(codesRes.count ?? 0);
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+      toast.error('Failed to load two-factor settings');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const saveRecoveryCodes = async () => {
+    const codes = generateRecoveryCodes();
+    const hashes = await Promise.all(codes.map(hashRecoveryCode));
+    const { error } = await supabase.rpc('replace_mfa_recovery_codes', { p_code_hashes: hashes });
+    if (error) throw error;
+    setRemainingRecoveryCodes(codes.length);
+    return codes;
+  };
+
+  const startEnrollment = async () => {
+    try {
+      // Drop authenticators left over from enrollments that were never verified
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+      for (const factor of factors.all.filter(f => f.status === 'unverified')) {
+        const { error: unenrollError } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        if (unenrollError) throw unenrollError;
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        issuer: 'UG Transportation',
+      });
+      if (error) throw error;
+
+      return { factorId: data.id, qrCode: toQrCodeUrl(data.totp.qr_code), secret: data.totp.secret };
+    } catch (error) {
+      console.error('Error starting two-factor enrollment:', error);
+      toast.error('Failed to start two-factor setup');
+      return null;
+    }
+  };
+
+  const verifyEnrollment = async (enrollingFactorId: string, code: string) => {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: enrollingFactorId, code });
+    if (error) {
+      console.error('Error verifying authenticator:', error);
+      toast.error('That code did not match. Check the time on your device and try again.');
+      return null;
+    }
+
+    setFactorId(enrollingFactorId);
+    await refreshAssurance();
+
+    try {
+      return await saveRecoveryCodes();
+    } catch (error) {
+      console.error('Error saving recovery codes:', error);
+      toast.error('Two-factor is on, but recovery codes could not be created. Generate them from security settings.');
+      return [];
+    }
+  };
+
+  const regenerateRecoveryCodes = async () => {
+    try {
+      const codes = await saveRecoveryCodes();
+      toast.success('New recovery codes generated');
+      return codes;
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      toast.error('Failed to generate recovery codes');
+      return null;
+    }
+  };
+
+  const disable = async () => {
+    if (!factorId) return false;
+
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+      if (error) throw error;
+
+      // Drops the aal2 claim now that no factor backs it
+      await supabase.auth.refreshSession();
+      await refreshAssurance();
+      setFactorId(null);
+      toast.success('Two-factor authentication turned off');
+      return true;
+    } catch (error) {
+      console.error('Error disabling two-factor authentication:', error);
+      toast.error('Failed to turn off two-factor authentication');
+      return false;
+    }
+  };
+
+  return {
+    factorId,
+    remainingRecoveryCodes,
+    loading,
+    startEnrollment,
+    verifyEnrollment,
+    regenerateRecoveryCodes,
+    disable,
+  };
+};
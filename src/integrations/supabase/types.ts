@@ -23,6 +23,7 @@ export type Database = {
           driver_id: string | null
           id: string
           note: string | null
+          organization_id: string
           user_id: string
           week_start: string
         }
@@ -34,6 +35,7 @@ export type Database = {
           driver_id?: string | null
           id?: string
           note?: string | null
+          organization_id: string
           user_id: string
           week_start: string
         }
@@ -45,6 +47,7 @@ export type Database = {
           driver_id?: string | null
           id?: string
           note?: string | null
+          organization_id?: string
           user_id?: string
           week_start?: string
         }
@@ -56,6 +59,337 @@ export type Database = {
             referencedRelation: "drivers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bonuses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bonus_tier_rules: {
+        Row: {
+          amount: number
+          created_at: string
+          driver_type: Database["public"]["Enums"]["driver_type"]
+          effective_from: string
+          id: string
+          min_gross: number
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          driver_type: Database["public"]["Enums"]["driver_type"]
+          effective_from?: string
+          id?: string
+          min_gross: number
+          organization_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          driver_type?: Database["public"]["Enums"]["driver_type"]
+          effective_from?: string
+          id?: string
+          min_gross?: number
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bonus_tier_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brokers: {
+        Row: {
+          contact_email: string | null
+          contact_name: string | null
+          contact_phone: string | null
+          created_at: string
+          credit_notes: string | null
+          id: string
+          mc_number: string | null
+          name: string
+          organization_id: string
+          payment_terms_days: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          credit_notes?: string | null
+          id?: string
+          mc_number?: string | null
+          name: string
+          organization_id: string
+          payment_terms_days?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          credit_notes?: string | null
+          id?: string
+          mc_number?: string | null
+          name?: string
+          organization_id?: string
+          payment_terms_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brokers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_plans: {
+        Row: {
+          created_at: string
+          dispatcher_id: string | null
+          effective_from: string
+          full_percent: number
+          id: string
+          name: string
+          organization_id: string
+          partial_percent: number
+          tonu_percent: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dispatcher_id?: string | null
+          effective_from: string
+          full_percent: number
+          id?: string
+          name?: string
+          organization_id: string
+          partial_percent: number
+          tonu_percent?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dispatcher_id?: string | null
+          effective_from?: string
+          full_percent?: number
+          id?: string
+          name?: string
+          organization_id?: string
+          partial_percent?: number
+          tonu_percent?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_plans_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      driver_advances: {
+        Row: {
+          advanced_on: string
+          amount: number
+          created_at: string
+          driver_id: string
+          id: string
+          note: string | null
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          advanced_on: string
+          amount: number
+          created_at?: string
+          driver_id: string
+          id?: string
+          note?: string | null
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          advanced_on?: string
+          amount?: number
+          created_at?: string
+          driver_id?: string
+          id?: string
+          note?: string | null
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driver_advances_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      driver_deductions: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          driver_id: string
+          ends_on: string | null
+          id: string
+          organization_id: string
+          starts_on: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description: string
+          driver_id: string
+          ends_on?: string | null
+          id?: string
+          organization_id: string
+          starts_on: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          driver_id?: string
+          ends_on?: string | null
+          id?: string
+          organization_id?: string
+          starts_on?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driver_deductions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      driver_pay_plans: {
+        Row: {
+          created_at: string
+          driver_id: string
+          effective_from: string
+          id: string
+          organization_id: string
+          pay_basis: Database["public"]["Enums"]["driver_pay_basis"]
+          rate: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          driver_id: string
+          effective_from: string
+          id?: string
+          organization_id: string
+          pay_basis: Database["public"]["Enums"]["driver_pay_basis"]
+          rate: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          driver_id?: string
+          effective_from?: string
+          id?: string
+          organization_id?: string
+          pay_basis?: Database["public"]["Enums"]["driver_pay_basis"]
+          rate?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driver_pay_plans_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      driver_type_history: {
+        Row: {
+          created_at: string
+          driver_id: string
+          driver_type: Database["public"]["Enums"]["driver_type"]
+          effective_from: string
+          id: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          driver_id: string
+          driver_type: Database["public"]["Enums"]["driver_type"]
+          effective_from: string
+          id?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          driver_id?: string
+          driver_type?: Database["public"]["Enums"]["driver_type"]
+          effective_from?: string
+          id?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driver_type_history_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "driver_type_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       drivers: {
@@ -64,6 +398,7 @@ export type Database = {
           driver_name: string
           driver_type: Database["public"]["Enums"]["driver_type"]
           id: string
+          organization_id: string
           status: Database["public"]["Enums"]["driver_status"]
           truck_number: string | null
           updated_at: string
@@ -74,6 +409,7 @@ export type Database = {
           driver_name: string
           driver_type?: Database["public"]["Enums"]["driver_type"]
           id?: string
+          organization_id: string
           status?: Database["public"]["Enums"]["driver_status"]
           truck_number?: string | null
           updated_at?: string
@@ -84,60 +420,475 @@ export type Database = {
           driver_name?: string
           driver_type?: Database["public"]["Enums"]["driver_type"]
           id?: string
+          organization_id?: string
           status?: Database["public"]["Enums"]["driver_status"]
           truck_number?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "drivers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_lines: {
+        Row: {
+          amount: number
+          description: string
+          id: string
+          invoice_id: string
+          kind: Database["public"]["Enums"]["invoice_line_kind"]
+          load_id: string | null
+          organization_id: string
+          sequence: number
+        }
+        Insert: {
+          amount: number
+          description: string
+          id?: string
+          invoice_id: string
+          kind: Database["public"]["Enums"]["invoice_line_kind"]
+          load_id?: string | null
+          organization_id: string
+          sequence: number
+        }
+        Update: {
+          amount?: number
+          description?: string
+          id?: string
+          invoice_id?: string
+          kind?: Database["public"]["Enums"]["invoice_line_kind"]
+          load_id?: string | null
+          organization_id?: string
+          sequence?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_load_id_fkey"
+            columns: ["load_id"]
+            isOneToOne: false
+            referencedRelation: "loads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          invoice_id: string
+          organization_id: string
+          paid_on: string
+          reference: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          invoice_id: string
+          organization_id: string
+          paid_on: string
+          reference?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          organization_id?: string
+          paid_on?: string
+          reference?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_payments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          broker_id: string
+          created_at: string
+          due_date: string
+          id: string
+          invoice_number: number
+          issue_date: string
+          notes: string | null
+          organization_id: string
+          updated_at: string
+          user_id: string
+          voided_at: string | null
+        }
+        Insert: {
+          broker_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          invoice_number: number
+          issue_date: string
+          notes?: string | null
+          organization_id: string
+          updated_at?: string
+          user_id: string
+          voided_at?: string | null
+        }
+        Update: {
+          broker_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          invoice_number?: number
+          issue_date?: string
+          notes?: string | null
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_broker_id_fkey"
+            columns: ["broker_id"]
+            isOneToOne: false
+            referencedRelation: "brokers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      load_charge_rules: {
+        Row: {
+          charge_type: Database["public"]["Enums"]["load_charge_type"]
+          counts_toward_commission: boolean
+          counts_toward_driver_gross: boolean
+          created_at: string
+          id: string
+          organization_id: string
+          reimbursement_only: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          charge_type: Database["public"]["Enums"]["load_charge_type"]
+          counts_toward_commission: boolean
+          counts_toward_driver_gross: boolean
+          created_at?: string
+          id?: string
+          organization_id: string
+          reimbursement_only: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          charge_type?: Database["public"]["Enums"]["load_charge_type"]
+          counts_toward_commission?: boolean
+          counts_toward_driver_gross?: boolean
+          created_at?: string
+          id?: string
+          organization_id?: string
+          reimbursement_only?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "load_charge_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      load_charges: {
+        Row: {
+          amount: number
+          charge_type: Database["public"]["Enums"]["load_charge_type"]
+          counts_toward_commission: boolean
+          counts_toward_driver_gross: boolean
+          created_at: string
+          description: string | null
+          id: string
+          load_id: string
+          organization_id: string
+          reimbursement_only: boolean
+          sequence: number
+        }
+        Insert: {
+          amount: number
+          charge_type: Database["public"]["Enums"]["load_charge_type"]
+          counts_toward_commission: boolean
+          counts_toward_driver_gross: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          load_id: string
+          organization_id: string
+          reimbursement_only: boolean
+          sequence: number
+        }
+        Update: {
+          amount?: number
+          charge_type?: Database["public"]["Enums"]["load_charge_type"]
+          counts_toward_commission?: boolean
+          counts_toward_driver_gross?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          load_id?: string
+          organization_id?: string
+          reimbursement_only?: boolean
+          sequence?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "load_charges_load_id_fkey"
+            columns: ["load_id"]
+            isOneToOne: false
+            referencedRelation: "loads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "load_charges_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      load_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["load_status"] | null
+          id: string
+          load_id: string
+          organization_id: string
+          to_status: Database["public"]["Enums"]["load_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["load_status"] | null
+          id?: string
+          load_id: string
+          organization_id: string
+          to_status: Database["public"]["Enums"]["load_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["load_status"] | null
+          id?: string
+          load_id?: string
+          organization_id?: string
+          to_status?: Database["public"]["Enums"]["load_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "load_status_history_load_id_fkey"
+            columns: ["load_id"]
+            isOneToOne: false
+            referencedRelation: "loads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "load_status_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      load_stops: {
+        Row: {
+          appointment_date: string
+          city: string
+          created_at: string
+          id: string
+          load_id: string
+          organization_id: string
+          sequence: number
+          state: string | null
+          stop_type: Database["public"]["Enums"]["load_stop_type"]
+          window_end: string | null
+          window_start: string | null
+        }
+        Insert: {
+          appointment_date: string
+          city: string
+          created_at?: string
+          id?: string
+          load_id: string
+          organization_id: string
+          sequence: number
+          state?: string | null
+          stop_type: Database["public"]["Enums"]["load_stop_type"]
+          window_end?: string | null
+          window_start?: string | null
+        }
+        Update: {
+          appointment_date?: string
+          city?: string
+          created_at?: string
+          id?: string
+          load_id?: string
+          organization_id?: string
+          sequence?: number
+          state?: string | null
+          stop_type?: Database["public"]["Enums"]["load_stop_type"]
+          window_end?: string | null
+          window_start?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "load_stops_load_id_fkey"
+            columns: ["load_id"]
+            isOneToOne: false
+            referencedRelation: "loads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "load_stops_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       loads: {
         Row: {
+          broker_id: string | null
+          cancellation_reason: string | null
+          charges_total: number
+          commission_charges: number
           connected_full_load_id: string | null
           created_at: string
+          deadhead_miles: number | null
           delivery_date: string
           destination: string
+          driver_gross_charges: number
           driver_id: string
           id: string
           load_id: string
           load_type: Database["public"]["Enums"]["load_type"]
+          loaded_miles: number | null
+          organization_id: string
           origin: string
           pickup_date: string
           rate: number
+          reimbursement_charges: number
+          status: Database["public"]["Enums"]["load_status"]
+          tonu_amount: number | null
           updated_at: string
+          updated_by: string | null
           user_id: string
         }
         Insert: {
+          broker_id?: string | null
+          cancellation_reason?: string | null
+          charges_total?: number
+          commission_charges?: number
           connected_full_load_id?: string | null
           created_at?: string
+          deadhead_miles?: number | null
           delivery_date: string
           destination: string
+          driver_gross_charges?: number
           driver_id: string
           id?: string
           load_id: string
           load_type: Database["public"]["Enums"]["load_type"]
+          loaded_miles?: number | null
+          organization_id: string
           origin: string
           pickup_date: string
           rate: number
+          reimbursement_charges?: number
+          status?: Database["public"]["Enums"]["load_status"]
+          tonu_amount?: number | null
           updated_at?: string
+          updated_by?: string | null
           user_id: string
         }
         Update: {
+          broker_id?: string | null
+          cancellation_reason?: string | null
+          charges_total?: number
+          commission_charges?: number
           connected_full_load_id?: string | null
           created_at?: string
+          deadhead_miles?: number | null
           delivery_date?: string
           destination?: string
+          driver_gross_charges?: number
           driver_id?: string
           id?: string
           load_id?: string
           load_type?: Database["public"]["Enums"]["load_type"]
+          loaded_miles?: number | null
+          organization_id?: string
           origin?: string
           pickup_date?: string
           rate?: number
+          reimbursement_charges?: number
+          status?: Database["public"]["Enums"]["load_status"]
+          tonu_amount?: number | null
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "loads_broker_id_fkey"
+            columns: ["broker_id"]
+            isOneToOne: false
+            referencedRelation: "brokers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "loads_connected_full_load_id_fkey"
             columns: ["connected_full_load_id"]
@@ -152,6 +903,211 @@ export type Database = {
             referencedRelation: "drivers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "loads_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          organization_id: string
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["organization_role"]
+          sent_at: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          organization_id: string
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["organization_role"]
+          sent_at?: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          organization_id?: string
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["organization_role"]
+          sent_at?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          deactivated_at: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["organization_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deactivated_at?: string | null
+          organization_id: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deactivated_at?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          require_mfa: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          require_mfa?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          require_mfa?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payroll_periods: {
+        Row: {
+          closed_at: string
+          end_date: string
+          full_gross: number
+          full_load_commission: number
+          id: string
+          organization_id: string
+          partial_gross: number
+          partial_load_commission: number
+          snapshot: Json
+          start_date: string
+          total_adjustments: number
+          total_bonuses: number
+          total_gross: number
+          total_salary: number
+          user_id: string
+        }
+        Insert: {
+          closed_at?: string
+          end_date: string
+          full_gross: number
+          full_load_commission: number
+          id?: string
+          organization_id: string
+          partial_gross: number
+          partial_load_commission: number
+          snapshot?: Json
+          start_date: string
+          total_adjustments?: number
+          total_bonuses: number
+          total_gross: number
+          total_salary: number
+          user_id: string
+        }
+        Update: {
+          closed_at?: string
+          end_date?: string
+          full_gross?: number
+          full_load_commission?: number
+          id?: string
+          organization_id?: string
+          partial_gross?: number
+          partial_load_commission?: number
+          snapshot?: Json
+          start_date?: string
+          total_adjustments?: number
+          total_bonuses?: number
+          total_gross?: number
+          total_salary?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_periods_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       prebook_notes: {
@@ -160,6 +1116,7 @@ export type Database = {
           date: string
           id: string
           note: string
+          organization_id: string
           updated_at: string
           user_id: string
         }
@@ -168,6 +1125,7 @@ export type Database = {
           date: string
           id?: string
           note: string
+          organization_id: string
           updated_at?: string
           user_id: string
         }
@@ -176,10 +1134,19 @@ export type Database = {
           date?: string
           id?: string
           note?: string
+          organization_id?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "prebook_notes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -207,16 +1174,523 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      driver_daily_gross: {
+        Row: {
+          deadhead_miles: number | null
+          delivery_date: string | null
+          driver_id: string | null
+          gross: number | null
+          load_count: number | null
+          loaded_miles: number | null
+          mileage_gross: number | null
+          organization_id: string | null
+        }
+        Relationships: []
+      }
+      driver_weekly_gross: {
+        Row: {
+          deadhead_miles: number | null
+          driver_id: string | null
+          gross: number | null
+          load_count: number | null
+          loaded_miles: number | null
+          mileage_gross: number | null
+          organization_id: string | null
+          week_start: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      accept_invitation: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      automatic_bonus_amount: {
+        Args: {
+          p_driver_type: Database["public"]["Enums"]["driver_type"]
+          p_gross: number
+          p_organization_id: string
+          p_week_start: string
+        }
+        Returns: number
+      }
+      belongs_to_organization: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      can_edit_bonus: {
+        Args: {
+          p_bonus_type: Database["public"]["Enums"]["bonus_type"]
+          p_organization_id: string
+        }
+        Returns: boolean
+      }
+      can_manage_driver_pay: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      can_manage_invoices: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      can_view_organization_records: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      change_driver_type: {
+        Args: {
+          p_driver_id: string
+          p_driver_type: Database["public"]["Enums"]["driver_type"]
+          p_effective_from: string
+        }
+        Returns: {
+          created_at: string
+          driver_id: string
+          driver_type: Database["public"]["Enums"]["driver_type"]
+          effective_from: string
+          id: string
+          organization_id: string
+          user_id: string
+        }
+      }
+      close_payroll_period: {
+        Args: {
+          p_end: string
+          p_organization_id: string
+          p_start: string
+        }
+        Returns: {
+          closed_at: string
+          end_date: string
+          full_gross: number
+          full_load_commission: number
+          id: string
+          organization_id: string
+          partial_gross: number
+          partial_load_commission: number
+          snapshot: Json
+          start_date: string
+          total_adjustments: number
+          total_bonuses: number
+          total_gross: number
+          total_salary: number
+          user_id: string
+        }
+      }
+      commission_percent_on: {
+        Args: {
+          p_date: string
+          p_dispatcher_id: string
+          p_load_type: Database["public"]["Enums"]["load_type"]
+          p_organization_id: string
+        }
+        Returns: number
+      }
+      create_invoice: {
+        Args: {
+          p_accessorials?: Json
+          p_broker_id: string
+          p_due_date: string
+          p_issue_date: string
+          p_load_ids: string[]
+          p_notes: string
+          p_organization_id: string
+        }
+        Returns: {
+          broker_id: string
+          created_at: string
+          due_date: string
+          id: string
+          invoice_number: number
+          issue_date: string
+          notes: string | null
+          organization_id: string
+          updated_at: string
+          user_id: string
+          voided_at: string | null
+        }
+      }
+      default_bonus_amount: {
+        Args: {
+          p_driver_type: Database["public"]["Enums"]["driver_type"]
+          p_gross: number
+        }
+        Returns: number
+      }
+      delete_invoice_payment: {
+        Args: { p_payment_id: string }
+        Returns: undefined
+      }
+      driver_type_on: {
+        Args: { p_date: string; p_driver_id: string }
+        Returns: Database["public"]["Enums"]["driver_type"]
+      }
+      get_broker_stats: {
+        Args: { p_end: string; p_organization_id: string; p_start: string }
+        Returns: {
+          average_rate: number
+          broker_id: string
+          deadhead_miles: number
+          gross: number
+          load_count: number
+          loaded_miles: number
+          mileage_gross: number
+        }[]
+      }
+      get_gross_by_driver: {
+        Args: { p_end: string; p_organization_id: string; p_start: string }
+        Returns: {
+          deadhead_miles: number
+          driver_id: string
+          full_gross: number
+          load_count: number
+          loaded_miles: number
+          mileage_gross: number
+          partial_gross: number
+          total_gross: number
+        }[]
+      }
+      get_invitation: {
+        Args: { p_token: string }
+        Returns: {
+          email: string
+          organization_name: string
+          role: Database["public"]["Enums"]["organization_role"]
+          status: string
+        }[]
+      }
+      get_payroll_period_totals: {
+        Args: { p_organization_id: string }
+        Returns: {
+          closed_at: string
+          end_date: string
+          full_gross: number
+          full_load_commission: number
+          id: string
+          organization_id: string
+          partial_gross: number
+          partial_load_commission: number
+          snapshot: Json
+          start_date: string
+          total_adjustments: number
+          total_bonuses: number
+          total_gross: number
+          total_salary: number
+          user_id: string
+        }[]
+      }
+      get_receivables_aging: {
+        Args: { p_as_of: string; p_organization_id: string }
+        Returns: {
+          average_days_to_pay: number
+          broker_id: string
+          current_balance: number
+          days_1_30: number
+          days_31_60: number
+          days_61_90: number
+          days_over_90: number
+          open_invoices: number
+          total_balance: number
+        }[]
+      }
+      get_salary_totals: {
+        Args: {
+          p_dispatcher_id?: string
+          p_end: string
+          p_organization_id: string
+          p_start: string
+        }
+        Returns: {
+          full_gross: number
+          full_load_commission: number
+          full_percents: number[]
+          partial_gross: number
+          partial_load_commission: number
+          partial_percents: number[]
+          total_adjustments: number
+          total_bonuses: number
+          total_gross: number
+          total_salary: number
+        }[]
+      }
+      has_organization_role: {
+        Args: {
+          p_organization_id: string
+          p_roles: Database["public"]["Enums"]["organization_role"][]
+        }
+        Returns: boolean
+      }
+      invoice_paid: {
+        Args: { p_invoice_id: string }
+        Returns: number
+      }
+      invoice_total: {
+        Args: { p_invoice_id: string }
+        Returns: number
+      }
+      is_gross_load: {
+        Args: {
+          p_status: Database["public"]["Enums"]["load_status"]
+          p_tonu_amount: number
+        }
+        Returns: boolean
+      }
+      is_organization_member: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      is_payroll_date_locked: {
+        Args: { p_date: string; p_organization_id: string }
+        Returns: boolean
+      }
+      load_charge_flags: {
+        Args: {
+          p_charge_type: Database["public"]["Enums"]["load_charge_type"]
+          p_organization_id: string
+        }
+        Returns: {
+          counts_toward_commission: boolean
+          counts_toward_driver_gross: boolean
+          reimbursement_only: boolean
+        }[]
+      }
+      load_counts_toward_gross: {
+        Args: { p_status: Database["public"]["Enums"]["load_status"] }
+        Returns: boolean
+      }
+      load_gross: {
+        Args: {
+          p_rate: number
+          p_status: Database["public"]["Enums"]["load_status"]
+          p_tonu_amount: number
+        }
+        Returns: number
+      }
+      load_gross_with_charges: {
+        Args: {
+          p_charges: number
+          p_rate: number
+          p_status: Database["public"]["Enums"]["load_status"]
+          p_tonu_amount: number
+        }
+        Returns: number
+      }
+      load_status_transition_allowed: {
+        Args: {
+          p_from: Database["public"]["Enums"]["load_status"]
+          p_to: Database["public"]["Enums"]["load_status"]
+        }
+        Returns: boolean
+      }
+      meets_organization_mfa: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      recalculate_automatic_bonuses: {
+        Args: { p_organization_id: string }
+        Returns: undefined
+      }
+      recalculate_automatic_bonuses_from: {
+        Args: { p_driver_id?: string; p_from?: string; p_organization_id: string }
+        Returns: undefined
+      }
+      recalculate_driver_week_bonus: {
+        Args: { p_driver_id: string; p_week_start: string }
+        Returns: undefined
+      }
+      record_invoice_payment: {
+        Args: {
+          p_amount: number
+          p_invoice_id: string
+          p_paid_on: string
+          p_reference: string
+        }
+        Returns: undefined
+      }
+      replace_load_charges: {
+        Args: { p_charges: Json; p_load_id: string }
+        Returns: {
+          broker_id: string | null
+          cancellation_reason: string | null
+          charges_total: number
+          commission_charges: number
+          connected_full_load_id: string | null
+          created_at: string
+          deadhead_miles: number | null
+          delivery_date: string
+          destination: string
+          driver_gross_charges: number
+          driver_id: string
+          id: string
+          load_id: string
+          load_type: Database["public"]["Enums"]["load_type"]
+          loaded_miles: number | null
+          organization_id: string
+          origin: string
+          pickup_date: string
+          rate: number
+          reimbursement_charges: number
+          status: Database["public"]["Enums"]["load_status"]
+          tonu_amount: number | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+      }
+      replace_load_stops: {
+        Args: { p_load_id: string; p_stops: Json }
+        Returns: {
+          broker_id: string | null
+          cancellation_reason: string | null
+          charges_total: number
+          commission_charges: number
+          connected_full_load_id: string | null
+          created_at: string
+          deadhead_miles: number | null
+          delivery_date: string
+          destination: string
+          driver_gross_charges: number
+          driver_id: string
+          id: string
+          load_id: string
+          load_type: Database["public"]["Enums"]["load_type"]
+          loaded_miles: number | null
+          organization_id: string
+          origin: string
+          pickup_date: string
+          rate: number
+          reimbursement_charges: number
+          status: Database["public"]["Enums"]["load_status"]
+          tonu_amount: number | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+      }
+      replace_mfa_recovery_codes: {
+        Args: { p_code_hashes: string[] }
+        Returns: undefined
+      }
+      save_load: {
+        Args: {
+          p_charges?: Json
+          p_expected_updated_at?: string
+          p_load: Json
+          p_load_id?: string
+          p_stops?: Json
+        }
+        Returns: {
+          broker_id: string | null
+          cancellation_reason: string | null
+          charges_total: number
+          commission_charges: number
+          connected_full_load_id: string | null
+          created_at: string
+          deadhead_miles: number | null
+          delivery_date: string
+          destination: string
+          driver_gross_charges: number
+          driver_id: string
+          id: string
+          load_id: string
+          load_type: Database["public"]["Enums"]["load_type"]
+          loaded_miles: number | null
+          organization_id: string
+          origin: string
+          pickup_date: string
+          rate: number
+          reimbursement_charges: number
+          status: Database["public"]["Enums"]["load_status"]
+          tonu_amount: number | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }[]
+      }
+      set_invoice_load_status: {
+        Args: {
+          p_from: Database["public"]["Enums"]["load_status"]
+          p_invoice_id: string
+          p_to: Database["public"]["Enums"]["load_status"]
+        }
+        Returns: undefined
+      }
+      set_load_status: {
+        Args: {
+          p_cancellation_reason?: string
+          p_from: Database["public"]["Enums"]["load_status"]
+          p_load_id: string
+          p_to: Database["public"]["Enums"]["load_status"]
+          p_tonu_amount?: number
+        }
+        Returns: {
+          broker_id: string | null
+          cancellation_reason: string | null
+          charges_total: number
+          commission_charges: number
+          connected_full_load_id: string | null
+          created_at: string
+          deadhead_miles: number | null
+          delivery_date: string
+          destination: string
+          driver_gross_charges: number
+          driver_id: string
+          id: string
+          load_id: string
+          load_type: Database["public"]["Enums"]["load_type"]
+          loaded_miles: number | null
+          organization_id: string
+          origin: string
+          pickup_date: string
+          rate: number
+          reimbursement_charges: number
+          status: Database["public"]["Enums"]["load_status"]
+          tonu_amount: number | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }[]
+      }
+      shares_organization_with: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      tonu_percent_on: {
+        Args: {
+          p_date: string
+          p_dispatcher_id: string
+          p_organization_id: string
+        }
+        Returns: number
+      }
+      void_invoice: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      bonus_type: "automatic" | "manual"
+      bonus_type: "automatic" | "manual" | "adjustment"
+      driver_pay_basis: "percent_of_gross" | "per_mile" | "flat_per_load"
       driver_status: "active" | "inactive"
       driver_type: "owner_operator" | "company_driver"
+      invoice_line_kind: "load" | "accessorial"
+      load_charge_type:
+        | "detention"
+        | "lumper"
+        | "layover"
+        | "fuel_surcharge"
+        | "other"
+      load_status:
+        | "booked"
+        | "in_transit"
+        | "delivered"
+        | "invoiced"
+        | "paid"
+        | "cancelled"
+      load_stop_type: "pickup" | "delivery"
       load_type: "FULL" | "PARTIAL"
+      organization_role: "owner" | "dispatcher" | "accountant" | "viewer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -344,10 +1818,29 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      bonus_type: ["automatic", "manual"],
+      bonus_type: ["automatic", "manual", "adjustment"],
+      driver_pay_basis: ["percent_of_gross", "per_mile", "flat_per_load"],
       driver_status: ["active", "inactive"],
       driver_type: ["owner_operator", "company_driver"],
+      invoice_line_kind: ["load", "accessorial"],
+      load_charge_type: [
+        "detention",
+        "lumper",
+        "layover",
+        "fuel_surcharge",
+        "other",
+      ],
+      load_status: [
+        "booked",
+        "in_transit",
+        "delivered",
+        "invoiced",
+        "paid",
+        "cancelled",
+      ],
+      load_stop_type: ["pickup", "delivery"],
       load_type: ["FULL", "PARTIAL"],
+      organization_role: ["owner", "dispatcher", "accountant", "viewer"],
     },
   },
 } as const
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCsv } from '@/lib/csv';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps commas, escaped quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('"Chicago, IL","say ""hi""","two\nlines"')).toEqual([['Chicago, IL', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n,\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty cells inside a row', () => {
+    expect(parseCsv('a,,c')).toEqual([['a', '', 'c']]);
+  });
+
+  it('splits on another delimiter', () => {
+    expect(parseCsv('a;b\n"1;5";2', ';')).toEqual([['a', 'b'], ['1;5', '2']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter splitting the header most', () => {
+    expect(detectDelimiter('Load ID,Rate,Driver\n1;2;3')).toBe(',');
+    expect(detectDelimiter('Load ID;Rate;Driver\r\n1,2,3')).toBe(';');
+    expect(detectDelimiter('Load ID\tRate\tDriver')).toBe('\t');
+  });
+
+  it('falls back to a comma for a single column', () => {
+    expect(detectDelimiter('Load ID')).toBe(',');
+  });
+});
@@ -0,0 +1,25 @@
+import { format, endOfMonth, max, min } from 'date-fns';
+import { SystemState } from '@/types';
+import { getWeekStart, getWeekEnd } from '@/lib/payroll';
+import { parseLocalDate } from '@/lib/utils';
+
+/** Inclusive range of dates (YYYY-MM-DD). */
+export interface DateWindow {
+  from: string;
+  to: string;
+}
+
+/**
+ * Whole weeks covering the selected month, week and day: the loads and bonuses any
+ * view can show at once. Everything outside is read through the aggregate queries.
+ */
+export const getDataWindow = (state: SystemState): DateWindow => {
+  const monthStart = parseLocalDate(`${state.selectedMonth}-01`);
+  const week = parseLocalDate(state.selectedWeek);
+  const day = parseLocalDate(state.selectedDay);
+
+  return {
+    from: format(getWeekStart(min([monthStart, week, day])), 'yyyy-MM-dd'),
+    to: format(getWeekEnd(max([endOfMonth(monthStart), week, day])), 'yyyy-MM-dd'),
+  };
+};
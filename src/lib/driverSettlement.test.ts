@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import { Driver, DriverAdvance, DriverDeduction, DriverPayPlan, DriverTypeChange, Load } from '@/types';
+import {
+  buildDriverSettlement,
+  calculateLoadPay,
+  formatPayPlan,
+  getDriverPayPlanForDate,
+  isDeductionActive,
+} from '@/lib/driverSettlement';
+
+const driver: Driver = {
+  id: 'driver-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  driver_name: 'John Smith',
+  driver_type: 'company_driver',
+  status: 'active',
+  truck_number: '101',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+const makeLoad = (overrides: Partial<Load>): Load => ({
+  id: 'load-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  load_id: 'L-1',
+  driver_id: driver.id,
+  pickup_date: '2025-03-03',
+  delivery_date: '2025-03-04',
+  origin: 'Chicago, IL',
+  destination: 'Dallas, TX',
+  rate: 1000,
+  load_type: 'FULL',
+  connected_full_load_id: null,
+  broker_id: null,
+  status: 'delivered',
+  cancellation_reason: null,
+  tonu_amount: null,
+  loaded_miles: null,
+  deadhead_miles: null,
+  charges_total: 0,
+  driver_gross_charges: 0,
+  commission_charges: 0,
+  reimbursement_charges: 0,
+  created_at: '2025-03-03T00:00:00Z',
+  updated_at: '2025-03-03T00:00:00Z',
+  updated_by: null,
+  ...overrides,
+});
+
+const makePlan = (overrides: Partial<DriverPayPlan>): DriverPayPlan => ({
+  id: 'plan-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  driver_id: driver.id,
+  pay_basis: 'percent_of_gross',
+  rate: 25,
+  effective_from: '2025-01-01',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const makeDeduction = (overrides: Partial<DriverDeduction>): DriverDeduction => ({
+  id: 'deduction-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  driver_id: driver.id,
+  description: 'Insurance',
+  amount: 100,
+  starts_on: '2025-01-01',
+  ends_on: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const makeAdvance = (overrides: Partial<DriverAdvance>): DriverAdvance => ({
+  id: 'advance-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  driver_id: driver.id,
+  amount: 200,
+  advanced_on: '2025-03-05',
+  note: null,
+  created_at: '2025-03-05T00:00:00Z',
+  ...overrides,
+});
+
+describe('formatPayPlan', () => {
+  it('labels each pay basis', () => {
+    expect(formatPayPlan({ pay_basis: 'percent_of_gross', rate: 28.5 })).toBe('28.5% of gross');
+    expect(formatPayPlan({ pay_basis: 'per_mile', rate: 0.655 })).toBe('$0.655/mi');
+    expect(formatPayPlan({ pay_basis: 'flat_per_load', rate: 1450 })).toBe('$1,450/load');
+  });
+});
+
+describe('getDriverPayPlanForDate', () => {
+  const plans = [
+    makePlan({ id: 'old', effective_from: '2025-01-01' }),
+    makePlan({ id: 'new', effective_from: '2025-03-05' }),
+    makePlan({ id: 'other-driver', driver_id: 'driver-2', effective_from: '2025-03-01' }),
+  ];
+
+  it("picks the driver's latest plan started by the date", () => {
+    expect(getDriverPayPlanForDate(plans, driver.id, '2025-03-04')?.id).toBe('old');
+    expect(getDriverPayPlanForDate(plans, driver.id, '2025-03-05')?.id).toBe('new');
+    expect(getDriverPayPlanForDate(plans, driver.id, '2024-12-31')).toBeNull();
+  });
+});
+
+describe('calculateLoadPay', () => {
+  const load = makeLoad({ rate: 2000, driver_gross_charges: 150, loaded_miles: 812 });
+  const tonu = makeLoad({ status: 'cancelled', tonu_amount: 250, loaded_miles: 812 });
+
+  it('pays a share of driver gross, charges included, or of the TONU fee', () => {
+    const plan = makePlan({ rate: 27.5 });
+    expect(calculateLoadPay(load, plan)).toBe(591.25);
+    expect(calculateLoadPay(tonu, plan)).toBe(68.75);
+  });
+
+  it('pays per loaded mile or per load, and nothing on cancelled loads', () => {
+    const perMile = makePlan({ pay_basis: 'per_mile', rate: 0.655 });
+    const flat = makePlan({ pay_basis: 'flat_per_load', rate: 450 });
+    expect(calculateLoadPay(load, perMile)).toBe(531.86);
+    expect(calculateLoadPay({ ...load, loaded_miles: null }, perMile)).toBe(0);
+    expect(calculateLoadPay(load, flat)).toBe(450);
+    expect(calculateLoadPay(tonu, perMile)).toBe(0);
+    expect(calculateLoadPay(tonu, flat)).toBe(0);
+  });
+
+  it('pays nothing without a plan', () => {
+    expect(calculateLoadPay(load, null)).toBe(0);
+  });
+});
+
+describe('isDeductionActive', () => {
+  it('checks the deduction overlaps the range', () => {
+    expect(isDeductionActive(makeDeduction({ starts_on: '2025-03-09' }), '2025-03-03', '2025-03-09')).toBe(true);
+    expect(isDeductionActive(makeDeduction({ starts_on: '2025-03-10' }), '2025-03-03', '2025-03-09')).toBe(false);
+    expect(isDeductionActive(makeDeduction({ ends_on: '2025-03-03' }), '2025-03-03', '2025-03-09')).toBe(true);
+    expect(isDeductionActive(makeDeduction({ ends_on: '2025-03-02' }), '2025-03-03', '2025-03-09')).toBe(false);
+  });
+});
+
+describe('buildDriverSettlement', () => {
+  const plans = [
+    makePlan({ id: 'percent', rate: 25 }),
+    makePlan({ id: 'per-mile', pay_basis: 'per_mile', rate: 0.6, effective_from: '2025-03-05' }),
+  ];
+  const loads = [
+    makeLoad({ id: 'percent', load_id: 'L-1', delivery_date: '2025-03-04', rate: 2000, driver_gross_charges: 100, reimbursement_charges: 50 }),
+    makeLoad({ id: 'per-mile', load_id: 'L-3', delivery_date: '2025-03-06', rate: 1500, loaded_miles: 500 }),
+    makeLoad({ id: 'no-miles', load_id: 'L-2', delivery_date: '2025-03-06', rate: 1000 }),
+    makeLoad({ id: 'tonu', load_id: 'L-4', delivery_date: '2025-03-09', status: 'cancelled', tonu_amount: 250 }),
+    makeLoad({ id: 'cancelled', load_id: 'L-5', delivery_date: '2025-03-08', status: 'cancelled' }),
+    makeLoad({ id: 'next-week', load_id: 'L-6', delivery_date: '2025-03-10', rate: 3000, loaded_miles: 900 }),
+    makeLoad({ id: 'other-driver', load_id: 'L-7', driver_id: 'driver-2', rate: 3000 }),
+  ];
+  const deductions = [
+    makeDeduction({ id: 'insurance' }),
+    makeDeduction({ id: 'ended', description: 'ELD', amount: 30, ends_on: '2025-03-02' }),
+    makeDeduction({ id: 'other-driver', driver_id: 'driver-2' }),
+  ];
+  const advances = [
+    makeAdvance({ id: 'sunday', advanced_on: '2025-03-09' }),
+    makeAdvance({ id: 'next-week', advanced_on: '2025-03-10' }),
+  ];
+  const driverTypeHistory = [
+    { driver_id: driver.id, driver_type: 'owner_operator', effective_from: '2025-01-01' },
+    { driver_id: driver.id, driver_type: 'company_driver', effective_from: '2025-03-10' },
+  ] as DriverTypeChange[];
+
+  const settlement = buildDriverSettlement({
+    driver,
+    weekStart: '2025-03-03',
+    loads,
+    plans,
+    deductions,
+    advances,
+    driverTypeHistory,
+  });
+
+  it("covers the driver's Monday-Sunday week", () => {
+    expect(settlement.weekEnd).toBe('2025-03-09');
+    expect(settlement.driverType).toBe('owner_operator');
+    expect(settlement.loadLines.map(l => l.load.id)).toEqual(['percent', 'no-miles', 'per-mile', 'tonu']);
+    expect(settlement.deductions.map(d => d.id)).toEqual(['insurance']);
+    expect(settlement.advances.map(a => a.id)).toEqual(['sunday']);
+  });
+
+  it('pays each load under the plan in force at its delivery', () => {
+    expect(settlement.loadLines.map(l => [l.plan?.id, l.pay, l.missingMiles])).toEqual([
+      ['percent', 525, false],
+      ['per-mile', 0, true],
+      ['per-mile', 300, false],
+      ['per-mile', 0, false],
+    ]);
+  });
+
+  it('nets reimbursements, deductions and advances against load pay', () => {
+    expect(settlement).toMatchObject({
+      gross: 4850,
+      loadPay: 825,
+      reimbursements: 50,
+      totalDeductions: 100,
+      totalAdvances: 200,
+      netPay: 575,
+    });
+  });
+});
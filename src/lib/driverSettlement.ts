@@ -0,0 +1,281 @@
+import type { jsPDF } from 'jspdf';
+import { Driver, DriverAdvance, DriverDeduction, DriverPayBasis, DriverPayPlan, DriverType, DriverTypeChange, Load } from '@/types';
+import { format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import { toCents } from '@/lib/export';
+import { filterLoadsByDelivery, getDriverTypeForDate, getWeekEnd, isDateInRange } from '@/lib/payroll';
+import { countsTowardGross, getLoadDriverGross, getLoadReimbursement } from '@/lib/loadStatus';
+
+export const DRIVER_PAY_BASIS_LABELS: Record<DriverPayBasis, string> = {
+  percent_of_gross: 'Percent of gross',
+  per_mile: 'Per loaded mile',
+  flat_per_load: 'Flat per load',
+};
+
+/** Short label for a plan, e.g. "28% of gross", "$0.65/mi" or "$450/load". */
+export const formatPayPlan = (plan: Pick<DriverPayPlan, 'pay_basis' | 'rate'>): string => {
+  const rate = Number(plan.rate);
+  if (plan.pay_basis === 'percent_of_gross') return `${Number(rate.toFixed(2))}% of gross`;
+  if (plan.pay_basis === 'per_mile') return `$${Number(rate.toFixed(4))}/mi`;
+  return `$${rate.toLocaleString()}/load`;
+};
+
+/** Pay plan in force for a driver on a date (YYYY-MM-DD): the latest version started by then, or null. */
+export const getDriverPayPlanForDate = (
+  plans: DriverPayPlan[],
+  driverId: string,
+  dateString: string
+): DriverPayPlan | null => {
+  return plans
+    .filter(p => p.driver_id === driverId && p.effective_from <= dateString)
+    .reduce<DriverPayPlan | null>((latest, p) => (latest === null || p.effective_from > latest.effective_from ? p : latest), null);
+};
+
+/**
+ * What a driver earns on a load under a plan, in cents. A cancelled load pays a share of
+ * its TONU fee on a percentage plan and nothing per mile or per load. Loads without
+ * loaded miles pay nothing per mile until the miles are entered.
+ */
+export const calculateLoadPay = (load: Load, plan: DriverPayPlan | null): number => {
+  if (!plan) return 0;
+  const rate = Number(plan.rate);
+  if (plan.pay_basis === 'percent_of_gross') return toCents(getLoadDriverGross(load) * rate / 100);
+  if (!countsTowardGross(load.status)) return 0;
+  if (plan.pay_basis === 'per_mile') return toCents((load.loaded_miles ?? 0) * rate);
+  return toCents(rate);
+};
+
+/** Whether a recurring deduction overlaps an inclusive date range (YYYY-MM-DD). */
+export const isDeductionActive = (deduction: DriverDeduction, startDate: string, endDate: string): boolean =>
+  deduction.starts_on <= endDate && (deduction.ends_on === null || deduction.ends_on >= startDate);
+
+export interface SettlementLoadLine {
+  load: Load;
+  plan: DriverPayPlan | null;
+  // Driver gross: the rate plus charges that count toward it, or the TONU fee
+  gross: number;
+  pay: number;
+  reimbursement: number;
+  // Paid per mile but no loaded miles entered yet
+  missingMiles: boolean;
+}
+
+export interface DriverSettlement {
+  driver: Driver;
+  driverType: DriverType;
+  weekStart: string;
+  weekEnd: string;
+  loadLines: SettlementLoadLine[];
+  deductions: DriverDeduction[];
+  advances: DriverAdvance[];
+  gross: number;
+  loadPay: number;
+  reimbursements: number;
+  totalDeductions: number;
+  totalAdvances: number;
+  netPay: number;
+}
+
+export interface DriverSettlementInput {
+  driver: Driver;
+  // Monday of the settlement week (YYYY-MM-DD)
+  weekStart: string;
+  loads: Load[];
+  plans: DriverPayPlan[];
+  deductions: DriverDeduction[];
+  advances: DriverAdvance[];
+  driverTypeHistory: DriverTypeChange[];
+}
+
+/**
+ * A driver's settlement for a Monday-Sunday week. Loads are picked the way the weekly
+ * gross is, so the gross here matches WeeklyGrossTable; each is paid under the plan in
+ * force at its delivery. Reimbursements are passed through, then deductions running
+ * that week and advances paid that week are taken off.
+ */
+export const buildDriverSettlement = ({
+  driver,
+  weekStart,
+  loads,
+  plans,
+  deductions,
+  advances,
+  driverTypeHistory,
+}: DriverSettlementInput): DriverSettlement => {
+  const start = parseLocalDate(weekStart);
+  const end = getWeekEnd(start);
+  const weekEnd = format(end, 'yyyy-MM-dd');
+
+  const loadLines = filterLoadsByDelivery(loads, start, end, driver.id)
+    .sort((a, b) => a.delivery_date.localeCompare(b.delivery_date) || a.load_id.localeCompare(b.load_id))
+    .map(load => {
+      const plan = getDriverPayPlanForDate(plans, driver.id, load.delivery_date);
+      return {
+        load,
+        plan,
+        gross: getLoadDriverGross(load),
+        pay: calculateLoadPay(load, plan),
+        reimbursement: getLoadReimbursement(load),
+        missingMiles: plan?.pay_basis === 'per_mile' && countsTowardGross(load.status) && !load.loaded_miles,
+      };
+    });
+
+  const weekDeductions = deductions
+    .filter(d => d.driver_id === driver.id && isDeductionActive(d, weekStart, weekEnd))
+    .sort((a, b) => a.starts_on.localeCompare(b.starts_on) || a.description.localeCompare(b.description));
+  const weekAdvances = advances
+    .filter(a => a.driver_id === driver.id && isDateInRange(a.advanced_on, start, end))
+    .sort((a, b) => a.advanced_on.localeCompare(b.advanced_on));
+
+  const sum = (amounts: number[]) => toCents(amounts.reduce((total, amount) => total + amount, 0));
+  const loadPay = sum(loadLines.map(l => l.pay));
+  const reimbursements = sum(loadLines.map(l => l.reimbursement));
+  const totalDeductions = sum(weekDeductions.map(d => Number(d.amount)));
+  const totalAdvances = sum(weekAdvances.map(a => Number(a.amount)));
+
+  return {
+    driver,
+    driverType: getDriverTypeForDate(driver, driverTypeHistory, weekStart),
+    weekStart,
+    weekEnd,
+    loadLines,
+    deductions: weekDeductions,
+    advances: weekAdvances,
+    gross: sum(loadLines.map(l => l.gross)),
+    loadPay,
+    reimbursements,
+    totalDeductions,
+    totalAdvances,
+    netPay: toCents(loadPay + reimbursements - totalDeductions - totalAdvances),
+  };
+};
+
+const money = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatDate = (dateString: string) => format(parseLocalDate(dateString), 'MM/dd/yyyy');
+
+// Page geometry in points (US Letter)
+const MARGIN = 40;
+
+type DocWithAutoTable = jsPDF & { lastAutoTable: { finalY: number } };
+
+/** Generate a driver's weekly settlement statement PDF in the browser and download it. */
+export const downloadDriverSettlement = async (settlement: DriverSettlement, organizationName: string) => {
+  // Loaded on demand to keep the PDF writer out of the main bundle
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+
+  const { driver } = settlement;
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' }) as DocWithAutoTable;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const headStyles = { fillColor: [30, 41, 59] as [number, number, number], textColor: 255, fontStyle: 'bold' as const };
+  const footStyles = { fillColor: [241, 245, 249] as [number, number, number], textColor: 20, fontStyle: 'bold' as const };
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('Driver Settlement', MARGIN, MARGIN + 10);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`${driver.driver_name}${driver.truck_number ? ` - Truck ${driver.truck_number}` : ''}`, MARGIN, MARGIN + 30);
+  doc.text(
+    `${settlement.driverType === 'owner_operator' ? 'Owner Operator' : 'Company Driver'} - ` +
+      `Week: ${formatDate(settlement.weekStart)} - ${formatDate(settlement.weekEnd)}`,
+    MARGIN,
+    MARGIN + 44
+  );
+  doc.text(organizationName, pageWidth - MARGIN, MARGIN + 30, { align: 'right' });
+  doc.text(`Generated: ${format(new Date(), 'MM/dd/yyyy HH:mm')}`, pageWidth - MARGIN, MARGIN + 44, { align: 'right' });
+
+  // Summary
+  autoTable(doc, {
+    startY: MARGIN + 64,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Summary', 'Amount']],
+    body: [
+      ['Gross', money(settlement.gross)],
+      ['Load pay', money(settlement.loadPay)],
+      ['Reimbursements', money(settlement.reimbursements)],
+      ['Deductions', money(-settlement.totalDeductions)],
+      ['Advances', money(-settlement.totalAdvances)],
+    ],
+    foot: [['Net Pay', money(settlement.netPay)]],
+    headStyles,
+    footStyles,
+    columnStyles: { 1: { halign: 'right' } },
+    theme: 'grid',
+  });
+
+  // Loads
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(`Loads (${settlement.loadLines.length})`, MARGIN, doc.lastAutoTable.finalY + 28);
+
+  autoTable(doc, {
+    startY: doc.lastAutoTable.finalY + 36,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Delivered', 'Load ID', 'Route', 'Miles', 'Gross', 'Pay Plan', 'Pay', 'Reimb.']],
+    body: settlement.loadLines.length > 0
+      ? settlement.loadLines.map(({ load, plan, gross, pay, reimbursement, missingMiles }) => [
+          formatDate(load.delivery_date),
+          load.load_id,
+          load.status === 'cancelled'
+            ? `${load.origin} - ${load.destination}\nCancelled, TONU`
+            : `${load.origin} - ${load.destination}`,
+          load.loaded_miles === null ? '' : load.loaded_miles.toLocaleString(),
+          money(gross),
+          plan ? formatPayPlan(plan) + (missingMiles ? '\nMiles missing' : '') : 'No pay plan',
+          money(pay),
+          reimbursement ? money(reimbursement) : '',
+        ])
+      : [[{ content: 'No loads delivered this week.', colSpan: 8 }]],
+    foot: [[
+      { content: 'Total', colSpan: 4 },
+      money(settlement.gross),
+      '',
+      money(settlement.loadPay),
+      money(settlement.reimbursements),
+    ]],
+    headStyles,
+    footStyles,
+    styles: { fontSize: 8 },
+    columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' }, 6: { halign: 'right' }, 7: { halign: 'right' } },
+    theme: 'striped',
+  });
+
+  // Deductions and advances
+  const takenBack = [
+    ...settlement.deductions.map(d => ['Deduction', d.description, d.ends_on ? `Until ${formatDate(d.ends_on)}` : 'Weekly', money(Number(d.amount))]),
+    ...settlement.advances.map(a => ['Advance', a.note ?? '', formatDate(a.advanced_on), money(Number(a.amount))]),
+  ];
+  if (takenBack.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(`Deductions and Advances (${takenBack.length})`, MARGIN, doc.lastAutoTable.finalY + 28);
+
+    autoTable(doc, {
+      startY: doc.lastAutoTable.finalY + 36,
+      margin: { left: MARGIN, right: MARGIN },
+      head: [['Type', 'Description', 'When', 'Amount']],
+      body: takenBack,
+      foot: [[{ content: 'Total', colSpan: 3 }, money(settlement.totalDeductions + settlement.totalAdvances)]],
+      headStyles,
+      footStyles,
+      styles: { fontSize: 8 },
+      columnStyles: { 3: { halign: 'right' } },
+      theme: 'striped',
+    });
+  }
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, doc.internal.pageSize.getHeight() - 20, { align: 'right' });
+  }
+
+  const fileName = driver.driver_name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  doc.save(`settlement-${fileName}-${settlement.weekStart}.pdf`);
+};
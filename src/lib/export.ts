@@ -0,0 +1,74 @@
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportCell = string | number | null;
+
+export interface ExportColumn {
+  header: string;
+  // Money columns get a two-decimal number format in spreadsheets
+  type?: 'text' | 'number' | 'currency';
+  width?: number;
+}
+
+export interface ExportSheet {
+  name: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+}
+
+const escapeCsvCell = (value: ExportCell): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV text for a sheet. Numbers are written unformatted so spreadsheets read them as numbers. */
+export const toCsv = (sheet: ExportSheet): string => {
+  const lines = [sheet.columns.map(c => c.header), ...sheet.rows].map(row => row.map(escapeCsvCell).join(','));
+  return lines.join('\r\n');
+};
+
+const triggerDownload = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after the click can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Excel limits sheet names to 31 characters without []:*?/\
+const toSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+
+const toXlsx = async (sheet: ExportSheet): Promise<Blob> => {
+  // Loaded on demand to keep the spreadsheet writer out of the main bundle
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet(toSheetName(sheet.name));
+
+  worksheet.columns = sheet.columns.map(column => ({
+    header: column.header,
+    width: column.width ?? Math.max(12, column.header.length + 2),
+    style: column.type === 'currency' ? { numFmt: '#,##0.00' } : undefined,
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+  worksheet.addRows(sheet.rows);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+/** Download a sheet as CSV or XLSX; the extension is added to the base file name. */
+export const downloadSheet = async (sheet: ExportSheet, baseName: string, format: ExportFormat) => {
+  if (format === 'csv') {
+    // The BOM lets Excel detect UTF-8 (e.g. "№" in headers)
+    triggerDownload(new Blob(['﻿', toCsv(sheet)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+  } else {
+    triggerDownload(await toXlsx(sheet), `${baseName}.xlsx`);
+  }
+};
+
+/** Round money to cents so exported totals match what the screens show. */
+export const toCents = (amount: number): number => Math.round(amount * 100) / 100;
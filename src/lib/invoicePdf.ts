@@ -0,0 +1,139 @@
+import type { jsPDF } from 'jspdf';
+import { Broker } from '@/types';
+import { format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import {
+  InvoiceWithDetails,
+  formatInvoiceNumber,
+  getInvoiceBalance,
+  getInvoicePaid,
+  getInvoiceTotal,
+} from '@/lib/invoices';
+
+export interface InvoicePdfInput {
+  invoice: InvoiceWithDetails;
+  broker: Broker | undefined;
+  organizationName: string;
+}
+
+const money = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatDate = (dateString: string) => format(parseLocalDate(dateString), 'MM/dd/yyyy');
+
+// Page geometry in points (US Letter)
+const MARGIN = 40;
+
+type DocWithAutoTable = jsPDF & { lastAutoTable: { finalY: number } };
+
+/** Generate an invoice PDF in the browser and download it. */
+export const downloadInvoicePdf = async ({ invoice, broker, organizationName }: InvoicePdfInput) => {
+  // Loaded on demand to keep the PDF writer out of the main bundle
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+
+  const number = formatInvoiceNumber(invoice.invoice_number);
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' }) as DocWithAutoTable;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const headStyles = { fillColor: [30, 41, 59] as [number, number, number], textColor: 255, fontStyle: 'bold' as const };
+  const footStyles = { fillColor: [241, 245, 249] as [number, number, number], textColor: 20, fontStyle: 'bold' as const };
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(`Invoice ${number}`, MARGIN, MARGIN + 10);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(organizationName, MARGIN, MARGIN + 30);
+  doc.text(`Issued: ${formatDate(invoice.issue_date)}`, pageWidth - MARGIN, MARGIN + 30, { align: 'right' });
+  doc.text(`Due: ${formatDate(invoice.due_date)}`, pageWidth - MARGIN, MARGIN + 44, { align: 'right' });
+
+  if (invoice.voided_at) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(200, 30, 30);
+    doc.text(`VOID (${format(new Date(invoice.voided_at), 'MM/dd/yyyy')})`, pageWidth - MARGIN, MARGIN + 10, { align: 'right' });
+    doc.setTextColor(0);
+  }
+
+  // Bill to
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('Bill to', MARGIN, MARGIN + 68);
+  doc.setFont('helvetica', 'normal');
+  const billTo = [
+    broker?.name ?? 'Unknown broker',
+    broker?.mc_number ? `MC ${broker.mc_number}` : null,
+    broker?.contact_name,
+    broker?.contact_email,
+    broker?.contact_phone,
+  ].filter(Boolean) as string[];
+  billTo.forEach((line, i) => doc.text(line, MARGIN, MARGIN + 82 + i * 14));
+
+  const total = getInvoiceTotal(invoice);
+
+  // Lines
+  autoTable(doc, {
+    startY: MARGIN + 96 + billTo.length * 14,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['#', 'Description', 'Amount']],
+    body: invoice.lines.map(line => [String(line.sequence), line.description, money(Number(line.amount))]),
+    foot: [[{ content: 'Total', colSpan: 2 }, money(total)]],
+    headStyles,
+    footStyles,
+    columnStyles: { 0: { cellWidth: 30 }, 2: { halign: 'right' } },
+    theme: 'striped',
+  });
+
+  // Payments
+  if (invoice.payments.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(`Payments (${invoice.payments.length})`, MARGIN, doc.lastAutoTable.finalY + 28);
+
+    autoTable(doc, {
+      startY: doc.lastAutoTable.finalY + 36,
+      margin: { left: MARGIN, right: MARGIN },
+      head: [['Date', 'Reference', 'Amount']],
+      body: invoice.payments.map(payment => [
+        formatDate(payment.paid_on),
+        payment.reference ?? '',
+        money(Number(payment.amount)),
+      ]),
+      foot: [[{ content: 'Total paid', colSpan: 2 }, money(getInvoicePaid(invoice))]],
+      headStyles,
+      footStyles,
+      styles: { fontSize: 8 },
+      columnStyles: { 2: { halign: 'right' } },
+      theme: 'striped',
+    });
+  }
+
+  // Balance due
+  let totalY = doc.lastAutoTable.finalY + 32;
+  if (totalY > doc.internal.pageSize.getHeight() - MARGIN) {
+    doc.addPage();
+    totalY = MARGIN + 10;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text('Balance Due', MARGIN, totalY);
+  doc.text(money(invoice.voided_at ? 0 : getInvoiceBalance(invoice)), pageWidth - MARGIN, totalY, { align: 'right' });
+
+  if (invoice.notes) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    const notes = doc.splitTextToSize(invoice.notes, pageWidth - MARGIN * 2);
+    doc.text(notes, MARGIN, totalY + 24);
+  }
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`${number} - Page ${page} of ${pageCount}`, pageWidth - MARGIN, doc.internal.pageSize.getHeight() - 20, { align: 'right' });
+  }
+
+  doc.save(`invoice-${number}.pdf`);
+};
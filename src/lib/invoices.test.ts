@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { InvoiceLine, InvoicePayment } from '@/types';
+import {
+  InvoiceWithDetails,
+  formatInvoiceNumber,
+  getDueDate,
+  getInvoiceBalance,
+  getInvoicePaid,
+  getInvoiceStatus,
+  getInvoiceTotal,
+  toAccessorialLines,
+  validateAccessorials,
+} from '@/lib/invoices';
+
+const makeInvoice = (lineAmounts: number[], paymentAmounts: number[], overrides: Partial<InvoiceWithDetails> = {}): InvoiceWithDetails => ({
+  id: 'invoice-1',
+  organization_id: 'org-1',
+  user_id: 'member-1',
+  broker_id: 'broker-1',
+  invoice_number: 42,
+  issue_date: '2025-03-01',
+  due_date: '2025-03-31',
+  notes: null,
+  voided_at: null,
+  created_at: '2025-03-01T00:00:00Z',
+  updated_at: '2025-03-01T00:00:00Z',
+  lines: lineAmounts.map((amount, i) => ({ id: `line-${i}`, amount } as InvoiceLine)),
+  payments: paymentAmounts.map((amount, i) => ({ id: `payment-${i}`, amount } as InvoicePayment)),
+  ...overrides,
+});
+
+describe('formatInvoiceNumber', () => {
+  it('pads to five digits', () => {
+    expect(formatInvoiceNumber(42)).toBe('INV-00042');
+    expect(formatInvoiceNumber(123456)).toBe('INV-123456');
+  });
+});
+
+describe('invoice totals', () => {
+  it('sums lines and payments and rounds the balance to cents', () => {
+    const invoice = makeInvoice([1000.1, 200.2], [0.1, 0.2]);
+    expect(getInvoiceTotal(invoice)).toBeCloseTo(1200.3);
+    expect(getInvoicePaid(invoice)).toBeCloseTo(0.3);
+    expect(getInvoiceBalance(invoice)).toBe(1200);
+  });
+});
+
+describe('getInvoiceStatus', () => {
+  it('is open until paid or past due', () => {
+    expect(getInvoiceStatus(makeInvoice([1000], []), '2025-03-31')).toBe('open');
+    expect(getInvoiceStatus(makeInvoice([1000], [400]), '2025-03-31')).toBe('partial');
+    expect(getInvoiceStatus(makeInvoice([1000], [400]), '2025-04-01')).toBe('overdue');
+  });
+
+  it('is paid once the balance is settled, even when late', () => {
+    expect(getInvoiceStatus(makeInvoice([1000], [600, 400]), '2025-05-01')).toBe('paid');
+    expect(getInvoiceStatus(makeInvoice([1000], [1100]), '2025-03-15')).toBe('paid');
+  });
+
+  it('is void once voided, whatever was paid', () => {
+    expect(getInvoiceStatus(makeInvoice([1000], [1000], { voided_at: '2025-03-02T00:00:00Z' }), '2025-03-15')).toBe('void');
+  });
+});
+
+describe('getDueDate', () => {
+  it('adds the payment terms to the issue date', () => {
+    expect(getDueDate('2025-01-31', 30)).toBe('2025-03-02');
+    // Across the change to daylight saving time
+    expect(getDueDate('2025-03-08', 1)).toBe('2025-03-09');
+    expect(getDueDate('2025-03-08', null)).toBe('2025-03-08');
+  });
+});
+
+describe('accessorials', () => {
+  it('ignores blank rows', () => {
+    const rows = [
+      { description: ' Detention ', amount: '150' },
+      { description: '', amount: '' },
+    ];
+    expect(validateAccessorials(rows)).toBeNull();
+    expect(toAccessorialLines(rows)).toEqual([{ description: 'Detention', amount: 150 }]);
+  });
+
+  it('needs a description and a positive amount', () => {
+    expect(validateAccessorials([{ description: '', amount: '50' }])).toBe('Every accessorial needs a description.');
+    expect(validateAccessorials([{ description: 'Lumper', amount: '' }])).toBe('Accessorial amounts must be more than zero.');
+    expect(validateAccessorials([{ description: 'Lumper', amount: '-5' }])).toBe('Accessorial amounts must be more than zero.');
+  });
+});
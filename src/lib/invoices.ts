@@ -0,0 +1,84 @@
+import { Invoice, InvoiceLine, InvoicePayment } from '@/types';
+import { addDays, format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+
+// An invoice as listed, with its lines in order and payments oldest first
+export interface InvoiceWithDetails extends Invoice {
+  lines: InvoiceLine[];
+  payments: InvoicePayment[];
+}
+
+// An extra line typed into the new invoice form, e.g. detention or lumper
+export interface AccessorialInput {
+  description: string;
+  amount: string;
+}
+
+export type InvoiceStatus = 'open' | 'partial' | 'overdue' | 'paid' | 'void';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  open: 'Open',
+  partial: 'Partially Paid',
+  overdue: 'Overdue',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+export const INVOICE_STATUS_BADGES: Record<InvoiceStatus, string> = {
+  open: 'bg-primary/20 text-primary',
+  partial: 'bg-warning/20 text-warning',
+  overdue: 'bg-destructive/20 text-destructive',
+  paid: 'bg-success/20 text-success',
+  void: 'bg-muted text-muted-foreground line-through',
+};
+
+// Receivables aging columns, by days past the due date. Keys match get_receivables_aging.
+export const AGING_BUCKETS = [
+  { key: 'current_balance', label: 'Current' },
+  { key: 'days_1_30', label: '1-30' },
+  { key: 'days_31_60', label: '31-60' },
+  { key: 'days_61_90', label: '61-90' },
+  { key: 'days_over_90', label: '90+' },
+] as const;
+
+export type AgingBucket = typeof AGING_BUCKETS[number]['key'];
+
+/** "INV-00042" */
+export const formatInvoiceNumber = (invoiceNumber: number): string =>
+  `INV-${String(invoiceNumber).padStart(5, '0')}`;
+
+export const getInvoiceTotal = (invoice: Pick<InvoiceWithDetails, 'lines'>): number =>
+  invoice.lines.reduce((sum, line) => sum + Number(line.amount), 0);
+
+export const getInvoicePaid = (invoice: Pick<InvoiceWithDetails, 'payments'>): number =>
+  invoice.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+// Rounded to cents so a payment of the displayed balance settles the invoice exactly
+export const getInvoiceBalance = (invoice: Pick<InvoiceWithDetails, 'lines' | 'payments'>): number =>
+  Math.round((getInvoiceTotal(invoice) - getInvoicePaid(invoice)) * 100) / 100;
+
+/** Where an invoice stands on a date (YYYY-MM-DD); overdue once unpaid past its due date. */
+export const getInvoiceStatus = (invoice: InvoiceWithDetails, today: string): InvoiceStatus => {
+  if (invoice.voided_at) return 'void';
+  if (getInvoiceBalance(invoice) <= 0) return 'paid';
+  if (invoice.due_date < today) return 'overdue';
+  return invoice.payments.length > 0 ? 'partial' : 'open';
+};
+
+/** Due date for an issue date and a broker's payment terms in days; due on issue without terms. */
+export const getDueDate = (issueDate: string, termsDays: number | null): string =>
+  format(addDays(parseLocalDate(issueDate), termsDays ?? 0), 'yyyy-MM-dd');
+
+/** Why the accessorial lines can't be saved, or null when they can. Blank rows are ignored. */
+export const validateAccessorials = (accessorials: AccessorialInput[]): string | null => {
+  const filled = accessorials.filter(a => a.description.trim() || a.amount);
+  if (filled.some(a => !a.description.trim())) return 'Every accessorial needs a description.';
+  if (filled.some(a => !(parseFloat(a.amount) > 0))) return 'Accessorial amounts must be more than zero.';
+  return null;
+};
+
+/** Accessorial lines as create_invoice takes them, blank rows left out. */
+export const toAccessorialLines = (accessorials: AccessorialInput[]) =>
+  accessorials
+    .filter(a => a.description.trim() && a.amount)
+    .map(a => ({ description: a.description.trim(), amount: parseFloat(a.amount) }));
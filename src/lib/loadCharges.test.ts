@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { LoadCharge, LoadChargeRule } from '@/types';
+import {
+  DEFAULT_CHARGE_FLAGS,
+  chargeInputsFromCharges,
+  describeChargeFlags,
+  formatCharge,
+  getChargeFlags,
+  newLoadCharge,
+  toChargeLines,
+  validateCharges,
+} from '@/lib/loadCharges';
+
+describe('getChargeFlags', () => {
+  it("uses the organization's rule for a type, else the default", () => {
+    const rules = [
+      { charge_type: 'detention', counts_toward_driver_gross: false, counts_toward_commission: true, reimbursement_only: false },
+    ] as LoadChargeRule[];
+
+    expect(getChargeFlags(rules, 'detention')).toEqual({
+      counts_toward_driver_gross: false,
+      counts_toward_commission: true,
+      reimbursement_only: false,
+    });
+    expect(getChargeFlags(rules, 'lumper')).toEqual(DEFAULT_CHARGE_FLAGS.lumper);
+  });
+});
+
+describe('describeChargeFlags', () => {
+  it('lists what a charge counts toward', () => {
+    expect(describeChargeFlags(DEFAULT_CHARGE_FLAGS.detention)).toBe('Driver gross, commission');
+    expect(describeChargeFlags(DEFAULT_CHARGE_FLAGS.lumper)).toBe('Reimbursement');
+    expect(describeChargeFlags({ counts_toward_driver_gross: false, counts_toward_commission: true, reimbursement_only: false })).toBe('Commission');
+    expect(describeChargeFlags({ counts_toward_driver_gross: false, counts_toward_commission: false, reimbursement_only: false })).toBe('Not counted');
+  });
+});
+
+describe('formatCharge', () => {
+  it('adds the description after the type', () => {
+    expect(formatCharge({ charge_type: 'fuel_surcharge', description: null })).toBe('Fuel Surcharge');
+    expect(formatCharge({ charge_type: 'detention', description: '3 hrs at Walmart DC' })).toBe('Detention: 3 hrs at Walmart DC');
+  });
+});
+
+describe('charge rows', () => {
+  it('round-trips saved charges through form rows', () => {
+    const saved = [{ charge_type: 'lumper', description: null, amount: 85.5 }] as LoadCharge[];
+    const rows = chargeInputsFromCharges(saved);
+    expect(rows).toEqual([{ charge_type: 'lumper', description: '', amount: '85.5' }]);
+    expect(toChargeLines(rows)).toEqual([{ charge_type: 'lumper', description: '', amount: 85.5 }]);
+  });
+
+  it('ignores blank rows', () => {
+    const rows = [{ ...newLoadCharge(), amount: '120', description: ' 2 hrs ' }, newLoadCharge('other')];
+    expect(validateCharges(rows)).toBeNull();
+    expect(toChargeLines(rows)).toEqual([{ charge_type: 'detention', description: '2 hrs', amount: 120 }]);
+  });
+
+  it('needs a positive amount on filled rows', () => {
+    expect(validateCharges([{ ...newLoadCharge(), description: 'waited' }])).toBe('Charge amounts must be more than zero.');
+    expect(validateCharges([{ ...newLoadCharge(), amount: '0' }])).toBe('Charge amounts must be more than zero.');
+  });
+});
@@ -0,0 +1,86 @@
+import { LoadCharge, LoadChargeFlags, LoadChargeRule, LoadChargeType } from '@/types';
+
+// A charge as entered in the load form; saved in list order
+export interface LoadChargeInput {
+  charge_type: LoadChargeType;
+  description: string;
+  amount: string;
+}
+
+export const LOAD_CHARGE_TYPES: LoadChargeType[] = ['detention', 'lumper', 'layover', 'fuel_surcharge', 'other'];
+
+export const LOAD_CHARGE_LABELS: Record<LoadChargeType, string> = {
+  detention: 'Detention',
+  lumper: 'Lumper',
+  layover: 'Layover',
+  fuel_surcharge: 'Fuel Surcharge',
+  other: 'Other',
+};
+
+/**
+ * Flags for charge types the organization hasn't set: lumper fees are reimbursed to the
+ * driver, everything else counts toward both. Mirrors load_charge_flags in the database.
+ */
+export const DEFAULT_CHARGE_FLAGS: Record<LoadChargeType, LoadChargeFlags> = {
+  detention: { counts_toward_driver_gross: true, counts_toward_commission: true, reimbursement_only: false },
+  lumper: { counts_toward_driver_gross: false, counts_toward_commission: false, reimbursement_only: true },
+  layover: { counts_toward_driver_gross: true, counts_toward_commission: true, reimbursement_only: false },
+  fuel_surcharge: { counts_toward_driver_gross: true, counts_toward_commission: true, reimbursement_only: false },
+  other: { counts_toward_driver_gross: true, counts_toward_commission: true, reimbursement_only: false },
+};
+
+/** Flags in force for a charge type: the organization's rule, else the default. */
+export const getChargeFlags = (rules: LoadChargeRule[], chargeType: LoadChargeType): LoadChargeFlags => {
+  const rule = rules.find(r => r.charge_type === chargeType);
+  return rule
+    ? {
+        counts_toward_driver_gross: rule.counts_toward_driver_gross,
+        counts_toward_commission: rule.counts_toward_commission,
+        reimbursement_only: rule.reimbursement_only,
+      }
+    : DEFAULT_CHARGE_FLAGS[chargeType];
+};
+
+/** What a charge counts toward, e.g. "Driver gross, commission" or "Reimbursement". */
+export const describeChargeFlags = (flags: LoadChargeFlags): string => {
+  if (flags.reimbursement_only) return 'Reimbursement';
+  const parts = [
+    flags.counts_toward_driver_gross && 'Driver gross',
+    flags.counts_toward_commission && 'commission',
+  ].filter(Boolean) as string[];
+  if (parts.length === 0) return 'Not counted';
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/** "Detention" or "Detention: 3 hrs at Walmart DC". */
+export const formatCharge = (charge: Pick<LoadCharge, 'charge_type' | 'description'>): string =>
+  charge.description ? `${LOAD_CHARGE_LABELS[charge.charge_type]}: ${charge.description}` : LOAD_CHARGE_LABELS[charge.charge_type];
+
+/** An empty charge row of the given type. */
+export const newLoadCharge = (chargeType: LoadChargeType = 'detention'): LoadChargeInput => ({
+  charge_type: chargeType,
+  description: '',
+  amount: '',
+});
+
+/** Form rows for a load's saved charges. */
+export const chargeInputsFromCharges = (charges: LoadCharge[]): LoadChargeInput[] =>
+  charges.map(charge => ({
+    charge_type: charge.charge_type,
+    description: charge.description ?? '',
+    amount: String(charge.amount),
+  }));
+
+/** Why the charges can't be saved, or null when they can. Rows left blank are ignored. */
+export const validateCharges = (charges: LoadChargeInput[]): string | null => {
+  const filled = charges.filter(c => c.description.trim() || c.amount);
+  if (filled.some(c => !(parseFloat(c.amount) > 0))) return 'Charge amounts must be more than zero.';
+  return null;
+};
+
+/** Charges as replace_load_charges takes them, blank rows left out. */
+export const toChargeLines = (charges: LoadChargeInput[]) =>
+  charges
+    .filter(c => c.amount)
+    .map(c => ({ charge_type: c.charge_type, description: c.description.trim(), amount: parseFloat(c.amount) }));
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import { Driver, Load, PayrollPeriod } from '@/types';
+import {
+  ColumnMapping,
+  autoMapColumns,
+  parseImportDate,
+  parseImportLoadType,
+  parseImportMiles,
+  parseImportRate,
+  resolveDriver,
+  validateImportRows,
+} from '@/lib/loadImport';
+
+const makeDriver = (overrides: Partial<Driver>): Driver => ({
+  id: 'driver-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  driver_name: 'John Smith',
+  driver_type: 'owner_operator',
+  status: 'active',
+  truck_number: '101',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const drivers = [
+  makeDriver({}),
+  makeDriver({ id: 'driver-2', driver_name: 'Jane Doe', truck_number: '202' }),
+  makeDriver({ id: 'driver-3', driver_name: 'Jane Doe', truck_number: null }),
+];
+
+describe('autoMapColumns', () => {
+  it('maps headers by field name and alias, ignoring case and punctuation', () => {
+    const mapping = autoMapColumns(['Load #', 'PU Date', 'Del. Date', 'From', 'To', 'Linehaul', 'Truck No', 'Miles', 'Notes']);
+    expect(mapping).toMatchObject({
+      load_id: 0,
+      pickup_date: 1,
+      delivery_date: 2,
+      origin: 3,
+      destination: 4,
+      rate: 5,
+      driver: 6,
+      loaded_miles: 7,
+      load_type: null,
+      deadhead_miles: null,
+      connected_full_load_id: null,
+    });
+  });
+
+  it('maps each column to one field only', () => {
+    const mapping = autoMapColumns(['Pickup', 'Pickup']);
+    expect(mapping.pickup_date).toBe(0);
+    expect(mapping.origin).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it.each([
+    ['2025-03-04', '2025-03-04'],
+    ['2025/3/4', '2025-03-04'],
+    ['03/04/2025', '2025-03-04'],
+    ['3-4-25', '2025-03-04'],
+    [' 12/31/2024 ', '2024-12-31'],
+  ])('reads %s', (value, expected) => {
+    expect(parseImportDate(value)).toBe(expected);
+  });
+
+  it.each(['02/30/2025', '2025-13-01', '4 March 2025', ''])('rejects %s', value => {
+    expect(parseImportDate(value)).toBeNull();
+  });
+});
+
+describe('parseImportRate', () => {
+  it('reads amounts with a dollar sign and thousands separators', () => {
+    expect(parseImportRate('$1,250.50')).toBe(1250.5);
+    expect(parseImportRate('900')).toBe(900);
+  });
+
+  it('rejects blank, negative and malformed amounts', () => {
+    expect(parseImportRate('')).toBeNull();
+    expect(parseImportRate('-100')).toBeNull();
+    expect(parseImportRate('12.5.0')).toBeNull();
+  });
+});
+
+describe('parseImportMiles', () => {
+  it('rounds to whole miles and treats blank as unknown', () => {
+    expect(parseImportMiles('1,204.6')).toBe(1205);
+    expect(parseImportMiles(' ')).toBeNull();
+    expect(parseImportMiles('n/a')).toBeUndefined();
+  });
+});
+
+describe('parseImportLoadType', () => {
+  it('reads FULL and PARTIAL with their common abbreviations', () => {
+    expect(parseImportLoadType('')).toBe('FULL');
+    expect(parseImportLoadType('ftl')).toBe('FULL');
+    expect(parseImportLoadType('LTL')).toBe('PARTIAL');
+    expect(parseImportLoadType('ptl')).toBe('PARTIAL');
+    expect(parseImportLoadType('reefer')).toBeNull();
+  });
+});
+
+describe('resolveDriver', () => {
+  it('matches truck numbers before names', () => {
+    expect(resolveDriver(drivers, '202').driver?.id).toBe('driver-2');
+    expect(resolveDriver(drivers, ' john smith ').driver?.id).toBe('driver-1');
+  });
+
+  it('reports missing, unknown and ambiguous drivers', () => {
+    expect(resolveDriver(drivers, '').error).toBe('Driver is required.');
+    expect(resolveDriver(drivers, '999').error).toBe('No driver with truck № or name "999".');
+    expect(resolveDriver(drivers, 'Jane Doe').error).toBe('"Jane Doe" matches several drivers.');
+  });
+});
+
+describe('validateImportRows', () => {
+  const headers = ['Load ID', 'Pickup Date', 'Delivery Date', 'Origin', 'Destination', 'Rate', 'Load Type', 'Driver', 'Connected FULL Load ID'];
+  const mapping: ColumnMapping = autoMapColumns(headers);
+  const row = (loadId: string, overrides: Partial<Record<'type' | 'connected' | 'delivery' | 'rate', string>> = {}) => [
+    loadId,
+    '03/03/2025',
+    overrides.delivery ?? '03/04/2025',
+    'Chicago, IL',
+    'Dallas, TX',
+    overrides.rate ?? '$2,000',
+    overrides.type ?? '',
+    '101',
+    overrides.connected ?? '',
+  ];
+
+  const existingLoads = [
+    { id: 'existing-full', load_id: 'OLD-1', load_type: 'FULL' },
+    { id: 'existing-partial', load_id: 'OLD-2', load_type: 'PARTIAL' },
+  ] as Load[];
+  const payrollPeriods = [{ start_date: '2025-02-24', end_date: '2025-03-02' }] as PayrollPeriod[];
+  const context = { drivers, loads: existingLoads, payrollPeriods };
+
+  it('builds loads from valid rows, numbered after the header', () => {
+    const [result] = validateImportRows([row('A-1')], mapping, context);
+    expect(result.rowNumber).toBe(2);
+    expect(result.errors).toEqual([]);
+    expect(result.driverName).toBe('John Smith');
+    expect(result.load).toMatchObject({
+      load_id: 'A-1',
+      pickup_date: '2025-03-03',
+      delivery_date: '2025-03-04',
+      rate: 2000,
+      load_type: 'FULL',
+      driver_id: 'driver-1',
+      connected_full_load_id: null,
+      loaded_miles: null,
+    });
+  });
+
+  it('collects every problem on a row', () => {
+    const [result] = validateImportRows([row('old-1', { rate: 'TBD', delivery: '03/01/2025' })], mapping, context);
+    expect(result.load).toBeNull();
+    expect(result.errors).toEqual([
+      'Delivery date is in a closed payroll period.',
+      'Rate "TBD" is not a valid amount.',
+      'Load ID "old-1" already exists.',
+    ]);
+  });
+
+  it('flags Load IDs repeated in the file', () => {
+    const results = validateImportRows([row('A-1'), row('a-1')], mapping, context);
+    expect(results.map(r => r.errors)).toEqual([
+      ['Load ID "A-1" appears more than once in the file.'],
+      ['Load ID "a-1" appears more than once in the file.'],
+    ]);
+  });
+
+  it('links PARTIAL loads to existing FULL loads and FULL rows of the file', () => {
+    const results = validateImportRows(
+      [
+        row('A-1'),
+        row('P-1', { type: 'PARTIAL', connected: 'a-1' }),
+        row('P-2', { type: 'PARTIAL', connected: 'OLD-1' }),
+      ],
+      mapping,
+      context
+    );
+    expect(results[1].load?.connected_full_load_id).toBe(results[0].load?.id);
+    expect(results[2].load?.connected_full_load_id).toBe('existing-full');
+  });
+
+  it('explains PARTIAL links that cannot be made', () => {
+    const results = validateImportRows(
+      [
+        row('B-1', { rate: '' }),
+        row('P-0', { type: 'PARTIAL' }),
+        row('P-1', { type: 'PARTIAL', connected: 'NOPE' }),
+        row('P-2', { type: 'PARTIAL', connected: 'OLD-2' }),
+        row('P-3', { type: 'PARTIAL', connected: 'B-1' }),
+      ],
+      mapping,
+      context
+    );
+    expect(results.map(r => r.errors)).toEqual([
+      ['Rate is required.'],
+      ['PARTIAL loads must be linked to a FULL load.'],
+      ['FULL load "NOPE" does not exist.'],
+      ['Load "OLD-2" is not a FULL load.'],
+      ['Linked FULL load "B-1" has errors and will not be imported.'],
+    ]);
+  });
+});
@@ -0,0 +1,266 @@
+import { Driver, Load, LoadChargeTotalField, LoadType, PayrollPeriod } from '@/types';
+import { isDateLocked } from '@/lib/payroll';
+
+export type ImportField =
+  | 'load_id'
+  | 'pickup_date'
+  | 'delivery_date'
+  | 'origin'
+  | 'destination'
+  | 'rate'
+  | 'load_type'
+  | 'driver'
+  | 'connected_full_load_id'
+  | 'loaded_miles'
+  | 'deadhead_miles';
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  hint?: string;
+  // Normalized header names recognised when mapping columns automatically
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'load_id', label: 'Load ID', required: true, aliases: ['loadid', 'load', 'loadnumber', 'loadno', 'reference', 'ref', 'pro', 'pronumber'] },
+  { field: 'pickup_date', label: 'Pickup Date', required: true, aliases: ['pickupdate', 'pickup', 'pudate', 'shipdate'] },
+  { field: 'delivery_date', label: 'Delivery Date', required: true, aliases: ['deliverydate', 'delivery', 'deldate', 'dropdate'] },
+  { field: 'origin', label: 'Origin', required: true, aliases: ['origin', 'from', 'pickupcity', 'shipper'] },
+  { field: 'destination', label: 'Destination', required: true, aliases: ['destination', 'dest', 'to', 'deliverycity', 'consignee'] },
+  { field: 'rate', label: 'Rate', required: true, aliases: ['rate', 'gross', 'amount', 'linehaul', 'total', 'pay'] },
+  { field: 'load_type', label: 'Load Type', required: false, hint: 'Blank means FULL', aliases: ['loadtype', 'type', 'mode'] },
+  { field: 'driver', label: 'Driver (Truck № or Name)', required: true, aliases: ['driver', 'drivername', 'truck', 'trucknumber', 'truckno', 'unit', 'unitnumber'] },
+  { field: 'connected_full_load_id', label: 'Connected FULL Load ID', required: false, hint: 'Required for PARTIAL loads', aliases: ['connectedfullloadid', 'connectedload', 'fullloadid', 'parentload', 'linkedload'] },
+  { field: 'loaded_miles', label: 'Loaded Miles', required: false, aliases: ['loadedmiles', 'miles', 'loadmiles', 'distance'] },
+  { field: 'deadhead_miles', label: 'Deadhead Miles', required: false, aliases: ['deadheadmiles', 'deadhead', 'dhmiles', 'dh', 'emptymiles'] },
+];
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/** A load ready to insert; its id is generated up front so PARTIAL rows can link to FULL rows of the same file. */
+export type ImportedLoad = Omit<Load, 'organization_id' | 'user_id' | 'created_at' | 'updated_at' | 'updated_by' | 'status' | 'cancellation_reason' | 'tonu_amount' | LoadChargeTotalField>;
+
+export interface ImportRow {
+  rowNumber: number;
+  load: ImportedLoad | null;
+  driverName: string | null;
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Map each field onto the first unused column whose header matches one of its aliases. */
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const candidates = [normalizeHeader(field), ...aliases];
+    const index = candidates
+      .map(alias => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i !== -1);
+
+    mapping[field] = index ?? null;
+    if (index !== undefined) used.add(index);
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Parse YYYY-MM-DD, YYYY/MM/DD, MM/DD/YYYY or MM/DD/YY into YYYY-MM-DD, or null. */
+export const parseImportDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const isoMatch = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  const usMatch = trimmed.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2}|\d{4})$/);
+
+  if (isoMatch) {
+    [year, month, day] = isoMatch.slice(1).map(Number);
+  } else if (usMatch) {
+    [month, day, year] = usMatch.slice(1).map(Number);
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/** Parse an amount such as "$1,250.00", or null. */
+export const parseImportRate = (value: string): number | null => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (cleaned === '' || !/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
+
+/** Parse a whole number of miles such as "1,204". Blank means unknown (null); undefined when malformed. */
+export const parseImportMiles = (value: string): number | null | undefined => {
+  const cleaned = value.replace(/[,\s]/g, '');
+  if (cleaned === '') return null;
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return undefined;
+  return Math.round(parseFloat(cleaned));
+};
+
+/** Parse a load type (FULL/FTL or PARTIAL/LTL/PTL). Blank means FULL. */
+export const parseImportLoadType = (value: string): LoadType | null => {
+  const normalized = value.trim().toUpperCase();
+  if (normalized === '' || normalized === 'FULL' || normalized === 'FTL') return 'FULL';
+  if (normalized === 'PARTIAL' || normalized === 'LTL' || normalized === 'PTL') return 'PARTIAL';
+  return null;
+};
+
+/** Find a driver by truck number first, then by name (both case-insensitive). */
+export const resolveDriver = (drivers: Driver[], value: string): { driver: Driver | null; error: string | null } => {
+  const needle = value.trim().toLowerCase();
+  if (!needle) return { driver: null, error: 'Driver is required.' };
+
+  const byTruck = drivers.filter(d => d.truck_number?.trim().toLowerCase() === needle);
+  const matches = byTruck.length > 0 ? byTruck : drivers.filter(d => d.driver_name.trim().toLowerCase() === needle);
+
+  if (matches.length === 0) return { driver: null, error: `No driver with truck № or name "${value.trim()}".` };
+  if (matches.length > 1) return { driver: null, error: `"${value.trim()}" matches several drivers.` };
+  return { driver: matches[0], error: null };
+};
+
+interface ValidationContext {
+  drivers: Driver[];
+  loads: Load[];
+  payrollPeriods: PayrollPeriod[];
+}
+
+/**
+ * Turn mapped CSV rows into loads, collecting every problem per row: missing or
+ * malformed values, unknown drivers, Load IDs that already exist or repeat in the
+ * file, PARTIAL loads without a FULL load to link to, and closed payroll periods.
+ */
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  { drivers, loads, payrollPeriods }: ValidationContext
+): ImportRow[] => {
+  const existingLoadIds = new Set(loads.map(l => l.load_id.toLowerCase()));
+  const existingFullLoads = new Map(
+    loads.filter(l => l.load_type === 'FULL').map(l => [l.load_id.toLowerCase(), l.id] as const)
+  );
+  const fileLoadIdCounts = new Map<string, number>();
+
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  rows.forEach(row => {
+    const loadId = cell(row, 'load_id').toLowerCase();
+    if (loadId) fileLoadIdCounts.set(loadId, (fileLoadIdCounts.get(loadId) ?? 0) + 1);
+  });
+
+  const result: ImportRow[] = rows.map((row, i) => {
+    const errors: string[] = [];
+    const required = (field: ImportField, label: string) => {
+      const value = cell(row, field);
+      if (!value) errors.push(`${label} is required.`);
+      return value;
+    };
+
+    const loadId = required('load_id', 'Load ID');
+    const origin = required('origin', 'Origin');
+    const destination = required('destination', 'Destination');
+
+    const pickupRaw = required('pickup_date', 'Pickup date');
+    const deliveryRaw = required('delivery_date', 'Delivery date');
+    const pickupDate = pickupRaw ? parseImportDate(pickupRaw) : null;
+    const deliveryDate = deliveryRaw ? parseImportDate(deliveryRaw) : null;
+    if (pickupRaw && !pickupDate) errors.push(`Pickup date "${pickupRaw}" is not a valid date.`);
+    if (deliveryRaw && !deliveryDate) errors.push(`Delivery date "${deliveryRaw}" is not a valid date.`);
+    if (deliveryDate && isDateLocked(payrollPeriods, deliveryDate)) {
+      errors.push('Delivery date is in a closed payroll period.');
+    }
+
+    const rateRaw = required('rate', 'Rate');
+    const rate = rateRaw ? parseImportRate(rateRaw) : null;
+    if (rateRaw && rate === null) errors.push(`Rate "${rateRaw}" is not a valid amount.`);
+
+    const loadedMilesRaw = cell(row, 'loaded_miles');
+    const loadedMiles = parseImportMiles(loadedMilesRaw);
+    if (loadedMiles === undefined) errors.push(`Loaded miles "${loadedMilesRaw}" is not a valid number.`);
+    const deadheadMilesRaw = cell(row, 'deadhead_miles');
+    const deadheadMiles = parseImportMiles(deadheadMilesRaw);
+    if (deadheadMiles === undefined) errors.push(`Deadhead miles "${deadheadMilesRaw}" is not a valid number.`);
+
+    const loadTypeRaw = cell(row, 'load_type');
+    const loadType = parseImportLoadType(loadTypeRaw);
+    if (!loadType) errors.push(`Load type "${loadTypeRaw}" must be FULL or PARTIAL.`);
+
+    const { driver, error: driverError } = resolveDriver(drivers, cell(row, 'driver'));
+    if (driverError) errors.push(driverError);
+
+    if (loadId && existingLoadIds.has(loadId.toLowerCase())) {
+      errors.push(`Load ID "${loadId}" already exists.`);
+    } else if (loadId && (fileLoadIdCounts.get(loadId.toLowerCase()) ?? 0) > 1) {
+      errors.push(`Load ID "${loadId}" appears more than once in the file.`);
+    }
+
+    const connectedRaw = cell(row, 'connected_full_load_id');
+    if (loadType === 'PARTIAL' && !connectedRaw) {
+      errors.push('PARTIAL loads must be linked to a FULL load.');
+    }
+
+    return {
+      rowNumber: i + 2, // header is row 1
+      driverName: driver?.driver_name ?? null,
+      errors,
+      load: errors.length > 0 ? null : {
+        id: crypto.randomUUID(),
+        load_id: loadId,
+        pickup_date: pickupDate!,
+        delivery_date: deliveryDate!,
+        origin,
+        destination,
+        rate: rate!,
+        load_type: loadType!,
+        driver_id: driver!.id,
+        connected_full_load_id: loadType === 'PARTIAL' ? connectedRaw : null,
+        broker_id: null,
+        loaded_miles: loadedMiles ?? null,
+        deadhead_miles: deadheadMiles ?? null,
+      },
+    };
+  });
+
+  // Resolve PARTIAL links against existing FULL loads or FULL rows of this file
+  const fileFullLoads = new Map(
+    result
+      .filter(r => r.load?.load_type === 'FULL')
+      .map(r => [r.load!.load_id.toLowerCase(), r.load!.id] as const)
+  );
+  const fileLoadTypes = new Map(
+    rows.map(row => [cell(row, 'load_id').toLowerCase(), parseImportLoadType(cell(row, 'load_type'))] as const)
+  );
+
+  return result.map(r => {
+    if (!r.load || r.load.load_type !== 'PARTIAL') return r;
+
+    const target = r.load.connected_full_load_id!;
+    const key = target.toLowerCase();
+    const linkedId = existingFullLoads.get(key) ?? fileFullLoads.get(key);
+    if (linkedId) {
+      return { ...r, load: { ...r.load, connected_full_load_id: linkedId } };
+    }
+
+    let error = `FULL load "${target}" does not exist.`;
+    if (existingLoadIds.has(key) || fileLoadTypes.get(key) === 'PARTIAL') {
+      error = `Load "${target}" is not a FULL load.`;
+    } else if (fileLoadTypes.has(key)) {
+      error = `Linked FULL load "${target}" has errors and will not be imported.`;
+    }
+    return { ...r, load: null, errors: [error] };
+  });
+};
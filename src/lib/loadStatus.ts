@@ -0,0 +1,72 @@
+import { Load, LoadStatus } from '@/types';
+
+// Lifecycle order, used for filters and the status menu
+export const LOAD_STATUSES: LoadStatus[] = ['booked', 'in_transit', 'delivered', 'invoiced', 'paid', 'cancelled'];
+
+export const LOAD_STATUS_LABELS: Record<LoadStatus, string> = {
+  booked: 'Booked',
+  in_transit: 'In Transit',
+  delivered: 'Delivered',
+  invoiced: 'Invoiced',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+};
+
+export const LOAD_STATUS_BADGES: Record<LoadStatus, string> = {
+  booked: 'bg-muted text-muted-foreground',
+  in_transit: 'bg-primary/20 text-primary',
+  delivered: 'bg-success/20 text-success',
+  invoiced: 'bg-warning/20 text-warning',
+  paid: 'bg-success/20 text-success',
+  cancelled: 'bg-destructive/20 text-destructive line-through',
+};
+
+/**
+ * Statuses a load can move to next, including one step back to correct a mistake.
+ * Mirrors load_status_transition_allowed in the database, which rejects anything else.
+ */
+export const LOAD_STATUS_TRANSITIONS: Record<LoadStatus, LoadStatus[]> = {
+  booked: ['in_transit', 'cancelled'],
+  in_transit: ['delivered', 'booked', 'cancelled'],
+  delivered: ['invoiced', 'in_transit'],
+  invoiced: ['paid', 'delivered'],
+  paid: ['invoiced'],
+  cancelled: ['booked'],
+};
+
+/**
+ * Whether loads in a status count toward weekly gross, commission and automatic bonuses.
+ * Mirrors load_counts_toward_gross in the database. Loads from payroll snapshots taken
+ * before statuses existed have none and count.
+ */
+export const countsTowardGross = (status: LoadStatus | undefined): boolean => status !== 'cancelled';
+
+/**
+ * Whether a load adds to gross at all: loads in a counting status, plus cancelled loads
+ * the broker paid a TONU (truck ordered, not used) fee on. Mirrors is_gross_load.
+ */
+export const isGrossLoad = (load: Pick<Load, 'status' | 'tonu_amount'>): boolean =>
+  countsTowardGross(load.status) || load.tonu_amount != null;
+
+/** Amount a load adds to gross: its rate, or its TONU fee once cancelled. Mirrors load_gross. */
+export const getLoadGross = (load: Pick<Load, 'status' | 'rate' | 'tonu_amount'>): number =>
+  countsTowardGross(load.status) ? Number(load.rate) : Number(load.tonu_amount ?? 0);
+
+// Charges only count while the load does; a cancelled load's TONU fee stands alone
+const countedCharges = (load: Pick<Load, 'status'>, charges: number | undefined) =>
+  countsTowardGross(load.status) ? Number(charges ?? 0) : 0;
+
+/**
+ * Amount a load adds to its driver's gross, weekly bonus tiers included: its gross plus
+ * the charges that count toward driver gross. Mirrors load_gross_with_charges.
+ */
+export const getLoadDriverGross = (load: Pick<Load, 'status' | 'rate' | 'tonu_amount' | 'driver_gross_charges'>): number =>
+  getLoadGross(load) + countedCharges(load, load.driver_gross_charges);
+
+/** Amount dispatcher commission is earned on: the load's gross plus the charges that count toward commission. */
+export const getLoadCommissionGross = (load: Pick<Load, 'status' | 'rate' | 'tonu_amount' | 'commission_charges'>): number =>
+  getLoadGross(load) + countedCharges(load, load.commission_charges);
+
+/** Pass-through reimbursements owed to the driver on a load, such as a lumper fee they paid. */
+export const getLoadReimbursement = (load: Pick<Load, 'status' | 'reimbursement_charges'>): number =>
+  countedCharges(load, load.reimbursement_charges);
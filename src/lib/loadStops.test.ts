@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LoadStopInput,
+  formatCompactRoute,
+  formatStopLocation,
+  formatStopWindow,
+  newLoadStop,
+  stopsFromLoad,
+  summarizeStops,
+  validateStops,
+} from '@/lib/loadStops';
+
+const stop = (stopType: LoadStopInput['stop_type'], city: string, state: string | null, date: string): LoadStopInput => ({
+  ...newLoadStop(stopType, date),
+  city,
+  state,
+});
+
+describe('formatStopLocation', () => {
+  it('adds the state when there is one', () => {
+    expect(formatStopLocation({ city: 'Chicago', state: 'IL' })).toBe('Chicago, IL');
+    expect(formatStopLocation({ city: 'Chicago', state: null })).toBe('Chicago');
+  });
+});
+
+describe('stopsFromLoad', () => {
+  it('splits origin and destination at the last comma', () => {
+    const stops = stopsFromLoad({
+      origin: 'Washington, DC, US',
+      destination: 'Dallas',
+      pickup_date: '2025-03-03',
+      delivery_date: '2025-03-05',
+    });
+    expect(stops).toEqual([
+      { ...newLoadStop('pickup', '2025-03-03'), city: 'Washington, DC', state: 'US' },
+      { ...newLoadStop('delivery', '2025-03-05'), city: 'Dallas', state: null },
+    ]);
+  });
+});
+
+describe('summarizeStops', () => {
+  it('takes the first pickup and the last delivery', () => {
+    const stops = [
+      stop('pickup', 'Chicago', 'IL', '2025-03-03'),
+      stop('pickup', 'Gary', 'IN', '2025-03-03'),
+      stop('delivery', 'Memphis', 'TN', '2025-03-04'),
+      stop('delivery', 'Dallas', 'TX', '2025-03-05'),
+    ];
+    expect(summarizeStops(stops)).toEqual({
+      origin: 'Chicago, IL',
+      destination: 'Dallas, TX',
+      pickup_date: '2025-03-03',
+      delivery_date: '2025-03-05',
+    });
+  });
+});
+
+describe('validateStops', () => {
+  const route = [stop('pickup', 'Chicago', 'IL', '2025-03-03'), stop('delivery', 'Dallas', 'TX', '2025-03-05')];
+
+  it('accepts a pickup followed by a delivery', () => {
+    expect(validateStops(route)).toBeNull();
+  });
+
+  it('needs a pickup first and a delivery last', () => {
+    expect(validateStops(route.slice(0, 1))).toBe('A route starts with a pickup and ends with a delivery.');
+    expect(validateStops([...route].reverse())).toBe('A route starts with a pickup and ends with a delivery.');
+  });
+
+  it('needs a city and date on every stop', () => {
+    expect(validateStops([route[0], { ...route[1], city: ' ' }])).toBe('Every stop needs a city and an appointment date.');
+  });
+
+  it('needs stops in date order', () => {
+    expect(validateStops([route[0], { ...route[1], appointment_date: '2025-03-02' }])).toBe('Stops must be in date order.');
+  });
+
+  it('needs appointment windows to end after they start', () => {
+    const late = { ...route[1], window_start: '14:00:00', window_end: '08:00:00' };
+    expect(validateStops([route[0], late])).toBe('An appointment window ends before it starts.');
+  });
+});
+
+describe('formatCompactRoute', () => {
+  it('counts the stops between the ends', () => {
+    const chicago = { city: 'Chicago', state: 'IL' };
+    const memphis = { city: 'Memphis', state: 'TN' };
+    const dallas = { city: 'Dallas', state: 'TX' };
+    expect(formatCompactRoute([])).toBe('');
+    expect(formatCompactRoute([chicago, dallas])).toBe('Chicago, IL → Dallas, TX');
+    expect(formatCompactRoute([chicago, memphis, memphis, dallas])).toBe('Chicago, IL → +2 → Dallas, TX');
+  });
+});
+
+describe('formatStopWindow', () => {
+  it('shows whichever ends of the window are set', () => {
+    expect(formatStopWindow({ window_start: '08:00:00', window_end: '12:00:00' })).toBe('08:00-12:00');
+    expect(formatStopWindow({ window_start: '08:00:00', window_end: null })).toBe('from 08:00');
+    expect(formatStopWindow({ window_start: null, window_end: '12:00:00' })).toBe('until 12:00');
+    expect(formatStopWindow({ window_start: null, window_end: null })).toBe('');
+  });
+});
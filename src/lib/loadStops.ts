@@ -0,0 +1,87 @@
+import { Load, LoadStop, LoadStopType } from '@/types';
+
+// A stop as entered in the load form; saved in list order
+export type LoadStopInput = Pick<LoadStop, 'stop_type' | 'city' | 'state' | 'appointment_date' | 'window_start' | 'window_end'>;
+
+export const LOAD_STOP_LABELS: Record<LoadStopType, string> = {
+  pickup: 'Pickup',
+  delivery: 'Delivery',
+};
+
+/** "Chicago, IL", or just the city when no state was given. */
+export const formatStopLocation = (stop: Pick<LoadStop, 'city' | 'state'>): string =>
+  stop.state ? `${stop.city}, ${stop.state}` : stop.city;
+
+/** Split "Chicago, IL" at the last comma into city and state. */
+const parseLocation = (location: string): Pick<LoadStop, 'city' | 'state'> => {
+  const comma = location.lastIndexOf(',');
+  if (comma === -1) return { city: location.trim(), state: null };
+  return { city: location.slice(0, comma).trim(), state: location.slice(comma + 1).trim() || null };
+};
+
+/** An empty stop of the given type on a date (YYYY-MM-DD). */
+export const newLoadStop = (stopType: LoadStopType, date: string): LoadStopInput => ({
+  stop_type: stopType,
+  city: '',
+  state: null,
+  appointment_date: date,
+  window_start: null,
+  window_end: null,
+});
+
+/** The single pickup and delivery a load without saved stops (e.g. an imported one) stands for. */
+export const stopsFromLoad = (load: Pick<Load, 'origin' | 'destination' | 'pickup_date' | 'delivery_date'>): LoadStopInput[] => [
+  { ...newLoadStop('pickup', load.pickup_date), ...parseLocation(load.origin) },
+  { ...newLoadStop('delivery', load.delivery_date), ...parseLocation(load.destination) },
+];
+
+/**
+ * Origin, destination and dates the load row keeps for its stops: the first pickup and
+ * the last delivery. Weekly gross and bonuses go by that final delivery date. Mirrors
+ * replace_load_stops, which sets them on the load when the stops are saved.
+ */
+export const summarizeStops = (stops: LoadStopInput[]): Pick<Load, 'origin' | 'destination' | 'pickup_date' | 'delivery_date'> => {
+  const pickup = stops.find(s => s.stop_type === 'pickup') ?? stops[0];
+  const delivery = [...stops].reverse().find(s => s.stop_type === 'delivery') ?? stops[stops.length - 1];
+  return {
+    origin: formatStopLocation(pickup),
+    destination: formatStopLocation(delivery),
+    pickup_date: pickup.appointment_date,
+    delivery_date: delivery.appointment_date,
+  };
+};
+
+/** Why a route can't be saved, or null when it can. Mirrors the checks in replace_load_stops. */
+export const validateStops = (stops: LoadStopInput[]): string | null => {
+  if (stops.length < 2 || stops[0].stop_type !== 'pickup' || stops[stops.length - 1].stop_type !== 'delivery') {
+    return 'A route starts with a pickup and ends with a delivery.';
+  }
+  if (stops.some(s => !s.city.trim() || !s.appointment_date)) {
+    return 'Every stop needs a city and an appointment date.';
+  }
+  if (stops.some((s, i) => i > 0 && s.appointment_date < stops[i - 1].appointment_date)) {
+    return 'Stops must be in date order.';
+  }
+  if (stops.some(s => s.window_start && s.window_end && s.window_end < s.window_start)) {
+    return 'An appointment window ends before it starts.';
+  }
+  return null;
+};
+
+/** "Chicago, IL → +2 → Dallas, TX": the ends of the route with the stops in between counted. */
+export const formatCompactRoute = (stops: Pick<LoadStop, 'city' | 'state'>[]): string => {
+  if (stops.length === 0) return '';
+  const first = formatStopLocation(stops[0]);
+  const last = formatStopLocation(stops[stops.length - 1]);
+  return stops.length > 2 ? `${first} → +${stops.length - 2} → ${last}` : `${first} → ${last}`;
+};
+
+/** "08:00-12:00", "from 08:00", "until 12:00" or '' for a stop's appointment window. */
+export const formatStopWindow = (stop: Pick<LoadStop, 'window_start' | 'window_end'>): string => {
+  const start = stop.window_start?.slice(0, 5);
+  const end = stop.window_end?.slice(0, 5);
+  if (start && end) return `${start}-${end}`;
+  if (start) return `from ${start}`;
+  if (end) return `until ${end}`;
+  return '';
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Load } from '@/types';
+import {
+  calculateRpm,
+  estimateRouteMiles,
+  formatRpm,
+  getLoadAllInRpm,
+  getLoadRpm,
+  getMileageRpm,
+  haversineMiles,
+} from '@/lib/mileage';
+
+const makeLoad = (overrides: Partial<Load>): Load => ({
+  id: 'load-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  load_id: 'L-1',
+  driver_id: 'driver-1',
+  pickup_date: '2025-03-03',
+  delivery_date: '2025-03-04',
+  origin: 'Chicago, IL',
+  destination: 'Dallas, TX',
+  rate: 2000,
+  load_type: 'FULL',
+  connected_full_load_id: null,
+  broker_id: null,
+  status: 'delivered',
+  cancellation_reason: null,
+  tonu_amount: null,
+  loaded_miles: 800,
+  deadhead_miles: 200,
+  charges_total: 0,
+  driver_gross_charges: 0,
+  commission_charges: 0,
+  reimbursement_charges: 0,
+  created_at: '2025-03-03T00:00:00Z',
+  updated_at: '2025-03-03T00:00:00Z',
+  updated_by: null,
+  ...overrides,
+});
+
+describe('rate per mile', () => {
+  it('divides gross by miles, or has none without miles', () => {
+    expect(calculateRpm(2000, 800)).toBe(2.5);
+    expect(calculateRpm(2000, 0)).toBeNull();
+    expect(calculateRpm(2000, null)).toBeNull();
+  });
+
+  it('includes deadhead in the all-in rate of a load', () => {
+    const load = makeLoad({});
+    expect(getLoadRpm(load)).toBe(2.5);
+    expect(getLoadAllInRpm(load)).toBe(2);
+    expect(getLoadAllInRpm(makeLoad({ deadhead_miles: null }))).toBe(2.5);
+  });
+
+  it('has no rate for cancelled loads or loads without loaded miles', () => {
+    expect(getLoadRpm(makeLoad({ status: 'cancelled', tonu_amount: 250 }))).toBeNull();
+    expect(getLoadAllInRpm(makeLoad({ loaded_miles: null }))).toBeNull();
+  });
+
+  it('works over mileage totals', () => {
+    expect(getMileageRpm({ mileage_gross: 5000, loaded_miles: 2000, deadhead_miles: 500 })).toEqual({ rpm: 2.5, allInRpm: 2 });
+  });
+
+  it('formats to cents', () => {
+    expect(formatRpm(2.456)).toBe('$2.46');
+    expect(formatRpm(null)).toBe('-');
+  });
+});
+
+describe('haversineMiles', () => {
+  it('measures the great-circle distance', () => {
+    expect(haversineMiles([41.88, -87.63], [41.88, -87.63])).toBe(0);
+    // One degree of latitude is about 69 miles
+    expect(haversineMiles([40, -90], [41, -90])).toBeCloseTo(69.09, 1);
+  });
+});
+
+describe('estimateRouteMiles', () => {
+  const chicago = { city: 'Chicago', state: 'IL' };
+  const dallas = { city: 'Dallas', state: 'TX' };
+
+  it('estimates road miles between listed cities', async () => {
+    const miles = await estimateRouteMiles([chicago, dallas]);
+    expect(miles).toBeGreaterThan(900);
+    expect(miles).toBeLessThan(1000);
+  });
+
+  it('adds up every leg of the route', async () => {
+    const direct = await estimateRouteMiles([chicago, dallas]);
+    const viaStLouis = await estimateRouteMiles([chicago, { city: 'saint louis', state: 'mo' }, dallas]);
+    expect(viaStLouis).toBeGreaterThan(direct!);
+  });
+
+  it('locates stops by ZIP code, falling back to the first three digits', async () => {
+    const byCity = await estimateRouteMiles([chicago, dallas]);
+    const byZip5 = await estimateRouteMiles([{ city: '60601', state: null }, { city: 'Dallas', state: 'TX 75201-4605' }]);
+    // 60699 is not a ZIP Code Tabulation Area, but other 606xx ZIPs are
+    const byZip3 = await estimateRouteMiles([{ city: 'Somewhere 60699', state: 'IL' }, dallas]);
+
+    expect(Math.abs(byZip5! - byCity!)).toBeLessThan(20);
+    expect(Math.abs(byZip3! - byCity!)).toBeLessThan(30);
+  });
+
+  it('has no estimate when a stop cannot be located', async () => {
+    expect(await estimateRouteMiles([chicago, { city: 'Nowhere', state: 'TX' }])).toBeNull();
+    expect(await estimateRouteMiles([chicago])).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { Load, LoadStop } from '@/types';
+import { countsTowardGross } from '@/lib/loadStatus';
+
+// Road miles run about this much longer than the straight line between two cities
+const ROAD_CIRCUITY = 1.18;
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Miles and the gross of the loads they were driven for; loads without loaded miles are left out
+export interface MileageTotals {
+  mileage_gross: number;
+  loaded_miles: number;
+  deadhead_miles: number;
+}
+
+/** Revenue per mile, or null without miles to divide by. */
+export const calculateRpm = (gross: number, miles: number | null | undefined): number | null =>
+  miles ? gross / miles : null;
+
+/** Rate per loaded mile of a load; cancelled loads and loads without miles have none. */
+export const getLoadRpm = (load: Load): number | null =>
+  countsTowardGross(load.status) ? calculateRpm(Number(load.rate), load.loaded_miles) : null;
+
+/** Rate per mile including the deadhead driven to reach the load. */
+export const getLoadAllInRpm = (load: Load): number | null =>
+  countsTowardGross(load.status) && load.loaded_miles
+    ? calculateRpm(Number(load.rate), load.loaded_miles + (load.deadhead_miles ?? 0))
+    : null;
+
+/** RPM and all-in RPM over mileage totals. */
+export const getMileageRpm = (totals: MileageTotals) => ({
+  rpm: calculateRpm(totals.mileage_gross, totals.loaded_miles),
+  allInRpm: calculateRpm(totals.mileage_gross, totals.loaded_miles + totals.deadhead_miles),
+});
+
+/** "$2.45", or "-" without a rate per mile. */
+export const formatRpm = (rpm: number | null): string => (rpm === null ? '-' : `$${rpm.toFixed(2)}`);
+
+// A ZIP code anywhere in a stop's city or state, e.g. "60601" or "Chicago 60601-1234"
+const ZIP_PATTERN = /\b(\d{5})(?:-\d{4})?\b/;
+
+// "St. Louis", "st louis" and "Saint Louis" all match
+const normalizeCity = (city: string) =>
+  city.replace(ZIP_PATTERN, '').trim().toLowerCase().replace(/^(st\.?|saint)\s+/, 'saint ').replace(/\s+/g, ' ');
+
+const cityKey = (city: string, state: string) => `${normalizeCity(city)}|${state.trim().toUpperCase()}`;
+
+type Point = [lat: number, lon: number];
+
+interface CentroidIndex {
+  cities: Map<string, Point>;
+  zip5: Map<string, Point>;
+  // Average of the ZIP5 centroids sharing the first three digits, for ZIPs without their own
+  zip3: Map<string, Point>;
+}
+
+let centroids: Promise<CentroidIndex> | null = null;
+
+// Loaded on demand to keep the datasets out of the main bundle. ZIP5 centroids are the
+// Census ZIP Code Tabulation Areas.
+const loadCentroids = () => {
+  centroids ??= Promise.all([import('./usCityCentroids'), import('us-zips/key-value')]).then(
+    ([{ US_CITY_CENTROIDS }, { default: zips }]) => {
+      const zip5 = new Map<string, Point>(zips.map(([zip, { latitude, longitude }]) => [zip, [latitude, longitude]]));
+
+      const sums = new Map<string, [lat: number, lon: number, count: number]>();
+      for (const [zip, [lat, lon]] of zip5) {
+        const sum = sums.get(zip.slice(0, 3)) ?? [0, 0, 0];
+        sums.set(zip.slice(0, 3), [sum[0] + lat, sum[1] + lon, sum[2] + 1]);
+      }
+      const zip3 = new Map<string, Point>([...sums].map(([prefix, [lat, lon, count]]) => [prefix, [lat / count, lon / count]]));
+
+      return {
+        cities: new Map(US_CITY_CENTROIDS.map(([city, state, lat, lon]) => [cityKey(city, state), [lat, lon]])),
+        zip5,
+        zip3,
+      };
+    }
+  );
+  return centroids;
+};
+
+/** Where a stop is: its ZIP code when it has one, else its city and state. */
+const locateStop = (index: CentroidIndex, stop: Pick<LoadStop, 'city' | 'state'>): Point | undefined => {
+  const zip = `${stop.city} ${stop.state ?? ''}`.match(ZIP_PATTERN)?.[1];
+  const byZip = zip && (index.zip5.get(zip) ?? index.zip3.get(zip.slice(0, 3)));
+  return byZip || index.cities.get(cityKey(stop.city, stop.state ?? ''));
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/** Great-circle distance in miles between two latitude/longitude points. */
+export const haversineMiles = ([lat1, lon1]: Point, [lat2, lon2]: Point): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Estimated road miles along a route, leg by leg, from the bundled ZIP and city
+ * centroids. Null when a stop has neither a known ZIP nor a listed city; the miles then
+ * have to be entered.
+ */
+export const estimateRouteMiles = async (stops: Pick<LoadStop, 'city' | 'state'>[]): Promise<number | null> => {
+  const index = await loadCentroids();
+  const points = stops.map(stop => locateStop(index, stop));
+  if (points.length < 2 || points.some(point => !point)) return null;
+
+  let miles = 0;
+  for (let i = 1; i < points.length; i++) {
+    miles += haversineMiles(points[i - 1], points[i]) * ROAD_CIRCUITY;
+  }
+  return Math.round(miles);
+};
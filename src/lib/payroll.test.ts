@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { Bonus, BonusTierRule, COMPANY_DRIVER_BONUS_THRESHOLDS, Load, OWNER_OPERATOR_BONUS_THRESHOLDS } from '@/types';
+import { parseLocalDate } from '@/lib/utils';
+import { calculateAutomaticBonus, calculateSalary, getWeekEnd, getWeekKey, getWeekStart, isDateInRange } from '@/lib/payroll';
+
+const makeLoad = (overrides: Partial<Load>): Load => ({
+  id: 'load-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  load_id: 'L-1',
+  driver_id: 'driver-1',
+  pickup_date: '2025-03-03',
+  delivery_date: '2025-03-04',
+  origin: 'Chicago, IL',
+  destination: 'Dallas, TX',
+  rate: 1000,
+  load_type: 'FULL',
+  connected_full_load_id: null,
+  broker_id: null,
+  status: 'delivered',
+  cancellation_reason: null,
+  tonu_amount: null,
+  loaded_miles: null,
+  deadhead_miles: null,
+  charges_total: 0,
+  driver_gross_charges: 0,
+  commission_charges: 0,
+  reimbursement_charges: 0,
+  created_at: '2025-03-03T00:00:00Z',
+  updated_at: '2025-03-03T00:00:00Z',
+  updated_by: null,
+  ...overrides,
+});
+
+const makeBonus = (overrides: Partial<Bonus>): Bonus => ({
+  id: 'bonus-1',
+  organization_id: 'org-1',
+  user_id: 'dispatcher-1',
+  driver_id: 'driver-1',
+  bonus_type: 'manual',
+  amount: 0,
+  week_start: '2025-03-03',
+  date: '2025-03-03',
+  note: null,
+  created_at: '2025-03-03T00:00:00Z',
+  ...overrides,
+});
+
+const weekOf = (dateString: string) => {
+  const start = getWeekStart(parseLocalDate(dateString));
+  return { start, end: getWeekEnd(start) };
+};
+
+describe('getWeekKey', () => {
+  it('keeps Sunday in the week that started on Monday', () => {
+    expect(getWeekKey('2025-01-05')).toBe('2024-12-30');
+    expect(getWeekKey('2025-01-06')).toBe('2025-01-06');
+  });
+
+  it('keys the week a DST change falls in by its Monday', () => {
+    // Clocks go forward on Sunday 2025-03-09 and back on Sunday 2025-11-02
+    expect(new Date(2025, 2, 9).getTimezoneOffset()).not.toBe(new Date(2025, 2, 10).getTimezoneOffset());
+    expect(getWeekKey('2025-03-09')).toBe('2025-03-03');
+    expect(getWeekKey('2025-03-10')).toBe('2025-03-10');
+    expect(getWeekKey('2025-11-02')).toBe('2025-10-27');
+    expect(getWeekKey('2025-11-03')).toBe('2025-11-03');
+  });
+});
+
+describe('isDateInRange', () => {
+  it('includes the closing Sunday and leaves out the next Monday', () => {
+    const { start, end } = weekOf('2025-01-01');
+    expect(isDateInRange('2024-12-29', start, end)).toBe(false);
+    expect(isDateInRange('2024-12-30', start, end)).toBe(true);
+    expect(isDateInRange('2025-01-05', start, end)).toBe(true);
+    expect(isDateInRange('2025-01-06', start, end)).toBe(false);
+  });
+
+  it('keeps whole days in a week with a DST change', () => {
+    const spring = weekOf('2025-03-05');
+    expect(isDateInRange('2025-03-03', spring.start, spring.end)).toBe(true);
+    expect(isDateInRange('2025-03-09', spring.start, spring.end)).toBe(true);
+    expect(isDateInRange('2025-03-10', spring.start, spring.end)).toBe(false);
+
+    const fall = weekOf('2025-10-29');
+    expect(isDateInRange('2025-10-26', fall.start, fall.end)).toBe(false);
+    expect(isDateInRange('2025-11-02', fall.start, fall.end)).toBe(true);
+    expect(isDateInRange('2025-11-03', fall.start, fall.end)).toBe(false);
+  });
+});
+
+describe('calculateAutomaticBonus', () => {
+  const tiers = (thresholds: Record<number, number>) =>
+    Object.entries(thresholds).map(([minGross, amount], i, all) => ({
+      minGross: Number(minGross),
+      amount,
+      // What a gross just below this tier earns: the tier beneath it, or nothing
+      below: i === 0 ? 0 : all[i - 1][1],
+    }));
+
+  it.each(tiers(OWNER_OPERATOR_BONUS_THRESHOLDS))(
+    'pays owner operators $amount from $minGross and $below just below',
+    ({ minGross, amount, below }) => {
+      expect(calculateAutomaticBonus(minGross, 'owner_operator')).toBe(amount);
+      expect(calculateAutomaticBonus(minGross - 0.01, 'owner_operator')).toBe(below);
+    }
+  );
+
+  it.each(tiers(COMPANY_DRIVER_BONUS_THRESHOLDS))(
+    'pays company drivers $amount from $minGross and $below just below',
+    ({ minGross, amount, below }) => {
+      expect(calculateAutomaticBonus(minGross, 'company_driver')).toBe(amount);
+      expect(calculateAutomaticBonus(minGross - 0.01, 'company_driver')).toBe(below);
+    }
+  );
+
+  it('uses custom tiers in place of the defaults for their driver type', () => {
+    const rules = [
+      { driver_type: 'owner_operator', min_gross: 8000, amount: 40 },
+      { driver_type: 'owner_operator', min_gross: 9000, amount: 60 },
+    ] as BonusTierRule[];
+
+    expect(calculateAutomaticBonus(7999.99, 'owner_operator', rules)).toBe(0);
+    expect(calculateAutomaticBonus(8000, 'owner_operator', rules)).toBe(40);
+    expect(calculateAutomaticBonus(8999.99, 'owner_operator', rules)).toBe(40);
+    expect(calculateAutomaticBonus(15000, 'owner_operator', rules)).toBe(60);
+    expect(calculateAutomaticBonus(10000, 'company_driver', rules)).toBe(30);
+  });
+});
+
+describe('calculateSalary', () => {
+  const { start, end } = weekOf('2025-03-03');
+
+  it('adds commission, bonuses and adjustments for the week', () => {
+    const loads = [
+      makeLoad({ id: 'full', rate: 3000, commission_charges: 200 }),
+      makeLoad({ id: 'partial', load_type: 'PARTIAL', rate: 1000, delivery_date: '2025-03-09' }),
+      makeLoad({ id: 'tonu', status: 'cancelled', rate: 2500, tonu_amount: 300 }),
+      makeLoad({ id: 'cancelled', status: 'cancelled', rate: 5000 }),
+      makeLoad({ id: 'next-week', rate: 4000, delivery_date: '2025-03-10' }),
+    ];
+    const bonuses = [
+      makeBonus({ id: 'auto', bonus_type: 'automatic', amount: 75 }),
+      makeBonus({ id: 'manual', amount: 50, date: '2025-03-09' }),
+      makeBonus({ id: 'adjustment', bonus_type: 'adjustment', driver_id: null, amount: -25 }),
+      makeBonus({ id: 'next-week', amount: 100, date: '2025-03-10' }),
+    ];
+
+    const salary = calculateSalary(loads, bonuses, start, end);
+
+    expect(salary.fullGross).toBe(3500);
+    expect(salary.partialGross).toBe(1000);
+    expect(salary.totalGross).toBe(4500);
+    // 1% of 3,200 on the FULL load and 1% of the 300 TONU fee
+    expect(salary.fullLoadCommission).toBeCloseTo(35);
+    expect(salary.partialLoadCommission).toBeCloseTo(20);
+    expect(salary.totalBonuses).toBe(125);
+    expect(salary.totalAdjustments).toBe(-25);
+    expect(salary.totalSalary).toBeCloseTo(155);
+  });
+
+  it('uses the percents frozen with a closed period', () => {
+    const loads = [
+      makeLoad({ id: 'full', rate: 3000 }),
+      makeLoad({ id: 'tonu', status: 'cancelled', rate: 2500, tonu_amount: 300 }),
+      makeLoad({ id: 'partial', load_type: 'PARTIAL', rate: 1000 }),
+      makeLoad({ id: 'cancelled', load_type: 'PARTIAL', status: 'cancelled', rate: 800 }),
+    ];
+
+    const salary = calculateSalary(loads, [], start, end, [], { full: 3, tonu: 10, partial: 1.5 });
+
+    // 3% of 3,000 and 10% of the TONU fee; plans aren't consulted for the cancelled load
+    expect(salary.fullLoadCommission).toBeCloseTo(120);
+    expect(salary.partialLoadCommission).toBeCloseTo(15);
+  });
+
+  it('is zero for a week without loads or bonuses', () => {
+    const salary = calculateSalary([], [], start, end);
+    expect(salary.totalSalary).toBe(0);
+    expect(salary.totalAdjustments).toBe(0);
+  });
+});
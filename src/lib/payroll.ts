@@ -0,0 +1,328 @@
+import {
+  Load,
+  Bonus,
+  LoadType,
+  Driver,
+  DriverType,
+  DriverTypeChange,
+  BonusTierRule,
+  CommissionPlan,
+  CommissionPercents,
+  PayrollPeriod,
+  getBonusThresholds,
+} from '@/types';
+import { format, startOfWeek, endOfWeek, startOfDay, endOfDay, isWithinInterval } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import { countsTowardGross, getLoadCommissionGross, getLoadDriverGross, isGrossLoad } from '@/lib/loadStatus';
+
+// Default dispatcher commission (percent) by load type, used until a commission plan applies
+export const DEFAULT_COMMISSION_PERCENTS: Record<LoadType, number> = {
+  FULL: 1,
+  PARTIAL: 2,
+};
+
+// Default commission (percent) on TONU fees, used until a commission plan applies
+export const DEFAULT_TONU_PERCENT = 1;
+
+// Commission plan column holding the percentage for each load type
+const COMMISSION_PLAN_PERCENT_KEYS: Record<LoadType, 'full_percent' | 'partial_percent'> = {
+  FULL: 'full_percent',
+  PARTIAL: 'partial_percent',
+};
+
+/** Monday of the week containing the given date (weeks run Monday-Sunday). */
+export const getWeekStart = (date: Date): Date => startOfWeek(date, { weekStartsOn: 1 });
+
+/** End of the Sunday closing the week containing the given date. */
+export const getWeekEnd = (date: Date): Date => endOfWeek(date, { weekStartsOn: 1 });
+
+/** Week start (YYYY-MM-DD) for a date-only string, used as the key for weekly bonuses. */
+export const getWeekKey = (dateString: string): string =>
+  format(getWeekStart(parseLocalDate(dateString)), 'yyyy-MM-dd');
+
+/**
+ * Check whether a date-only string (YYYY-MM-DD) falls inside an inclusive range.
+ * Dates are parsed as local dates so a delivery never shifts into a neighbouring day.
+ */
+export const isDateInRange = (dateString: string, start: Date, end: Date): boolean => {
+  return isWithinInterval(parseLocalDate(dateString), { start: startOfDay(start), end: endOfDay(end) });
+};
+
+/**
+ * Loads delivered within the range, optionally limited to one driver. Cancelled loads are
+ * left out unless the broker paid a TONU fee, which then stands in for their rate.
+ */
+export const filterLoadsByDelivery = (
+  loads: Load[],
+  start: Date,
+  end: Date,
+  driverId?: string
+): Load[] => {
+  return loads.filter(load =>
+    (driverId === undefined || load.driver_id === driverId) &&
+    isGrossLoad(load) &&
+    isDateInRange(load.delivery_date, start, end)
+  );
+};
+
+/**
+ * Driver gross of a set of loads: rates plus the charges that count toward driver gross,
+ * counting cancelled loads at their TONU fee.
+ */
+export const sumGross = (loads: Load[]): number => {
+  return loads.reduce((sum, load) => sum + getLoadDriverGross(load), 0);
+};
+
+/** Gross dispatcher commission is earned on: rates plus the charges that count toward commission. */
+export const sumCommissionGross = (loads: Load[]): number => {
+  return loads.reduce((sum, load) => sum + getLoadCommissionGross(load), 0);
+};
+
+/** Gross delivered within the range, optionally limited to one driver. */
+export const calculatePeriodGross = (
+  loads: Load[],
+  start: Date,
+  end: Date,
+  driverId?: string
+): number => {
+  return sumGross(filterLoadsByDelivery(loads, start, end, driverId));
+};
+
+/** Gross delivered by a driver on a single day. */
+export const calculateDailyGross = (loads: Load[], driverId: string, date: Date): number => {
+  return calculatePeriodGross(loads, date, date, driverId);
+};
+
+/** Gross delivered by a driver in the Monday-Sunday week starting at weekStart. */
+export const calculateWeeklyGross = (loads: Load[], driverId: string, weekStart: Date): number => {
+  return calculatePeriodGross(loads, getWeekStart(weekStart), getWeekEnd(weekStart), driverId);
+};
+
+/**
+ * Effective date of the tier version in force for a driver type on a date (YYYY-MM-DD),
+ * or null when no custom version had started yet and the defaults apply.
+ */
+export const getTierVersionForDate = (
+  rules: BonusTierRule[],
+  driverType: DriverType,
+  dateString: string
+): string | null => {
+  return rules
+    .filter(r => r.driver_type === driverType && r.effective_from <= dateString)
+    .reduce<string | null>((latest, r) => (latest === null || r.effective_from > latest ? r.effective_from : latest), null);
+};
+
+/** Tier rules in force for a driver type on a date. An empty list means the defaults apply. */
+export const getTierRulesForDate = (
+  rules: BonusTierRule[],
+  driverType: DriverType,
+  dateString: string
+): BonusTierRule[] => {
+  const version = getTierVersionForDate(rules, driverType, dateString);
+  if (version === null) return [];
+  return rules.filter(r => r.driver_type === driverType && r.effective_from === version);
+};
+
+/**
+ * Driver type in force on a date (YYYY-MM-DD). Dates before the first recorded
+ * change use the earliest known type; drivers without history use their current type.
+ */
+export const getDriverTypeForDate = (
+  driver: Driver,
+  history: DriverTypeChange[],
+  dateString: string
+): DriverType => {
+  const changes = history
+    .filter(h => h.driver_id === driver.id)
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  if (changes.length === 0) return driver.driver_type;
+
+  const current = [...changes].reverse().find(h => h.effective_from <= dateString);
+  return (current ?? changes[0]).driver_type;
+};
+
+/** Automatic bonus for a weekly gross: the highest tier the gross reaches, or 0. */
+export const calculateAutomaticBonus = (
+  weeklyGross: number,
+  driverType: DriverType,
+  rules: BonusTierRule[] = []
+): number => {
+  const thresholds = getBonusThresholds(driverType, rules);
+  const sortedThresholds = Object.keys(thresholds)
+    .map(Number)
+    .sort((a, b) => b - a);
+
+  for (const threshold of sortedThresholds) {
+    if (weeklyGross >= threshold) {
+      return thresholds[threshold];
+    }
+  }
+
+  return 0;
+};
+
+/** Lowest weekly gross that earns an automatic bonus for the driver type. */
+export const getFirstBonusThreshold = (driverType: DriverType, rules: BonusTierRule[] = []): number => {
+  const thresholds = getBonusThresholds(driverType, rules);
+  return Math.min(...Object.keys(thresholds).map(Number));
+};
+
+/**
+ * Commission plan in force for a dispatcher on a date (YYYY-MM-DD): the latest
+ * override for the dispatcher, else the latest default plan, else null (defaults apply).
+ */
+export const getCommissionPlanForDate = (
+  plans: CommissionPlan[],
+  dispatcherId: string | null,
+  dateString: string
+): CommissionPlan | null => {
+  const latest = (candidates: CommissionPlan[]) =>
+    candidates
+      .filter(p => p.effective_from <= dateString)
+      .reduce<CommissionPlan | null>((best, p) => (best === null || p.effective_from > best.effective_from ? p : best), null);
+
+  const override = dispatcherId ? latest(plans.filter(p => p.dispatcher_id === dispatcherId)) : null;
+  return override ?? latest(plans.filter(p => p.dispatcher_id === null));
+};
+
+/** Commission percentage for a load type under a plan, or the default without one. */
+export const getPlanPercent = (plan: CommissionPlan | null, loadType: LoadType): number => {
+  return plan ? Number(plan[COMMISSION_PLAN_PERCENT_KEYS[loadType]]) : DEFAULT_COMMISSION_PERCENTS[loadType];
+};
+
+/** Commission percentage on TONU fees under a plan, or the default without one. */
+export const getPlanTonuPercent = (plan: CommissionPlan | null): number => {
+  return plan ? Number(plan.tonu_percent) : DEFAULT_TONU_PERCENT;
+};
+
+/**
+ * Commission percentage applied to a load, based on its booking dispatcher and delivery date.
+ * Cancelled loads earn the plan's TONU percentage on their fee. A closed period's frozen
+ * percents are used in place of the plans; its loads without one earned no commission.
+ */
+export const getLoadCommissionPercent = (
+  load: Load,
+  plans: CommissionPlan[] = [],
+  frozenPercents?: CommissionPercents
+): number => {
+  if (frozenPercents) return Number(frozenPercents[load.id] ?? 0);
+  const plan = getCommissionPlanForDate(plans, load.user_id, load.delivery_date);
+  return countsTowardGross(load.status) ? getPlanPercent(plan, load.load_type) : getPlanTonuPercent(plan);
+};
+
+/** Distinct commission percentages applied to the loads of a type, lowest first. */
+export const getAppliedCommissionPercents = (
+  loads: Load[],
+  loadType: LoadType,
+  plans: CommissionPlan[] = [],
+  frozenPercents?: CommissionPercents
+): number[] => {
+  const percents = new Set(
+    loads
+      .filter(l => l.load_type === loadType && (!frozenPercents || l.id in frozenPercents))
+      .map(l => getLoadCommissionPercent(l, plans, frozenPercents))
+  );
+  return [...percents].sort((a, b) => a - b);
+};
+
+/** Percentage label such as "1%" or "1.5%". */
+export const formatCommissionPercent = (percent: number): string =>
+  `${Number(percent.toFixed(2))}%`;
+
+/** Dispatcher commission for a set of loads. */
+export const calculateCommission = (
+  loads: Load[],
+  plans: CommissionPlan[] = [],
+  frozenPercents?: CommissionPercents
+): number => {
+  return loads.reduce((sum, load) => sum + getLoadCommissionGross(load) * getLoadCommissionPercent(load, plans, frozenPercents) / 100, 0);
+};
+
+export interface SalaryBreakdown {
+  fullLoadCommission: number;
+  partialLoadCommission: number;
+  totalBonuses: number;
+  totalAdjustments: number;
+  totalSalary: number;
+  fullGross: number;
+  partialGross: number;
+  totalGross: number;
+}
+
+/**
+ * Dispatcher salary for loads delivered and bonuses dated within the range.
+ * Commission follows the plans in force for each load and is earned on the charges
+ * that count toward commission, or the percents frozen with a closed period; adjustments
+ * (corrections to closed periods) are reported separately from bonuses.
+ */
+export const calculateSalary = (
+  loads: Load[],
+  bonuses: Bonus[],
+  startDate: Date,
+  endDate: Date,
+  plans: CommissionPlan[] = [],
+  frozenPercents?: CommissionPercents
+): SalaryBreakdown => {
+  const filteredLoads = filterLoadsByDelivery(loads, startDate, endDate);
+
+  const fullLoads = filteredLoads.filter(l => l.load_type === 'FULL');
+  const partialLoads = filteredLoads.filter(l => l.load_type === 'PARTIAL');
+
+  const fullGross = sumCommissionGross(fullLoads);
+  const partialGross = sumCommissionGross(partialLoads);
+  const totalGross = fullGross + partialGross;
+
+  const fullLoadCommission = calculateCommission(fullLoads, plans, frozenPercents);
+  const partialLoadCommission = calculateCommission(partialLoads, plans, frozenPercents);
+
+  const filteredBonuses = bonuses.filter(bonus => isDateInRange(bonus.date, startDate, endDate));
+  const totalBonuses = filteredBonuses
+    .filter(b => b.bonus_type !== 'adjustment')
+    .reduce((sum, b) => sum + Number(b.amount), 0);
+  const totalAdjustments = filteredBonuses
+    .filter(b => b.bonus_type === 'adjustment')
+    .reduce((sum, b) => sum + Number(b.amount), 0);
+  const totalSalary = fullLoadCommission + partialLoadCommission + totalBonuses + totalAdjustments;
+
+  return {
+    fullLoadCommission,
+    partialLoadCommission,
+    totalBonuses,
+    totalAdjustments,
+    totalSalary,
+    fullGross,
+    partialGross,
+    totalGross,
+  };
+};
+
+/** Closed payroll period containing a date (YYYY-MM-DD), if any. */
+export const findLockedPeriod = (periods: PayrollPeriod[], dateString: string): PayrollPeriod | undefined => {
+  return periods.find(p => p.start_date <= dateString && dateString <= p.end_date);
+};
+
+/** Whether a date (YYYY-MM-DD) falls in a closed payroll period. */
+export const isDateLocked = (periods: PayrollPeriod[], dateString: string): boolean => {
+  return findLockedPeriod(periods, dateString) !== undefined;
+};
+
+/** Closed payroll periods overlapping an inclusive date range (YYYY-MM-DD). */
+export const getOverlappingPeriods = (
+  periods: PayrollPeriod[],
+  startDate: string,
+  endDate: string
+): PayrollPeriod[] => {
+  return periods.filter(p => p.start_date <= endDate && startDate <= p.end_date);
+};
+
+/** Salary breakdown frozen when a payroll period was closed. */
+export const getPeriodSalary = (period: PayrollPeriod): SalaryBreakdown => ({
+  fullLoadCommission: Number(period.full_load_commission),
+  partialLoadCommission: Number(period.partial_load_commission),
+  totalBonuses: Number(period.total_bonuses),
+  totalAdjustments: Number(period.total_adjustments),
+  totalSalary: Number(period.total_salary),
+  fullGross: Number(period.full_gross),
+  partialGross: Number(period.partial_gross),
+  totalGross: Number(period.total_gross),
+});
@@ -0,0 +1,247 @@
+import type { jsPDF } from 'jspdf';
+import { Bonus, CommissionPercents, CommissionPlan, Driver, Load } from '@/types';
+import { format } from 'date-fns';
+import { parseLocalDate } from '@/lib/utils';
+import {
+  SalaryBreakdown,
+  calculateSalary,
+  filterLoadsByDelivery,
+  formatCommissionPercent,
+  getAppliedCommissionPercents,
+  getLoadCommissionPercent,
+  isDateInRange,
+} from '@/lib/payroll';
+import { getLoadCommissionGross } from '@/lib/loadStatus';
+
+export interface PayrollStatementInput {
+  dispatcherName: string;
+  startDate: string;
+  endDate: string;
+  loads: Load[];
+  bonuses: Bonus[];
+  drivers: Driver[];
+  plans: CommissionPlan[];
+  // A closed period's statement passes the percents and salary frozen with it, so it
+  // matches the period as paid whatever the plans say now
+  frozenPercents?: CommissionPercents;
+  salary?: SalaryBreakdown;
+  closedAt?: string | null;
+}
+
+export interface StatementLoadLine {
+  load: Load;
+  driverName: string;
+  // The rate plus commissionable charges, or the TONU fee for a cancelled load
+  gross: number;
+  percent: number;
+  commission: number;
+}
+
+export interface PayrollStatement {
+  loadLines: StatementLoadLine[];
+  bonuses: Bonus[];
+  salary: SalaryBreakdown;
+  automaticBonuses: number;
+  manualBonuses: number;
+}
+
+/**
+ * Lines of a payroll statement: every load delivered and every bonus dated in the
+ * period, with totals from calculateSalary so the statement matches the dashboard,
+ * or the salary frozen with a closed period.
+ */
+export const buildPayrollStatement = ({
+  startDate,
+  endDate,
+  loads,
+  bonuses,
+  drivers,
+  plans,
+  frozenPercents,
+  salary,
+}: PayrollStatementInput): PayrollStatement => {
+  const start = parseLocalDate(startDate);
+  const end = parseLocalDate(endDate);
+
+  const loadLines = filterLoadsByDelivery(loads, start, end)
+    .sort((a, b) => a.delivery_date.localeCompare(b.delivery_date) || a.load_id.localeCompare(b.load_id))
+    .map(load => {
+      const gross = getLoadCommissionGross(load);
+      const percent = getLoadCommissionPercent(load, plans, frozenPercents);
+      return {
+        load,
+        driverName: drivers.find(d => d.id === load.driver_id)?.driver_name ?? 'Unknown',
+        gross,
+        percent,
+        commission: gross * percent / 100,
+      };
+    });
+
+  const periodBonuses = bonuses
+    .filter(b => isDateInRange(b.date, start, end))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const sumOfType = (type: Bonus['bonus_type']) =>
+    periodBonuses.filter(b => b.bonus_type === type).reduce((sum, b) => sum + Number(b.amount), 0);
+
+  return {
+    loadLines,
+    bonuses: periodBonuses,
+    salary: salary ?? calculateSalary(loads, bonuses, start, end, plans, frozenPercents),
+    automaticBonuses: sumOfType('automatic'),
+    manualBonuses: sumOfType('manual'),
+  };
+};
+
+const money = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatDate = (dateString: string) => format(parseLocalDate(dateString), 'MM/dd/yyyy');
+
+// Page geometry in points (US Letter)
+const MARGIN = 40;
+
+type DocWithAutoTable = jsPDF & { lastAutoTable: { finalY: number } };
+
+/** Generate the payroll statement PDF in the browser and download it. */
+export const downloadPayrollStatement = async (input: PayrollStatementInput) => {
+  // Loaded on demand to keep the PDF writer out of the main bundle
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+
+  const statement = buildPayrollStatement(input);
+  const { salary } = statement;
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' }) as DocWithAutoTable;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const headStyles = { fillColor: [30, 41, 59] as [number, number, number], textColor: 255, fontStyle: 'bold' as const };
+
+  const rateLabel = (loadType: Load['load_type']) => {
+    const percents = getAppliedCommissionPercents(statement.loadLines.map(l => l.load), loadType, input.plans, input.frozenPercents);
+    return percents.length > 0 ? ` (${percents.map(formatCommissionPercent).join(' / ')})` : '';
+  };
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('Payroll Statement', MARGIN, MARGIN + 10);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(input.dispatcherName, MARGIN, MARGIN + 30);
+  doc.text(`Period: ${formatDate(input.startDate)} - ${formatDate(input.endDate)}`, MARGIN, MARGIN + 44);
+  doc.text(`Generated: ${format(new Date(), 'MM/dd/yyyy HH:mm')}`, pageWidth - MARGIN, MARGIN + 30, { align: 'right' });
+  if (input.closedAt) {
+    doc.text(`Period closed: ${format(new Date(input.closedAt), 'MM/dd/yyyy')}`, pageWidth - MARGIN, MARGIN + 44, { align: 'right' });
+  }
+
+  // Summary
+  const summaryRows = [
+    [`Commission on FULL loads${rateLabel('FULL')}`, money(salary.fullGross), money(salary.fullLoadCommission)],
+    [`Commission on PARTIAL loads${rateLabel('PARTIAL')}`, money(salary.partialGross), money(salary.partialLoadCommission)],
+    ['Automatic bonuses', '', money(statement.automaticBonuses)],
+    ['Manual bonuses', '', money(statement.manualBonuses)],
+    ...(salary.totalAdjustments !== 0 ? [['Adjustments', '', money(salary.totalAdjustments)]] : []),
+  ];
+
+  autoTable(doc, {
+    startY: MARGIN + 64,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Summary', 'Gross', 'Amount']],
+    body: summaryRows,
+    foot: [['Total Salary', money(salary.totalGross), money(salary.totalSalary)]],
+    headStyles,
+    footStyles: { fillColor: [241, 245, 249], textColor: 20, fontStyle: 'bold' },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+    theme: 'grid',
+  });
+
+  // Loads
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(`Loads (${statement.loadLines.length})`, MARGIN, doc.lastAutoTable.finalY + 28);
+
+  autoTable(doc, {
+    startY: doc.lastAutoTable.finalY + 36,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Delivered', 'Load ID', 'Type', 'Driver', 'Route', 'Rate', 'Comm. %', 'Commission']],
+    body: statement.loadLines.length > 0
+      ? statement.loadLines.map(({ load, driverName, gross, percent, commission }) => [
+          formatDate(load.delivery_date),
+          load.load_id,
+          load.status === 'cancelled' ? `${load.load_type} TONU` : load.load_type,
+          driverName,
+          // Cancelled loads keep the booked rate on record next to the fee paid
+          load.status === 'cancelled'
+            ? `${load.origin} - ${load.destination}\nCancelled, booked at ${money(Number(load.rate))}` +
+              (load.cancellation_reason ? `: ${load.cancellation_reason}` : '')
+            : `${load.origin} - ${load.destination}` +
+              (gross !== Number(load.rate) ? `\nRate ${money(Number(load.rate))} + ${money(gross - Number(load.rate))} charges` : ''),
+          money(gross),
+          formatCommissionPercent(percent),
+          money(commission),
+        ])
+      : [[{ content: 'No loads delivered in this period.', colSpan: 8 }]],
+    foot: [[
+      { content: 'Total', colSpan: 5 },
+      money(salary.totalGross),
+      '',
+      money(salary.fullLoadCommission + salary.partialLoadCommission),
+    ]],
+    headStyles,
+    footStyles: { fillColor: [241, 245, 249], textColor: 20, fontStyle: 'bold' },
+    styles: { fontSize: 8 },
+    columnStyles: { 5: { halign: 'right' }, 6: { halign: 'right' }, 7: { halign: 'right' } },
+    theme: 'striped',
+  });
+
+  // Bonuses
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(`Bonuses (${statement.bonuses.length})`, MARGIN, doc.lastAutoTable.finalY + 28);
+
+  autoTable(doc, {
+    startY: doc.lastAutoTable.finalY + 36,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Date', 'Type', 'Driver', 'Note', 'Amount']],
+    body: statement.bonuses.length > 0
+      ? statement.bonuses.map(bonus => [
+          formatDate(bonus.date),
+          bonus.bonus_type,
+          bonus.driver_id
+            ? input.drivers.find(d => d.id === bonus.driver_id)?.driver_name ?? 'Unknown'
+            : 'Company-wide',
+          bonus.note ?? '',
+          money(Number(bonus.amount)),
+        ])
+      : [[{ content: 'No bonuses in this period.', colSpan: 5 }]],
+    foot: [[
+      { content: 'Total', colSpan: 4 },
+      money(salary.totalBonuses + salary.totalAdjustments),
+    ]],
+    headStyles,
+    footStyles: { fillColor: [241, 245, 249], textColor: 20, fontStyle: 'bold' },
+    styles: { fontSize: 8 },
+    columnStyles: { 3: { cellWidth: 200 }, 4: { halign: 'right' } },
+    theme: 'striped',
+  });
+
+  // Closing total
+  let totalY = doc.lastAutoTable.finalY + 32;
+  if (totalY > doc.internal.pageSize.getHeight() - MARGIN) {
+    doc.addPage();
+    totalY = MARGIN + 10;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text('Total Salary', MARGIN, totalY);
+  doc.text(money(salary.totalSalary), pageWidth - MARGIN, totalY, { align: 'right' });
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, doc.internal.pageSize.getHeight() - 20, { align: 'right' });
+  }
+
+  doc.save(`payroll-statement-${input.startDate}-to-${input.endDate}.pdf`);
+};
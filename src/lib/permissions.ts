@@ -0,0 +1,110 @@
+import { OrganizationRole } from '@/types';
+
+export interface RolePermissions {
+  // Layout tabs the role can open
+  tabs: string[];
+  // Read loads, bonuses, prebooks and invoices rather than only dashboard totals
+  canViewRecords: boolean;
+  // Create, import, edit and delete loads
+  canEditLoads: boolean;
+  // Add and edit drivers
+  canManageDrivers: boolean;
+  canDeleteDrivers: boolean;
+  // Add and edit brokers
+  canManageBrokers: boolean;
+  canDeleteBrokers: boolean;
+  // Issue and void invoices and record broker payments
+  canManageInvoices: boolean;
+  // Manual bonuses
+  canEditBonuses: boolean;
+  // Bonus tiers and commission plans
+  canManageRules: boolean;
+  // Remove charge rules so their types go back to the default flags
+  canResetChargeRules: boolean;
+  // Close payroll periods and record adjustments
+  canManagePayroll: boolean;
+  // Driver pay plans, deductions, advances and settlements
+  canManageDriverPay: boolean;
+  // CSV/XLSX exports and PDF statements
+  canExport: boolean;
+}
+
+const ALL_TABS = ['team', 'loads', 'bonuses', 'drivers', 'settlements', 'brokers', 'invoices', 'prebooks', 'members'];
+
+// Everything but member management and driver pay
+const DISPATCH_TABS = ALL_TABS.filter(tab => tab !== 'members' && tab !== 'settlements');
+
+/** What each role can do in the UI; mirrors the RLS policies in the database. */
+export const ROLE_PERMISSIONS: Record<OrganizationRole, RolePermissions> = {
+  owner: {
+    tabs: ALL_TABS,
+    canViewRecords: true,
+    canEditLoads: true,
+    canManageDrivers: true,
+    canDeleteDrivers: true,
+    canManageBrokers: true,
+    canDeleteBrokers: true,
+    canManageInvoices: true,
+    canEditBonuses: true,
+    canManageRules: true,
+    canResetChargeRules: true,
+    canManagePayroll: true,
+    canManageDriverPay: true,
+    canExport: true,
+  },
+  dispatcher: {
+    tabs: DISPATCH_TABS,
+    canViewRecords: true,
+    canEditLoads: true,
+    canManageDrivers: true,
+    canDeleteDrivers: false,
+    canManageBrokers: true,
+    canDeleteBrokers: false,
+    canManageInvoices: true,
+    canEditBonuses: true,
+    canManageRules: false,
+    canResetChargeRules: true,
+    canManagePayroll: false,
+    canManageDriverPay: false,
+    canExport: true,
+  },
+  accountant: {
+    tabs: ['team', 'loads', 'bonuses', 'drivers', 'settlements', 'brokers', 'invoices'],
+    canViewRecords: true,
+    canEditLoads: false,
+    canManageDrivers: false,
+    canDeleteDrivers: false,
+    canManageBrokers: false,
+    canDeleteBrokers: false,
+    canManageInvoices: true,
+    canEditBonuses: false,
+    canManageRules: false,
+    canResetChargeRules: false,
+    canManagePayroll: true,
+    canManageDriverPay: true,
+    canExport: true,
+  },
+  viewer: {
+    tabs: ['team'],
+    canViewRecords: false,
+    canEditLoads: false,
+    canManageDrivers: false,
+    canDeleteDrivers: false,
+    canManageBrokers: false,
+    canDeleteBrokers: false,
+    canManageInvoices: false,
+    canEditBonuses: false,
+    canManageRules: false,
+    canResetChargeRules: false,
+    canManagePayroll: false,
+    canManageDriverPay: false,
+    canExport: false,
+  },
+};
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  dispatcher: 'Dispatcher',
+  accountant: 'Accountant',
+  viewer: 'Viewer',
+};
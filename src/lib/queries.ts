@@ -0,0 +1,164 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Bonus, Load, LoadCharge, LoadStatus, LoadStop } from '@/types';
+
+// PostgREST returns at most this many rows per request
+const BATCH_SIZE = 1000;
+
+// Values per `in` filter
+const ID_CHUNK_SIZE = 200;
+
+/** ilike pattern for a search box; characters with meaning in PostgREST filters are dropped. */
+export const toSearchPattern = (search: string): string =>
+  `%${search.trim().replace(/[%*,()\\"]/g, '')}%`;
+
+/** `or` filter matching a search against the load ID, origin or destination. */
+export const loadSearchFilter = (search: string): string => {
+  const pattern = toSearchPattern(search);
+  return `load_id.ilike.${pattern},origin.ilike.${pattern},destination.ilike.${pattern}`;
+};
+
+/** Loads delivered within an inclusive range (YYYY-MM-DD), newest first. */
+export const fetchLoadsInRange = async (organizationId: string, from: string, to: string): Promise<Load[]> => {
+  const loads: Load[] = [];
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('loads')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .gte('delivery_date', from)
+      .lte('delivery_date', to)
+      .order('delivery_date', { ascending: false })
+      .order('id')
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+    loads.push(...(data as Load[]));
+    if (data.length < BATCH_SIZE) return loads;
+  }
+};
+
+/** Bonuses dated within an inclusive range (YYYY-MM-DD), newest first. */
+export const fetchBonusesInRange = async (organizationId: string, from: string, to: string): Promise<Bonus[]> => {
+  const bonuses: Bonus[] = [];
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('bonuses')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: false })
+      .order('id')
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+    bonuses.push(...(data as Bonus[]));
+    if (data.length < BATCH_SIZE) return bonuses;
+  }
+};
+
+/** Every load matching a search and, when given, a status, for exports. */
+export const fetchMatchingLoads = async (
+  organizationId: string,
+  search: string,
+  status: LoadStatus | null = null
+): Promise<Load[]> => {
+  const loads: Load[] = [];
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    let query = supabase
+      .from('loads')
+      .select('*')
+      .eq('organization_id', organizationId);
+    if (search.trim()) {
+      query = query.or(loadSearchFilter(search));
+    }
+    if (status) {
+      query = query.eq('status', status);
+    }
+    const { data, error } = await query
+      .order('delivery_date', { ascending: false })
+      .order('id')
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+    loads.push(...(data as Load[]));
+    if (data.length < BATCH_SIZE) return loads;
+  }
+};
+
+/** Load IDs (the booking reference) of loads by their database id. */
+export const fetchLoadIds = async (ids: string[]): Promise<Map<string, string>> => {
+  if (ids.length === 0) return new Map();
+
+  const { data, error } = await supabase.from('loads').select('id, load_id').in('id', ids);
+  if (error) throw error;
+  return new Map(data.map(l => [l.id, l.load_id]));
+};
+
+/** Loads with any of the given load IDs (the booking reference), for checking an import against. */
+export const fetchLoadsByLoadIds = async (organizationId: string, loadIds: string[]): Promise<Load[]> => {
+  const loads: Load[] = [];
+  // Chunked to keep the request URL short
+  for (let i = 0; i < loadIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('loads')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .in('load_id', loadIds.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) throw error;
+    loads.push(...(data as Load[]));
+  }
+  return loads;
+};
+
+/** Stops of the given loads in route order, by load database id. Loads without saved stops are left out. */
+export const fetchLoadStops = async (ids: string[]): Promise<Map<string, LoadStop[]>> => {
+  const stopsByLoadId = new Map<string, LoadStop[]>();
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('load_stops')
+      .select('*')
+      .in('load_id', ids.slice(i, i + ID_CHUNK_SIZE))
+      .order('sequence');
+
+    if (error) throw error;
+    for (const stop of data as LoadStop[]) {
+      stopsByLoadId.set(stop.load_id, [...(stopsByLoadId.get(stop.load_id) ?? []), stop]);
+    }
+  }
+  return stopsByLoadId;
+};
+
+/** Charges of the given loads in entry order, by load database id. Loads without charges are left out. */
+export const fetchLoadCharges = async (ids: string[]): Promise<Map<string, LoadCharge[]>> => {
+  const chargesByLoadId = new Map<string, LoadCharge[]>();
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('load_charges')
+      .select('*')
+      .in('load_id', ids.slice(i, i + ID_CHUNK_SIZE))
+      .order('sequence');
+
+    if (error) throw error;
+    for (const charge of data as LoadCharge[]) {
+      chargesByLoadId.set(charge.load_id, [...(chargesByLoadId.get(charge.load_id) ?? []), charge]);
+    }
+  }
+  return chargesByLoadId;
+};
+
+/** Delivered loads of a broker waiting to be invoiced, oldest delivery first. */
+export const fetchInvoiceableLoads = async (organizationId: string, brokerId: string): Promise<Load[]> => {
+  const { data, error } = await supabase
+    .from('loads')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('broker_id', brokerId)
+    .eq('status', 'delivered')
+    .order('delivery_date')
+    .order('load_id');
+
+  if (error) throw error;
+  return data as Load[];
+};
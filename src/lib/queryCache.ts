@@ -0,0 +1,41 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+
+/**
+ * Applies a change to a cached list before the server confirms it. The returned
+ * function restores the previous rows and refetches, so a failure part way through
+ * a sequence of writes leaves the cache matching the database.
+ */
+export const updateCacheOptimistically = async <T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (rows: T[]) => T[]
+) => {
+  await queryClient.cancelQueries({ queryKey });
+  const previous = queryClient.getQueryData<T[]>(queryKey);
+  queryClient.setQueryData<T[]>(queryKey, rows => rows && update(rows));
+
+  return () => {
+    queryClient.setQueryData(queryKey, previous);
+    queryClient.invalidateQueries({ queryKey });
+  };
+};
+
+/**
+ * Applies a change to every cached date window under `prefix` (keys ending in
+ * from, to), dropping rows whose date falls outside each window.
+ */
+export const updateWindowedCaches = <T>(
+  queryClient: QueryClient,
+  prefix: QueryKey,
+  dateOf: (row: T) => string,
+  update: (rows: T[]) => T[]
+) => {
+  for (const [queryKey, rows] of queryClient.getQueriesData<T[]>({ queryKey: prefix })) {
+    if (!rows) continue;
+    const [from, to] = queryKey.slice(-2) as string[];
+    queryClient.setQueryData<T[]>(
+      queryKey,
+      update(rows).filter(row => from <= dateOf(row) && dateOf(row) <= to)
+    );
+  }
+};
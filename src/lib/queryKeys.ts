@@ -0,0 +1,56 @@
+/**
+ * TanStack Query keys. Everything is scoped to an organization so switching
+ * organizations never shows another one's cached rows. Date-windowed keys end
+ * with the window's first and last date.
+ */
+export const queryKeys = {
+  organizationData: (organizationId: string | undefined) => ['organization-data', organizationId] as const,
+  drivers: (organizationId: string | undefined) => ['organization-data', organizationId, 'drivers'] as const,
+  loads: (organizationId: string | undefined) => ['organization-data', organizationId, 'loads'] as const,
+  loadsInWindow: (organizationId: string | undefined, from: string, to: string) =>
+    ['organization-data', organizationId, 'loads', from, to] as const,
+  loadPages: (organizationId: string | undefined) => ['organization-data', organizationId, 'load-pages'] as const,
+  loadPage: (organizationId: string | undefined, search: string, status: string | null, page: number) =>
+    ['organization-data', organizationId, 'load-pages', search, status, page] as const,
+  loadStatusHistory: (organizationId: string | undefined, loadId: string | undefined) =>
+    ['organization-data', organizationId, 'load-status-history', loadId] as const,
+  loadStatusHistories: (organizationId: string | undefined) =>
+    ['organization-data', organizationId, 'load-status-history'] as const,
+  fullLoads: (organizationId: string | undefined) => ['organization-data', organizationId, 'full-loads'] as const,
+  fullLoadsNear: (organizationId: string | undefined, from: string, to: string) =>
+    ['organization-data', organizationId, 'full-loads', from, to] as const,
+  importMatches: (organizationId: string | undefined, loadIds: string[]) =>
+    ['organization-data', organizationId, 'import-matches', loadIds] as const,
+  bonuses: (organizationId: string | undefined) => ['organization-data', organizationId, 'bonuses'] as const,
+  bonusesInWindow: (organizationId: string | undefined, from: string, to: string) =>
+    ['organization-data', organizationId, 'bonuses', from, to] as const,
+  bonusTierRules: (organizationId: string | undefined) => ['organization-data', organizationId, 'bonus-tier-rules'] as const,
+  driverTypeHistory: (organizationId: string | undefined) => ['organization-data', organizationId, 'driver-type-history'] as const,
+  commissionPlans: (organizationId: string | undefined) => ['organization-data', organizationId, 'commission-plans'] as const,
+  payrollPeriods: (organizationId: string | undefined) => ['organization-data', organizationId, 'payroll-periods'] as const,
+  loadChargeRules: (organizationId: string | undefined) => ['organization-data', organizationId, 'load-charge-rules'] as const,
+  driverPayPlans: (organizationId: string | undefined) => ['organization-data', organizationId, 'driver-pay-plans'] as const,
+  driverDeductions: (organizationId: string | undefined) => ['organization-data', organizationId, 'driver-deductions'] as const,
+  driverAdvances: (organizationId: string | undefined) => ['organization-data', organizationId, 'driver-advances'] as const,
+  driverAdvancesInWindow: (organizationId: string | undefined, from: string, to: string) =>
+    ['organization-data', organizationId, 'driver-advances', from, to] as const,
+  brokers: (organizationId: string | undefined) => ['organization-data', organizationId, 'brokers'] as const,
+  invoices: (organizationId: string | undefined) => ['organization-data', organizationId, 'invoices'] as const,
+  invoiceableLoads: (organizationId: string | undefined, brokerId: string | undefined) =>
+    ['organization-data', organizationId, 'loads', 'invoiceable', brokerId] as const,
+  prebookNotes: (organizationId: string | undefined) => ['organization-data', organizationId, 'prebook-notes'] as const,
+  // Server-side aggregates; invalidated together whenever loads or bonuses change
+  metrics: (organizationId: string | undefined) => ['organization-data', organizationId, 'metrics'] as const,
+  dailyGross: (organizationId: string | undefined, from: string, to: string) =>
+    ['organization-data', organizationId, 'metrics', 'daily-gross', from, to] as const,
+  weeklyGross: (organizationId: string | undefined, weekStart: string) =>
+    ['organization-data', organizationId, 'metrics', 'weekly-gross', weekStart] as const,
+  grossByDriver: (organizationId: string | undefined, from: string, to: string) =>
+    ['organization-data', organizationId, 'metrics', 'gross-by-driver', from, to] as const,
+  brokerStats: (organizationId: string | undefined, from: string, to: string) =>
+    ['organization-data', organizationId, 'metrics', 'broker-stats', from, to] as const,
+  receivablesAging: (organizationId: string | undefined, asOf: string) =>
+    ['organization-data', organizationId, 'metrics', 'receivables-aging', asOf] as const,
+  salaryTotals: (organizationId: string | undefined, from: string, to: string, dispatcherId: string | null) =>
+    ['organization-data', organizationId, 'metrics', 'salary', from, to, dispatcherId] as const,
+};
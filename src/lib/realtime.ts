@@ -0,0 +1,41 @@
+import { REALTIME_SUBSCRIBE_STATES, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+export type ConnectionStatus = 'connecting' | 'live' | 'offline';
+
+// How often to refetch while the realtime connection is down
+export const POLL_INTERVAL_MS = 30_000;
+
+export const toConnectionStatus = (state: REALTIME_SUBSCRIBE_STATES): ConnectionStatus =>
+  state === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED ? 'live' : 'offline';
+
+/** The weakest of several connections; the header shows one indicator for all of them. */
+export const combineConnectionStatus = (...statuses: ConnectionStatus[]): ConnectionStatus => {
+  if (statuses.includes('offline')) return 'offline';
+  if (statuses.includes('connecting')) return 'connecting';
+  return 'live';
+};
+
+/** Inserts new rows in front and replaces ones already present, matching by id. */
+export const upsertRows = <T extends { id: string }>(rows: T[], incoming: T[]): T[] => {
+  const incomingIds = new Set(incoming.map(row => row.id));
+  const added = incoming.filter(row => !rows.some(r => r.id === row.id));
+  return [
+    ...added,
+    ...rows.map(row => (incomingIds.has(row.id) ? incoming.find(r => r.id === row.id)! : row)),
+  ];
+};
+
+/**
+ * Merges a postgres_changes event into local state. Our own writes echo back here too,
+ * so applying a change twice must leave the rows unchanged.
+ */
+export const applyChange = <T extends { id: string }>(
+  rows: T[],
+  payload: RealtimePostgresChangesPayload<T>
+): T[] => {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old.id;
+    return rows.filter(row => row.id !== id);
+  }
+  return upsertRows(rows, [payload.new]);
+};
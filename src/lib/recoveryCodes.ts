@@ -0,0 +1,24 @@
+// Recovery codes for two-factor authentication. Codes are shown once; only their
+// SHA-256 hashes are stored. Keep normalizeRecoveryCode and hashRecoveryCode in sync
+// with the redeem-recovery-code edge function.
+
+const RECOVERY_CODE_COUNT = 10;
+
+// No 0/O or 1/I so codes survive being written down
+const ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const randomGroup = (length: number) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, b => ALPHABET[b % ALPHABET.length]).join('');
+};
+
+/** Codes formatted as XXXX-XXXX for display. */
+export const generateRecoveryCodes = (count = RECOVERY_CODE_COUNT): string[] =>
+  Array.from({ length: count }, () => `${randomGroup(4)}-${randomGroup(4)}`);
+
+export const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const hashRecoveryCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,266 @@
+/**
+ * Approximate centroids (latitude, longitude) of US freight cities, for offline mileage
+ * estimates. Imported on demand by mileage.ts to keep it out of the main bundle.
+ */
+export const US_CITY_CENTROIDS: [city: string, state: string, lat: number, lon: number][] = [
+  ['Birmingham', 'AL', 33.52, -86.81],
+  ['Huntsville', 'AL', 34.73, -86.59],
+  ['Mobile', 'AL', 30.69, -88.04],
+  ['Montgomery', 'AL', 32.37, -86.30],
+  ['Dothan', 'AL', 31.22, -85.39],
+  ['Anchorage', 'AK', 61.22, -149.90],
+  ['Phoenix', 'AZ', 33.45, -112.07],
+  ['Tucson', 'AZ', 32.22, -110.97],
+  ['Flagstaff', 'AZ', 35.20, -111.65],
+  ['Yuma', 'AZ', 32.69, -114.63],
+  ['Little Rock', 'AR', 34.75, -92.29],
+  ['Fort Smith', 'AR', 35.39, -94.40],
+  ['Springdale', 'AR', 36.19, -94.13],
+  ['Bentonville', 'AR', 36.37, -94.21],
+  ['Jonesboro', 'AR', 35.84, -90.70],
+  ['Los Angeles', 'CA', 34.05, -118.24],
+  ['San Diego', 'CA', 32.72, -117.16],
+  ['San Francisco', 'CA', 37.77, -122.42],
+  ['Oakland', 'CA', 37.80, -122.27],
+  ['San Jose', 'CA', 37.34, -121.89],
+  ['Sacramento', 'CA', 38.58, -121.49],
+  ['Fresno', 'CA', 36.74, -119.79],
+  ['Bakersfield', 'CA', 35.37, -119.02],
+  ['Stockton', 'CA', 37.96, -121.29],
+  ['Modesto', 'CA', 37.64, -120.99],
+  ['Ontario', 'CA', 34.06, -117.65],
+  ['Fontana', 'CA', 34.09, -117.44],
+  ['Riverside', 'CA', 33.95, -117.40],
+  ['San Bernardino', 'CA', 34.11, -117.29],
+  ['Long Beach', 'CA', 33.77, -118.19],
+  ['Salinas', 'CA', 36.68, -121.66],
+  ['Redding', 'CA', 40.59, -122.39],
+  ['El Centro', 'CA', 32.79, -115.56],
+  ['Denver', 'CO', 39.74, -104.99],
+  ['Colorado Springs', 'CO', 38.83, -104.82],
+  ['Grand Junction', 'CO', 39.06, -108.55],
+  ['Pueblo', 'CO', 38.25, -104.61],
+  ['Greeley', 'CO', 40.42, -104.71],
+  ['Hartford', 'CT', 41.77, -72.67],
+  ['New Haven', 'CT', 41.31, -72.92],
+  ['Bridgeport', 'CT', 41.19, -73.20],
+  ['Wilmington', 'DE', 39.74, -75.55],
+  ['Dover', 'DE', 39.16, -75.52],
+  ['Washington', 'DC', 38.91, -77.04],
+  ['Jacksonville', 'FL', 30.33, -81.66],
+  ['Miami', 'FL', 25.76, -80.19],
+  ['Tampa', 'FL', 27.95, -82.46],
+  ['Orlando', 'FL', 28.54, -81.38],
+  ['Lakeland', 'FL', 28.04, -81.95],
+  ['Tallahassee', 'FL', 30.44, -84.28],
+  ['Pensacola', 'FL', 30.42, -87.22],
+  ['Fort Myers', 'FL', 26.64, -81.87],
+  ['Ocala', 'FL', 29.19, -82.14],
+  ['West Palm Beach', 'FL', 26.72, -80.05],
+  ['Atlanta', 'GA', 33.75, -84.39],
+  ['Savannah', 'GA', 32.08, -81.09],
+  ['Macon', 'GA', 32.84, -83.63],
+  ['Augusta', 'GA', 33.47, -81.97],
+  ['Columbus', 'GA', 32.46, -84.99],
+  ['Valdosta', 'GA', 30.83, -83.28],
+  ['Dalton', 'GA', 34.77, -84.97],
+  ['Honolulu', 'HI', 21.31, -157.86],
+  ['Boise', 'ID', 43.62, -116.20],
+  ['Idaho Falls', 'ID', 43.49, -112.04],
+  ['Twin Falls', 'ID', 42.56, -114.46],
+  ['Chicago', 'IL', 41.88, -87.63],
+  ['Joliet', 'IL', 41.53, -88.08],
+  ['Rockford', 'IL', 42.27, -89.09],
+  ['Peoria', 'IL', 40.69, -89.59],
+  ['Springfield', 'IL', 39.78, -89.65],
+  ['Champaign', 'IL', 40.12, -88.24],
+  ['Effingham', 'IL', 39.12, -88.54],
+  ['Indianapolis', 'IN', 39.77, -86.16],
+  ['Fort Wayne', 'IN', 41.08, -85.14],
+  ['Evansville', 'IN', 37.97, -87.56],
+  ['South Bend', 'IN', 41.68, -86.25],
+  ['Gary', 'IN', 41.59, -87.35],
+  ['Lafayette', 'IN', 40.42, -86.88],
+  ['Des Moines', 'IA', 41.59, -93.62],
+  ['Cedar Rapids', 'IA', 41.98, -91.67],
+  ['Davenport', 'IA', 41.52, -90.58],
+  ['Sioux City', 'IA', 42.50, -96.40],
+  ['Waterloo', 'IA', 42.49, -92.34],
+  ['Wichita', 'KS', 37.69, -97.34],
+  ['Kansas City', 'KS', 39.11, -94.63],
+  ['Topeka', 'KS', 39.05, -95.68],
+  ['Salina', 'KS', 38.84, -97.61],
+  ['Garden City', 'KS', 37.97, -100.87],
+  ['Dodge City', 'KS', 37.75, -100.02],
+  ['Louisville', 'KY', 38.25, -85.76],
+  ['Lexington', 'KY', 38.04, -84.50],
+  ['Bowling Green', 'KY', 36.99, -86.44],
+  ['Paducah', 'KY', 37.08, -88.60],
+  ['New Orleans', 'LA', 29.95, -90.07],
+  ['Baton Rouge', 'LA', 30.45, -91.19],
+  ['Shreveport', 'LA', 32.53, -93.75],
+  ['Lafayette', 'LA', 30.22, -92.02],
+  ['Lake Charles', 'LA', 30.23, -93.22],
+  ['Monroe', 'LA', 32.51, -92.12],
+  ['Portland', 'ME', 43.66, -70.26],
+  ['Bangor', 'ME', 44.80, -68.77],
+  ['Baltimore', 'MD', 39.29, -76.61],
+  ['Hagerstown', 'MD', 39.64, -77.72],
+  ['Salisbury', 'MD', 38.36, -75.60],
+  ['Boston', 'MA', 42.36, -71.06],
+  ['Worcester', 'MA', 42.26, -71.80],
+  ['Springfield', 'MA', 42.10, -72.59],
+  ['Detroit', 'MI', 42.33, -83.05],
+  ['Grand Rapids', 'MI', 42.96, -85.67],
+  ['Lansing', 'MI', 42.73, -84.56],
+  ['Flint', 'MI', 43.01, -83.69],
+  ['Kalamazoo', 'MI', 42.29, -85.59],
+  ['Saginaw', 'MI', 43.42, -83.95],
+  ['Traverse City', 'MI', 44.76, -85.62],
+  ['Minneapolis', 'MN', 44.98, -93.27],
+  ['Saint Paul', 'MN', 44.95, -93.09],
+  ['Duluth', 'MN', 46.79, -92.10],
+  ['Rochester', 'MN', 44.02, -92.47],
+  ['Saint Cloud', 'MN', 45.56, -94.16],
+  ['Jackson', 'MS', 32.30, -90.18],
+  ['Gulfport', 'MS', 30.37, -89.09],
+  ['Hattiesburg', 'MS', 31.33, -89.29],
+  ['Tupelo', 'MS', 34.26, -88.70],
+  ['Meridian', 'MS', 32.36, -88.70],
+  ['Kansas City', 'MO', 39.10, -94.58],
+  ['St. Louis', 'MO', 38.63, -90.20],
+  ['Springfield', 'MO', 37.21, -93.29],
+  ['Joplin', 'MO', 37.08, -94.51],
+  ['Columbia', 'MO', 38.95, -92.33],
+  ['Cape Girardeau', 'MO', 37.31, -89.52],
+  ['Billings', 'MT', 45.78, -108.50],
+  ['Missoula', 'MT', 46.87, -113.99],
+  ['Great Falls', 'MT', 47.50, -111.30],
+  ['Bozeman', 'MT', 45.68, -111.04],
+  ['Omaha', 'NE', 41.26, -95.93],
+  ['Lincoln', 'NE', 40.81, -96.68],
+  ['Grand Island', 'NE', 40.92, -98.34],
+  ['North Platte', 'NE', 41.12, -100.77],
+  ['Las Vegas', 'NV', 36.17, -115.14],
+  ['Reno', 'NV', 39.53, -119.81],
+  ['Elko', 'NV', 40.83, -115.76],
+  ['Manchester', 'NH', 42.99, -71.46],
+  ['Newark', 'NJ', 40.74, -74.17],
+  ['Elizabeth', 'NJ', 40.66, -74.21],
+  ['Edison', 'NJ', 40.52, -74.41],
+  ['Trenton', 'NJ', 40.22, -74.76],
+  ['Camden', 'NJ', 39.93, -75.12],
+  ['Albuquerque', 'NM', 35.08, -106.65],
+  ['Las Cruces', 'NM', 32.32, -106.76],
+  ['Santa Fe', 'NM', 35.69, -105.94],
+  ['Gallup', 'NM', 35.53, -108.74],
+  ['New York', 'NY', 40.71, -74.01],
+  ['Bronx', 'NY', 40.84, -73.87],
+  ['Brooklyn', 'NY', 40.68, -73.94],
+  ['Buffalo', 'NY', 42.89, -78.88],
+  ['Rochester', 'NY', 43.16, -77.61],
+  ['Syracuse', 'NY', 43.05, -76.15],
+  ['Albany', 'NY', 42.65, -73.76],
+  ['Binghamton', 'NY', 42.10, -75.91],
+  ['Charlotte', 'NC', 35.23, -80.84],
+  ['Raleigh', 'NC', 35.78, -78.64],
+  ['Greensboro', 'NC', 36.07, -79.79],
+  ['Winston-Salem', 'NC', 36.10, -80.24],
+  ['Durham', 'NC', 35.99, -78.90],
+  ['Fayetteville', 'NC', 35.05, -78.88],
+  ['Wilmington', 'NC', 34.23, -77.94],
+  ['Asheville', 'NC', 35.60, -82.55],
+  ['Fargo', 'ND', 46.88, -96.79],
+  ['Bismarck', 'ND', 46.81, -100.78],
+  ['Grand Forks', 'ND', 47.93, -97.03],
+  ['Columbus', 'OH', 39.96, -83.00],
+  ['Cleveland', 'OH', 41.50, -81.69],
+  ['Cincinnati', 'OH', 39.10, -84.51],
+  ['Toledo', 'OH', 41.65, -83.54],
+  ['Akron', 'OH', 41.08, -81.52],
+  ['Dayton', 'OH', 39.76, -84.19],
+  ['Youngstown', 'OH', 41.10, -80.65],
+  ['Oklahoma City', 'OK', 35.47, -97.52],
+  ['Tulsa', 'OK', 36.15, -95.99],
+  ['Lawton', 'OK', 34.60, -98.39],
+  ['Enid', 'OK', 36.40, -97.88],
+  ['Portland', 'OR', 45.52, -122.68],
+  ['Eugene', 'OR', 44.05, -123.09],
+  ['Salem', 'OR', 44.94, -123.04],
+  ['Medford', 'OR', 42.33, -122.87],
+  ['Bend', 'OR', 44.06, -121.32],
+  ['Hermiston', 'OR', 45.84, -119.29],
+  ['Philadelphia', 'PA', 39.95, -75.17],
+  ['Pittsburgh', 'PA', 40.44, -80.00],
+  ['Allentown', 'PA', 40.60, -75.49],
+  ['Harrisburg', 'PA', 40.27, -76.88],
+  ['Scranton', 'PA', 41.41, -75.66],
+  ['Erie', 'PA', 42.13, -80.09],
+  ['Lancaster', 'PA', 40.04, -76.31],
+  ['York', 'PA', 39.96, -76.73],
+  ['Carlisle', 'PA', 40.20, -77.19],
+  ['Providence', 'RI', 41.82, -71.41],
+  ['Charleston', 'SC', 32.78, -79.93],
+  ['Columbia', 'SC', 34.00, -81.03],
+  ['Greenville', 'SC', 34.85, -82.40],
+  ['Spartanburg', 'SC', 34.95, -81.93],
+  ['Florence', 'SC', 34.20, -79.76],
+  ['Sioux Falls', 'SD', 43.55, -96.73],
+  ['Rapid City', 'SD', 44.08, -103.23],
+  ['Nashville', 'TN', 36.16, -86.78],
+  ['Memphis', 'TN', 35.15, -90.05],
+  ['Knoxville', 'TN', 35.96, -83.92],
+  ['Chattanooga', 'TN', 35.05, -85.31],
+  ['Jackson', 'TN', 35.61, -88.81],
+  ['Kingsport', 'TN', 36.55, -82.56],
+  ['Houston', 'TX', 29.76, -95.37],
+  ['Dallas', 'TX', 32.78, -96.80],
+  ['Fort Worth', 'TX', 32.76, -97.33],
+  ['San Antonio', 'TX', 29.42, -98.49],
+  ['Austin', 'TX', 30.27, -97.74],
+  ['El Paso', 'TX', 31.76, -106.49],
+  ['Laredo', 'TX', 27.51, -99.51],
+  ['McAllen', 'TX', 26.20, -98.23],
+  ['Pharr', 'TX', 26.19, -98.18],
+  ['Brownsville', 'TX', 25.90, -97.50],
+  ['Corpus Christi', 'TX', 27.80, -97.40],
+  ['Lubbock', 'TX', 33.58, -101.86],
+  ['Amarillo', 'TX', 35.22, -101.83],
+  ['Midland', 'TX', 32.00, -102.08],
+  ['Odessa', 'TX', 31.85, -102.37],
+  ['Abilene', 'TX', 32.45, -99.73],
+  ['Waco', 'TX', 31.55, -97.15],
+  ['Tyler', 'TX', 32.35, -95.30],
+  ['Longview', 'TX', 32.50, -94.74],
+  ['Beaumont', 'TX', 30.08, -94.13],
+  ['Salt Lake City', 'UT', 40.76, -111.89],
+  ['Ogden', 'UT', 41.22, -111.97],
+  ['Provo', 'UT', 40.23, -111.66],
+  ['St. George', 'UT', 37.10, -113.58],
+  ['Burlington', 'VT', 44.48, -73.21],
+  ['Richmond', 'VA', 37.54, -77.44],
+  ['Norfolk', 'VA', 36.85, -76.29],
+  ['Virginia Beach', 'VA', 36.85, -75.98],
+  ['Roanoke', 'VA', 37.27, -79.94],
+  ['Winchester', 'VA', 39.19, -78.16],
+  ['Harrisonburg', 'VA', 38.45, -78.87],
+  ['Seattle', 'WA', 47.61, -122.33],
+  ['Tacoma', 'WA', 47.25, -122.44],
+  ['Spokane', 'WA', 47.66, -117.43],
+  ['Yakima', 'WA', 46.60, -120.51],
+  ['Kent', 'WA', 47.38, -122.23],
+  ['Wenatchee', 'WA', 47.42, -120.31],
+  ['Pasco', 'WA', 46.24, -119.10],
+  ['Charleston', 'WV', 38.35, -81.63],
+  ['Huntington', 'WV', 38.42, -82.45],
+  ['Morgantown', 'WV', 39.63, -79.96],
+  ['Milwaukee', 'WI', 43.04, -87.91],
+  ['Madison', 'WI', 43.07, -89.40],
+  ['Green Bay', 'WI', 44.51, -88.01],
+  ['Appleton', 'WI', 44.26, -88.42],
+  ['Eau Claire', 'WI', 44.81, -91.50],
+  ['La Crosse', 'WI', 43.80, -91.24],
+  ['Cheyenne', 'WY', 41.14, -104.82],
+  ['Casper', 'WY', 42.87, -106.31],
+  ['Rock Springs', 'WY', 41.59, -109.20],
+];
@@ -0,0 +1,344 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { supabase } from '@/integrations/supabase/client';
+import { OrganizationRole } from '@/types';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Truck, Mail, Lock, User, AlertCircle } from 'lucide-react';
+import { z } from 'zod';
+import { toast } from 'sonner';
+
+interface InvitationSummary {
+  organization_name: string;
+  email: string;
+  role: OrganizationRole;
+  status: string;
+}
+
+const setupSchema = z.object({
+  fullName: z.string().trim().min(1, 'Enter your name').max(100, 'Name is too long'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+const STATUS_MESSAGES: Record<string, string> = {
+  accepted: 'This invitation has already been used.',
+  revoked: 'This invitation was revoked. Ask the owner to send a new one.',
+  expired: 'This invitation has expired. Ask the owner to resend it.',
+};
+
+const InviteCard = ({ title, description, children }: { title: string; description: ReactNode; children?: ReactNode }) => (
+  <div className="min-h-screen bg-background flex items-center justify-center p-4">
+    <div className="w-full max-w-md">
+      {/* Logo */}
+      <div className="text-center mb-8">
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <div className="flex h-14 w-14 items-center justify-center rounded-xl bg-primary/10">
+            <Truck className="h-8 w-8 text-primary" />
+          </div>
+        </div>
+        <h1 className="text-2xl font-bold">UG Transportation</h1>
+        <p className="text-muted-foreground">Dispatcher Platform</p>
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader className="text-center">
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        {children && <CardContent>{children}</CardContent>}
+      </Card>
+    </div>
+  </div>
+);
+
+const ErrorMessage = ({ message }: { message: string }) => (
+  <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+    <p className="text-sm text-destructive">{message}</p>
+  </div>
+);
+
+const AcceptInvite = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading, signIn, signOut, changePassword } = useAuth();
+  const { organizations, loading: organizationsLoading, refreshOrganizations, switchOrganization } = useOrganization();
+  const navigate = useNavigate();
+  const [invitation, setInvitation] = useState<InvitationSummary | null>(null);
+  const [loadingInvitation, setLoadingInvitation] = useState(true);
+  const [fullName, setFullName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      setLoadingInvitation(true);
+      try {
+        const { data, error } = await supabase.rpc('get_invitation', { p_token: token });
+        if (error) throw error;
+        setInvitation(data?.[0] ?? null);
+      } catch (err) {
+        console.error('Error fetching invitation:', err);
+        setInvitation(null);
+      } finally {
+        setLoadingInvitation(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const acceptInvitation = async () => {
+    const { data: organizationId, error: acceptError } = await supabase.rpc('accept_invitation', { p_token: token });
+    if (acceptError) {
+      setError(acceptError.message);
+      return;
+    }
+
+    await refreshOrganizations();
+    switchOrganization(organizationId);
+    toast.success(`Welcome to ${invitation?.organization_name}`);
+    navigate('/');
+  };
+
+  // Accounts created by the invitation email have no name or password yet
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+
+    try {
+      const validation = setupSchema.safeParse({ fullName, password, confirmPassword });
+      if (!validation.success) {
+        setError(validation.error.errors[0].message);
+        return;
+      }
+
+      const { error: passwordError } = await changePassword(password);
+      if (passwordError) {
+        setError(passwordError.message);
+        return;
+      }
+
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({ full_name: validation.data.fullName })
+        .eq('id', user.id);
+      if (profileError) throw profileError;
+
+      await acceptInvitation();
+    } catch (err) {
+      console.error('Error finishing sign-up:', err);
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    setError('');
+    setSubmitting(true);
+    try {
+      await acceptInvitation();
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+
+    try {
+      const { error: signInError } = await signIn(invitation.email, password);
+      if (signInError) {
+        if (signInError.message.includes('Invalid login credentials')) {
+          setError('Invalid email or password. Please try again.');
+        } else {
+          setError(signInError.message);
+        }
+      } else {
+        setPassword('');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (authLoading || loadingInvitation || (user && organizationsLoading)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex items-center gap-2">
+          <span className="flex h-3 w-3 rounded-full bg-primary animate-pulse" />
+          <span className="text-muted-foreground">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <InviteCard title="Invitation not found" description="Check that you opened the full link from your invitation email.">
+        <Button className="w-full" variant="outline" onClick={() => navigate('/')}>Go to Dashboard</Button>
+      </InviteCard>
+    );
+  }
+
+  const invitedAs = (
+    <>
+      You've been invited to join <span className="font-medium text-foreground">{invitation.organization_name}</span> as{' '}
+      {ROLE_LABELS[invitation.role].toLowerCase()}.
+    </>
+  );
+
+  if (invitation.status !== 'pending') {
+    return (
+      <InviteCard title="Invitation unavailable" description={STATUS_MESSAGES[invitation.status]}>
+        <Button className="w-full" variant="outline" onClick={() => navigate('/')}>Go to Dashboard</Button>
+      </InviteCard>
+    );
+  }
+
+  if (!user) {
+    return (
+      <InviteCard title="Sign in to accept" description={invitedAs}>
+        <form onSubmit={handleSignIn} className="space-y-4">
+          {error && <ErrorMessage message={error} />}
+
+          <p className="text-sm text-muted-foreground">
+            New here? Open the link from your invitation email to set up your account.
+          </p>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Email</label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input type="email" value={invitation.email} className="pl-10 input-dark" readOnly />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+                className="pl-10 input-dark"
+                required
+                minLength={6}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full btn-primary" disabled={submitting}>
+            {submitting ? 'Please wait...' : 'Sign In'}
+          </Button>
+        </form>
+      </InviteCard>
+    );
+  }
+
+  if (user.email?.toLowerCase() !== invitation.email) {
+    return (
+      <InviteCard
+        title="Wrong account"
+        description={`You're signed in as ${user.email}, but this invitation was sent to ${invitation.email}.`}
+      >
+        <Button className="w-full btn-primary" onClick={signOut}>Sign Out and Switch Account</Button>
+      </InviteCard>
+    );
+  }
+
+  if (organizations.length === 0) {
+    return (
+      <InviteCard title="Finish setting up your account" description={invitedAs}>
+        <form onSubmit={handleSetup} className="space-y-4">
+          {error && <ErrorMessage message={error} />}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Full Name</label>
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                placeholder="Jane Doe"
+                className="pl-10 input-dark"
+                required
+                maxLength={100}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+                className="pl-10 input-dark"
+                required
+                minLength={6}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Confirm Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="••••••••"
+                className="pl-10 input-dark"
+                required
+                minLength={6}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full btn-primary" disabled={submitting}>
+            {submitting ? 'Please wait...' : 'Create Account and Join'}
+          </Button>
+        </form>
+      </InviteCard>
+    );
+  }
+
+  return (
+    <InviteCard title="Join organization" description={invitedAs}>
+      <div className="space-y-4">
+        {error && <ErrorMessage message={error} />}
+        <Button className="w-full btn-primary" onClick={handleJoin} disabled={submitting}>
+          {submitting ? 'Please wait...' : `Join ${invitation.organization_name}`}
+        </Button>
+        <Button className="w-full" variant="outline" onClick={() => navigate('/')}>Not Now</Button>
+      </div>
+    </InviteCard>
+  );
+};
+
+export default AcceptInvite;
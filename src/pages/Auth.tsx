@@ -4,7 +4,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Truck, Mail, Lock, AlertCircle } from 'lucide-react';
+import { Truck, Mail, Lock, AlertCircle, CheckCircle } from 'lucide-react';
 import { z } from 'zod';
 
 const signInSchema = z.object({
@@ -12,17 +12,33 @@ const signInSchema = z.object({
   password: z.string().min(6, 'Password must be at least 6 characters'),
 });
 
+const emailSchema = z.string().email('Invalid email address');
+
+type AuthMode = 'signIn' | 'forgotPassword';
+
 const Auth = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [unverifiedEmail, setUnverifiedEmail] = useState('');
+  const [mode, setMode] = useState<AuthMode>('signIn');
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
+  const { signIn, requestPasswordReset, resendVerification } = useAuth();
   const navigate = useNavigate();
 
+  const switchMode = (nextMode: AuthMode) => {
+    setMode(nextMode);
+    setError('');
+    setNotice('');
+    setUnverifiedEmail('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
+    setUnverifiedEmail('');
     setLoading(true);
 
     try {
@@ -37,6 +53,9 @@ const Auth = () => {
       if (signInError) {
         if (signInError.message.includes('Invalid login credentials')) {
           setError('Invalid email or password. Please try again.');
+        } else if (signInError.message.includes('Email not confirmed')) {
+          setError('Your email address has not been verified yet. Open the link in the confirmation email we sent you.');
+          setUnverifiedEmail(email.trim());
         } else {
           setError(signInError.message);
         }
@@ -50,6 +69,54 @@ const Auth = () => {
     }
   };
 
+  const handleResetRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+    setLoading(true);
+
+    try {
+      const validation = emailSchema.safeParse(email.trim());
+      if (!validation.success) {
+        setError(validation.error.errors[0].message);
+        return;
+      }
+
+      const { error: resetError } = await requestPasswordReset(validation.data);
+      if (resetError) {
+        setError(resetError.message);
+      } else {
+        // Same message whether or not the address has an account
+        setNotice(`If an account exists for ${validation.data}, a link to reset the password is on its way.`);
+      }
+    } catch (err) {
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const { error: resendError } = await resendVerification(unverifiedEmail);
+      if (resendError) {
+        setError(resendError.message);
+      } else {
+        setNotice(`We sent a new confirmation link to ${unverifiedEmail}.`);
+        setUnverifiedEmail('');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isForgotPassword = mode === 'forgotPassword';
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -66,17 +133,39 @@ const Auth = () => {
 
         <Card className="glass-card">
           <CardHeader className="text-center">
-            <CardTitle>Welcome Back</CardTitle>
+            <CardTitle>{isForgotPassword ? 'Reset Password' : 'Welcome Back'}</CardTitle>
             <CardDescription>
-              Enter your credentials to access your account
+              {isForgotPassword
+                ? "Enter your email and we'll send you a link to choose a new password"
+                : 'Enter your credentials to access your account'}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
+            <form onSubmit={isForgotPassword ? handleResetRequest : handleSubmit} className="space-y-4">
               {error && (
-                <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
-                  <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
-                  <p className="text-sm text-destructive">{error}</p>
+                <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                    <p className="text-sm text-destructive">{error}</p>
+                  </div>
+                  {unverifiedEmail && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleResendVerification}
+                      disabled={loading}
+                    >
+                      Resend Confirmation Email
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {notice && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-success/10 border border-success/20">
+                  <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />
+                  <p className="text-sm text-success">{notice}</p>
                 </div>
               )}
 
@@ -96,25 +185,42 @@ const Auth = () => {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Password</label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="••••••••"
-                    className="pl-10 input-dark"
-                    required
-                    minLength={6}
-                  />
+              {!isForgotPassword && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium">Password</label>
+                    <button
+                      type="button"
+                      onClick={() => switchMode('forgotPassword')}
+                      className="text-xs text-primary hover:underline"
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="••••••••"
+                      className="pl-10 input-dark"
+                      required
+                      minLength={6}
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
 
               <Button type="submit" className="w-full btn-primary" disabled={loading}>
-                {loading ? 'Please wait...' : 'Sign In'}
+                {loading ? 'Please wait...' : isForgotPassword ? 'Send Reset Link' : 'Sign In'}
               </Button>
+
+              {isForgotPassword && (
+                <Button type="button" variant="ghost" className="w-full" onClick={() => switchMode('signIn')}>
+                  Back to Sign In
+                </Button>
+              )}
             </form>
           </CardContent>
         </Card>
@@ -4,10 +4,22 @@ import { TeamDashboard } from '@/components/TeamDashboard';
 import { LoadsManager } from '@/components/LoadsManager';
 import { BonusesManager } from '@/components/BonusesManager';
 import { DriversManager } from '@/components/DriversManager';
+import { BrokersManager } from '@/components/BrokersManager';
+import { InvoicesManager } from '@/components/InvoicesManager';
 import { PrebooksCalendar } from '@/components/PrebooksCalendar';
+import { DriverSettlements } from '@/components/DriverSettlements';
+import { MembersManager } from '@/components/MembersManager';
+import { TwoFactorSetup } from '@/components/TwoFactorSetup';
+import { useAuth } from '@/hooks/useAuth';
 import { useData } from '@/hooks/useData';
+import { useOrganization } from '@/hooks/useOrganization';
 import { usePrebooks } from '@/hooks/usePrebooks';
+import { useBrokers } from '@/hooks/useBrokers';
+import { useLoadChargeRules } from '@/hooks/useLoadChargeRules';
+import { useInvoices } from '@/hooks/useInvoices';
+import { useDriverPay } from '@/hooks/useDriverPay';
 import { format, startOfWeek } from 'date-fns';
+import { combineConnectionStatus } from '@/lib/realtime';
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState('team');
@@ -15,20 +27,75 @@ const Index = () => {
     drivers,
     loads,
     bonuses,
+    bonusTierRules,
+    driverTypeHistory,
+    commissionPlans,
+    payrollPeriods,
     systemState,
     loading,
+    connection: dataConnection,
     updateSystemState,
     addDriver,
     updateDriver,
     deleteDriver,
     addLoad,
     updateLoad,
+    updateLoadStatus,
+    importLoads,
     deleteLoad,
     addManualBonus,
     deleteBonus,
+    addBonusTierRules,
+    updateBonusTierRule,
+    deleteBonusTierRule,
+    addCommissionPlan,
+    updateCommissionPlan,
+    deleteCommissionPlan,
+    closePayrollPeriod,
+    addAdjustment,
   } = useData();
   
-  const { notes: prebookNotes, addNote, updateNote, deleteNote, loading: prebooksLoading } = usePrebooks();
+  const { organization, members, permissions, loading: organizationLoading } = useOrganization();
+  const { assurance } = useAuth();
+  const [enrollingMfa, setEnrollingMfa] = useState(false);
+
+  // Stays set until the recovery codes are saved, even though verifying already upgrades the session
+  const mustEnrollMfa = !!organization?.require_mfa && assurance?.currentLevel !== 'aal2';
+  if (mustEnrollMfa && !enrollingMfa) {
+    setEnrollingMfa(true);
+  }
+  
+  // Dispatchers who can get their own commission plan
+  const dispatchers = members.map(m => ({ id: m.user_id, name: m.full_name || m.email || 'Dispatcher' }));
+
+  const { notes: prebookNotes, addNote, updateNote, deleteNote, loading: prebooksLoading, connection: prebooksConnection } = usePrebooks();
+  const { brokers, addBroker, updateBroker, deleteBroker, connection: brokersConnection } = useBrokers();
+  const { invoices, createInvoice, voidInvoice, recordPayment, deletePayment, connection: invoicesConnection } = useInvoices();
+  const { chargeRules, saveChargeRule, deleteChargeRule, connection: chargeRulesConnection } = useLoadChargeRules();
+  const {
+    payPlans,
+    deductions,
+    advances,
+    addPayPlan,
+    deletePayPlan,
+    addDeduction,
+    endDeduction,
+    deleteDeduction,
+    addAdvance,
+    deleteAdvance,
+    connection: driverPayConnection,
+  } = useDriverPay(systemState.selectedWeek);
+  const connection = combineConnectionStatus(
+    dataConnection,
+    prebooksConnection,
+    brokersConnection,
+    invoicesConnection,
+    chargeRulesConnection,
+    driverPayConnection
+  );
+
+  // Roles without access to the tab fall back to the dashboard
+  const visibleTab = permissions.tabs.includes(activeTab) ? activeTab : 'team';
 
   const handleDateChange = (date: Date) => {
     updateSystemState({ selectedDay: format(date, 'yyyy-MM-dd') });
@@ -42,9 +109,39 @@ const Index = () => {
     updateSystemState({ selectedWeek: week });
   };
 
+  // Invited users who have not accepted yet, or members deactivated everywhere
+  if (!organizationLoading && !organization) {
+    return (
+      <Layout activeTab={visibleTab} onTabChange={setActiveTab}>
+        <div className="glass-card p-8 text-center max-w-md mx-auto">
+          <p className="font-medium mb-1">You're not part of an organization</p>
+          <p className="text-sm text-muted-foreground">
+            Ask an owner to invite you, then open the link from the invitation email.
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (enrollingMfa) {
+    return (
+      <Layout activeTab={visibleTab} onTabChange={setActiveTab}>
+        <div className="glass-card p-6 max-w-md mx-auto space-y-4">
+          <div>
+            <p className="font-medium mb-1">Two-factor authentication required</p>
+            <p className="text-sm text-muted-foreground">
+              {organization?.name} requires every member to sign in with an authenticator app.
+            </p>
+          </div>
+          <TwoFactorSetup onComplete={() => setEnrollingMfa(false)} />
+        </div>
+      </Layout>
+    );
+  }
+
   if (loading) {
     return (
-      <Layout activeTab={activeTab} onTabChange={setActiveTab}>
+      <Layout activeTab={visibleTab} onTabChange={setActiveTab} connection={connection}>
         <div className="flex items-center justify-center py-20">
           <div className="flex items-center gap-2">
             <span className="flex h-3 w-3 rounded-full bg-primary animate-pulse" />
@@ -56,41 +153,64 @@ const Index = () => {
   }
 
   return (
-    <Layout activeTab={activeTab} onTabChange={setActiveTab}>
-      {activeTab === 'team' && (
+    <Layout activeTab={visibleTab} onTabChange={setActiveTab} connection={connection}>
+      {visibleTab === 'team' && (
         <TeamDashboard
           drivers={drivers}
-          loads={loads}
-          bonuses={bonuses}
+          commissionPlans={commissionPlans}
+          payrollPeriods={payrollPeriods}
           systemState={systemState}
           onDateChange={handleDateChange}
           onMonthChange={handleMonthChange}
+          onClosePeriod={closePayrollPeriod}
+          onAddAdjustment={addAdjustment}
         />
       )}
       
-      {activeTab === 'loads' && (
+      {visibleTab === 'loads' && (
         <LoadsManager
           drivers={drivers}
-          loads={loads}
+          brokers={brokers}
+          commissionPlans={commissionPlans}
+          chargeRules={chargeRules}
+          payrollPeriods={payrollPeriods}
           onAddLoad={addLoad}
           onUpdateLoad={updateLoad}
+          onUpdateLoadStatus={updateLoadStatus}
+          onImportLoads={importLoads}
           onDeleteLoad={deleteLoad}
         />
       )}
       
-      {activeTab === 'bonuses' && (
+      {visibleTab === 'bonuses' && (
         <BonusesManager
           drivers={drivers}
           bonuses={bonuses}
+          bonusTierRules={bonusTierRules}
+          commissionPlans={commissionPlans}
+          dispatchers={dispatchers}
+          payrollPeriods={payrollPeriods}
+          selectedMonth={systemState.selectedMonth}
+          onMonthChange={handleMonthChange}
           onAddBonus={addManualBonus}
           onDeleteBonus={deleteBonus}
+          onAddBonusTierRules={addBonusTierRules}
+          onUpdateBonusTierRule={updateBonusTierRule}
+          onDeleteBonusTierRule={deleteBonusTierRule}
+          onAddCommissionPlan={addCommissionPlan}
+          onUpdateCommissionPlan={updateCommissionPlan}
+          onDeleteCommissionPlan={deleteCommissionPlan}
+          chargeRules={chargeRules}
+          onSaveChargeRule={saveChargeRule}
+          onDeleteChargeRule={deleteChargeRule}
         />
       )}
       
-      {activeTab === 'drivers' && (
+      {visibleTab === 'drivers' && (
         <DriversManager
           drivers={drivers}
-          loads={loads}
+          bonusTierRules={bonusTierRules}
+          driverTypeHistory={driverTypeHistory}
           systemState={systemState}
           onAddDriver={addDriver}
           onUpdateDriver={updateDriver}
@@ -99,7 +219,49 @@ const Index = () => {
         />
       )}
       
-      {activeTab === 'prebooks' && (
+      {visibleTab === 'settlements' && (
+        <DriverSettlements
+          drivers={drivers}
+          loads={loads}
+          driverTypeHistory={driverTypeHistory}
+          payPlans={payPlans}
+          deductions={deductions}
+          advances={advances}
+          selectedWeek={systemState.selectedWeek}
+          onWeekChange={handleWeekChange}
+          onAddPayPlan={addPayPlan}
+          onDeletePayPlan={deletePayPlan}
+          onAddDeduction={addDeduction}
+          onEndDeduction={endDeduction}
+          onDeleteDeduction={deleteDeduction}
+          onAddAdvance={addAdvance}
+          onDeleteAdvance={deleteAdvance}
+        />
+      )}
+      
+      {visibleTab === 'brokers' && (
+        <BrokersManager
+          brokers={brokers}
+          selectedMonth={systemState.selectedMonth}
+          onMonthChange={handleMonthChange}
+          onAddBroker={addBroker}
+          onUpdateBroker={updateBroker}
+          onDeleteBroker={deleteBroker}
+        />
+      )}
+      
+      {visibleTab === 'invoices' && (
+        <InvoicesManager
+          brokers={brokers}
+          invoices={invoices}
+          onCreateInvoice={createInvoice}
+          onVoidInvoice={voidInvoice}
+          onRecordPayment={recordPayment}
+          onDeletePayment={deletePayment}
+        />
+      )}
+      
+      {visibleTab === 'prebooks' && (
         <PrebooksCalendar
           notes={prebookNotes}
           onAddNote={addNote}
@@ -107,6 +269,8 @@ const Index = () => {
           onDeleteNote={deleteNote}
         />
       )}
+
+      {visibleTab === 'members' && <MembersManager />}
     </Layout>
   );
 };
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Truck, Lock, AlertCircle } from 'lucide-react';
+import { z } from 'zod';
+import { toast } from 'sonner';
+
+const passwordSchema = z.object({
+  newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+// Expired or reused links come back with the reason in the URL hash
+const getLinkError = () => new URLSearchParams(window.location.hash.slice(1)).get('error_description');
+
+const ResetPassword = () => {
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [linkError] = useState(getLinkError);
+  const { user, loading, changePassword } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    try {
+      const validation = passwordSchema.safeParse({ newPassword, confirmPassword });
+      if (!validation.success) {
+        setError(validation.error.errors[0].message);
+        return;
+      }
+
+      const { error: updateError } = await changePassword(newPassword);
+      if (updateError) {
+        setError(updateError.message);
+      } else {
+        toast.success('Password updated');
+        navigate('/');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex items-center gap-2">
+          <span className="flex h-3 w-3 rounded-full bg-primary animate-pulse" />
+          <span className="text-muted-foreground">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  // The recovery link signs the user in; without a session there is nothing to reset
+  const isLinkValid = !linkError && !!user;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <div className="flex h-14 w-14 items-center justify-center rounded-xl bg-primary/10">
+              <Truck className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold">UG Transportation</h1>
+          <p className="text-muted-foreground">Dispatcher Platform</p>
+        </div>
+
+        <Card className="glass-card">
+          <CardHeader className="text-center">
+            <CardTitle>{isLinkValid ? 'Choose a New Password' : 'Reset Link Invalid'}</CardTitle>
+            <CardDescription>
+              {isLinkValid
+                ? `Set a new password for ${user.email}`
+                : linkError ?? 'This password reset link is invalid or has expired. Request a new one to continue.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLinkValid ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                    <p className="text-sm text-destructive">{error}</p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">New Password</label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                      placeholder="••••••••"
+                      className="pl-10 input-dark"
+                      required
+                      minLength={6}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Confirm Password</label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      placeholder="••••••••"
+                      className="pl-10 input-dark"
+                      required
+                      minLength={6}
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full btn-primary" disabled={saving}>
+                  {saving ? 'Please wait...' : 'Update Password'}
+                </Button>
+              </form>
+            ) : (
+              <Button className="w-full btn-primary" onClick={() => navigate('/auth')}>
+                Back to Sign In
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
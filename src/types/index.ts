@@ -1,10 +1,53 @@
 export type DriverType = 'owner_operator' | 'company_driver';
 export type LoadType = 'FULL' | 'PARTIAL';
+export type LoadStatus = 'booked' | 'in_transit' | 'delivered' | 'invoiced' | 'paid' | 'cancelled';
+export type LoadStopType = 'pickup' | 'delivery';
+export type LoadChargeType = 'detention' | 'lumper' | 'layover' | 'fuel_surcharge' | 'other';
+export type InvoiceLineKind = 'load' | 'accessorial';
 export type DriverStatus = 'active' | 'inactive';
-export type BonusType = 'automatic' | 'manual';
+export type DriverPayBasis = 'percent_of_gross' | 'per_mile' | 'flat_per_load';
+export type BonusType = 'automatic' | 'manual' | 'adjustment';
+export type OrganizationRole = 'owner' | 'dispatcher' | 'accountant' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  // Members must sign in with a second factor to see the organization's data
+  require_mfa: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A member of the active organization, with the profile used to show their name
+export interface OrganizationMember {
+  user_id: string;
+  role: OrganizationRole;
+  email: string | null;
+  full_name: string | null;
+  joined_at: string;
+  // Deactivated members lose access but keep their name on past loads
+  deactivated_at: string | null;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: OrganizationRole;
+  token: string;
+  invited_by: string;
+  created_at: string;
+  sent_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  revoked_at: string | null;
+}
 
 export interface Driver {
   id: string;
+  organization_id: string;
   user_id: string;
   driver_name: string;
   driver_type: DriverType;
@@ -14,8 +57,27 @@ export interface Driver {
   updated_at: string;
 }
 
+// A broker or shipper the freight is booked with
+export interface Broker {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  name: string;
+  mc_number: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  // Days to pay after invoicing, e.g. 30 for net 30
+  payment_terms_days: number | null;
+  credit_notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Load {
   id: string;
+  organization_id: string;
+  // Dispatcher who booked the load; commission is attributed to them
   user_id: string;
   load_id: string;
   driver_id: string;
@@ -26,12 +88,139 @@ export interface Load {
   rate: number;
   load_type: LoadType;
   connected_full_load_id: string | null;
+  // Who the freight was booked with; null for loads entered before brokers were tracked
+  broker_id: string | null;
+  // Where the load is in its lifecycle; cancelled loads don't count toward gross
+  status: LoadStatus;
+  // Set only on cancelled loads. The rate is kept as booked; a TONU fee counts toward gross instead
+  cancellation_reason: string | null;
+  tonu_amount: number | null;
+  // Miles driven with the freight and empty to reach it; null until entered
+  loaded_miles: number | null;
+  deadhead_miles: number | null;
+  // Totals of the load's accessorial charges, kept by the database when they are saved.
+  // Loads from payroll snapshots taken before charges existed have none.
+  charges_total: number;
+  driver_gross_charges: number;
+  commission_charges: number;
+  reimbursement_charges: number;
+  created_at: string;
+  updated_at: string;
+  // Member who made the last change
+  updated_by: string | null;
+}
+
+// Load columns written only by replace_load_charges
+export type LoadChargeTotalField = 'charges_total' | 'driver_gross_charges' | 'commission_charges' | 'reimbursement_charges';
+
+// A pickup or drop along a load's route. The load's origin, destination and dates
+// mirror its first pickup and last delivery.
+export interface LoadStop {
+  id: string;
+  organization_id: string;
+  load_id: string;
+  // 1-based position along the route
+  sequence: number;
+  stop_type: LoadStopType;
+  city: string;
+  state: string | null;
+  appointment_date: string;
+  // Optional appointment window (HH:MM:SS) on the appointment date
+  window_start: string | null;
+  window_end: string | null;
+  created_at: string;
+}
+
+// How a charge type is paid out. Reimbursements (e.g. a lumper fee the driver paid) are
+// passed back in full and count toward neither gross nor commission.
+export interface LoadChargeFlags {
+  counts_toward_driver_gross: boolean;
+  counts_toward_commission: boolean;
+  reimbursement_only: boolean;
+}
+
+// An organization's flags for a charge type; types without one use the defaults
+export interface LoadChargeRule extends LoadChargeFlags {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  charge_type: LoadChargeType;
+  created_at: string;
+  updated_at: string;
+}
+
+// An accessorial charge billed on top of a load's rate. It keeps the flags its type had
+// when it was saved.
+export interface LoadCharge extends LoadChargeFlags {
+  id: string;
+  organization_id: string;
+  load_id: string;
+  // 1-based position on the load
+  sequence: number;
+  charge_type: LoadChargeType;
+  description: string | null;
+  amount: number;
+  created_at: string;
+}
+
+// A bill to a broker for one or more delivered loads. Numbers are sequential per
+// organization; a voided invoice keeps its number but is off receivables.
+export interface Invoice {
+  id: string;
+  organization_id: string;
+  // Member who issued it
+  user_id: string;
+  broker_id: string;
+  invoice_number: number;
+  issue_date: string;
+  due_date: string;
+  notes: string | null;
+  voided_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface InvoiceLine {
+  id: string;
+  organization_id: string;
+  invoice_id: string;
+  // 1-based position on the invoice
+  sequence: number;
+  kind: InvoiceLineKind;
+  // The load billed on a load line, or the load a charge line belongs to
+  load_id: string | null;
+  description: string;
+  amount: number;
+}
+
+// A full or partial payment received against an invoice
+export interface InvoicePayment {
+  id: string;
+  organization_id: string;
+  invoice_id: string;
+  user_id: string;
+  paid_on: string;
+  amount: number;
+  // Check number, ACH trace or factoring reference
+  reference: string | null;
+  created_at: string;
+}
+
+// One step of a load's lifecycle, recorded by the database whenever its status changes
+export interface LoadStatusChange {
+  id: string;
+  organization_id: string;
+  load_id: string;
+  // Null for the status the load was created with
+  from_status: LoadStatus | null;
+  to_status: LoadStatus;
+  changed_by: string | null;
+  changed_at: string;
+}
+
 export interface Bonus {
   id: string;
+  organization_id: string;
   user_id: string;
   driver_id: string | null;
   bonus_type: BonusType;
@@ -42,6 +231,110 @@ export interface Bonus {
   created_at: string;
 }
 
+export interface BonusTierRule {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  driver_type: DriverType;
+  min_gross: number;
+  amount: number;
+  effective_from: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommissionPlan {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  dispatcher_id: string | null;
+  name: string;
+  full_percent: number;
+  partial_percent: number;
+  // Commission on TONU fees paid for cancelled loads
+  tonu_percent: number;
+  effective_from: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DriverTypeChange {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  driver_id: string;
+  driver_type: DriverType;
+  effective_from: string;
+  created_at: string;
+}
+
+// What a driver earns per load from effective_from on: a percent of gross, dollars per
+// loaded mile or dollars per load, by pay_basis
+export interface DriverPayPlan {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  driver_id: string;
+  pay_basis: DriverPayBasis;
+  rate: number;
+  effective_from: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A weekly charge to a driver (insurance, ELD, trailer rent), taken from every
+// settlement week between starts_on and ends_on
+export interface DriverDeduction {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  driver_id: string;
+  description: string;
+  amount: number;
+  starts_on: string;
+  ends_on: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Money paid to a driver ahead of settlement, taken back in the week of advanced_on
+export interface DriverAdvance {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  driver_id: string;
+  amount: number;
+  advanced_on: string;
+  note: string | null;
+  created_at: string;
+}
+
+// Commission percent applied to each load of a closed period (the TONU percent for a
+// cancelled load), by load id
+export type CommissionPercents = Record<string, number>;
+
+export interface PayrollPeriod {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  full_gross: number;
+  partial_gross: number;
+  total_gross: number;
+  full_load_commission: number;
+  partial_load_commission: number;
+  total_bonuses: number;
+  total_adjustments: number;
+  total_salary: number;
+  snapshot: {
+    loads?: Load[];
+    bonuses?: Bonus[];
+    commission_percents?: CommissionPercents;
+  };
+  closed_at: string;
+}
+
 export interface SystemState {
   selectedDay: string;
   selectedWeek: string;
@@ -64,9 +357,25 @@ export const COMPANY_DRIVER_BONUS_THRESHOLDS: Record<number, number> = {
   15000: 150,
 };
 
-// Helper to get thresholds by driver type
-export const getBonusThresholds = (driverType: DriverType): Record<number, number> => {
-  return driverType === 'owner_operator' 
-    ? OWNER_OPERATOR_BONUS_THRESHOLDS 
-    : COMPANY_DRIVER_BONUS_THRESHOLDS;
+// Default thresholds by driver type
+export const DEFAULT_BONUS_THRESHOLDS: Record<DriverType, Record<number, number>> = {
+  owner_operator: OWNER_OPERATOR_BONUS_THRESHOLDS,
+  company_driver: COMPANY_DRIVER_BONUS_THRESHOLDS,
+};
+
+// Helper to get thresholds by driver type.
+// Custom tier rules replace the defaults for a driver type once any exist for it.
+export const getBonusThresholds = (
+  driverType: DriverType,
+  rules: BonusTierRule[] = []
+): Record<number, number> => {
+  const customRules = rules.filter(r => r.driver_type === driverType);
+  if (customRules.length === 0) {
+    return DEFAULT_BONUS_THRESHOLDS[driverType];
+  }
+
+  return customRules.reduce<Record<number, number>>((thresholds, rule) => {
+    thresholds[Number(rule.min_gross)] = Number(rule.amount);
+    return thresholds;
+  }, {});
 };
@@ -0,0 +1,81 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Same normalization and hash as src/lib/recoveryCodes.ts
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashRecoveryCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Spends a recovery code for a user who lost their authenticator: their factors are removed
+// so the password session is enough again, and they can enroll a new authenticator.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { code } = await req.json();
+    if (typeof code !== 'string' || normalizeRecoveryCode(code) === '') {
+      return json({ error: 'Enter a recovery code' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+    // The caller has passed the password step; that session identifies the user
+    const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: { user }, error: userError } = await callerClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: 'Not signed in' }, 401);
+    }
+
+    const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false },
+    });
+
+    const { data: spent, error: spendError } = await adminClient
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('code_hash', await hashRecoveryCode(code))
+      .is('used_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (spendError) throw spendError;
+    if (!spent) {
+      return json({ error: 'Invalid or already used recovery code' }, 400);
+    }
+
+    const { data: factors, error: factorsError } = await adminClient.auth.admin.mfa.listFactors({ userId: user.id });
+    if (factorsError) throw factorsError;
+
+    for (const factor of factors.factors) {
+      const { error: deleteError } = await adminClient.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+      if (deleteError) throw deleteError;
+    }
+
+    // The remaining codes belonged to the removed authenticator
+    const { error: clearError } = await adminClient.from('mfa_recovery_codes').delete().eq('user_id', user.id);
+    if (clearError) throw clearError;
+
+    return json({ recovered: true });
+  } catch (error) {
+    console.error('Error redeeming recovery code:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to redeem recovery code' }, 500);
+  }
+});
@@ -0,0 +1,68 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Emails the invite link for an open invitation. The invite page URL must be listed
+// under the project's allowed redirect URLs.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { invitationId, origin } = await req.json();
+    if (!invitationId || !origin) {
+      return json({ error: 'invitationId and origin are required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+    // Read as the caller so RLS limits this to owners of the inviting organization
+    const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+
+    const { data: invitation, error } = await callerClient
+      .from('organization_invitations')
+      .select('email, token, accepted_at, revoked_at')
+      .eq('id', invitationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!invitation || invitation.accepted_at || invitation.revoked_at) {
+      return json({ error: 'Invitation not found' }, 404);
+    }
+
+    const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false },
+    });
+    const redirectTo = `${origin}/invite/${invitation.token}`;
+
+    const { error: inviteError } = await adminClient.auth.admin.inviteUserByEmail(invitation.email, { redirectTo });
+
+    // Addresses that already have an account get a sign-in link to the invite page instead
+    if (inviteError) {
+      if (inviteError.status !== 422) throw inviteError;
+
+      const { error: linkError } = await adminClient.auth.signInWithOtp({
+        email: invitation.email,
+        options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+      });
+      if (linkError) throw linkError;
+    }
+
+    return json({ sent: true });
+  } catch (error) {
+    console.error('Error sending invitation:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to send invitation' }, 500);
+  }
+});
@@ -0,0 +1,32 @@
+-- Create bonus_tier_rules table for configurable automatic bonus tiers
+CREATE TABLE public.bonus_tier_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_type driver_type NOT NULL,
+  min_gross DECIMAL(10,2) NOT NULL CHECK (min_gross >= 0),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, driver_type, min_gross)
+);
+
+-- Enable RLS
+ALTER TABLE public.bonus_tier_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view own bonus tier rules" ON public.bonus_tier_rules
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own bonus tier rules" ON public.bonus_tier_rules
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own bonus tier rules" ON public.bonus_tier_rules
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own bonus tier rules" ON public.bonus_tier_rules
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_bonus_tier_rules_updated_at
+  BEFORE UPDATE ON public.bonus_tier_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
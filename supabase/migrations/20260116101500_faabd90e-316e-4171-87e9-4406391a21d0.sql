@@ -0,0 +1,61 @@
+-- Version bonus tier rules by the week they take effect
+ALTER TABLE public.bonus_tier_rules
+  ADD COLUMN effective_from DATE NOT NULL DEFAULT '1970-01-01';
+
+ALTER TABLE public.bonus_tier_rules
+  DROP CONSTRAINT bonus_tier_rules_user_id_driver_type_min_gross_key;
+
+ALTER TABLE public.bonus_tier_rules
+  ADD CONSTRAINT bonus_tier_rules_version_min_gross_key
+  UNIQUE (user_id, driver_type, effective_from, min_gross);
+
+-- Create driver_type_history table so payroll uses the type valid in each week
+CREATE TABLE public.driver_type_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  driver_type driver_type NOT NULL,
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(driver_id, effective_from)
+);
+
+CREATE INDEX idx_driver_type_history_driver_id ON public.driver_type_history(driver_id);
+
+-- Enable RLS
+ALTER TABLE public.driver_type_history ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view own driver type history" ON public.driver_type_history
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own driver type history" ON public.driver_type_history
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own driver type history" ON public.driver_type_history
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own driver type history" ON public.driver_type_history
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Backfill the current type of every existing driver
+INSERT INTO public.driver_type_history (user_id, driver_id, driver_type, effective_from)
+SELECT user_id, id, driver_type, created_at::date
+FROM public.drivers;
+
+-- Record the initial type of new drivers
+CREATE OR REPLACE FUNCTION public.handle_new_driver()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.driver_type_history (user_id, driver_id, driver_type, effective_from)
+  VALUES (new.user_id, new.id, new.driver_type, new.created_at::date);
+  RETURN new;
+END;
+$$;
+
+CREATE TRIGGER on_driver_created
+  AFTER INSERT ON public.drivers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_driver();
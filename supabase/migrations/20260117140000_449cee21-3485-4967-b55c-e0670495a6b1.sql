@@ -0,0 +1,290 @@
+-- Default bonus tiers, mirrored from DEFAULT_BONUS_THRESHOLDS in src/types
+CREATE OR REPLACE FUNCTION public.default_bonus_amount(p_driver_type driver_type, p_gross NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT t.amount
+    FROM (VALUES
+      ('owner_operator'::driver_type, 13000::NUMERIC, 50::NUMERIC),
+      ('owner_operator'::driver_type, 14000, 75),
+      ('owner_operator'::driver_type, 15000, 100),
+      ('company_driver'::driver_type, 10000, 30),
+      ('company_driver'::driver_type, 11000, 50),
+      ('company_driver'::driver_type, 12000, 70),
+      ('company_driver'::driver_type, 13000, 90),
+      ('company_driver'::driver_type, 14000, 110),
+      ('company_driver'::driver_type, 15000, 150)
+    ) AS t(driver_type, min_gross, amount)
+    WHERE t.driver_type = p_driver_type AND p_gross >= t.min_gross
+    ORDER BY t.min_gross DESC
+    LIMIT 1
+  ), 0);
+$$;
+
+-- Bonus for a weekly gross using the tier version in force on the week start
+CREATE OR REPLACE FUNCTION public.automatic_bonus_amount(
+  p_user_id UUID,
+  p_driver_type driver_type,
+  p_week_start DATE,
+  p_gross NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_version DATE;
+BEGIN
+  SELECT max(effective_from) INTO v_version
+  FROM public.bonus_tier_rules
+  WHERE user_id = p_user_id
+    AND driver_type = p_driver_type
+    AND effective_from <= p_week_start;
+
+  IF v_version IS NULL THEN
+    RETURN public.default_bonus_amount(p_driver_type, p_gross);
+  END IF;
+
+  RETURN COALESCE((
+    SELECT amount
+    FROM public.bonus_tier_rules
+    WHERE user_id = p_user_id
+      AND driver_type = p_driver_type
+      AND effective_from = v_version
+      AND min_gross <= p_gross
+    ORDER BY min_gross DESC
+    LIMIT 1
+  ), 0);
+END;
+$$;
+
+-- Driver type in force on a date; earlier dates fall back to the first recorded type
+CREATE OR REPLACE FUNCTION public.driver_type_on(p_driver_id UUID, p_date DATE)
+RETURNS driver_type
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT driver_type FROM public.driver_type_history
+      WHERE driver_id = p_driver_id AND effective_from <= p_date
+      ORDER BY effective_from DESC LIMIT 1),
+    (SELECT driver_type FROM public.driver_type_history
+      WHERE driver_id = p_driver_id
+      ORDER BY effective_from ASC LIMIT 1),
+    (SELECT driver_type FROM public.drivers WHERE id = p_driver_id)
+  );
+$$;
+
+-- Replace the automatic bonus of one driver-week
+CREATE OR REPLACE FUNCTION public.recalculate_driver_week_bonus(p_driver_id UUID, p_week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_gross NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  -- Serialize concurrent recalculations of the same driver-week
+  PERFORM pg_advisory_xact_lock(hashtext(p_driver_id::TEXT || p_week_start::TEXT));
+
+  DELETE FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type = 'automatic';
+
+  SELECT user_id INTO v_user_id FROM public.drivers WHERE id = p_driver_id;
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(rate), 0) INTO v_gross
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6;
+
+  v_amount := public.automatic_bonus_amount(
+    v_user_id,
+    public.driver_type_on(p_driver_id, p_week_start),
+    p_week_start,
+    v_gross
+  );
+
+  IF v_amount > 0 THEN
+    INSERT INTO public.bonuses (user_id, driver_id, bonus_type, amount, week_start, date, note)
+    VALUES (
+      v_user_id,
+      p_driver_id,
+      'automatic',
+      v_amount,
+      p_week_start,
+      p_week_start,
+      'Auto bonus for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99')) || ' weekly gross'
+    );
+  END IF;
+END;
+$$;
+
+-- Recalculate every driver-week of a user from a week onwards (all weeks when p_from is null),
+-- optionally limited to one driver
+CREATE OR REPLACE FUNCTION public.recalculate_automatic_bonuses_from(
+  p_user_id UUID,
+  p_driver_id UUID DEFAULT NULL,
+  p_from DATE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT driver_id, date_trunc('week', delivery_date)::DATE AS week_start
+    FROM public.loads
+    WHERE user_id = p_user_id
+      AND (p_driver_id IS NULL OR driver_id = p_driver_id)
+    UNION
+    SELECT driver_id, week_start
+    FROM public.bonuses
+    WHERE user_id = p_user_id
+      AND bonus_type = 'automatic'
+      AND driver_id IS NOT NULL
+      AND (p_driver_id IS NULL OR driver_id = p_driver_id)
+  LOOP
+    IF p_from IS NULL OR r.week_start >= date_trunc('week', p_from)::DATE THEN
+      PERFORM public.recalculate_driver_week_bonus(r.driver_id, r.week_start);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Client entry point: recalculate all automatic bonuses of the signed-in user
+CREATE OR REPLACE FUNCTION public.recalculate_automatic_bonuses()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.recalculate_automatic_bonuses_from(auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_driver_week_bonus(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recalculate_automatic_bonuses_from(UUID, UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recalculate_automatic_bonuses() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.recalculate_automatic_bonuses() TO authenticated;
+
+-- Recalculate the driver-weeks touched by a statement on loads
+CREATE OR REPLACE FUNCTION public.handle_loads_bonus_recalculation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    FOR r IN
+      SELECT DISTINCT driver_id, date_trunc('week', delivery_date)::DATE AS week_start FROM new_loads
+    LOOP
+      PERFORM public.recalculate_driver_week_bonus(r.driver_id, r.week_start);
+    END LOOP;
+  ELSIF TG_OP = 'UPDATE' THEN
+    FOR r IN
+      SELECT driver_id, date_trunc('week', delivery_date)::DATE AS week_start FROM new_loads
+      UNION
+      SELECT driver_id, date_trunc('week', delivery_date)::DATE AS week_start FROM old_loads
+    LOOP
+      PERFORM public.recalculate_driver_week_bonus(r.driver_id, r.week_start);
+    END LOOP;
+  ELSE
+    FOR r IN
+      SELECT DISTINCT driver_id, date_trunc('week', delivery_date)::DATE AS week_start FROM old_loads
+    LOOP
+      PERFORM public.recalculate_driver_week_bonus(r.driver_id, r.week_start);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_bonuses_after_loads_insert
+  AFTER INSERT ON public.loads
+  REFERENCING NEW TABLE AS new_loads
+  FOR EACH STATEMENT EXECUTE FUNCTION public.handle_loads_bonus_recalculation();
+
+CREATE TRIGGER recalculate_bonuses_after_loads_update
+  AFTER UPDATE ON public.loads
+  REFERENCING OLD TABLE AS old_loads NEW TABLE AS new_loads
+  FOR EACH STATEMENT EXECUTE FUNCTION public.handle_loads_bonus_recalculation();
+
+CREATE TRIGGER recalculate_bonuses_after_loads_delete
+  AFTER DELETE ON public.loads
+  REFERENCING OLD TABLE AS old_loads
+  FOR EACH STATEMENT EXECUTE FUNCTION public.handle_loads_bonus_recalculation();
+
+-- Tier changes affect every week from the earliest version touched
+CREATE OR REPLACE FUNCTION public.handle_bonus_tier_rules_recalculation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.user_id, NULL, new.effective_from);
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.user_id, NULL, LEAST(old.effective_from, new.effective_from));
+  ELSE
+    PERFORM public.recalculate_automatic_bonuses_from(old.user_id, NULL, old.effective_from);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_bonuses_after_tier_rules_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.bonus_tier_rules
+  FOR EACH ROW EXECUTE FUNCTION public.handle_bonus_tier_rules_recalculation();
+
+-- Driver type changes affect that driver from the change onwards
+CREATE OR REPLACE FUNCTION public.handle_driver_type_history_recalculation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.user_id, new.driver_id, new.effective_from);
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.user_id, new.driver_id, LEAST(old.effective_from, new.effective_from));
+  ELSE
+    PERFORM public.recalculate_automatic_bonuses_from(old.user_id, old.driver_id, old.effective_from);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_bonuses_after_driver_type_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.driver_type_history
+  FOR EACH ROW EXECUTE FUNCTION public.handle_driver_type_history_recalculation();
+
+-- Regenerate existing automatic bonuses once, then keep one per driver-week
+SELECT public.recalculate_automatic_bonuses_from(user_id)
+FROM (SELECT DISTINCT user_id FROM public.drivers) AS owners;
+
+CREATE UNIQUE INDEX idx_bonuses_automatic_driver_week
+  ON public.bonuses(driver_id, week_start)
+  WHERE bonus_type = 'automatic';
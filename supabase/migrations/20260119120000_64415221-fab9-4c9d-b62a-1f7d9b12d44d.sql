@@ -0,0 +1,173 @@
+-- Corrections to closed payroll are recorded as adjustment entries
+ALTER TYPE public.bonus_type ADD VALUE IF NOT EXISTS 'adjustment';
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Create payroll_periods table holding a frozen snapshot of each closed period
+CREATE TABLE public.payroll_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  full_gross DECIMAL(12,2) NOT NULL,
+  partial_gross DECIMAL(12,2) NOT NULL,
+  total_gross DECIMAL(12,2) NOT NULL,
+  full_load_commission DECIMAL(12,2) NOT NULL,
+  partial_load_commission DECIMAL(12,2) NOT NULL,
+  total_bonuses DECIMAL(12,2) NOT NULL,
+  total_adjustments DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_salary DECIMAL(12,2) NOT NULL,
+  snapshot JSONB NOT NULL DEFAULT '{}'::jsonb,
+  closed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  EXCLUDE USING gist (user_id WITH =, daterange(start_date, end_date, '[]') WITH &&)
+);
+
+-- Enable RLS. Closed periods are immutable, so there are no update or delete policies.
+ALTER TABLE public.payroll_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payroll periods" ON public.payroll_periods
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own payroll periods" ON public.payroll_periods
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+-- Check whether a date falls in a closed payroll period
+CREATE OR REPLACE FUNCTION public.is_payroll_date_locked(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.payroll_periods
+    WHERE user_id = p_user_id AND p_date BETWEEN start_date AND end_date
+  );
+$$;
+
+-- Loads on locked dates can't be created, edited or deleted
+DROP POLICY "Users can insert own loads" ON public.loads;
+DROP POLICY "Users can update own loads" ON public.loads;
+DROP POLICY "Users can delete own loads" ON public.loads;
+
+CREATE POLICY "Users can insert own loads" ON public.loads
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, delivery_date));
+
+CREATE POLICY "Users can update own loads" ON public.loads
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, delivery_date))
+  WITH CHECK (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, delivery_date));
+
+CREATE POLICY "Users can delete own loads" ON public.loads
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, delivery_date));
+
+-- Same for bonuses dated in a locked period
+DROP POLICY "Users can insert own bonuses" ON public.bonuses;
+DROP POLICY "Users can update own bonuses" ON public.bonuses;
+DROP POLICY "Users can delete own bonuses" ON public.bonuses;
+
+CREATE POLICY "Users can insert own bonuses" ON public.bonuses
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, date));
+
+CREATE POLICY "Users can update own bonuses" ON public.bonuses
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, date))
+  WITH CHECK (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, date));
+
+CREATE POLICY "Users can delete own bonuses" ON public.bonuses
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id AND NOT public.is_payroll_date_locked(user_id, date));
+
+-- RLS doesn't apply to cascaded deletes (e.g. deleting a driver), so guard locked rows with a trigger too
+CREATE OR REPLACE FUNCTION public.prevent_locked_payroll_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_date_column TEXT := TG_ARGV[0];
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE')
+    AND public.is_payroll_date_locked(old.user_id, (to_jsonb(old) ->> v_date_column)::DATE) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', to_jsonb(old) ->> v_date_column
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE')
+    AND public.is_payroll_date_locked(new.user_id, (to_jsonb(new) ->> v_date_column)::DATE) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', to_jsonb(new) ->> v_date_column
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN old;
+  END IF;
+  RETURN new;
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_loads_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.loads
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_payroll_changes('delivery_date');
+
+CREATE TRIGGER prevent_locked_bonuses_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.bonuses
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_payroll_changes('date');
+
+-- Automatic bonuses of locked weeks are left as they were paid
+CREATE OR REPLACE FUNCTION public.recalculate_driver_week_bonus(p_driver_id UUID, p_week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_gross NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  -- Serialize concurrent recalculations of the same driver-week
+  PERFORM pg_advisory_xact_lock(hashtext(p_driver_id::TEXT || p_week_start::TEXT));
+
+  SELECT user_id INTO v_user_id FROM public.drivers WHERE id = p_driver_id;
+  IF v_user_id IS NOT NULL AND public.is_payroll_date_locked(v_user_id, p_week_start) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type = 'automatic';
+
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(rate), 0) INTO v_gross
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6;
+
+  v_amount := public.automatic_bonus_amount(
+    v_user_id,
+    public.driver_type_on(p_driver_id, p_week_start),
+    p_week_start,
+    v_gross
+  );
+
+  IF v_amount > 0 THEN
+    INSERT INTO public.bonuses (user_id, driver_id, bonus_type, amount, week_start, date, note)
+    VALUES (
+      v_user_id,
+      p_driver_id,
+      'automatic',
+      v_amount,
+      p_week_start,
+      p_week_start,
+      'Auto bonus for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99')) || ' weekly gross'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,39 @@
+-- Commission plans: dispatcher commission percentage per load type.
+-- A plan with no dispatcher is the default; a plan for a dispatcher overrides it.
+-- Each row is a version that applies from effective_from until the next one.
+CREATE TABLE public.commission_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dispatcher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Standard',
+  full_percent DECIMAL(5,2) NOT NULL CHECK (full_percent >= 0 AND full_percent <= 100),
+  partial_percent DECIMAL(5,2) NOT NULL CHECK (partial_percent >= 0 AND partial_percent <= 100),
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT commission_plans_version_key UNIQUE NULLS NOT DISTINCT (user_id, dispatcher_id, effective_from)
+);
+
+CREATE INDEX idx_commission_plans_user_effective ON public.commission_plans(user_id, effective_from);
+
+-- Enable RLS
+ALTER TABLE public.commission_plans ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view own commission plans" ON public.commission_plans
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own commission plans" ON public.commission_plans
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own commission plans" ON public.commission_plans
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own commission plans" ON public.commission_plans
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_commission_plans_updated_at
+  BEFORE UPDATE ON public.commission_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
@@ -0,0 +1,605 @@
+-- Organizations: several dispatchers share one fleet's drivers, loads and payroll.
+-- Rows keep user_id as the dispatcher who created them (for loads: who booked it).
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership checks used by policies. SECURITY DEFINER so policies on
+-- organization_members don't recurse into themselves.
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.shares_organization_with(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members mine
+    JOIN public.organization_members theirs ON theirs.organization_id = mine.organization_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  );
+$$;
+
+-- Enable RLS. Organizations are created for new users by handle_new_user.
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT TO authenticated USING (public.is_organization_member(id));
+
+CREATE POLICY "Members can update their organizations" ON public.organizations
+  FOR UPDATE TO authenticated USING (public.is_organization_member(id));
+
+CREATE POLICY "Members can view organization members" ON public.organization_members
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+-- Dispatchers see the names of everyone they share an organization with
+CREATE POLICY "Members can view co-member profiles" ON public.profiles
+  FOR SELECT TO authenticated USING (public.shares_organization_with(id));
+
+-- Every existing user gets a personal organization holding their rows
+INSERT INTO public.organizations (name, created_by)
+SELECT COALESCE(NULLIF(trim(p.full_name), ''), u.email, 'My') || '''s fleet', u.id
+FROM auth.users u
+LEFT JOIN public.profiles p ON p.id = u.id;
+
+INSERT INTO public.organization_members (organization_id, user_id)
+SELECT id, created_by FROM public.organizations;
+
+-- New users get one too
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (new.id, new.email, new.raw_user_meta_data ->> 'full_name');
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(trim(new.raw_user_meta_data ->> 'full_name'), ''), new.email, 'My') || '''s fleet', new.id)
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id)
+  VALUES (v_organization_id, new.id);
+
+  RETURN new;
+END;
+$$;
+
+-- Scope data tables by organization. User triggers are disabled during the backfill
+-- so closed periods aren't rejected and automatic bonuses aren't regenerated.
+ALTER TABLE public.drivers ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.loads ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.bonuses ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.prebook_notes ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.bonus_tier_rules ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.driver_type_history ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.payroll_periods ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.commission_plans ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.drivers DISABLE TRIGGER USER;
+ALTER TABLE public.loads DISABLE TRIGGER USER;
+ALTER TABLE public.bonuses DISABLE TRIGGER USER;
+ALTER TABLE public.prebook_notes DISABLE TRIGGER USER;
+ALTER TABLE public.bonus_tier_rules DISABLE TRIGGER USER;
+ALTER TABLE public.driver_type_history DISABLE TRIGGER USER;
+ALTER TABLE public.commission_plans DISABLE TRIGGER USER;
+
+UPDATE public.drivers t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.loads t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.bonuses t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.prebook_notes t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.bonus_tier_rules t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.driver_type_history t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.payroll_periods t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.commission_plans t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+
+ALTER TABLE public.drivers ENABLE TRIGGER USER;
+ALTER TABLE public.loads ENABLE TRIGGER USER;
+ALTER TABLE public.bonuses ENABLE TRIGGER USER;
+ALTER TABLE public.prebook_notes ENABLE TRIGGER USER;
+ALTER TABLE public.bonus_tier_rules ENABLE TRIGGER USER;
+ALTER TABLE public.driver_type_history ENABLE TRIGGER USER;
+ALTER TABLE public.commission_plans ENABLE TRIGGER USER;
+
+-- prebook_notes.user_id had no foreign key; notes of deleted users were unreachable anyway
+DELETE FROM public.prebook_notes WHERE organization_id IS NULL;
+
+ALTER TABLE public.drivers ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.loads ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.bonuses ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.prebook_notes ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.bonus_tier_rules ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.driver_type_history ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.payroll_periods ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.commission_plans ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX idx_drivers_organization_id ON public.drivers(organization_id);
+CREATE INDEX idx_loads_organization_id ON public.loads(organization_id);
+CREATE INDEX idx_bonuses_organization_id ON public.bonuses(organization_id);
+CREATE INDEX idx_driver_type_history_organization_id ON public.driver_type_history(organization_id);
+CREATE INDEX idx_commission_plans_organization_effective ON public.commission_plans(organization_id, effective_from);
+
+-- Loads, bonuses and type history may only reference drivers of the same organization
+ALTER TABLE public.drivers
+  ADD CONSTRAINT drivers_id_organization_id_key UNIQUE (id, organization_id);
+
+ALTER TABLE public.loads
+  ADD CONSTRAINT loads_driver_organization_fkey FOREIGN KEY (driver_id, organization_id)
+  REFERENCES public.drivers(id, organization_id) ON DELETE CASCADE;
+
+ALTER TABLE public.bonuses
+  ADD CONSTRAINT bonuses_driver_organization_fkey FOREIGN KEY (driver_id, organization_id)
+  REFERENCES public.drivers(id, organization_id) ON DELETE CASCADE;
+
+ALTER TABLE public.driver_type_history
+  ADD CONSTRAINT driver_type_history_driver_organization_fkey FOREIGN KEY (driver_id, organization_id)
+  REFERENCES public.drivers(id, organization_id) ON DELETE CASCADE;
+
+-- Uniqueness moves from the user to the organization
+ALTER TABLE public.loads DROP CONSTRAINT loads_user_id_load_id_key;
+ALTER TABLE public.loads ADD CONSTRAINT loads_organization_id_load_id_key UNIQUE (organization_id, load_id);
+
+ALTER TABLE public.prebook_notes DROP CONSTRAINT prebook_notes_user_id_date_key;
+ALTER TABLE public.prebook_notes ADD CONSTRAINT prebook_notes_organization_id_date_key UNIQUE (organization_id, date);
+
+ALTER TABLE public.bonus_tier_rules DROP CONSTRAINT bonus_tier_rules_version_min_gross_key;
+ALTER TABLE public.bonus_tier_rules
+  ADD CONSTRAINT bonus_tier_rules_version_min_gross_key
+  UNIQUE (organization_id, driver_type, effective_from, min_gross);
+
+ALTER TABLE public.commission_plans DROP CONSTRAINT commission_plans_version_key;
+ALTER TABLE public.commission_plans
+  ADD CONSTRAINT commission_plans_version_key
+  UNIQUE NULLS NOT DISTINCT (organization_id, dispatcher_id, effective_from);
+
+-- The overlap constraint was created unnamed
+DO $$
+DECLARE
+  v_constraint TEXT;
+BEGIN
+  SELECT conname INTO v_constraint
+  FROM pg_constraint
+  WHERE conrelid = 'public.payroll_periods'::regclass AND contype = 'x';
+
+  EXECUTE format('ALTER TABLE public.payroll_periods DROP CONSTRAINT %I', v_constraint);
+END;
+$$;
+
+ALTER TABLE public.payroll_periods
+  ADD CONSTRAINT payroll_periods_no_overlap
+  EXCLUDE USING gist (organization_id WITH =, daterange(start_date, end_date, '[]') WITH &&);
+
+-- Replace per-user policies with organization policies
+DROP POLICY "Users can view own drivers" ON public.drivers;
+DROP POLICY "Users can insert own drivers" ON public.drivers;
+DROP POLICY "Users can update own drivers" ON public.drivers;
+DROP POLICY "Users can delete own drivers" ON public.drivers;
+DROP POLICY "Users can view own loads" ON public.loads;
+DROP POLICY "Users can insert own loads" ON public.loads;
+DROP POLICY "Users can update own loads" ON public.loads;
+DROP POLICY "Users can delete own loads" ON public.loads;
+DROP POLICY "Users can view own bonuses" ON public.bonuses;
+DROP POLICY "Users can insert own bonuses" ON public.bonuses;
+DROP POLICY "Users can update own bonuses" ON public.bonuses;
+DROP POLICY "Users can delete own bonuses" ON public.bonuses;
+DROP POLICY "Users can view own prebook notes" ON public.prebook_notes;
+DROP POLICY "Users can insert own prebook notes" ON public.prebook_notes;
+DROP POLICY "Users can update own prebook notes" ON public.prebook_notes;
+DROP POLICY "Users can delete own prebook notes" ON public.prebook_notes;
+DROP POLICY "Users can view own bonus tier rules" ON public.bonus_tier_rules;
+DROP POLICY "Users can insert own bonus tier rules" ON public.bonus_tier_rules;
+DROP POLICY "Users can update own bonus tier rules" ON public.bonus_tier_rules;
+DROP POLICY "Users can delete own bonus tier rules" ON public.bonus_tier_rules;
+DROP POLICY "Users can view own driver type history" ON public.driver_type_history;
+DROP POLICY "Users can insert own driver type history" ON public.driver_type_history;
+DROP POLICY "Users can update own driver type history" ON public.driver_type_history;
+DROP POLICY "Users can delete own driver type history" ON public.driver_type_history;
+DROP POLICY "Users can view own payroll periods" ON public.payroll_periods;
+DROP POLICY "Users can insert own payroll periods" ON public.payroll_periods;
+DROP POLICY "Users can view own commission plans" ON public.commission_plans;
+DROP POLICY "Users can insert own commission plans" ON public.commission_plans;
+DROP POLICY "Users can update own commission plans" ON public.commission_plans;
+DROP POLICY "Users can delete own commission plans" ON public.commission_plans;
+
+-- Payroll locks now apply to the whole organization
+DROP FUNCTION public.is_payroll_date_locked(UUID, DATE);
+
+CREATE OR REPLACE FUNCTION public.is_payroll_date_locked(p_organization_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.payroll_periods
+    WHERE organization_id = p_organization_id AND p_date BETWEEN start_date AND end_date
+  );
+$$;
+
+-- Inserts are attributed to the signed-in dispatcher
+CREATE POLICY "Members can view organization drivers" ON public.drivers
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization drivers" ON public.drivers
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can update organization drivers" ON public.drivers
+  FOR UPDATE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete organization drivers" ON public.drivers
+  FOR DELETE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can view organization loads" ON public.loads
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization loads" ON public.loads
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.is_organization_member(organization_id)
+    AND NOT public.is_payroll_date_locked(organization_id, delivery_date)
+  );
+
+CREATE POLICY "Members can update organization loads" ON public.loads
+  FOR UPDATE TO authenticated
+  USING (public.is_organization_member(organization_id) AND NOT public.is_payroll_date_locked(organization_id, delivery_date))
+  WITH CHECK (public.is_organization_member(organization_id) AND NOT public.is_payroll_date_locked(organization_id, delivery_date));
+
+CREATE POLICY "Members can delete organization loads" ON public.loads
+  FOR DELETE TO authenticated
+  USING (public.is_organization_member(organization_id) AND NOT public.is_payroll_date_locked(organization_id, delivery_date));
+
+CREATE POLICY "Members can view organization bonuses" ON public.bonuses
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization bonuses" ON public.bonuses
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.is_organization_member(organization_id)
+    AND NOT public.is_payroll_date_locked(organization_id, date)
+  );
+
+CREATE POLICY "Members can update organization bonuses" ON public.bonuses
+  FOR UPDATE TO authenticated
+  USING (public.is_organization_member(organization_id) AND NOT public.is_payroll_date_locked(organization_id, date))
+  WITH CHECK (public.is_organization_member(organization_id) AND NOT public.is_payroll_date_locked(organization_id, date));
+
+CREATE POLICY "Members can delete organization bonuses" ON public.bonuses
+  FOR DELETE TO authenticated
+  USING (public.is_organization_member(organization_id) AND NOT public.is_payroll_date_locked(organization_id, date));
+
+CREATE POLICY "Members can view organization prebook notes" ON public.prebook_notes
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization prebook notes" ON public.prebook_notes
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can update organization prebook notes" ON public.prebook_notes
+  FOR UPDATE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete organization prebook notes" ON public.prebook_notes
+  FOR DELETE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can view organization bonus tier rules" ON public.bonus_tier_rules
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization bonus tier rules" ON public.bonus_tier_rules
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can update organization bonus tier rules" ON public.bonus_tier_rules
+  FOR UPDATE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete organization bonus tier rules" ON public.bonus_tier_rules
+  FOR DELETE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can view organization driver type history" ON public.driver_type_history
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization driver type history" ON public.driver_type_history
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can update organization driver type history" ON public.driver_type_history
+  FOR UPDATE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete organization driver type history" ON public.driver_type_history
+  FOR DELETE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can view organization payroll periods" ON public.payroll_periods
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization payroll periods" ON public.payroll_periods
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can view organization commission plans" ON public.commission_plans
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert organization commission plans" ON public.commission_plans
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can update organization commission plans" ON public.commission_plans
+  FOR UPDATE TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete organization commission plans" ON public.commission_plans
+  FOR DELETE TO authenticated USING (public.is_organization_member(organization_id));
+
+-- Locked-row guard follows the organization lock
+CREATE OR REPLACE FUNCTION public.prevent_locked_payroll_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_date_column TEXT := TG_ARGV[0];
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE')
+    AND public.is_payroll_date_locked(old.organization_id, (to_jsonb(old) ->> v_date_column)::DATE) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', to_jsonb(old) ->> v_date_column
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE')
+    AND public.is_payroll_date_locked(new.organization_id, (to_jsonb(new) ->> v_date_column)::DATE) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', to_jsonb(new) ->> v_date_column
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN old;
+  END IF;
+  RETURN new;
+END;
+$$;
+
+-- Initial type of new drivers, recorded in the driver's organization
+CREATE OR REPLACE FUNCTION public.handle_new_driver()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.driver_type_history (user_id, organization_id, driver_id, driver_type, effective_from)
+  VALUES (new.user_id, new.organization_id, new.id, new.driver_type, new.created_at::date);
+  RETURN new;
+END;
+$$;
+
+-- Bonus tiers are shared by the organization
+DROP FUNCTION public.automatic_bonus_amount(UUID, driver_type, DATE, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.automatic_bonus_amount(
+  p_organization_id UUID,
+  p_driver_type driver_type,
+  p_week_start DATE,
+  p_gross NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_version DATE;
+BEGIN
+  SELECT max(effective_from) INTO v_version
+  FROM public.bonus_tier_rules
+  WHERE organization_id = p_organization_id
+    AND driver_type = p_driver_type
+    AND effective_from <= p_week_start;
+
+  IF v_version IS NULL THEN
+    RETURN public.default_bonus_amount(p_driver_type, p_gross);
+  END IF;
+
+  RETURN COALESCE((
+    SELECT amount
+    FROM public.bonus_tier_rules
+    WHERE organization_id = p_organization_id
+      AND driver_type = p_driver_type
+      AND effective_from = v_version
+      AND min_gross <= p_gross
+    ORDER BY min_gross DESC
+    LIMIT 1
+  ), 0);
+END;
+$$;
+
+-- The weekly gross counts every dispatcher's loads for the driver; the bonus is
+-- attributed to the dispatcher who booked the most of it
+CREATE OR REPLACE FUNCTION public.recalculate_driver_week_bonus(p_driver_id UUID, p_week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_user_id UUID;
+  v_gross NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  -- Serialize concurrent recalculations of the same driver-week
+  PERFORM pg_advisory_xact_lock(hashtext(p_driver_id::TEXT || p_week_start::TEXT));
+
+  SELECT organization_id INTO v_organization_id FROM public.drivers WHERE id = p_driver_id;
+  IF v_organization_id IS NOT NULL AND public.is_payroll_date_locked(v_organization_id, p_week_start) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type = 'automatic';
+
+  IF v_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(rate), 0) INTO v_gross
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6;
+
+  v_amount := public.automatic_bonus_amount(
+    v_organization_id,
+    public.driver_type_on(p_driver_id, p_week_start),
+    p_week_start,
+    v_gross
+  );
+
+  IF v_amount > 0 THEN
+    SELECT user_id INTO v_user_id
+    FROM public.loads
+    WHERE driver_id = p_driver_id
+      AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+    GROUP BY user_id
+    ORDER BY sum(rate) DESC, min(created_at)
+    LIMIT 1;
+
+    INSERT INTO public.bonuses (user_id, organization_id, driver_id, bonus_type, amount, week_start, date, note)
+    VALUES (
+      v_user_id,
+      v_organization_id,
+      p_driver_id,
+      'automatic',
+      v_amount,
+      p_week_start,
+      p_week_start,
+      'Auto bonus for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99')) || ' weekly gross'
+    );
+  END IF;
+END;
+$$;
+
+-- Recalculate every driver-week of an organization from a week onwards (all weeks when
+-- p_from is null), optionally limited to one driver
+DROP FUNCTION public.recalculate_automatic_bonuses_from(UUID, UUID, DATE);
+
+CREATE OR REPLACE FUNCTION public.recalculate_automatic_bonuses_from(
+  p_organization_id UUID,
+  p_driver_id UUID DEFAULT NULL,
+  p_from DATE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT driver_id, date_trunc('week', delivery_date)::DATE AS week_start
+    FROM public.loads
+    WHERE organization_id = p_organization_id
+      AND (p_driver_id IS NULL OR driver_id = p_driver_id)
+    UNION
+    SELECT driver_id, week_start
+    FROM public.bonuses
+    WHERE organization_id = p_organization_id
+      AND bonus_type = 'automatic'
+      AND driver_id IS NOT NULL
+      AND (p_driver_id IS NULL OR driver_id = p_driver_id)
+  LOOP
+    IF p_from IS NULL OR r.week_start >= date_trunc('week', p_from)::DATE THEN
+      PERFORM public.recalculate_driver_week_bonus(r.driver_id, r.week_start);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Client entry point: recalculate all automatic bonuses of an organization the caller belongs to
+DROP FUNCTION public.recalculate_automatic_bonuses();
+
+CREATE OR REPLACE FUNCTION public.recalculate_automatic_bonuses(p_organization_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_organization_member(p_organization_id) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  PERFORM public.recalculate_automatic_bonuses_from(p_organization_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_automatic_bonuses_from(UUID, UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recalculate_automatic_bonuses(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.recalculate_automatic_bonuses(UUID) TO authenticated;
+
+-- Tier changes affect every week of the organization from the earliest version touched
+CREATE OR REPLACE FUNCTION public.handle_bonus_tier_rules_recalculation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.organization_id, NULL, new.effective_from);
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.organization_id, NULL, LEAST(old.effective_from, new.effective_from));
+  ELSE
+    PERFORM public.recalculate_automatic_bonuses_from(old.organization_id, NULL, old.effective_from);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Driver type changes affect that driver from the change onwards
+CREATE OR REPLACE FUNCTION public.handle_driver_type_history_recalculation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.organization_id, new.driver_id, new.effective_from);
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.recalculate_automatic_bonuses_from(new.organization_id, new.driver_id, LEAST(old.effective_from, new.effective_from));
+  ELSE
+    PERFORM public.recalculate_automatic_bonuses_from(old.organization_id, old.driver_id, old.effective_from);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,182 @@
+-- Roles within an organization:
+--   owner      - everything, including bonus rules, commission plans and deleting drivers
+--   dispatcher - books loads, manages drivers, manual bonuses and prebooks
+--   accountant - views and exports, closes payroll periods and records adjustments
+--   viewer     - read-only dashboards
+CREATE TYPE public.organization_role AS ENUM ('owner', 'dispatcher', 'accountant', 'viewer');
+
+ALTER TABLE public.organization_members
+  ADD COLUMN role organization_role NOT NULL DEFAULT 'dispatcher';
+
+-- Every existing member is alone in their personal organization
+UPDATE public.organization_members SET role = 'owner';
+
+CREATE OR REPLACE FUNCTION public.has_organization_role(p_organization_id UUID, p_roles organization_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role = ANY(p_roles)
+  );
+$$;
+
+-- New users own their personal organization
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (new.id, new.email, new.raw_user_meta_data ->> 'full_name');
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(trim(new.raw_user_meta_data ->> 'full_name'), ''), new.email, 'My') || '''s fleet', new.id)
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, new.id, 'owner');
+
+  RETURN new;
+END;
+$$;
+
+-- Reads stay open to every member; writes are limited by role
+DROP POLICY "Members can update their organizations" ON public.organizations;
+DROP POLICY "Members can insert organization drivers" ON public.drivers;
+DROP POLICY "Members can update organization drivers" ON public.drivers;
+DROP POLICY "Members can delete organization drivers" ON public.drivers;
+DROP POLICY "Members can insert organization loads" ON public.loads;
+DROP POLICY "Members can update organization loads" ON public.loads;
+DROP POLICY "Members can delete organization loads" ON public.loads;
+DROP POLICY "Members can insert organization bonuses" ON public.bonuses;
+DROP POLICY "Members can update organization bonuses" ON public.bonuses;
+DROP POLICY "Members can delete organization bonuses" ON public.bonuses;
+DROP POLICY "Members can insert organization prebook notes" ON public.prebook_notes;
+DROP POLICY "Members can update organization prebook notes" ON public.prebook_notes;
+DROP POLICY "Members can delete organization prebook notes" ON public.prebook_notes;
+DROP POLICY "Members can insert organization bonus tier rules" ON public.bonus_tier_rules;
+DROP POLICY "Members can update organization bonus tier rules" ON public.bonus_tier_rules;
+DROP POLICY "Members can delete organization bonus tier rules" ON public.bonus_tier_rules;
+DROP POLICY "Members can insert organization driver type history" ON public.driver_type_history;
+DROP POLICY "Members can update organization driver type history" ON public.driver_type_history;
+DROP POLICY "Members can delete organization driver type history" ON public.driver_type_history;
+DROP POLICY "Members can insert organization payroll periods" ON public.payroll_periods;
+DROP POLICY "Members can insert organization commission plans" ON public.commission_plans;
+DROP POLICY "Members can update organization commission plans" ON public.commission_plans;
+DROP POLICY "Members can delete organization commission plans" ON public.commission_plans;
+
+CREATE POLICY "Owners can update their organizations" ON public.organizations
+  FOR UPDATE TO authenticated USING (public.has_organization_role(id, '{owner}'));
+
+CREATE POLICY "Dispatchers can insert organization drivers" ON public.drivers
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Dispatchers can update organization drivers" ON public.drivers
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Owners can delete organization drivers" ON public.drivers
+  FOR DELETE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Dispatchers can insert organization loads" ON public.loads
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_organization_role(organization_id, '{owner,dispatcher}')
+    AND NOT public.is_payroll_date_locked(organization_id, delivery_date)
+  );
+
+CREATE POLICY "Dispatchers can update organization loads" ON public.loads
+  FOR UPDATE TO authenticated
+  USING (public.has_organization_role(organization_id, '{owner,dispatcher}') AND NOT public.is_payroll_date_locked(organization_id, delivery_date))
+  WITH CHECK (public.has_organization_role(organization_id, '{owner,dispatcher}') AND NOT public.is_payroll_date_locked(organization_id, delivery_date));
+
+CREATE POLICY "Dispatchers can delete organization loads" ON public.loads
+  FOR DELETE TO authenticated
+  USING (public.has_organization_role(organization_id, '{owner,dispatcher}') AND NOT public.is_payroll_date_locked(organization_id, delivery_date));
+
+-- Adjustments are payroll corrections; other bonuses belong to dispatching
+CREATE OR REPLACE FUNCTION public.can_edit_bonus(p_organization_id UUID, p_bonus_type bonus_type)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.has_organization_role(
+    p_organization_id,
+    CASE WHEN p_bonus_type = 'adjustment'
+      THEN '{owner,accountant}'::organization_role[]
+      ELSE '{owner,dispatcher}'::organization_role[]
+    END
+  );
+$$;
+
+CREATE POLICY "Editors can insert organization bonuses" ON public.bonuses
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.can_edit_bonus(organization_id, bonus_type)
+    AND NOT public.is_payroll_date_locked(organization_id, date)
+  );
+
+CREATE POLICY "Editors can update organization bonuses" ON public.bonuses
+  FOR UPDATE TO authenticated
+  USING (public.can_edit_bonus(organization_id, bonus_type) AND NOT public.is_payroll_date_locked(organization_id, date))
+  WITH CHECK (public.can_edit_bonus(organization_id, bonus_type) AND NOT public.is_payroll_date_locked(organization_id, date));
+
+CREATE POLICY "Editors can delete organization bonuses" ON public.bonuses
+  FOR DELETE TO authenticated
+  USING (public.can_edit_bonus(organization_id, bonus_type) AND NOT public.is_payroll_date_locked(organization_id, date));
+
+CREATE POLICY "Dispatchers can insert organization prebook notes" ON public.prebook_notes
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Dispatchers can update organization prebook notes" ON public.prebook_notes
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Dispatchers can delete organization prebook notes" ON public.prebook_notes
+  FOR DELETE TO authenticated USING (public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Owners can insert organization bonus tier rules" ON public.bonus_tier_rules
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Owners can update organization bonus tier rules" ON public.bonus_tier_rules
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Owners can delete organization bonus tier rules" ON public.bonus_tier_rules
+  FOR DELETE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+-- Type history is written when a dispatcher changes a driver's type
+CREATE POLICY "Dispatchers can insert organization driver type history" ON public.driver_type_history
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Dispatchers can update organization driver type history" ON public.driver_type_history
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Dispatchers can delete organization driver type history" ON public.driver_type_history
+  FOR DELETE TO authenticated USING (public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Accountants can insert organization payroll periods" ON public.payroll_periods
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner,accountant}'));
+
+CREATE POLICY "Owners can insert organization commission plans" ON public.commission_plans
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Owners can update organization commission plans" ON public.commission_plans
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Owners can delete organization commission plans" ON public.commission_plans
+  FOR DELETE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
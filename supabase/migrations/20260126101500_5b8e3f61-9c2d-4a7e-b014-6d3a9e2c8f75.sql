@@ -0,0 +1,200 @@
+-- Deactivated members keep their row so their loads and bonuses still show who booked them,
+-- but they lose all access to the organization
+ALTER TABLE public.organization_members
+  ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND deactivated_at IS NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_organization_role(p_organization_id UUID, p_roles organization_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role = ANY(p_roles)
+      AND deactivated_at IS NULL
+  );
+$$;
+
+-- Active members still see the names of deactivated co-members
+CREATE OR REPLACE FUNCTION public.shares_organization_with(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members mine
+    JOIN public.organization_members theirs ON theirs.organization_id = mine.organization_id
+    WHERE mine.user_id = auth.uid()
+      AND mine.deactivated_at IS NULL
+      AND theirs.user_id = p_user_id
+  );
+$$;
+
+-- Owners deactivate, reactivate and change the role of everyone but themselves,
+-- so an organization never loses its last owner this way
+CREATE POLICY "Owners can update organization members" ON public.organization_members
+  FOR UPDATE TO authenticated
+  USING (public.has_organization_role(organization_id, '{owner}') AND user_id <> auth.uid())
+  WITH CHECK (public.has_organization_role(organization_id, '{owner}') AND user_id <> auth.uid());
+
+-- Invitations to join an organization. The token is the secret in the invite link.
+CREATE TABLE public.organization_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role organization_role NOT NULL DEFAULT 'dispatcher',
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT organization_invitations_email_check CHECK (email = lower(trim(email)) AND email <> '')
+);
+
+-- One open invitation per address and organization; resending reuses it
+CREATE UNIQUE INDEX organization_invitations_open_email_key
+  ON public.organization_invitations (organization_id, email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+CREATE INDEX idx_organization_invitations_email ON public.organization_invitations (email);
+
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view organization invitations" ON public.organization_invitations
+  FOR SELECT TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Owners can insert organization invitations" ON public.organization_invitations
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = invited_by AND public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Owners can update organization invitations" ON public.organization_invitations
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+-- What the invite page shows before the visitor has an account
+CREATE OR REPLACE FUNCTION public.get_invitation(p_token UUID)
+RETURNS TABLE (organization_name TEXT, email TEXT, role organization_role, status TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    i.email,
+    i.role,
+    CASE
+      WHEN i.accepted_at IS NOT NULL THEN 'accepted'
+      WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN i.expires_at <= now() THEN 'expired'
+      ELSE 'pending'
+    END
+  FROM public.organization_invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.token = p_token;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invitation(UUID) TO anon, authenticated;
+
+-- Joins the signed-in user to the inviting organization
+CREATE OR REPLACE FUNCTION public.accept_invitation(p_token UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.organization_invitations%ROWTYPE;
+  v_email TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept the invitation';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM public.organization_invitations
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation is no longer valid';
+  END IF;
+
+  IF v_invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been used';
+  END IF;
+
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+
+  SELECT lower(email) INTO v_email FROM auth.users WHERE id = auth.uid();
+  IF v_email IS DISTINCT FROM v_invitation.email THEN
+    RAISE EXCEPTION 'This invitation was sent to %', v_invitation.email;
+  END IF;
+
+  -- Rejoining after deactivation restores access with the invited role
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_invitation.organization_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (organization_id, user_id)
+  DO UPDATE SET role = EXCLUDED.role, deactivated_at = NULL;
+
+  UPDATE public.organization_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  RETURN v_invitation.organization_id;
+END;
+$$;
+
+-- Invited users join the inviting organization instead of getting a personal one
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (new.id, new.email, new.raw_user_meta_data ->> 'full_name');
+
+  IF EXISTS (
+    SELECT 1 FROM public.organization_invitations
+    WHERE email = lower(new.email)
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()
+  ) THEN
+    RETURN new;
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(trim(new.raw_user_meta_data ->> 'full_name'), ''), new.email, 'My') || '''s fleet', new.id)
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, new.id, 'owner');
+
+  RETURN new;
+END;
+$$;
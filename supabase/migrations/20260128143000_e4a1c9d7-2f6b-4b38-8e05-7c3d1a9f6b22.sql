@@ -0,0 +1,99 @@
+-- Owners can require every member to sign in with a second factor
+ALTER TABLE public.organizations
+  ADD COLUMN require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+-- Active membership, regardless of how the session was authenticated. Used only where
+-- a member must see enough to know 2FA is required: the organization and their own role.
+CREATE OR REPLACE FUNCTION public.belongs_to_organization(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND deactivated_at IS NULL
+  );
+$$;
+
+-- Sessions that skipped the second factor get no data from organizations requiring it
+CREATE OR REPLACE FUNCTION public.meets_organization_mfa(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT NOT COALESCE(
+    (SELECT require_mfa FROM public.organizations WHERE id = p_organization_id),
+    false
+  ) OR COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2';
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.belongs_to_organization(p_organization_id)
+    AND public.meets_organization_mfa(p_organization_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_organization_role(p_organization_id UUID, p_roles organization_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role = ANY(p_roles)
+      AND deactivated_at IS NULL
+  ) AND public.meets_organization_mfa(p_organization_id);
+$$;
+
+DROP POLICY "Members can view their organizations" ON public.organizations;
+
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT TO authenticated USING (public.belongs_to_organization(id));
+
+CREATE POLICY "Members can view their own membership" ON public.organization_members
+  FOR SELECT TO authenticated USING (user_id = auth.uid() AND deactivated_at IS NULL);
+
+-- One-time codes that remove a lost authenticator. Only SHA-256 hashes are stored;
+-- redeeming happens in the redeem-recovery-code edge function.
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  used_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recovery codes" ON public.mfa_recovery_codes
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- Replaces the caller's recovery codes. Requires a session verified with the second factor.
+CREATE OR REPLACE FUNCTION public.replace_mfa_recovery_codes(p_code_hashes TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator before creating recovery codes';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+
+  INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+  SELECT auth.uid(), hash FROM unnest(p_code_hashes) AS hash;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Who last changed a load, so a dispatcher whose edit is rejected knows who got there first
+ALTER TABLE public.loads
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.set_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_by = auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_loads_updated_by
+  BEFORE INSERT OR UPDATE ON public.loads
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+
+-- Stream changes to subscribed clients. Inserts and updates are filtered through RLS;
+-- deletes only carry the primary key.
+ALTER PUBLICATION supabase_realtime
+  ADD TABLE public.loads, public.drivers, public.bonuses, public.prebook_notes;
@@ -0,0 +1,152 @@
+-- Dashboards read aggregates and date windows instead of every load and bonus
+CREATE INDEX idx_loads_organization_delivery ON public.loads(organization_id, delivery_date);
+CREATE INDEX idx_bonuses_organization_date ON public.bonuses(organization_id, date);
+
+-- Views run with the caller's permissions, so the loads RLS policies still apply
+CREATE VIEW public.driver_daily_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  delivery_date,
+  sum(rate) AS gross,
+  count(*) AS load_count
+FROM public.loads
+GROUP BY organization_id, driver_id, delivery_date;
+
+CREATE VIEW public.driver_weekly_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  date_trunc('week', delivery_date)::DATE AS week_start,
+  sum(rate) AS gross,
+  count(*) AS load_count
+FROM public.loads
+GROUP BY organization_id, driver_id, date_trunc('week', delivery_date)::DATE;
+
+-- Commission percent for a load: the dispatcher's latest plan, else the latest default
+-- plan, else 1% FULL / 2% PARTIAL. Mirrors getCommissionPlanForDate in the client.
+CREATE OR REPLACE FUNCTION public.commission_percent_on(
+  p_organization_id UUID,
+  p_dispatcher_id UUID,
+  p_date DATE,
+  p_load_type load_type
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE WHEN p_load_type = 'FULL' THEN full_percent ELSE partial_percent END
+      FROM public.commission_plans
+      WHERE organization_id = p_organization_id
+        AND effective_from <= p_date
+        AND (dispatcher_id = p_dispatcher_id OR dispatcher_id IS NULL)
+      ORDER BY dispatcher_id IS NULL, effective_from DESC
+      LIMIT 1
+    ),
+    CASE WHEN p_load_type = 'FULL' THEN 1 ELSE 2 END
+  );
+$$;
+
+-- Gross per driver delivered within a date range
+CREATE OR REPLACE FUNCTION public.get_gross_by_driver(p_organization_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  driver_id UUID,
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  load_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.driver_id,
+    COALESCE(sum(l.rate) FILTER (WHERE l.load_type = 'FULL'), 0),
+    COALESCE(sum(l.rate) FILTER (WHERE l.load_type = 'PARTIAL'), 0),
+    sum(l.rate),
+    count(*)
+  FROM public.loads l
+  WHERE l.organization_id = p_organization_id
+    AND l.delivery_date BETWEEN p_start AND p_end
+  GROUP BY l.driver_id;
+$$;
+
+-- Salary for a date range, mirroring calculateSalary: commission per load under the plan
+-- in force for its dispatcher, bonuses and adjustments by date. With p_dispatcher_id only
+-- the loads that dispatcher booked and the bonuses they recorded count.
+CREATE OR REPLACE FUNCTION public.get_salary_totals(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_dispatcher_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  full_load_commission NUMERIC,
+  partial_load_commission NUMERIC,
+  full_percents NUMERIC[],
+  partial_percents NUMERIC[],
+  total_bonuses NUMERIC,
+  total_adjustments NUMERIC,
+  total_salary NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_loads AS (
+    SELECT
+      l.load_type,
+      l.rate,
+      public.commission_percent_on(l.organization_id, l.user_id, l.delivery_date, l.load_type) AS percent
+    FROM public.loads l
+    WHERE l.organization_id = p_organization_id
+      AND l.delivery_date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR l.user_id = p_dispatcher_id)
+  ),
+  load_totals AS (
+    SELECT
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_sum,
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_sum,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_commission,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_commission,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'FULL'), '{}') AS full_rates,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'PARTIAL'), '{}') AS partial_rates
+    FROM period_loads pl
+  ),
+  bonus_totals AS (
+    SELECT
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type <> 'adjustment'), 0) AS bonus_sum,
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type = 'adjustment'), 0) AS adjustment_sum
+    FROM public.bonuses b
+    WHERE b.organization_id = p_organization_id
+      AND b.date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR b.user_id = p_dispatcher_id)
+  )
+  SELECT
+    lt.full_sum,
+    lt.partial_sum,
+    lt.full_sum + lt.partial_sum,
+    lt.full_commission,
+    lt.partial_commission,
+    lt.full_rates,
+    lt.partial_rates,
+    bt.bonus_sum,
+    bt.adjustment_sum,
+    lt.full_commission + lt.partial_commission + bt.bonus_sum + bt.adjustment_sum
+  FROM load_totals lt
+  CROSS JOIN bonus_totals bt;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_gross_by_driver(UUID, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_gross_by_driver(UUID, DATE, DATE) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_salary_totals(UUID, DATE, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_salary_totals(UUID, DATE, DATE, UUID) TO authenticated;
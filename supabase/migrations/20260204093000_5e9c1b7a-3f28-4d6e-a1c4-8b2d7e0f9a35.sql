@@ -0,0 +1,338 @@
+-- Load lifecycle: booked -> in transit -> delivered -> invoiced -> paid, or cancelled
+-- before delivery. Cancelled loads are kept for their history instead of deleted.
+CREATE TYPE public.load_status AS ENUM ('booked', 'in_transit', 'delivered', 'invoiced', 'paid', 'cancelled');
+
+ALTER TABLE public.loads ADD COLUMN status public.load_status NOT NULL DEFAULT 'booked';
+
+CREATE INDEX idx_loads_organization_status ON public.loads(organization_id, status);
+
+-- Every status a load has been in, with who moved it there and when
+CREATE TABLE public.load_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  -- Null for the status a load was created with
+  from_status public.load_status,
+  to_status public.load_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_load_status_history_load_id ON public.load_status_history(load_id, changed_at);
+
+ALTER TABLE public.load_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the loads trigger below
+CREATE POLICY "Members can view organization load status history" ON public.load_status_history
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+-- Existing loads: anything already delivered is treated as delivered, the rest as booked.
+-- Triggers are off so closed periods aren't rejected and bonuses aren't regenerated.
+ALTER TABLE public.loads DISABLE TRIGGER USER;
+UPDATE public.loads SET status = 'delivered' WHERE delivery_date <= CURRENT_DATE;
+ALTER TABLE public.loads ENABLE TRIGGER USER;
+
+INSERT INTO public.load_status_history (organization_id, load_id, from_status, to_status, changed_by, changed_at)
+SELECT organization_id, id, NULL, status, user_id, created_at
+FROM public.loads;
+
+-- Loads that count toward gross, commission and automatic bonuses. Mirrors
+-- countsTowardGross in the client.
+CREATE OR REPLACE FUNCTION public.load_counts_toward_gross(p_status public.load_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_status <> 'cancelled';
+$$;
+
+-- Allowed status changes, including one step back to correct a mistake. Mirrors
+-- LOAD_STATUS_TRANSITIONS in the client.
+CREATE OR REPLACE FUNCTION public.load_status_transition_allowed(p_from public.load_status, p_to public.load_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_from::TEXT || '>' || p_to::TEXT = ANY (ARRAY[
+    'booked>in_transit',
+    'booked>cancelled',
+    'in_transit>booked',
+    'in_transit>delivered',
+    'in_transit>cancelled',
+    'delivered>in_transit',
+    'delivered>invoiced',
+    'invoiced>delivered',
+    'invoiced>paid',
+    'paid>invoiced',
+    'cancelled>booked'
+  ]);
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_load_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF new.status IS DISTINCT FROM old.status
+    AND NOT public.load_status_transition_allowed(old.status, new.status) THEN
+    RAISE EXCEPTION 'A load can''t go from % to %', old.status, new.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN new;
+END;
+$$;
+
+CREATE TRIGGER enforce_load_status_transition
+  BEFORE UPDATE OF status ON public.loads
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_load_status_transition();
+
+CREATE OR REPLACE FUNCTION public.record_load_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR new.status IS DISTINCT FROM old.status THEN
+    INSERT INTO public.load_status_history (organization_id, load_id, from_status, to_status, changed_by)
+    VALUES (
+      new.organization_id,
+      new.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN old.status END,
+      new.status,
+      auth.uid()
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_load_status_change
+  AFTER INSERT OR UPDATE OF status ON public.loads
+  FOR EACH ROW EXECUTE FUNCTION public.record_load_status_change();
+
+-- Loads in a closed period stay frozen, except that invoicing and payment can still be
+-- recorded: moving between statuses that both count toward gross leaves what was paid as is
+CREATE OR REPLACE FUNCTION public.prevent_locked_load_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND to_jsonb(new) - ARRAY['status', 'updated_at', 'updated_by'] = to_jsonb(old) - ARRAY['status', 'updated_at', 'updated_by']
+    AND public.load_counts_toward_gross(new.status) = public.load_counts_toward_gross(old.status) THEN
+    RETURN new;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE')
+    AND public.is_payroll_date_locked(old.organization_id, old.delivery_date) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', old.delivery_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE')
+    AND public.is_payroll_date_locked(new.organization_id, new.delivery_date) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', new.delivery_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN old;
+  END IF;
+  RETURN new;
+END;
+$$;
+
+DROP TRIGGER prevent_locked_loads_changes ON public.loads;
+
+CREATE TRIGGER prevent_locked_loads_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.loads
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_load_changes();
+
+-- Cancelled loads no longer count toward the weekly gross behind automatic bonuses
+CREATE OR REPLACE FUNCTION public.recalculate_driver_week_bonus(p_driver_id UUID, p_week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_user_id UUID;
+  v_gross NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  -- Serialize concurrent recalculations of the same driver-week
+  PERFORM pg_advisory_xact_lock(hashtext(p_driver_id::TEXT || p_week_start::TEXT));
+
+  SELECT organization_id INTO v_organization_id FROM public.drivers WHERE id = p_driver_id;
+  IF v_organization_id IS NOT NULL AND public.is_payroll_date_locked(v_organization_id, p_week_start) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type = 'automatic';
+
+  IF v_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(rate), 0) INTO v_gross
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+    AND public.load_counts_toward_gross(status);
+
+  v_amount := public.automatic_bonus_amount(
+    v_organization_id,
+    public.driver_type_on(p_driver_id, p_week_start),
+    p_week_start,
+    v_gross
+  );
+
+  IF v_amount > 0 THEN
+    SELECT user_id INTO v_user_id
+    FROM public.loads
+    WHERE driver_id = p_driver_id
+      AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+      AND public.load_counts_toward_gross(status)
+    GROUP BY user_id
+    ORDER BY sum(rate) DESC, min(created_at)
+    LIMIT 1;
+
+    INSERT INTO public.bonuses (user_id, organization_id, driver_id, bonus_type, amount, week_start, date, note)
+    VALUES (
+      v_user_id,
+      v_organization_id,
+      p_driver_id,
+      'automatic',
+      v_amount,
+      p_week_start,
+      p_week_start,
+      'Auto bonus for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99')) || ' weekly gross'
+    );
+  END IF;
+END;
+$$;
+
+-- Aggregates leave out cancelled loads too
+CREATE OR REPLACE VIEW public.driver_daily_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  delivery_date,
+  sum(rate) AS gross,
+  count(*) AS load_count
+FROM public.loads
+WHERE public.load_counts_toward_gross(status)
+GROUP BY organization_id, driver_id, delivery_date;
+
+CREATE OR REPLACE VIEW public.driver_weekly_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  date_trunc('week', delivery_date)::DATE AS week_start,
+  sum(rate) AS gross,
+  count(*) AS load_count
+FROM public.loads
+WHERE public.load_counts_toward_gross(status)
+GROUP BY organization_id, driver_id, date_trunc('week', delivery_date)::DATE;
+
+CREATE OR REPLACE FUNCTION public.get_gross_by_driver(p_organization_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  driver_id UUID,
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  load_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.driver_id,
+    COALESCE(sum(l.rate) FILTER (WHERE l.load_type = 'FULL'), 0),
+    COALESCE(sum(l.rate) FILTER (WHERE l.load_type = 'PARTIAL'), 0),
+    sum(l.rate),
+    count(*)
+  FROM public.loads l
+  WHERE l.organization_id = p_organization_id
+    AND l.delivery_date BETWEEN p_start AND p_end
+    AND public.load_counts_toward_gross(l.status)
+  GROUP BY l.driver_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_salary_totals(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_dispatcher_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  full_load_commission NUMERIC,
+  partial_load_commission NUMERIC,
+  full_percents NUMERIC[],
+  partial_percents NUMERIC[],
+  total_bonuses NUMERIC,
+  total_adjustments NUMERIC,
+  total_salary NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_loads AS (
+    SELECT
+      l.load_type,
+      l.rate,
+      public.commission_percent_on(l.organization_id, l.user_id, l.delivery_date, l.load_type) AS percent
+    FROM public.loads l
+    WHERE l.organization_id = p_organization_id
+      AND l.delivery_date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR l.user_id = p_dispatcher_id)
+      AND public.load_counts_toward_gross(l.status)
+  ),
+  load_totals AS (
+    SELECT
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_sum,
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_sum,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_commission,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_commission,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'FULL'), '{}') AS full_rates,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'PARTIAL'), '{}') AS partial_rates
+    FROM period_loads pl
+  ),
+  bonus_totals AS (
+    SELECT
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type <> 'adjustment'), 0) AS bonus_sum,
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type = 'adjustment'), 0) AS adjustment_sum
+    FROM public.bonuses b
+    WHERE b.organization_id = p_organization_id
+      AND b.date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR b.user_id = p_dispatcher_id)
+  )
+  SELECT
+    lt.full_sum,
+    lt.partial_sum,
+    lt.full_sum + lt.partial_sum,
+    lt.full_commission,
+    lt.partial_commission,
+    lt.full_rates,
+    lt.partial_rates,
+    bt.bonus_sum,
+    bt.adjustment_sum,
+    lt.full_commission + lt.partial_commission + bt.bonus_sum + bt.adjustment_sum
+  FROM load_totals lt
+  CROSS JOIN bonus_totals bt;
+$$;
+
@@ -0,0 +1,240 @@
+-- Cancellations keep the original rate; a Truck Ordered Not Used fee paid by the broker
+-- counts toward gross in its place, at its own commission percent
+ALTER TABLE public.loads
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN tonu_amount DECIMAL(10,2) CHECK (tonu_amount >= 0),
+  ADD CONSTRAINT loads_cancellation_fields_check
+    CHECK (status = 'cancelled' OR (cancellation_reason IS NULL AND tonu_amount IS NULL));
+
+ALTER TABLE public.commission_plans
+  ADD COLUMN tonu_percent DECIMAL(5,2) NOT NULL DEFAULT 1 CHECK (tonu_percent >= 0 AND tonu_percent <= 100);
+
+-- Amount a load adds to gross: its rate, or once cancelled the TONU fee (if any).
+-- Mirrors getLoadGross in the client.
+CREATE OR REPLACE FUNCTION public.load_gross(p_status public.load_status, p_rate NUMERIC, p_tonu_amount NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN public.load_counts_toward_gross(p_status) THEN p_rate ELSE COALESCE(p_tonu_amount, 0) END;
+$$;
+
+-- Whether a load adds to gross at all: live loads and cancelled loads paid a TONU fee.
+-- Mirrors isGrossLoad in the client.
+CREATE OR REPLACE FUNCTION public.is_gross_load(p_status public.load_status, p_tonu_amount NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT public.load_counts_toward_gross(p_status) OR p_tonu_amount IS NOT NULL;
+$$;
+
+-- Commission percent on a TONU fee under the plan in force, else 1%
+CREATE OR REPLACE FUNCTION public.tonu_percent_on(p_organization_id UUID, p_dispatcher_id UUID, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT tonu_percent
+      FROM public.commission_plans
+      WHERE organization_id = p_organization_id
+        AND effective_from <= p_date
+        AND (dispatcher_id = p_dispatcher_id OR dispatcher_id IS NULL)
+      ORDER BY dispatcher_id IS NULL, effective_from DESC
+      LIMIT 1
+    ),
+    1
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.recalculate_driver_week_bonus(p_driver_id UUID, p_week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_user_id UUID;
+  v_gross NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  -- Serialize concurrent recalculations of the same driver-week
+  PERFORM pg_advisory_xact_lock(hashtext(p_driver_id::TEXT || p_week_start::TEXT));
+
+  SELECT organization_id INTO v_organization_id FROM public.drivers WHERE id = p_driver_id;
+  IF v_organization_id IS NOT NULL AND public.is_payroll_date_locked(v_organization_id, p_week_start) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type = 'automatic';
+
+  IF v_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(public.load_gross(status, rate, tonu_amount)), 0) INTO v_gross
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+    AND public.is_gross_load(status, tonu_amount);
+
+  v_amount := public.automatic_bonus_amount(
+    v_organization_id,
+    public.driver_type_on(p_driver_id, p_week_start),
+    p_week_start,
+    v_gross
+  );
+
+  IF v_amount > 0 THEN
+    SELECT user_id INTO v_user_id
+    FROM public.loads
+    WHERE driver_id = p_driver_id
+      AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+      AND public.is_gross_load(status, tonu_amount)
+    GROUP BY user_id
+    ORDER BY sum(public.load_gross(status, rate, tonu_amount)) DESC, min(created_at)
+    LIMIT 1;
+
+    INSERT INTO public.bonuses (user_id, organization_id, driver_id, bonus_type, amount, week_start, date, note)
+    VALUES (
+      v_user_id,
+      v_organization_id,
+      p_driver_id,
+      'automatic',
+      v_amount,
+      p_week_start,
+      p_week_start,
+      'Auto bonus for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99')) || ' weekly gross'
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE VIEW public.driver_daily_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  delivery_date,
+  sum(public.load_gross(status, rate, tonu_amount)) AS gross,
+  count(*) AS load_count
+FROM public.loads
+WHERE public.is_gross_load(status, tonu_amount)
+GROUP BY organization_id, driver_id, delivery_date;
+
+CREATE OR REPLACE VIEW public.driver_weekly_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  date_trunc('week', delivery_date)::DATE AS week_start,
+  sum(public.load_gross(status, rate, tonu_amount)) AS gross,
+  count(*) AS load_count
+FROM public.loads
+WHERE public.is_gross_load(status, tonu_amount)
+GROUP BY organization_id, driver_id, date_trunc('week', delivery_date)::DATE;
+
+CREATE OR REPLACE FUNCTION public.get_gross_by_driver(p_organization_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  driver_id UUID,
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  load_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.driver_id,
+    COALESCE(sum(public.load_gross(l.status, l.rate, l.tonu_amount)) FILTER (WHERE l.load_type = 'FULL'), 0),
+    COALESCE(sum(public.load_gross(l.status, l.rate, l.tonu_amount)) FILTER (WHERE l.load_type = 'PARTIAL'), 0),
+    sum(public.load_gross(l.status, l.rate, l.tonu_amount)),
+    count(*)
+  FROM public.loads l
+  WHERE l.organization_id = p_organization_id
+    AND l.delivery_date BETWEEN p_start AND p_end
+    AND public.is_gross_load(l.status, l.tonu_amount)
+  GROUP BY l.driver_id;
+$$;
+
+-- TONU fees are reported with their load type, at the plan's TONU percent
+CREATE OR REPLACE FUNCTION public.get_salary_totals(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_dispatcher_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  full_load_commission NUMERIC,
+  partial_load_commission NUMERIC,
+  full_percents NUMERIC[],
+  partial_percents NUMERIC[],
+  total_bonuses NUMERIC,
+  total_adjustments NUMERIC,
+  total_salary NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_loads AS (
+    SELECT
+      l.load_type,
+      public.load_gross(l.status, l.rate, l.tonu_amount) AS rate,
+      CASE
+        WHEN public.load_counts_toward_gross(l.status)
+          THEN public.commission_percent_on(l.organization_id, l.user_id, l.delivery_date, l.load_type)
+        ELSE public.tonu_percent_on(l.organization_id, l.user_id, l.delivery_date)
+      END AS percent
+    FROM public.loads l
+    WHERE l.organization_id = p_organization_id
+      AND l.delivery_date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR l.user_id = p_dispatcher_id)
+      AND public.is_gross_load(l.status, l.tonu_amount)
+  ),
+  load_totals AS (
+    SELECT
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_sum,
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_sum,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_commission,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_commission,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'FULL'), '{}') AS full_rates,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'PARTIAL'), '{}') AS partial_rates
+    FROM period_loads pl
+  ),
+  bonus_totals AS (
+    SELECT
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type <> 'adjustment'), 0) AS bonus_sum,
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type = 'adjustment'), 0) AS adjustment_sum
+    FROM public.bonuses b
+    WHERE b.organization_id = p_organization_id
+      AND b.date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR b.user_id = p_dispatcher_id)
+  )
+  SELECT
+    lt.full_sum,
+    lt.partial_sum,
+    lt.full_sum + lt.partial_sum,
+    lt.full_commission,
+    lt.partial_commission,
+    lt.full_rates,
+    lt.partial_rates,
+    bt.bonus_sum,
+    bt.adjustment_sum,
+    lt.full_commission + lt.partial_commission + bt.bonus_sum + bt.adjustment_sum
+  FROM load_totals lt
+  CROSS JOIN bonus_totals bt;
+$$;
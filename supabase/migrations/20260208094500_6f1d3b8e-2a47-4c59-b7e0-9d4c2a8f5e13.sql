@@ -0,0 +1,108 @@
+-- Loads with several pickups and drops. The loads row keeps the first pickup and the
+-- last delivery as origin/destination and pickup/delivery dates, so search, gross and
+-- automatic bonuses still go by the final delivery.
+CREATE TYPE public.load_stop_type AS ENUM ('pickup', 'delivery');
+
+CREATE TABLE public.load_stops (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  -- 1-based position along the route
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  stop_type public.load_stop_type NOT NULL,
+  city TEXT NOT NULL,
+  state TEXT,
+  appointment_date DATE NOT NULL,
+  -- Optional appointment window on that date
+  window_start TIME,
+  window_end TIME,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (load_id, sequence),
+  CHECK (window_start IS NULL OR window_end IS NULL OR window_end >= window_start)
+);
+
+CREATE INDEX idx_load_stops_organization_id ON public.load_stops(organization_id);
+
+ALTER TABLE public.load_stops ENABLE ROW LEVEL SECURITY;
+
+-- Written only through replace_load_stops
+CREATE POLICY "Members can view organization load stops" ON public.load_stops
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+-- Existing loads become a single pickup and delivery. "Chicago, IL" splits at the last comma.
+INSERT INTO public.load_stops (organization_id, load_id, sequence, stop_type, city, state, appointment_date)
+SELECT
+  l.organization_id,
+  l.id,
+  s.sequence,
+  s.stop_type,
+  CASE WHEN s.location LIKE '%,%' THEN trim(regexp_replace(s.location, ',[^,]*$', '')) ELSE trim(s.location) END,
+  CASE WHEN s.location LIKE '%,%' THEN nullif(trim(substring(s.location FROM ',([^,]*)$')), '') END,
+  s.appointment_date
+FROM public.loads l
+CROSS JOIN LATERAL (
+  VALUES
+    (1, 'pickup'::public.load_stop_type, l.origin, l.pickup_date),
+    (2, 'delivery'::public.load_stop_type, l.destination, l.delivery_date)
+) AS s(sequence, stop_type, location, appointment_date);
+
+-- Replaces a load's stops in order. The route must start with a pickup and end with a
+-- delivery; the client keeps the load's origin, destination and dates in step.
+CREATE OR REPLACE FUNCTION public.replace_load_stops(p_load_id UUID, p_stops JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_load public.loads;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_load FROM public.loads WHERE id = p_load_id;
+  IF v_load.id IS NULL OR NOT public.has_organization_role(v_load.organization_id, '{owner,dispatcher}') THEN
+    RAISE EXCEPTION 'Not allowed to edit this load';
+  END IF;
+  IF public.is_payroll_date_locked(v_load.organization_id, v_load.delivery_date) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', v_load.delivery_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_count := jsonb_array_length(p_stops);
+  IF v_count < 2
+    OR p_stops -> 0 ->> 'stop_type' <> 'pickup'
+    OR p_stops -> (v_count - 1) ->> 'stop_type' <> 'delivery' THEN
+    RAISE EXCEPTION 'A route starts with a pickup and ends with a delivery'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.load_stops WHERE load_id = p_load_id;
+
+  INSERT INTO public.load_stops (
+    organization_id, load_id, sequence, stop_type, city, state, appointment_date, window_start, window_end
+  )
+  SELECT
+    v_load.organization_id,
+    p_load_id,
+    s.ordinality,
+    s.stop_type,
+    s.city,
+    nullif(s.state, ''),
+    s.appointment_date,
+    s.window_start,
+    s.window_end
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_stops) AS (
+      stop_type public.load_stop_type,
+      city TEXT,
+      state TEXT,
+      appointment_date DATE,
+      window_start TIME,
+      window_end TIME
+    )
+  ) WITH ORDINALITY AS s(stop_type, city, state, appointment_date, window_start, window_end, ordinality);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_load_stops(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.replace_load_stops(UUID, JSONB) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.load_stops;
@@ -0,0 +1,73 @@
+-- Loaded and deadhead (empty) miles per load, for rate per mile. Loads without loaded
+-- miles are left out of mileage totals so they don't skew RPM.
+ALTER TABLE public.loads
+  ADD COLUMN loaded_miles INTEGER CHECK (loaded_miles >= 0),
+  ADD COLUMN deadhead_miles INTEGER CHECK (deadhead_miles >= 0);
+
+-- New columns go last so the views can be replaced in place
+CREATE OR REPLACE VIEW public.driver_daily_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  delivery_date,
+  sum(public.load_gross(status, rate, tonu_amount)) AS gross,
+  count(*) AS load_count,
+  COALESCE(sum(rate) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS mileage_gross,
+  COALESCE(sum(loaded_miles) FILTER (WHERE public.load_counts_toward_gross(status)), 0) AS loaded_miles,
+  COALESCE(sum(COALESCE(deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS deadhead_miles
+FROM public.loads
+WHERE public.is_gross_load(status, tonu_amount)
+GROUP BY organization_id, driver_id, delivery_date;
+
+CREATE OR REPLACE VIEW public.driver_weekly_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  date_trunc('week', delivery_date)::DATE AS week_start,
+  sum(public.load_gross(status, rate, tonu_amount)) AS gross,
+  count(*) AS load_count,
+  COALESCE(sum(rate) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS mileage_gross,
+  COALESCE(sum(loaded_miles) FILTER (WHERE public.load_counts_toward_gross(status)), 0) AS loaded_miles,
+  COALESCE(sum(COALESCE(deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS deadhead_miles
+FROM public.loads
+WHERE public.is_gross_load(status, tonu_amount)
+GROUP BY organization_id, driver_id, date_trunc('week', delivery_date)::DATE;
+
+-- The result columns change, so the function is recreated
+DROP FUNCTION public.get_gross_by_driver(UUID, DATE, DATE);
+
+CREATE FUNCTION public.get_gross_by_driver(p_organization_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  driver_id UUID,
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  load_count BIGINT,
+  mileage_gross NUMERIC,
+  loaded_miles BIGINT,
+  deadhead_miles BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.driver_id,
+    COALESCE(sum(public.load_gross(l.status, l.rate, l.tonu_amount)) FILTER (WHERE l.load_type = 'FULL'), 0),
+    COALESCE(sum(public.load_gross(l.status, l.rate, l.tonu_amount)) FILTER (WHERE l.load_type = 'PARTIAL'), 0),
+    sum(public.load_gross(l.status, l.rate, l.tonu_amount)),
+    count(*),
+    COALESCE(sum(l.rate) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0),
+    COALESCE(sum(l.loaded_miles) FILTER (WHERE public.load_counts_toward_gross(l.status)), 0),
+    COALESCE(sum(COALESCE(l.deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0)
+  FROM public.loads l
+  WHERE l.organization_id = p_organization_id
+    AND l.delivery_date BETWEEN p_start AND p_end
+    AND public.is_gross_load(l.status, l.tonu_amount)
+  GROUP BY l.driver_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_gross_by_driver(UUID, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_gross_by_driver(UUID, DATE, DATE) TO authenticated;
@@ -0,0 +1,83 @@
+-- Brokers and shippers the freight comes from. Loads point at their broker; deleting a
+-- broker keeps its loads, just unlinked.
+CREATE TABLE public.brokers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  mc_number TEXT,
+  contact_name TEXT,
+  contact_email TEXT,
+  contact_phone TEXT,
+  -- Days the broker has to pay after invoicing, e.g. 30 for net 30
+  payment_terms_days INTEGER CHECK (payment_terms_days >= 0),
+  credit_notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One broker per MC number in an organization
+CREATE UNIQUE INDEX brokers_organization_mc_number_key ON public.brokers(organization_id, mc_number)
+  WHERE mc_number IS NOT NULL;
+CREATE INDEX idx_brokers_organization_id ON public.brokers(organization_id);
+
+ALTER TABLE public.brokers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization brokers" ON public.brokers
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Dispatchers can insert organization brokers" ON public.brokers
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Dispatchers can update organization brokers" ON public.brokers
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner,dispatcher}'));
+
+CREATE POLICY "Owners can delete organization brokers" ON public.brokers
+  FOR DELETE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+CREATE TRIGGER update_brokers_updated_at
+  BEFORE UPDATE ON public.brokers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.loads
+  ADD COLUMN broker_id UUID REFERENCES public.brokers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_loads_broker_id ON public.loads(broker_id);
+
+-- Per-broker totals over loads delivered in a date range.
+-- Cancelled loads are included only with a TONU fee, as in gross everywhere else.
+CREATE OR REPLACE FUNCTION public.get_broker_stats(p_organization_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  broker_id UUID,
+  load_count BIGINT,
+  gross NUMERIC,
+  average_rate NUMERIC,
+  mileage_gross NUMERIC,
+  loaded_miles BIGINT,
+  deadhead_miles BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.broker_id,
+    count(*),
+    sum(public.load_gross(l.status, l.rate, l.tonu_amount)),
+    COALESCE(avg(l.rate) FILTER (WHERE public.load_counts_toward_gross(l.status)), 0),
+    COALESCE(sum(l.rate) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0),
+    COALESCE(sum(l.loaded_miles) FILTER (WHERE public.load_counts_toward_gross(l.status)), 0),
+    COALESCE(sum(COALESCE(l.deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0)
+  FROM public.loads l
+  WHERE l.organization_id = p_organization_id
+    AND l.broker_id IS NOT NULL
+    AND l.delivery_date BETWEEN p_start AND p_end
+    AND public.is_gross_load(l.status, l.tonu_amount)
+  GROUP BY l.broker_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_broker_stats(UUID, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_broker_stats(UUID, DATE, DATE) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.brokers;
@@ -0,0 +1,356 @@
+-- Broker invoices. Numbers run 1, 2, 3... per organization and are never reused: a
+-- mistaken invoice is voided, which frees its loads, rather than deleted. Invoices,
+-- lines and payments are written only through the functions below, which also move
+-- the loads along: delivered -> invoiced when billed, invoiced -> paid once the
+-- invoice is paid in full.
+CREATE TYPE public.invoice_line_kind AS ENUM ('load', 'accessorial');
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Member who issued the invoice
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  broker_id UUID NOT NULL REFERENCES public.brokers(id) ON DELETE RESTRICT,
+  invoice_number INTEGER NOT NULL CHECK (invoice_number > 0),
+  issue_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  notes TEXT,
+  voided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, invoice_number),
+  CHECK (due_date >= issue_date)
+);
+
+CREATE INDEX idx_invoices_broker_id ON public.invoices(broker_id);
+
+CREATE TABLE public.invoice_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  -- 1-based position on the invoice
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  kind public.invoice_line_kind NOT NULL,
+  -- The load billed on a load line; kept as text in the description if the load goes away
+  load_id UUID REFERENCES public.loads(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  UNIQUE (invoice_id, sequence)
+);
+
+CREATE INDEX idx_invoice_lines_load_id ON public.invoice_lines(load_id);
+
+CREATE TABLE public.invoice_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  -- Member who recorded the payment
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  paid_on DATE NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  -- Check number, ACH trace or factoring reference
+  reference TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_payments_invoice_id ON public.invoice_payments(invoice_id);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization invoices" ON public.invoices
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can view organization invoice lines" ON public.invoice_lines
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can view organization invoice payments" ON public.invoice_payments
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Billing is done by dispatchers and accountants
+CREATE OR REPLACE FUNCTION public.can_manage_invoices(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.has_organization_role(p_organization_id, '{owner,dispatcher,accountant}');
+$$;
+
+CREATE OR REPLACE FUNCTION public.invoice_total(p_invoice_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(amount), 0) FROM public.invoice_lines WHERE invoice_id = p_invoice_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.invoice_paid(p_invoice_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(amount), 0) FROM public.invoice_payments WHERE invoice_id = p_invoice_id;
+$$;
+
+-- Moves the loads billed on an invoice from one status to another. Status-only changes
+-- are allowed in closed payroll periods, so paid invoices can be recorded after payroll.
+CREATE OR REPLACE FUNCTION public.set_invoice_load_status(
+  p_invoice_id UUID,
+  p_from public.load_status,
+  p_to public.load_status
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.loads
+  SET status = p_to, updated_by = auth.uid()
+  WHERE status = p_from
+    AND id IN (
+      SELECT load_id FROM public.invoice_lines
+      WHERE invoice_id = p_invoice_id AND kind = 'load' AND load_id IS NOT NULL
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_invoice_load_status(UUID, public.load_status, public.load_status) FROM PUBLIC, anon, authenticated;
+
+-- Bills delivered loads of one broker, each at its rate, plus any accessorial lines
+-- ([{description, amount}]). Returns the new invoice.
+CREATE OR REPLACE FUNCTION public.create_invoice(
+  p_organization_id UUID,
+  p_broker_id UUID,
+  p_issue_date DATE,
+  p_due_date DATE,
+  p_notes TEXT,
+  p_load_ids UUID[],
+  p_accessorials JSONB DEFAULT '[]'
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_load_count INTEGER;
+BEGIN
+  IF NOT public.can_manage_invoices(p_organization_id) THEN
+    RAISE EXCEPTION 'Not allowed to invoice for this organization';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.brokers WHERE id = p_broker_id AND organization_id = p_organization_id) THEN
+    RAISE EXCEPTION 'Broker not found';
+  END IF;
+
+  -- One invoice at a time per organization: numbers stay sequential and a load can't
+  -- end up on two invoices
+  PERFORM pg_advisory_xact_lock(hashtext('invoices:' || p_organization_id::TEXT));
+
+  SELECT count(*) INTO v_load_count
+  FROM public.loads l
+  WHERE l.id = ANY(p_load_ids)
+    AND l.organization_id = p_organization_id
+    AND l.broker_id = p_broker_id
+    AND l.status = 'delivered'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.invoice_lines il
+      JOIN public.invoices i ON i.id = il.invoice_id
+      WHERE il.load_id = l.id AND il.kind = 'load' AND i.voided_at IS NULL
+    );
+  IF v_load_count = 0 OR v_load_count <> cardinality(ARRAY(SELECT DISTINCT unnest(p_load_ids))) THEN
+    RAISE EXCEPTION 'Only delivered loads of this broker that are not on an invoice yet can be invoiced'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.invoices (organization_id, user_id, broker_id, invoice_number, issue_date, due_date, notes)
+  VALUES (
+    p_organization_id,
+    auth.uid(),
+    p_broker_id,
+    (SELECT COALESCE(max(invoice_number), 0) + 1 FROM public.invoices WHERE organization_id = p_organization_id),
+    p_issue_date,
+    p_due_date,
+    nullif(trim(p_notes), '')
+  )
+  RETURNING * INTO v_invoice;
+
+  -- Loads in delivery order, then the accessorials in the order given
+  INSERT INTO public.invoice_lines (organization_id, invoice_id, sequence, kind, load_id, description, amount)
+  SELECT p_organization_id, v_invoice.id, row_number() OVER (ORDER BY sort_group, sort_key), kind, load_id, description, amount
+  FROM (
+    SELECT
+      1 AS sort_group,
+      l.delivery_date::TEXT || l.load_id AS sort_key,
+      'load'::public.invoice_line_kind AS kind,
+      l.id AS load_id,
+      'Load ' || l.load_id || ': ' || l.origin || ' - ' || l.destination || ', delivered ' || to_char(l.delivery_date, 'MM/DD/YYYY') AS description,
+      l.rate AS amount
+    FROM public.loads l
+    WHERE l.id = ANY(p_load_ids)
+    UNION ALL
+    SELECT 2, lpad(a.ordinality::TEXT, 6, '0'), 'accessorial', NULL, a.description, a.amount
+    FROM ROWS FROM (
+      jsonb_to_recordset(COALESCE(p_accessorials, '[]')) AS (description TEXT, amount NUMERIC)
+    ) WITH ORDINALITY AS a(description, amount, ordinality)
+  ) lines;
+
+  PERFORM public.set_invoice_load_status(v_invoice.id, 'delivered', 'invoiced');
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- Voiding keeps the number but takes the invoice off receivables and returns its
+-- loads to delivered so they can be billed again. Paid invoices can't be voided.
+CREATE OR REPLACE FUNCTION public.void_invoice(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF v_invoice.id IS NULL OR NOT public.can_manage_invoices(v_invoice.organization_id) THEN
+    RAISE EXCEPTION 'Not allowed to void this invoice';
+  END IF;
+  IF v_invoice.voided_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.invoice_payments WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'Remove the payments on invoice % before voiding it', v_invoice.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.invoices SET voided_at = now() WHERE id = p_invoice_id;
+  PERFORM public.set_invoice_load_status(p_invoice_id, 'invoiced', 'delivered');
+END;
+$$;
+
+-- A full or partial payment; more than the balance is rejected
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(
+  p_invoice_id UUID,
+  p_amount NUMERIC,
+  p_paid_on DATE,
+  p_reference TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF v_invoice.id IS NULL OR NOT public.can_manage_invoices(v_invoice.organization_id) THEN
+    RAISE EXCEPTION 'Not allowed to record payments on this invoice';
+  END IF;
+  IF v_invoice.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invoice % is void', v_invoice.invoice_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_balance := public.invoice_total(p_invoice_id) - public.invoice_paid(p_invoice_id);
+  IF p_amount > v_balance THEN
+    RAISE EXCEPTION 'Payment of % is more than the balance of %', p_amount, v_balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.invoice_payments (organization_id, invoice_id, user_id, paid_on, amount, reference)
+  VALUES (v_invoice.organization_id, p_invoice_id, auth.uid(), p_paid_on, p_amount, nullif(trim(p_reference), ''));
+
+  IF p_amount = v_balance THEN
+    PERFORM public.set_invoice_load_status(p_invoice_id, 'invoiced', 'paid');
+  END IF;
+END;
+$$;
+
+-- Removes a payment recorded by mistake; a no longer fully paid invoice's loads go back to invoiced
+CREATE OR REPLACE FUNCTION public.delete_invoice_payment(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_payment public.invoice_payments;
+BEGIN
+  SELECT * INTO v_payment FROM public.invoice_payments WHERE id = p_payment_id;
+  IF v_payment.id IS NULL OR NOT public.can_manage_invoices(v_payment.organization_id) THEN
+    RAISE EXCEPTION 'Not allowed to remove this payment';
+  END IF;
+
+  PERFORM 1 FROM public.invoices WHERE id = v_payment.invoice_id FOR UPDATE;
+  DELETE FROM public.invoice_payments WHERE id = p_payment_id;
+  PERFORM public.set_invoice_load_status(v_payment.invoice_id, 'paid', 'invoiced');
+END;
+$$;
+
+-- Open balances per broker as of a date, by days past due: current (not yet due),
+-- 1-30, 31-60, 61-90 and over 90. Also the average days from invoice to final payment
+-- over the broker's paid invoices.
+CREATE OR REPLACE FUNCTION public.get_receivables_aging(p_organization_id UUID, p_as_of DATE)
+RETURNS TABLE (
+  broker_id UUID,
+  current_balance NUMERIC,
+  days_1_30 NUMERIC,
+  days_31_60 NUMERIC,
+  days_61_90 NUMERIC,
+  days_over_90 NUMERIC,
+  total_balance NUMERIC,
+  open_invoices BIGINT,
+  average_days_to_pay NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH balances AS (
+    SELECT
+      i.broker_id,
+      i.issue_date,
+      p_as_of - i.due_date AS days_past_due,
+      public.invoice_total(i.id) - COALESCE(p.paid, 0) AS balance,
+      p.last_paid_on
+    FROM public.invoices i
+    LEFT JOIN LATERAL (
+      SELECT sum(amount) AS paid, max(paid_on) AS last_paid_on
+      FROM public.invoice_payments
+      WHERE invoice_id = i.id AND paid_on <= p_as_of
+    ) p ON true
+    WHERE i.organization_id = p_organization_id
+      AND i.voided_at IS NULL
+      AND i.issue_date <= p_as_of
+  )
+  SELECT
+    broker_id,
+    COALESCE(sum(balance) FILTER (WHERE balance > 0 AND days_past_due <= 0), 0),
+    COALESCE(sum(balance) FILTER (WHERE balance > 0 AND days_past_due BETWEEN 1 AND 30), 0),
+    COALESCE(sum(balance) FILTER (WHERE balance > 0 AND days_past_due BETWEEN 31 AND 60), 0),
+    COALESCE(sum(balance) FILTER (WHERE balance > 0 AND days_past_due BETWEEN 61 AND 90), 0),
+    COALESCE(sum(balance) FILTER (WHERE balance > 0 AND days_past_due > 90), 0),
+    COALESCE(sum(balance) FILTER (WHERE balance > 0), 0),
+    count(*) FILTER (WHERE balance > 0),
+    avg(last_paid_on - issue_date) FILTER (WHERE balance <= 0)
+  FROM balances
+  GROUP BY broker_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_invoice(UUID, UUID, DATE, DATE, TEXT, UUID[], JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_invoice(UUID, UUID, DATE, DATE, TEXT, UUID[], JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.void_invoice(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.void_invoice(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_invoice_payment(UUID, NUMERIC, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_invoice_payment(UUID, NUMERIC, DATE, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_invoice_payment(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_invoice_payment(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_receivables_aging(UUID, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_receivables_aging(UUID, DATE) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.invoices, public.invoice_payments;
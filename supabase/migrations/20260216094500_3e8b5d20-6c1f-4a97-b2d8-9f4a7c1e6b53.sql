@@ -0,0 +1,481 @@
+-- Accessorial charges on a load (detention, lumper, layover, fuel surcharge...) kept apart
+-- from the linehaul rate. Each charge type has flags for whether it counts toward the
+-- driver's weekly gross and the dispatcher's commission, or is a pass-through
+-- reimbursement that counts toward neither.
+CREATE TYPE public.load_charge_type AS ENUM ('detention', 'lumper', 'layover', 'fuel_surcharge', 'other');
+
+-- An organization's flags for a charge type. Types without a row use the defaults in
+-- load_charge_flags.
+CREATE TABLE public.load_charge_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  charge_type public.load_charge_type NOT NULL,
+  counts_toward_driver_gross BOOLEAN NOT NULL,
+  counts_toward_commission BOOLEAN NOT NULL,
+  reimbursement_only BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, charge_type),
+  CHECK (NOT reimbursement_only OR (NOT counts_toward_driver_gross AND NOT counts_toward_commission))
+);
+
+ALTER TABLE public.load_charge_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization load charge rules" ON public.load_charge_rules
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Owners can insert organization load charge rules" ON public.load_charge_rules
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_organization_role(organization_id, '{owner}'));
+
+CREATE POLICY "Owners can update organization load charge rules" ON public.load_charge_rules
+  FOR UPDATE TO authenticated USING (public.has_organization_role(organization_id, '{owner}'));
+
+CREATE TRIGGER update_load_charge_rules_updated_at
+  BEFORE UPDATE ON public.load_charge_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A charge keeps the flags its type had when it was saved, so changing a rule later
+-- doesn't move gross or commission that was already paid
+CREATE TABLE public.load_charges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  -- 1-based position on the load
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  charge_type public.load_charge_type NOT NULL,
+  description TEXT,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  counts_toward_driver_gross BOOLEAN NOT NULL,
+  counts_toward_commission BOOLEAN NOT NULL,
+  reimbursement_only BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (load_id, sequence)
+);
+
+CREATE INDEX idx_load_charges_organization_id ON public.load_charges(organization_id);
+
+ALTER TABLE public.load_charges ENABLE ROW LEVEL SECURITY;
+
+-- Written only through replace_load_charges
+CREATE POLICY "Members can view organization load charges" ON public.load_charges
+  FOR SELECT TO authenticated USING (public.is_organization_member(organization_id));
+
+-- Charge totals kept on the load by replace_load_charges, so gross, bonuses and payroll
+-- snapshots read them with the load
+ALTER TABLE public.loads
+  ADD COLUMN charges_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN driver_gross_charges DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN commission_charges DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN reimbursement_charges DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Flags for a charge type: the organization's rule, else lumper fees are reimbursements
+-- and everything else counts toward both. Mirrors DEFAULT_CHARGE_FLAGS in the client.
+CREATE OR REPLACE FUNCTION public.load_charge_flags(p_organization_id UUID, p_charge_type public.load_charge_type)
+RETURNS TABLE (
+  counts_toward_driver_gross BOOLEAN,
+  counts_toward_commission BOOLEAN,
+  reimbursement_only BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(r.counts_toward_driver_gross, p_charge_type <> 'lumper'),
+    COALESCE(r.counts_toward_commission, p_charge_type <> 'lumper'),
+    COALESCE(r.reimbursement_only, p_charge_type = 'lumper')
+  FROM (SELECT 1) AS defaults
+  LEFT JOIN public.load_charge_rules r
+    ON r.organization_id = p_organization_id AND r.charge_type = p_charge_type;
+$$;
+
+-- Amount a load adds to gross with the given charges. Charges on a cancelled load don't
+-- count; its TONU fee stands alone. Mirrors getLoadDriverGross and getLoadCommissionGross.
+CREATE OR REPLACE FUNCTION public.load_gross_with_charges(
+  p_status public.load_status,
+  p_rate NUMERIC,
+  p_tonu_amount NUMERIC,
+  p_charges NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT public.load_gross(p_status, p_rate, p_tonu_amount)
+    + CASE WHEN public.load_counts_toward_gross(p_status) THEN p_charges ELSE 0 END;
+$$;
+
+-- Replaces a load's charges ([{charge_type, description, amount}]) in order and updates
+-- its totals, which recalculates the driver's automatic bonus. Returns the updated load.
+CREATE OR REPLACE FUNCTION public.replace_load_charges(p_load_id UUID, p_charges JSONB)
+RETURNS public.loads
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_load public.loads;
+BEGIN
+  SELECT * INTO v_load FROM public.loads WHERE id = p_load_id;
+  IF v_load.id IS NULL OR NOT public.has_organization_role(v_load.organization_id, '{owner,dispatcher}') THEN
+    RAISE EXCEPTION 'Not allowed to edit this load';
+  END IF;
+  IF public.is_payroll_date_locked(v_load.organization_id, v_load.delivery_date) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', v_load.delivery_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.load_charges WHERE load_id = p_load_id;
+
+  INSERT INTO public.load_charges (
+    organization_id, load_id, sequence, charge_type, description, amount,
+    counts_toward_driver_gross, counts_toward_commission, reimbursement_only
+  )
+  SELECT
+    v_load.organization_id,
+    p_load_id,
+    c.ordinality,
+    c.charge_type,
+    nullif(trim(c.description), ''),
+    c.amount,
+    f.counts_toward_driver_gross,
+    f.counts_toward_commission,
+    f.reimbursement_only
+  FROM ROWS FROM (
+    jsonb_to_recordset(COALESCE(p_charges, '[]')) AS (
+      charge_type public.load_charge_type,
+      description TEXT,
+      amount NUMERIC
+    )
+  ) WITH ORDINALITY AS c(charge_type, description, amount, ordinality)
+  CROSS JOIN LATERAL public.load_charge_flags(v_load.organization_id, c.charge_type) f;
+
+  UPDATE public.loads l
+  SET
+    charges_total = t.charges_total,
+    driver_gross_charges = t.driver_gross_charges,
+    commission_charges = t.commission_charges,
+    reimbursement_charges = t.reimbursement_charges,
+    updated_by = auth.uid()
+  FROM (
+    SELECT
+      COALESCE(sum(amount), 0) AS charges_total,
+      COALESCE(sum(amount) FILTER (WHERE counts_toward_driver_gross), 0) AS driver_gross_charges,
+      COALESCE(sum(amount) FILTER (WHERE counts_toward_commission), 0) AS commission_charges,
+      COALESCE(sum(amount) FILTER (WHERE reimbursement_only), 0) AS reimbursement_charges
+    FROM public.load_charges
+    WHERE load_id = p_load_id
+  ) t
+  WHERE l.id = p_load_id
+  RETURNING l.* INTO v_load;
+
+  RETURN v_load;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_load_charges(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.replace_load_charges(UUID, JSONB) TO authenticated;
+
+-- Weekly gross behind automatic bonuses includes the charges that count toward driver gross
+CREATE OR REPLACE FUNCTION public.recalculate_driver_week_bonus(p_driver_id UUID, p_week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_user_id UUID;
+  v_gross NUMERIC;
+  v_amount NUMERIC;
+BEGIN
+  -- Serialize concurrent recalculations of the same driver-week
+  PERFORM pg_advisory_xact_lock(hashtext(p_driver_id::TEXT || p_week_start::TEXT));
+
+  SELECT organization_id INTO v_organization_id FROM public.drivers WHERE id = p_driver_id;
+  IF v_organization_id IS NOT NULL AND public.is_payroll_date_locked(v_organization_id, p_week_start) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type = 'automatic';
+
+  IF v_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(public.load_gross_with_charges(status, rate, tonu_amount, driver_gross_charges)), 0) INTO v_gross
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+    AND public.is_gross_load(status, tonu_amount);
+
+  v_amount := public.automatic_bonus_amount(
+    v_organization_id,
+    public.driver_type_on(p_driver_id, p_week_start),
+    p_week_start,
+    v_gross
+  );
+
+  IF v_amount > 0 THEN
+    SELECT user_id INTO v_user_id
+    FROM public.loads
+    WHERE driver_id = p_driver_id
+      AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+      AND public.is_gross_load(status, tonu_amount)
+    GROUP BY user_id
+    ORDER BY sum(public.load_gross_with_charges(status, rate, tonu_amount, driver_gross_charges)) DESC, min(created_at)
+    LIMIT 1;
+
+    INSERT INTO public.bonuses (user_id, organization_id, driver_id, bonus_type, amount, week_start, date, note)
+    VALUES (
+      v_user_id,
+      v_organization_id,
+      p_driver_id,
+      'automatic',
+      v_amount,
+      p_week_start,
+      p_week_start,
+      'Auto bonus for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99')) || ' weekly gross'
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_driver_week_bonus(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Driver gross includes their charges; mileage figures stay on the linehaul rate
+CREATE OR REPLACE VIEW public.driver_daily_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  delivery_date,
+  sum(public.load_gross_with_charges(status, rate, tonu_amount, driver_gross_charges)) AS gross,
+  count(*) AS load_count,
+  COALESCE(sum(rate) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS mileage_gross,
+  COALESCE(sum(loaded_miles) FILTER (WHERE public.load_counts_toward_gross(status)), 0) AS loaded_miles,
+  COALESCE(sum(COALESCE(deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS deadhead_miles
+FROM public.loads
+WHERE public.is_gross_load(status, tonu_amount)
+GROUP BY organization_id, driver_id, delivery_date;
+
+CREATE OR REPLACE VIEW public.driver_weekly_gross
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  driver_id,
+  date_trunc('week', delivery_date)::DATE AS week_start,
+  sum(public.load_gross_with_charges(status, rate, tonu_amount, driver_gross_charges)) AS gross,
+  count(*) AS load_count,
+  COALESCE(sum(rate) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS mileage_gross,
+  COALESCE(sum(loaded_miles) FILTER (WHERE public.load_counts_toward_gross(status)), 0) AS loaded_miles,
+  COALESCE(sum(COALESCE(deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(status) AND loaded_miles IS NOT NULL), 0) AS deadhead_miles
+FROM public.loads
+WHERE public.is_gross_load(status, tonu_amount)
+GROUP BY organization_id, driver_id, date_trunc('week', delivery_date)::DATE;
+
+CREATE OR REPLACE FUNCTION public.get_gross_by_driver(p_organization_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  driver_id UUID,
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  load_count BIGINT,
+  mileage_gross NUMERIC,
+  loaded_miles BIGINT,
+  deadhead_miles BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.driver_id,
+    COALESCE(sum(public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.driver_gross_charges)) FILTER (WHERE l.load_type = 'FULL'), 0),
+    COALESCE(sum(public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.driver_gross_charges)) FILTER (WHERE l.load_type = 'PARTIAL'), 0),
+    sum(public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.driver_gross_charges)),
+    count(*),
+    COALESCE(sum(l.rate) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0),
+    COALESCE(sum(l.loaded_miles) FILTER (WHERE public.load_counts_toward_gross(l.status)), 0),
+    COALESCE(sum(COALESCE(l.deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0)
+  FROM public.loads l
+  WHERE l.organization_id = p_organization_id
+    AND l.delivery_date BETWEEN p_start AND p_end
+    AND public.is_gross_load(l.status, l.tonu_amount)
+  GROUP BY l.driver_id;
+$$;
+
+-- Commission is earned on the rate plus the charges that count toward commission
+CREATE OR REPLACE FUNCTION public.get_salary_totals(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_dispatcher_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  full_load_commission NUMERIC,
+  partial_load_commission NUMERIC,
+  full_percents NUMERIC[],
+  partial_percents NUMERIC[],
+  total_bonuses NUMERIC,
+  total_adjustments NUMERIC,
+  total_salary NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_loads AS (
+    SELECT
+      l.load_type,
+      public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.commission_charges) AS rate,
+      CASE
+        WHEN public.load_counts_toward_gross(l.status)
+          THEN public.commission_percent_on(l.organization_id, l.user_id, l.delivery_date, l.load_type)
+        ELSE public.tonu_percent_on(l.organization_id, l.user_id, l.delivery_date)
+      END AS percent
+    FROM public.loads l
+    WHERE l.organization_id = p_organization_id
+      AND l.delivery_date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR l.user_id = p_dispatcher_id)
+      AND public.is_gross_load(l.status, l.tonu_amount)
+  ),
+  load_totals AS (
+    SELECT
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_sum,
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_sum,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_commission,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_commission,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'FULL'), '{}') AS full_rates,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'PARTIAL'), '{}') AS partial_rates
+    FROM period_loads pl
+  ),
+  bonus_totals AS (
+    SELECT
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type <> 'adjustment'), 0) AS bonus_sum,
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type = 'adjustment'), 0) AS adjustment_sum
+    FROM public.bonuses b
+    WHERE b.organization_id = p_organization_id
+      AND b.date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR b.user_id = p_dispatcher_id)
+  )
+  SELECT
+    lt.full_sum,
+    lt.partial_sum,
+    lt.full_sum + lt.partial_sum,
+    lt.full_commission,
+    lt.partial_commission,
+    lt.full_rates,
+    lt.partial_rates,
+    bt.bonus_sum,
+    bt.adjustment_sum,
+    lt.full_commission + lt.partial_commission + bt.bonus_sum + bt.adjustment_sum
+  FROM load_totals lt
+  CROSS JOIN bonus_totals bt;
+$$;
+
+-- Invoices bill each load's charges right after it, reimbursements included
+CREATE OR REPLACE FUNCTION public.create_invoice(
+  p_organization_id UUID,
+  p_broker_id UUID,
+  p_issue_date DATE,
+  p_due_date DATE,
+  p_notes TEXT,
+  p_load_ids UUID[],
+  p_accessorials JSONB DEFAULT '[]'
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_load_count INTEGER;
+BEGIN
+  IF NOT public.can_manage_invoices(p_organization_id) THEN
+    RAISE EXCEPTION 'Not allowed to invoice for this organization';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.brokers WHERE id = p_broker_id AND organization_id = p_organization_id) THEN
+    RAISE EXCEPTION 'Broker not found';
+  END IF;
+
+  -- One invoice at a time per organization: numbers stay sequential and a load can't
+  -- end up on two invoices
+  PERFORM pg_advisory_xact_lock(hashtext('invoices:' || p_organization_id::TEXT));
+
+  SELECT count(*) INTO v_load_count
+  FROM public.loads l
+  WHERE l.id = ANY(p_load_ids)
+    AND l.organization_id = p_organization_id
+    AND l.broker_id = p_broker_id
+    AND l.status = 'delivered'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.invoice_lines il
+      JOIN public.invoices i ON i.id = il.invoice_id
+      WHERE il.load_id = l.id AND il.kind = 'load' AND i.voided_at IS NULL
+    );
+  IF v_load_count = 0 OR v_load_count <> cardinality(ARRAY(SELECT DISTINCT unnest(p_load_ids))) THEN
+    RAISE EXCEPTION 'Only delivered loads of this broker that are not on an invoice yet can be invoiced'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.invoices (organization_id, user_id, broker_id, invoice_number, issue_date, due_date, notes)
+  VALUES (
+    p_organization_id,
+    auth.uid(),
+    p_broker_id,
+    (SELECT COALESCE(max(invoice_number), 0) + 1 FROM public.invoices WHERE organization_id = p_organization_id),
+    p_issue_date,
+    p_due_date,
+    nullif(trim(p_notes), '')
+  )
+  RETURNING * INTO v_invoice;
+
+  -- Loads in delivery order, each followed by its charges, then the accessorials in the order given
+  INSERT INTO public.invoice_lines (organization_id, invoice_id, sequence, kind, load_id, description, amount)
+  SELECT p_organization_id, v_invoice.id, row_number() OVER (ORDER BY sort_group, sort_key, sub_key), kind, load_id, description, amount
+  FROM (
+    SELECT
+      1 AS sort_group,
+      l.delivery_date::TEXT || l.load_id AS sort_key,
+      0 AS sub_key,
+      'load'::public.invoice_line_kind AS kind,
+      l.id AS load_id,
+      'Load ' || l.load_id || ': ' || l.origin || ' - ' || l.destination || ', delivered ' || to_char(l.delivery_date, 'MM/DD/YYYY') AS description,
+      l.rate AS amount
+    FROM public.loads l
+    WHERE l.id = ANY(p_load_ids)
+    UNION ALL
+    SELECT
+      1,
+      l.delivery_date::TEXT || l.load_id,
+      c.sequence,
+      'accessorial',
+      l.id,
+      initcap(replace(c.charge_type::TEXT, '_', ' ')) || COALESCE(': ' || c.description, '') || ' (load ' || l.load_id || ')',
+      c.amount
+    FROM public.load_charges c
+    JOIN public.loads l ON l.id = c.load_id
+    WHERE l.id = ANY(p_load_ids)
+    UNION ALL
+    SELECT 2, lpad(a.ordinality::TEXT, 6, '0'), 0, 'accessorial', NULL, a.description, a.amount
+    FROM ROWS FROM (
+      jsonb_to_recordset(COALESCE(p_accessorials, '[]')) AS (description TEXT, amount NUMERIC)
+    ) WITH ORDINALITY AS a(description, amount, ordinality)
+  ) lines;
+
+  PERFORM public.set_invoice_load_status(v_invoice.id, 'delivered', 'invoiced');
+
+  RETURN v_invoice;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.load_charges;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.load_charge_rules;
@@ -0,0 +1,123 @@
+-- What drivers are owed: a pay plan per driver (percentage of gross, per loaded mile
+-- or flat per load), recurring weekly deductions such as insurance, ELD or trailer
+-- rent for owner operators, and one-off advances taken back in the week they were
+-- paid. Settlements are built from these and the week's loads in the client.
+CREATE TYPE public.driver_pay_basis AS ENUM ('percent_of_gross', 'per_mile', 'flat_per_load');
+
+-- Plans are versioned like commission plans: the latest version effective on a load's
+-- delivery date pays for it
+CREATE TABLE public.driver_pay_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Member who set the plan
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL,
+  pay_basis public.driver_pay_basis NOT NULL,
+  -- Percent of gross, dollars per loaded mile or dollars per load, by pay_basis
+  rate NUMERIC(10,4) NOT NULL CHECK (rate >= 0),
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (driver_id, effective_from),
+  CHECK (pay_basis <> 'percent_of_gross' OR rate <= 100),
+  FOREIGN KEY (driver_id, organization_id) REFERENCES public.drivers(id, organization_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_driver_pay_plans_organization_id ON public.driver_pay_plans(organization_id);
+
+-- Taken from every settlement week the deduction overlaps
+CREATE TABLE public.driver_deductions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL,
+  description TEXT NOT NULL CHECK (length(trim(description)) > 0),
+  -- Per week
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  starts_on DATE NOT NULL,
+  -- Open-ended until set
+  ends_on DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on),
+  FOREIGN KEY (driver_id, organization_id) REFERENCES public.drivers(id, organization_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_driver_deductions_organization_id ON public.driver_deductions(organization_id);
+
+-- Paid out ahead of settlement and taken back in the week containing advanced_on
+CREATE TABLE public.driver_advances (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  advanced_on DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  FOREIGN KEY (driver_id, organization_id) REFERENCES public.drivers(id, organization_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_driver_advances_organization_date ON public.driver_advances(organization_id, advanced_on);
+
+-- Driver pay is kept from dispatchers and viewers
+CREATE OR REPLACE FUNCTION public.can_manage_driver_pay(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.has_organization_role(p_organization_id, '{owner,accountant}');
+$$;
+
+ALTER TABLE public.driver_pay_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_deductions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_advances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Pay managers can view driver pay plans" ON public.driver_pay_plans
+  FOR SELECT TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can insert driver pay plans" ON public.driver_pay_plans
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can update driver pay plans" ON public.driver_pay_plans
+  FOR UPDATE TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can delete driver pay plans" ON public.driver_pay_plans
+  FOR DELETE TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can view driver deductions" ON public.driver_deductions
+  FOR SELECT TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can insert driver deductions" ON public.driver_deductions
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can update driver deductions" ON public.driver_deductions
+  FOR UPDATE TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can delete driver deductions" ON public.driver_deductions
+  FOR DELETE TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can view driver advances" ON public.driver_advances
+  FOR SELECT TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can insert driver advances" ON public.driver_advances
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.can_manage_driver_pay(organization_id));
+
+CREATE POLICY "Pay managers can delete driver advances" ON public.driver_advances
+  FOR DELETE TO authenticated USING (public.can_manage_driver_pay(organization_id));
+
+CREATE TRIGGER update_driver_pay_plans_updated_at
+  BEFORE UPDATE ON public.driver_pay_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_driver_deductions_updated_at
+  BEFORE UPDATE ON public.driver_deductions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.driver_pay_plans;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.driver_deductions;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.driver_advances;
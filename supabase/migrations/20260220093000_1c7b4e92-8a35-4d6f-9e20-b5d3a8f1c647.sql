@@ -0,0 +1,32 @@
+-- Changing a driver's type and recording it in the type history happen together, so
+-- the history that drives historical bonus calculation never disagrees with the driver.
+-- effective_from is the Monday of the week the new type takes effect.
+CREATE OR REPLACE FUNCTION public.change_driver_type(
+  p_driver_id UUID,
+  p_driver_type driver_type,
+  p_effective_from DATE
+)
+RETURNS public.driver_type_history
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_driver public.drivers;
+  v_history public.driver_type_history;
+BEGIN
+  SELECT * INTO v_driver FROM public.drivers WHERE id = p_driver_id;
+  IF v_driver.id IS NULL OR NOT public.has_organization_role(v_driver.organization_id, '{owner,dispatcher}') THEN
+    RAISE EXCEPTION 'Not allowed to edit this driver';
+  END IF;
+
+  UPDATE public.drivers SET driver_type = p_driver_type WHERE id = p_driver_id;
+
+  INSERT INTO public.driver_type_history (user_id, organization_id, driver_id, driver_type, effective_from)
+  VALUES (auth.uid(), v_driver.organization_id, p_driver_id, p_driver_type, p_effective_from)
+  ON CONFLICT (driver_id, effective_from) DO UPDATE
+    SET driver_type = EXCLUDED.driver_type, user_id = EXCLUDED.user_id
+  RETURNING * INTO v_history;
+
+  RETURN v_history;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- Moves a load along its lifecycle. The loads UPDATE policy hides loads in a closed
+-- period, so invoicing and payment, which prevent_locked_load_changes lets through,
+-- go through here instead. Cancelling or reinstating in a closed period is still
+-- rejected by that trigger, and enforce_load_status_transition checks the move.
+-- Returns no rows when the load is no longer in p_from.
+CREATE OR REPLACE FUNCTION public.set_load_status(
+  p_load_id UUID,
+  p_from public.load_status,
+  p_to public.load_status,
+  p_cancellation_reason TEXT DEFAULT NULL,
+  p_tonu_amount NUMERIC DEFAULT NULL
+)
+RETURNS SETOF public.loads
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT organization_id INTO v_organization_id FROM public.loads WHERE id = p_load_id;
+  IF v_organization_id IS NULL OR NOT public.has_organization_role(v_organization_id, '{owner,dispatcher}') THEN
+    RAISE EXCEPTION 'Not allowed to edit this load';
+  END IF;
+
+  -- Only cancelled loads carry a reason and TONU fee
+  RETURN QUERY
+  UPDATE public.loads
+  SET
+    status = p_to,
+    cancellation_reason = CASE WHEN p_to = 'cancelled' THEN p_cancellation_reason END,
+    tonu_amount = CASE WHEN p_to = 'cancelled' THEN p_tonu_amount END
+  WHERE id = p_load_id
+    AND status = p_from
+  RETURNING *;
+END;
+$$;
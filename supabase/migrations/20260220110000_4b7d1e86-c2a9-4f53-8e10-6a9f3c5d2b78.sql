@@ -0,0 +1,118 @@
+-- A payroll period can end mid-week, e.g. at month end. The automatic bonus of such a
+-- week is dated on its Monday and paid with the closed period, but loads delivered on
+-- the week's open days still change what it should be. The difference is booked as an
+-- adjustment for the driver, dated on the first open day of the week. Adjustments
+-- entered by hand have no driver, so driver adjustments for a week are these
+-- corrections.
+CREATE OR REPLACE FUNCTION public.recalculate_driver_week_bonus(p_driver_id UUID, p_week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_user_id UUID;
+  v_open_date DATE;
+  v_gross NUMERIC;
+  v_amount NUMERIC;
+  v_paid NUMERIC;
+BEGIN
+  -- Serialize concurrent recalculations of the same driver-week
+  PERFORM pg_advisory_xact_lock(hashtext(p_driver_id::TEXT || p_week_start::TEXT));
+
+  SELECT organization_id INTO v_organization_id FROM public.drivers WHERE id = p_driver_id;
+
+  IF v_organization_id IS NOT NULL THEN
+    SELECT min(d)::DATE INTO v_open_date
+    FROM generate_series(p_week_start, p_week_start + 6, INTERVAL '1 day') AS d
+    WHERE NOT public.is_payroll_date_locked(v_organization_id, d::DATE);
+
+    -- The whole week was paid with closed periods
+    IF v_open_date IS NULL THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_organization_id IS NULL OR v_open_date = p_week_start THEN
+    DELETE FROM public.bonuses
+    WHERE driver_id = p_driver_id
+      AND week_start = p_week_start
+      AND bonus_type = 'automatic';
+  END IF;
+
+  IF v_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(public.load_gross_with_charges(status, rate, tonu_amount, driver_gross_charges)), 0) INTO v_gross
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+    AND public.is_gross_load(status, tonu_amount);
+
+  v_amount := public.automatic_bonus_amount(
+    v_organization_id,
+    public.driver_type_on(p_driver_id, p_week_start),
+    p_week_start,
+    v_gross
+  );
+
+  -- Dispatcher with the most gross that week
+  SELECT user_id INTO v_user_id
+  FROM public.loads
+  WHERE driver_id = p_driver_id
+    AND delivery_date BETWEEN p_week_start AND p_week_start + 6
+    AND public.is_gross_load(status, tonu_amount)
+  GROUP BY user_id
+  ORDER BY sum(public.load_gross_with_charges(status, rate, tonu_amount, driver_gross_charges)) DESC, min(created_at)
+  LIMIT 1;
+
+  IF v_open_date = p_week_start THEN
+    IF v_amount > 0 THEN
+      INSERT INTO public.bonuses (user_id, organization_id, driver_id, bonus_type, amount, week_start, date, note)
+      VALUES (
+        v_user_id,
+        v_organization_id,
+        p_driver_id,
+        'automatic',
+        v_amount,
+        p_week_start,
+        p_week_start,
+        'Auto bonus for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99')) || ' weekly gross'
+      );
+    END IF;
+    RETURN;
+  END IF;
+
+  -- Split week: corrections on open days are redone, the rest stays as paid
+  DELETE FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type = 'adjustment'
+    AND NOT public.is_payroll_date_locked(v_organization_id, date);
+
+  SELECT COALESCE(sum(amount), 0), COALESCE(v_user_id, (array_agg(user_id ORDER BY created_at))[1])
+  INTO v_paid, v_user_id
+  FROM public.bonuses
+  WHERE driver_id = p_driver_id
+    AND week_start = p_week_start
+    AND bonus_type IN ('automatic', 'adjustment');
+
+  IF v_amount <> v_paid AND v_user_id IS NOT NULL THEN
+    INSERT INTO public.bonuses (user_id, organization_id, driver_id, bonus_type, amount, week_start, date, note)
+    VALUES (
+      v_user_id,
+      v_organization_id,
+      p_driver_id,
+      'adjustment',
+      v_amount - v_paid,
+      p_week_start,
+      v_open_date,
+      'Auto bonus correction for $' || trim(trailing '.' FROM to_char(v_gross, 'FM999,999,990.99'))
+        || ' gross in the week of ' || to_char(p_week_start, 'MM/DD/YYYY')
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_driver_week_bonus(UUID, DATE) FROM PUBLIC, anon, authenticated;
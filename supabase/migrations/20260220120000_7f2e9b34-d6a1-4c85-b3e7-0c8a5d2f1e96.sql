@@ -0,0 +1,173 @@
+-- Viewers see only dashboards, and the database enforces it: loads, bonuses, prebook
+-- notes and the rows behind them are readable by the other roles only. Dashboards read
+-- totals through aggregate functions that run as their owner for any member.
+CREATE OR REPLACE FUNCTION public.can_view_organization_records(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.has_organization_role(p_organization_id, '{owner,dispatcher,accountant}');
+$$;
+
+DROP POLICY "Members can view organization loads" ON public.loads;
+DROP POLICY "Members can view organization bonuses" ON public.bonuses;
+DROP POLICY "Members can view organization prebook notes" ON public.prebook_notes;
+DROP POLICY "Members can view organization load status history" ON public.load_status_history;
+DROP POLICY "Members can view organization load stops" ON public.load_stops;
+DROP POLICY "Members can view organization load charges" ON public.load_charges;
+DROP POLICY "Members can view organization invoices" ON public.invoices;
+DROP POLICY "Members can view organization invoice lines" ON public.invoice_lines;
+DROP POLICY "Members can view organization invoice payments" ON public.invoice_payments;
+DROP POLICY "Members can view organization payroll periods" ON public.payroll_periods;
+
+CREATE POLICY "Record viewers can view organization loads" ON public.loads
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization bonuses" ON public.bonuses
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization prebook notes" ON public.prebook_notes
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization load status history" ON public.load_status_history
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization load stops" ON public.load_stops
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization load charges" ON public.load_charges
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization invoices" ON public.invoices
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization invoice lines" ON public.invoice_lines
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+CREATE POLICY "Record viewers can view organization invoice payments" ON public.invoice_payments
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+-- Closed periods carry a snapshot of their loads and bonuses
+CREATE POLICY "Record viewers can view organization payroll periods" ON public.payroll_periods
+  FOR SELECT TO authenticated USING (public.can_view_organization_records(organization_id));
+
+-- Closed period totals for the dashboard, without the snapshot
+CREATE OR REPLACE FUNCTION public.get_payroll_period_totals(p_organization_id UUID)
+RETURNS SETOF public.payroll_periods
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT (jsonb_populate_record(NULL::public.payroll_periods, to_jsonb(p) || '{"snapshot": {}}')).*
+  FROM public.payroll_periods p
+  WHERE p.organization_id = p_organization_id
+    AND public.is_organization_member(p_organization_id)
+  ORDER BY p.start_date DESC;
+$$;
+
+-- Dashboard aggregates, for members of the organization only
+CREATE OR REPLACE FUNCTION public.get_gross_by_driver(p_organization_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  driver_id UUID,
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  load_count BIGINT,
+  mileage_gross NUMERIC,
+  loaded_miles BIGINT,
+  deadhead_miles BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    l.driver_id,
+    COALESCE(sum(public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.driver_gross_charges)) FILTER (WHERE l.load_type = 'FULL'), 0),
+    COALESCE(sum(public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.driver_gross_charges)) FILTER (WHERE l.load_type = 'PARTIAL'), 0),
+    sum(public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.driver_gross_charges)),
+    count(*),
+    COALESCE(sum(l.rate) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0),
+    COALESCE(sum(l.loaded_miles) FILTER (WHERE public.load_counts_toward_gross(l.status)), 0),
+    COALESCE(sum(COALESCE(l.deadhead_miles, 0)) FILTER (WHERE public.load_counts_toward_gross(l.status) AND l.loaded_miles IS NOT NULL), 0)
+  FROM public.loads l
+  WHERE l.organization_id = p_organization_id
+    AND public.is_organization_member(p_organization_id)
+    AND l.delivery_date BETWEEN p_start AND p_end
+    AND public.is_gross_load(l.status, l.tonu_amount)
+  GROUP BY l.driver_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_salary_totals(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE,
+  p_dispatcher_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  full_gross NUMERIC,
+  partial_gross NUMERIC,
+  total_gross NUMERIC,
+  full_load_commission NUMERIC,
+  partial_load_commission NUMERIC,
+  full_percents NUMERIC[],
+  partial_percents NUMERIC[],
+  total_bonuses NUMERIC,
+  total_adjustments NUMERIC,
+  total_salary NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH period_loads AS (
+    SELECT
+      l.load_type,
+      public.load_gross_with_charges(l.status, l.rate, l.tonu_amount, l.commission_charges) AS rate,
+      CASE
+        WHEN public.load_counts_toward_gross(l.status)
+          THEN public.commission_percent_on(l.organization_id, l.user_id, l.delivery_date, l.load_type)
+        ELSE public.tonu_percent_on(l.organization_id, l.user_id, l.delivery_date)
+      END AS percent
+    FROM public.loads l
+    WHERE l.organization_id = p_organization_id
+      AND public.is_organization_member(p_organization_id)
+      AND l.delivery_date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR l.user_id = p_dispatcher_id)
+      AND public.is_gross_load(l.status, l.tonu_amount)
+  ),
+  load_totals AS (
+    SELECT
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_sum,
+      COALESCE(sum(pl.rate) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_sum,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'FULL'), 0) AS full_commission,
+      COALESCE(sum(pl.rate * pl.percent / 100) FILTER (WHERE pl.load_type = 'PARTIAL'), 0) AS partial_commission,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'FULL'), '{}') AS full_rates,
+      COALESCE(array_agg(DISTINCT pl.percent ORDER BY pl.percent) FILTER (WHERE pl.load_type = 'PARTIAL'), '{}') AS partial_rates
+    FROM period_loads pl
+  ),
+  bonus_totals AS (
+    SELECT
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type <> 'adjustment'), 0) AS bonus_sum,
+      COALESCE(sum(b.amount) FILTER (WHERE b.bonus_type = 'adjustment'), 0) AS adjustment_sum
+    FROM public.bonuses b
+    WHERE b.organization_id = p_organization_id
+      AND public.is_organization_member(p_organization_id)
+      AND b.date BETWEEN p_start AND p_end
+      AND (p_dispatcher_id IS NULL OR b.user_id = p_dispatcher_id)
+  )
+  SELECT
+    lt.full_sum,
+    lt.partial_sum,
+    lt.full_sum + lt.partial_sum,
+    lt.full_commission,
+    lt.partial_commission,
+    lt.full_rates,
+    lt.partial_rates,
+    bt.bonus_sum,
+    bt.adjustment_sum,
+    lt.full_commission + lt.partial_commission + bt.bonus_sum + bt.adjustment_sum
+  FROM load_totals lt
+  CROSS JOIN bonus_totals bt;
+$$;
@@ -0,0 +1,75 @@
+-- Closes a payroll period with totals and a snapshot taken by the database. The
+-- loads and bonuses are locked against writes until the period is in, so nothing can
+-- be added between the snapshot and the lock that prevent_locked_load_changes applies.
+CREATE OR REPLACE FUNCTION public.close_payroll_period(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE
+)
+RETURNS public.payroll_periods
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_totals RECORD;
+  v_period public.payroll_periods;
+BEGIN
+  IF NOT public.has_organization_role(p_organization_id, '{owner,accountant}') THEN
+    RAISE EXCEPTION 'Not allowed to close payroll periods';
+  END IF;
+
+  LOCK TABLE public.loads, public.bonuses IN SHARE MODE;
+
+  SELECT * INTO v_totals FROM public.get_salary_totals(p_organization_id, p_start, p_end);
+
+  INSERT INTO public.payroll_periods (
+    organization_id,
+    user_id,
+    start_date,
+    end_date,
+    full_gross,
+    partial_gross,
+    total_gross,
+    full_load_commission,
+    partial_load_commission,
+    total_bonuses,
+    total_adjustments,
+    total_salary,
+    snapshot
+  )
+  VALUES (
+    p_organization_id,
+    auth.uid(),
+    p_start,
+    p_end,
+    v_totals.full_gross,
+    v_totals.partial_gross,
+    v_totals.total_gross,
+    v_totals.full_load_commission,
+    v_totals.partial_load_commission,
+    v_totals.total_bonuses,
+    v_totals.total_adjustments,
+    v_totals.total_salary,
+    jsonb_build_object(
+      'loads', COALESCE((
+        SELECT jsonb_agg(to_jsonb(l) ORDER BY l.delivery_date DESC, l.id)
+        FROM public.loads l
+        WHERE l.organization_id = p_organization_id
+          AND l.delivery_date BETWEEN p_start AND p_end
+      ), '[]'::jsonb),
+      'bonuses', COALESCE((
+        SELECT jsonb_agg(to_jsonb(b) ORDER BY b.date DESC, b.id)
+        FROM public.bonuses b
+        WHERE b.organization_id = p_organization_id
+          AND b.date BETWEEN p_start AND p_end
+      ), '[]'::jsonb)
+    )
+  )
+  RETURNING * INTO v_period;
+
+  RETURN v_period;
+END;
+$$;
+
+-- Periods are only closed through close_payroll_period, so their totals can't be sent in
+DROP POLICY "Accountants can insert organization payroll periods" ON public.payroll_periods;
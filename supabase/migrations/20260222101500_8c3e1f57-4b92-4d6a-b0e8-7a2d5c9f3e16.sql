@@ -0,0 +1,148 @@
+-- The load row now takes its origin, destination and dates from its stops here rather
+-- than from the client, so the two can't drift apart. Returns the updated load.
+DROP FUNCTION public.replace_load_stops(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.replace_load_stops(p_load_id UUID, p_stops JSONB)
+RETURNS public.loads
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_load public.loads;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_load FROM public.loads WHERE id = p_load_id;
+  IF v_load.id IS NULL OR NOT public.has_organization_role(v_load.organization_id, '{owner,dispatcher}') THEN
+    RAISE EXCEPTION 'Not allowed to edit this load';
+  END IF;
+  IF public.is_payroll_date_locked(v_load.organization_id, v_load.delivery_date) THEN
+    RAISE EXCEPTION 'Payroll period is closed for %', v_load.delivery_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_count := jsonb_array_length(p_stops);
+  IF v_count < 2
+    OR p_stops -> 0 ->> 'stop_type' <> 'pickup'
+    OR p_stops -> (v_count - 1) ->> 'stop_type' <> 'delivery' THEN
+    RAISE EXCEPTION 'A route starts with a pickup and ends with a delivery'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.load_stops WHERE load_id = p_load_id;
+
+  INSERT INTO public.load_stops (
+    organization_id, load_id, sequence, stop_type, city, state, appointment_date, window_start, window_end
+  )
+  SELECT
+    v_load.organization_id,
+    p_load_id,
+    s.ordinality,
+    s.stop_type,
+    s.city,
+    nullif(s.state, ''),
+    s.appointment_date,
+    s.window_start,
+    s.window_end
+  FROM ROWS FROM (
+    jsonb_to_recordset(p_stops) AS (
+      stop_type public.load_stop_type,
+      city TEXT,
+      state TEXT,
+      appointment_date DATE,
+      window_start TIME,
+      window_end TIME
+    )
+  ) WITH ORDINALITY AS s(stop_type, city, state, appointment_date, window_start, window_end, ordinality);
+
+  -- The route starts with a pickup and ends with a delivery, so its ends are the first
+  -- pickup and last delivery. Mirrors summarizeStops; a new delivery date in a closed
+  -- period is rejected by prevent_locked_load_changes.
+  UPDATE public.loads l
+  SET
+    origin = first_stop.city || COALESCE(', ' || first_stop.state, ''),
+    pickup_date = first_stop.appointment_date,
+    destination = last_stop.city || COALESCE(', ' || last_stop.state, ''),
+    delivery_date = last_stop.appointment_date,
+    updated_by = auth.uid()
+  FROM public.load_stops first_stop, public.load_stops last_stop
+  WHERE l.id = p_load_id
+    AND first_stop.load_id = p_load_id AND first_stop.sequence = 1
+    AND last_stop.load_id = p_load_id AND last_stop.sequence = v_count
+  RETURNING l.* INTO v_load;
+
+  RETURN v_load;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_load_stops(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.replace_load_stops(UUID, JSONB) TO authenticated;
+
+-- Adds a load (p_load_id null) or edits one, and replaces its stops when given, in one
+-- transaction. Runs as the caller, so the loads policies apply. An edit with
+-- p_expected_updated_at only applies to that version of the load and returns no rows
+-- when someone else saved it first.
+CREATE OR REPLACE FUNCTION public.save_load(
+  p_load JSONB,
+  p_load_id UUID DEFAULT NULL,
+  p_expected_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_stops JSONB DEFAULT NULL
+)
+RETURNS SETOF public.loads
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_load public.loads;
+BEGIN
+  IF p_load_id IS NULL THEN
+    INSERT INTO public.loads (
+      organization_id, user_id, load_id, driver_id, pickup_date, delivery_date, origin, destination,
+      rate, load_type, connected_full_load_id, broker_id, loaded_miles, deadhead_miles
+    )
+    SELECT
+      r.organization_id, auth.uid(), r.load_id, r.driver_id, r.pickup_date, r.delivery_date, r.origin, r.destination,
+      r.rate, r.load_type, r.connected_full_load_id, r.broker_id, r.loaded_miles, r.deadhead_miles
+    FROM jsonb_populate_record(NULL::public.loads, p_load) r
+    RETURNING * INTO v_load;
+  ELSE
+    -- Fields left out of p_load keep their current values
+    UPDATE public.loads l
+    SET
+      load_id = r.load_id,
+      driver_id = r.driver_id,
+      pickup_date = r.pickup_date,
+      delivery_date = r.delivery_date,
+      origin = r.origin,
+      destination = r.destination,
+      rate = r.rate,
+      load_type = r.load_type,
+      connected_full_load_id = r.connected_full_load_id,
+      broker_id = r.broker_id,
+      loaded_miles = r.loaded_miles,
+      deadhead_miles = r.deadhead_miles,
+      cancellation_reason = r.cancellation_reason,
+      tonu_amount = r.tonu_amount
+    FROM (
+      SELECT (jsonb_populate_record(current_load, p_load)).*
+      FROM public.loads current_load
+      WHERE current_load.id = p_load_id
+    ) r
+    WHERE l.id = p_load_id
+      AND (p_expected_updated_at IS NULL OR l.updated_at = p_expected_updated_at)
+    RETURNING l.* INTO v_load;
+
+    IF v_load.id IS NULL THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_stops IS NOT NULL THEN
+    v_load := public.replace_load_stops(v_load.id, p_stops);
+  END IF;
+
+  RETURN NEXT v_load;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_load(JSONB, UUID, TIMESTAMPTZ, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_load(JSONB, UUID, TIMESTAMPTZ, JSONB) TO authenticated;
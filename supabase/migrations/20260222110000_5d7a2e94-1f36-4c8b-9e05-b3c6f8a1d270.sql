@@ -0,0 +1,111 @@
+-- The charge totals on a load are kept by replace_load_charges alone. It runs as the
+-- table owner; members writing loads directly can't set them.
+CREATE OR REPLACE FUNCTION public.protect_load_charge_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN new;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    AND (new.charges_total, new.driver_gross_charges, new.commission_charges, new.reimbursement_charges) <> (0, 0, 0, 0) THEN
+    RAISE EXCEPTION 'Load charge totals are kept by replace_load_charges'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND (new.charges_total, new.driver_gross_charges, new.commission_charges, new.reimbursement_charges)
+      IS DISTINCT FROM (old.charges_total, old.driver_gross_charges, old.commission_charges, old.reimbursement_charges) THEN
+    RAISE EXCEPTION 'Load charge totals are kept by replace_load_charges'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN new;
+END;
+$$;
+
+CREATE TRIGGER protect_load_charge_totals
+  BEFORE INSERT OR UPDATE ON public.loads
+  FOR EACH ROW EXECUTE FUNCTION public.protect_load_charge_totals();
+
+-- Saving a load also replaces its charges when given, in the same transaction as the
+-- load and its stops
+DROP FUNCTION public.save_load(JSONB, UUID, TIMESTAMPTZ, JSONB);
+
+CREATE OR REPLACE FUNCTION public.save_load(
+  p_load JSONB,
+  p_load_id UUID DEFAULT NULL,
+  p_expected_updated_at TIMESTAMPTZ DEFAULT NULL,
+  p_stops JSONB DEFAULT NULL,
+  p_charges JSONB DEFAULT NULL
+)
+RETURNS SETOF public.loads
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_load public.loads;
+BEGIN
+  IF p_load_id IS NULL THEN
+    INSERT INTO public.loads (
+      organization_id, user_id, load_id, driver_id, pickup_date, delivery_date, origin, destination,
+      rate, load_type, connected_full_load_id, broker_id, loaded_miles, deadhead_miles
+    )
+    SELECT
+      r.organization_id, auth.uid(), r.load_id, r.driver_id, r.pickup_date, r.delivery_date, r.origin, r.destination,
+      r.rate, r.load_type, r.connected_full_load_id, r.broker_id, r.loaded_miles, r.deadhead_miles
+    FROM jsonb_populate_record(NULL::public.loads, p_load) r
+    RETURNING * INTO v_load;
+  ELSE
+    -- Fields left out of p_load keep their current values
+    UPDATE public.loads l
+    SET
+      load_id = r.load_id,
+      driver_id = r.driver_id,
+      pickup_date = r.pickup_date,
+      delivery_date = r.delivery_date,
+      origin = r.origin,
+      destination = r.destination,
+      rate = r.rate,
+      load_type = r.load_type,
+      connected_full_load_id = r.connected_full_load_id,
+      broker_id = r.broker_id,
+      loaded_miles = r.loaded_miles,
+      deadhead_miles = r.deadhead_miles,
+      cancellation_reason = r.cancellation_reason,
+      tonu_amount = r.tonu_amount
+    FROM (
+      SELECT (jsonb_populate_record(current_load, p_load)).*
+      FROM public.loads current_load
+      WHERE current_load.id = p_load_id
+    ) r
+    WHERE l.id = p_load_id
+      AND (p_expected_updated_at IS NULL OR l.updated_at = p_expected_updated_at)
+    RETURNING l.* INTO v_load;
+
+    IF v_load.id IS NULL THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_stops IS NOT NULL THEN
+    v_load := public.replace_load_stops(v_load.id, p_stops);
+  END IF;
+
+  IF p_charges IS NOT NULL THEN
+    v_load := public.replace_load_charges(v_load.id, p_charges);
+  END IF;
+
+  RETURN NEXT v_load;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_load(JSONB, UUID, TIMESTAMPTZ, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_load(JSONB, UUID, TIMESTAMPTZ, JSONB, JSONB) TO authenticated;
+
+-- Removing a rule puts its charge type back on the default flags
+CREATE POLICY "Dispatchers can delete organization load charge rules" ON public.load_charge_rules
+  FOR DELETE TO authenticated USING (public.has_organization_role(organization_id, '{owner,dispatcher}'));
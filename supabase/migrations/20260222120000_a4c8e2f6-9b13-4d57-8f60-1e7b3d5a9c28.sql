@@ -0,0 +1,104 @@
+-- Closed periods also keep the commission percent applied to each load, the TONU
+-- percent for cancelled loads, so a plan edited after the close doesn't change what
+-- one dispatcher's share of the period shows.
+CREATE OR REPLACE FUNCTION public.close_payroll_period(
+  p_organization_id UUID,
+  p_start DATE,
+  p_end DATE
+)
+RETURNS public.payroll_periods
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_totals RECORD;
+  v_period public.payroll_periods;
+BEGIN
+  IF NOT public.has_organization_role(p_organization_id, '{owner,accountant}') THEN
+    RAISE EXCEPTION 'Not allowed to close payroll periods';
+  END IF;
+
+  LOCK TABLE public.loads, public.bonuses IN SHARE MODE;
+
+  SELECT * INTO v_totals FROM public.get_salary_totals(p_organization_id, p_start, p_end);
+
+  INSERT INTO public.payroll_periods (
+    organization_id,
+    user_id,
+    start_date,
+    end_date,
+    full_gross,
+    partial_gross,
+    total_gross,
+    full_load_commission,
+    partial_load_commission,
+    total_bonuses,
+    total_adjustments,
+    total_salary,
+    snapshot
+  )
+  VALUES (
+    p_organization_id,
+    auth.uid(),
+    p_start,
+    p_end,
+    v_totals.full_gross,
+    v_totals.partial_gross,
+    v_totals.total_gross,
+    v_totals.full_load_commission,
+    v_totals.partial_load_commission,
+    v_totals.total_bonuses,
+    v_totals.total_adjustments,
+    v_totals.total_salary,
+    jsonb_build_object(
+      'loads', COALESCE((
+        SELECT jsonb_agg(to_jsonb(l) ORDER BY l.delivery_date DESC, l.id)
+        FROM public.loads l
+        WHERE l.organization_id = p_organization_id
+          AND l.delivery_date BETWEEN p_start AND p_end
+      ), '[]'::jsonb),
+      'bonuses', COALESCE((
+        SELECT jsonb_agg(to_jsonb(b) ORDER BY b.date DESC, b.id)
+        FROM public.bonuses b
+        WHERE b.organization_id = p_organization_id
+          AND b.date BETWEEN p_start AND p_end
+      ), '[]'::jsonb),
+      'commission_percents', COALESCE((
+        SELECT jsonb_object_agg(
+          l.id,
+          CASE
+            WHEN public.load_counts_toward_gross(l.status)
+              THEN public.commission_percent_on(l.organization_id, l.user_id, l.delivery_date, l.load_type)
+            ELSE public.tonu_percent_on(l.organization_id, l.user_id, l.delivery_date)
+          END
+        )
+        FROM public.loads l
+        WHERE l.organization_id = p_organization_id
+          AND l.delivery_date BETWEEN p_start AND p_end
+          AND public.is_gross_load(l.status, l.tonu_amount)
+      ), '{}'::jsonb)
+    )
+  )
+  RETURNING * INTO v_period;
+
+  RETURN v_period;
+END;
+$$;
+
+-- Periods closed earlier keep the percents their plans give now, so later edits no
+-- longer move them. Snapshots from before load statuses count every load.
+UPDATE public.payroll_periods p
+SET snapshot = p.snapshot || jsonb_build_object(
+  'commission_percents', COALESCE((
+    SELECT jsonb_object_agg(
+      l ->> 'id',
+      CASE
+        WHEN COALESCE(l ->> 'status', '') <> 'cancelled'
+          THEN public.commission_percent_on(p.organization_id, (l ->> 'user_id')::UUID, (l ->> 'delivery_date')::DATE, (l ->> 'load_type')::public.load_type)
+        ELSE public.tonu_percent_on(p.organization_id, (l ->> 'user_id')::UUID, (l ->> 'delivery_date')::DATE)
+      END
+    )
+    FROM jsonb_array_elements(COALESCE(p.snapshot -> 'loads', '[]'::jsonb)) l
+  ), '{}'::jsonb)
+)
+WHERE NOT p.snapshot ? 'commission_percents';